@@ -170,11 +170,7 @@ async function runExamples() {
   console.log(`✓ Added ${searchUsers.length} users for searching`);
 
   // Search using filter
-  const searchResults = await db.filter({
-    field: 'age',
-    operator: '===',
-    value: 28
-  });
+  const searchResults = await db.filter({ age: 28 });
   console.log(`✓ Users aged 28: ${searchResults.length}`);
   console.log(`  Names: ${searchResults.map(u => u.name).join(', ')}`);
 
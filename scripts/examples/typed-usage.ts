@@ -293,9 +293,10 @@ export async function searchExample() {
   console.log('Emails de admins activos:', adminEmails);
 
   // Búsqueda de texto en campos específicos
-  const usersWithGmail = await userManager.search('gmail', {
+  const gmailHits = await userManager.search('gmail', {
     fields: ['email']
   });
+  const usersWithGmail = gmailHits.map(hit => hit.item);
 
   return { activeAdmins, adminEmails, usersWithGmail };
 }
@@ -1,6 +1,7 @@
 // Cursor helper module
 
 import type { CursorOptions } from '../types.js';
+import { continueToPosition, isPastPosition, toIDBQuery } from '../../utils/keys.js';
 
 /**
  * Callback for cursor iteration
@@ -33,7 +34,7 @@ export class CursorHelper {
    * Iterate over all records using a cursor
    */
   async iterate<T = any>(callback: CursorCallback<T>): Promise<void> {
-    const { indexName, query, direction = 'next', limit, offset } = this.options;
+    const { indexName, query, direction = 'next', limit, offset, after, project } = this.options;
     
     return new Promise((resolve, reject) => {
       const transaction = this.db.transaction([this.storeName], 'readonly');
@@ -43,9 +44,9 @@ export class CursorHelper {
       
       if (indexName) {
         const index = store.index(indexName);
-        request = index.openCursor(query, direction);
+        request = index.openCursor(toIDBQuery(query), direction);
       } else {
-        request = store.openCursor(query, direction);
+        request = store.openCursor(toIDBQuery(query), direction);
       }
       
       let index = 0;
@@ -59,6 +60,12 @@ export class CursorHelper {
           return;
         }
 
+        // Jump past the keyset position before applying offset
+        if (after && !isPastPosition(cursor, after, direction)) {
+          continueToPosition(cursor, after);
+          return;
+        }
+
         // Handle offset
         if (offset && skipped < offset) {
           skipped++;
@@ -66,7 +73,7 @@ export class CursorHelper {
           return;
         }
 
-        const shouldContinue = callback(cursor.value as T, cursor);
+        const shouldContinue = callback((project ? project(cursor.value) : cursor.value) as T, cursor);
         
         if (shouldContinue === false) {
           resolve();
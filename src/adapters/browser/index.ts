@@ -6,10 +6,13 @@ import type {
   TransactionMode, 
   BatchItem, 
   DatabaseInfo,
-  CursorOptions 
+  CursorOptions,
+  AdapterTransaction,
+  TransactionOptions
 } from '../types.js';
 import { TransactionManager, createTransaction, executeRequest, executeBatchRequests } from './transaction.js';
 import { CursorHelper, createCursor, iterateCursor, searchByIndex } from './cursor.js';
+import { toIDBQuery } from '../../utils/keys.js';
 
 // Re-export types and helpers
 export { TransactionManager, createTransaction, executeRequest, executeBatchRequests };
@@ -24,6 +27,8 @@ export type UpgradeHandler = (event: IDBVersionChangeEvent) => void;
  */
 export class BrowserAdapter implements StorageAdapter {
   private upgradeHandlers: Map<string, UpgradeHandler> = new Map();
+  // Handle of each open transaction -> its database, stores and IndexedDB transaction
+  private handles: WeakMap<object, { db: IDBDatabase; storeNames: string[]; transaction: IDBTransaction }> = new WeakMap();
 
   /**
    * Opens a database with optional upgrade handler
@@ -59,6 +64,77 @@ export class BrowserAdapter implements StorageAdapter {
     return { storeName, mode };
   }
 
+  /**
+   * Opens one IndexedDB transaction over `storeNames`. Operations given its `db` handle run
+   * in it until commit() or abort(); operations on the database itself open their own. As
+   * with any IndexedDB transaction, it commits on its own if it is left without pending
+   * requests (e.g. awaiting a timer).
+   */
+  async beginTransaction(
+    db: IDBDatabase,
+    storeNames: string[],
+    mode: TransactionMode,
+    options?: TransactionOptions
+  ): Promise<AdapterTransaction> {
+    const current = this.handles.get(db);
+    if (options?.join && current && storeNames.every(name => current.storeNames.includes(name))) {
+      // IndexedDB cannot undo part of a transaction, so aborting a joined one aborts it all
+      return {
+        db,
+        storeNames,
+        mode,
+        commit: async () => {},
+        abort: async () => {
+          try {
+            current.transaction.abort();
+          } catch {
+            // Already finished
+          }
+        }
+      };
+    }
+
+    const database = current?.db ?? db;
+    const transaction = database.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction was aborted'));
+    });
+    // Awaited by commit(); an abort settles it as well
+    done.catch(() => {});
+
+    // Stand-in database whose transaction() is this transaction
+    const handle = { transaction: () => transaction } as unknown as IDBDatabase;
+    this.handles.set(handle, { db: database, storeNames, transaction });
+    const release = () => {
+      this.handles.delete(handle);
+    };
+
+    return {
+      db: handle,
+      storeNames,
+      mode,
+      commit: async () => {
+        release();
+        try {
+          transaction.commit?.();
+        } catch {
+          // No longer active: it commits on its own once its requests are done
+        }
+        await done;
+      },
+      abort: async () => {
+        release();
+        try {
+          transaction.abort();
+        } catch {
+          // Already finished
+        }
+        await done.catch(() => {});
+      }
+    };
+  }
+
   /**
    * Creates or retrieves an object store
    */
@@ -70,6 +146,15 @@ export class BrowserAdapter implements StorageAdapter {
     return db.createObjectStore(name, options);
   }
 
+  /**
+   * Deletes an object store (only allowed during a version upgrade)
+   */
+  deleteObjectStore(db: any, name: string): void {
+    if (db.objectStoreNames.contains(name)) {
+      db.deleteObjectStore(name);
+    }
+  }
+
   /**
    * Creates an index
    */
@@ -116,7 +201,7 @@ export class BrowserAdapter implements StorageAdapter {
    * Puts a value
    */
   async put(store: StoreInfo, value: any, key?: any): Promise<any> {
-    const op = key ? (s: IDBObjectStore) => s.put(value, key) : (s: IDBObjectStore) => s.put(value);
+    const op = key !== undefined ? (s: IDBObjectStore) => s.put(value, key) : (s: IDBObjectStore) => s.put(value);
     return executeRequest(store.db, store.storeName, 'readwrite', op);
   }
 
@@ -127,7 +212,7 @@ export class BrowserAdapter implements StorageAdapter {
     if (items.length === 0) return [];
     
     const operations = items.map(item => 
-      item.key ? (s: IDBObjectStore) => s.put(item.value, item.key) : (s: IDBObjectStore) => s.put(item.value)
+      item.key !== undefined ? (s: IDBObjectStore) => s.put(item.value, item.key) : (s: IDBObjectStore) => s.put(item.value)
     );
     return executeBatchRequests(store.db, store.storeName, 'readwrite', operations);
   }
@@ -136,7 +221,7 @@ export class BrowserAdapter implements StorageAdapter {
    * Adds a value
    */
   async add(store: StoreInfo, value: any, key?: any): Promise<any> {
-    const op = key ? (s: IDBObjectStore) => s.add(value, key) : (s: IDBObjectStore) => s.add(value);
+    const op = key !== undefined ? (s: IDBObjectStore) => s.add(value, key) : (s: IDBObjectStore) => s.add(value);
     return executeRequest(store.db, store.storeName, 'readwrite', op);
   }
 
@@ -172,7 +257,7 @@ export class BrowserAdapter implements StorageAdapter {
       const transaction = store.db.transaction([store.storeName], 'readonly');
       const s = transaction.objectStore(store.storeName);
       const index = s.index(indexName);
-      const request = index.getAll(query);
+      const request = index.getAll(toIDBQuery(query));
 
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(new Error(`Failed to get from index: ${request.error?.message}`));
@@ -189,8 +274,10 @@ export class BrowserAdapter implements StorageAdapter {
   /**
    * Counts records
    */
-  async count(store: StoreInfo, query?: any): Promise<number> {
-    return executeRequest(store.db, store.storeName, 'readonly', s => s.count(query));
+  async count(store: StoreInfo, query?: any, indexName?: string): Promise<number> {
+    return executeRequest(store.db, store.storeName, 'readonly', s =>
+      indexName !== undefined ? s.index(indexName).count(toIDBQuery(query)) : s.count(toIDBQuery(query))
+    );
   }
 
   /**
@@ -1,20 +1,43 @@
 // Memory Adapter - In-memory storage for all environments (browser, node, testing)
 // This adapter stores data in memory without persistence
 
-import type { StorageAdapter, StoreInfo, BatchItem, DatabaseInfo, CursorOptions } from './types.js';
+import type {
+  StorageAdapter,
+  StoreInfo,
+  BatchItem,
+  DatabaseInfo,
+  CursorOptions,
+  AdapterTransaction,
+  TransactionMode,
+  TransactionOptions
+} from './types.js';
+import { UndoLogTransactions } from './undo-log.js';
+import { countPositions, insertPosition, removePosition, scanPositions, type SortedPositions } from './positions.js';
+import { StoreNotFoundError, ValidationError, VersionError } from '../core/errors.js';
+import { encodeKey, getKeyPathValue, isValidKey, withKeyPathValue } from '../utils/keys.js';
 
 interface MemoryIndex {
   name: string;
   keyPath: string | string[];
   unique: boolean;
-  data: Map<any, any[]>;
+  multiEntry: boolean;
+  // (index key, primary key) pairs in cursor order
+  positions: SortedPositions;
+}
+
+interface MemoryRecord {
+  key: any;
+  value: any;
 }
 
 interface MemoryStore {
   name: string;
-  keyPath: string;
+  keyPath: string | string[];
   autoIncrement: boolean;
-  data: Map<any, any>;
+  // Encoded primary key -> record, see encodeKey()
+  data: Map<string, MemoryRecord>;
+  // Primary keys in cursor order
+  keys: SortedPositions;
   indexes: Map<string, MemoryIndex>;
   autoIncrementCounter: number;
 }
@@ -28,26 +51,61 @@ interface MemoryDatabase {
 export class MemoryAdapter implements StorageAdapter {
   private databases: Map<string, MemoryDatabase> = new Map();
   private upgradeHandlers: Map<string, any> = new Map();
+  private transactions = new UndoLogTransactions({
+    begin: log => {
+      for (const storeName of log.storeNames) {
+        const store = (log.db as MemoryDatabase).stores.get(storeName);
+        if (!store) continue;
+        const counter = store.autoIncrementCounter;
+        log.onRollback(() => {
+          store.autoIncrementCounter = counter;
+        });
+      }
+    },
+    restore: (log, storeName, encoded, previous: MemoryRecord | undefined) => {
+      const store = (log.db as MemoryDatabase).stores.get(storeName);
+      if (!store) return;
 
+      this.setRecord(store, encoded, previous);
+    }
+  });
+
+  /**
+   * Opens the database like indexedDB.open: a new database or a higher version runs the
+   * upgrade handler, a lower version than the stored one fails with VersionError.
+   * If the handler throws, the database is left as it was before the open.
+   */
   async openDatabase(name: string, version: number): Promise<MemoryDatabase> {
-    if (this.databases.has(name)) {
-      return this.databases.get(name)!;
+    const existing = this.databases.get(name);
+    if (existing && version < existing.version) {
+      throw new VersionError(`Database '${name}' is at version ${existing.version}, cannot open it with version ${version}`);
+    }
+    if (existing && version === existing.version) {
+      return existing;
     }
 
-    const db: MemoryDatabase = {
+    const db: MemoryDatabase = existing ?? {
       name,
       version,
       stores: new Map()
     };
+    const oldVersion = existing ? existing.version : 0;
+    const snapshot = existing ? structuredClone(existing.stores) : null;
 
     this.databases.set(name, db);
 
-    // Call upgrade handler
     const handler = this.upgradeHandlers.get(name);
-    if (handler) {
-      handler({ oldVersion: 0, newVersion: version });
+    try {
+      if (handler) {
+        await handler({ db, oldVersion, newVersion: version });
+      }
+    } catch (error) {
+      if (snapshot) db.stores = snapshot;
+      else this.databases.delete(name);
+      throw error;
     }
 
+    db.version = version;
     return db;
   }
 
@@ -72,14 +130,26 @@ export class MemoryAdapter implements StorageAdapter {
     };
   }
 
-  createObjectStore(db: any, name: string, options?: { keyPath?: string; autoIncrement?: boolean }): any {
+  /**
+   * Starts a transaction over `storeNames`; abort() restores the records, indexes and
+   * autoIncrement counters written through its `db` handle. Writes are visible before commit.
+   */
+  async beginTransaction(db: any, storeNames: string[], mode: TransactionMode, options?: TransactionOptions): Promise<AdapterTransaction> {
+    return this.transactions.begin(db, storeNames, mode, options);
+  }
+
+  createObjectStore(db: any, name: string, options?: { keyPath?: string | string[]; autoIncrement?: boolean }): any {
     const database = db as MemoryDatabase;
-    
+    if (options?.autoIncrement && Array.isArray(options.keyPath)) {
+      throw new ValidationError(`Store '${name}' cannot use autoIncrement with a compound keyPath`);
+    }
+
     const store: MemoryStore = {
       name,
       keyPath: options?.keyPath || 'id',
       autoIncrement: options?.autoIncrement || false,
       data: new Map(),
+      keys: [],
       indexes: new Map(),
       autoIncrementCounter: 0
     };
@@ -88,38 +158,48 @@ export class MemoryAdapter implements StorageAdapter {
     return store;
   }
 
+  deleteObjectStore(db: any, name: string): void {
+    (db as MemoryDatabase).stores.delete(name);
+  }
+
   async get(store: StoreInfo, key: any): Promise<any> {
-    const db = this.databases.get(store.db.name);
+    const db = this.database(store);
     if (!db) return undefined;
 
     const storeData = db.stores.get(store.storeName);
     if (!storeData) return undefined;
 
-    return storeData.data.get(key) || null;
+    return storeData.data.get(encodeKey(key))?.value ?? null;
   }
 
+  /**
+   * Writes `value` under `key`, or under the value at the store's keyPath. An autoIncrement
+   * store without either generates the key, stores it at the keyPath and never reuses it;
+   * an explicit numeric key above the counter moves the counter past it. Returns the key.
+   */
   async put(store: StoreInfo, value: any, key?: any): Promise<any> {
-    const db = this.databases.get(store.db.name);
+    const db = this.database(store);
     if (!db) throw new Error('Database not found');
 
     const storeData = db.stores.get(store.storeName);
-    if (!storeData) throw new Error('Store not found');
+    if (!storeData) throw new StoreNotFoundError(store.storeName);
 
-    let finalKey = key;
+    let finalKey = key ?? getKeyPathValue(value, storeData.keyPath);
 
-    if (storeData.autoIncrement && !finalKey) {
+    if (storeData.autoIncrement && finalKey === undefined) {
       finalKey = ++storeData.autoIncrementCounter;
-      value = { ...value, [storeData.keyPath]: finalKey };
-    } else if (!finalKey) {
-      finalKey = value[storeData.keyPath];
+      value = withKeyPathValue(value, storeData.keyPath, finalKey);
+    } else if (!isValidKey(finalKey)) {
+      throw new ValidationError(`Invalid key for store '${store.storeName}' at keyPath ${JSON.stringify(storeData.keyPath)}`);
+    } else if (storeData.autoIncrement && typeof finalKey === 'number' && finalKey > storeData.autoIncrementCounter) {
+      storeData.autoIncrementCounter = Math.floor(finalKey);
     }
 
-    storeData.data.set(finalKey, value);
+    const encoded = encodeKey(finalKey);
+    this.transactions.record(store.db, store.storeName, encoded, storeData.data.get(encoded));
+    this.setRecord(storeData, encoded, { key: finalKey, value });
 
-    // Update indexes
-    this.updateIndexes(storeData, value, finalKey);
-
-    return value;
+    return finalKey;
   }
 
   async add(store: StoreInfo, value: any, key?: any): Promise<any> {
@@ -127,26 +207,25 @@ export class MemoryAdapter implements StorageAdapter {
   }
 
   async delete(store: StoreInfo, key: any): Promise<void> {
-    const db = this.databases.get(store.db.name);
+    const db = this.database(store);
     if (!db) return;
 
     const storeData = db.stores.get(store.storeName);
     if (!storeData) return;
 
-    storeData.data.delete(key);
-
-    // Update indexes
-    this.deleteFromIndexes(storeData, key);
+    const encoded = encodeKey(key);
+    this.transactions.record(store.db, store.storeName, encoded, storeData.data.get(encoded));
+    this.setRecord(storeData, encoded, undefined);
   }
 
   async getAll(store: StoreInfo): Promise<any[]> {
-    const db = this.databases.get(store.db.name);
+    const db = this.database(store);
     if (!db) return [];
 
     const storeData = db.stores.get(store.storeName);
     if (!storeData) return [];
 
-    return Array.from(storeData.data.values());
+    return Array.from(storeData.data.values(), record => record.value);
   }
 
   async putMany(store: StoreInfo, items: BatchItem[]): Promise<any[]> {
@@ -180,35 +259,45 @@ export class MemoryAdapter implements StorageAdapter {
   }
 
   async clear(store: StoreInfo): Promise<void> {
-    const db = this.databases.get(store.db.name);
+    const db = this.database(store);
     if (!db) return;
 
     const storeData = db.stores.get(store.storeName);
     if (!storeData) return;
 
-    storeData.data.clear();
-    storeData.autoIncrementCounter = 0;
+    if (this.transactions.isRecording(store.db, store.storeName)) {
+      for (const [encoded, record] of storeData.data) this.transactions.record(store.db, store.storeName, encoded, record);
+    }
 
-    // Clear indexes
+    storeData.data.clear();
+    storeData.keys.length = 0;
     for (const index of storeData.indexes.values()) {
-      index.data.clear();
+      index.positions.length = 0;
     }
   }
 
-  async count(store: StoreInfo, query?: any): Promise<number> {
-    const db = this.databases.get(store.db.name);
+  async count(store: StoreInfo, query?: any, indexName?: string): Promise<number> {
+    const db = this.database(store);
     if (!db) return 0;
 
     const storeData = db.stores.get(store.storeName);
     if (!storeData) return 0;
 
+    if (indexName !== undefined) {
+      return countPositions(this.getIndex(storeData, indexName).positions, query);
+    }
+
     if (query === undefined) {
       return storeData.data.size;
     }
 
+    if (this.isKeyQuery(query)) {
+      return countPositions(storeData.keys, query);
+    }
+
     // Count with query
     let count = 0;
-    for (const value of storeData.data.values()) {
+    for (const { value } of storeData.data.values()) {
       if (this.matchesQuery(value, query)) {
         count++;
       }
@@ -220,20 +309,24 @@ export class MemoryAdapter implements StorageAdapter {
     const database = db as MemoryDatabase;
     const store = database.stores.get(storeName);
     
-    if (!store) throw new Error('Store not found');
+    if (!store) throw new StoreNotFoundError(storeName);
+
+    const existingIndex = store.indexes.get(indexName);
+    if (existingIndex) return existingIndex;
 
     const index: MemoryIndex = {
       name: indexName,
       keyPath,
       unique: options?.unique || false,
-      data: new Map()
+      multiEntry: options?.multiEntry || false,
+      positions: []
     };
 
     store.indexes.set(indexName, index);
 
     // Rebuild index with existing data
-    for (const [key, value] of store.data.entries()) {
-      this.addToIndex(store, index, value, key);
+    for (const record of store.data.values()) {
+      this.addToIndex(index, record);
     }
 
     return index;
@@ -249,7 +342,7 @@ export class MemoryAdapter implements StorageAdapter {
   }
 
   async getAllFromIndex(store: StoreInfo, indexName: string, query?: any): Promise<any[]> {
-    const db = this.databases.get(store.db.name);
+    const db = this.database(store);
     if (!db) return [];
 
     const storeData = db.stores.get(store.storeName);
@@ -258,33 +351,32 @@ export class MemoryAdapter implements StorageAdapter {
     const index = storeData.indexes.get(indexName);
     if (!index) return [];
 
-    if (query === undefined) {
-      const results: any[] = [];
-      for (const values of index.data.values()) {
-        results.push(...values);
-      }
-      return results;
-    }
-
-    const values = index.data.get(query);
-    return values ? [...values] : [];
+    return scanPositions(index.positions, { query }).map(position => storeData.data.get(encodeKey(position.primaryKey))!.value);
   }
 
+  /**
+   * Iterates in key order (primary key, or index key when `indexName` is given),
+   * honoring key ranges, direction, offset and limit like an IDBCursor.
+   * Returning `false` from the callback stops the iteration.
+   */
   async iterate(store: StoreInfo, callback: any, options?: CursorOptions): Promise<void> {
-    const allData = await this.getAll(store);
-    
-    let result = allData;
-    
-    if (options?.offset) {
-      result = result.slice(options.offset);
-    }
-    
-    if (options?.limit) {
-      result = result.slice(0, options.limit);
-    }
+    const db = this.database(store);
+    if (!db) return;
+
+    const storeData = db.stores.get(store.storeName);
+    if (!storeData) return;
 
-    for (const item of result) {
-      await callback(item);
+    const sorted = options?.indexName !== undefined
+      ? this.getIndex(storeData, options.indexName).positions
+      : storeData.keys;
+
+    for (const position of scanPositions(sorted, options)) {
+      // The record may have been deleted by a previous callback
+      const record = storeData.data.get(encodeKey(position.primaryKey));
+      if (!record) continue;
+      const value = record.value;
+      const result = await callback(options?.project ? options.project(value) : value, position);
+      if (result === false) break;
     }
   }
 
@@ -328,11 +420,39 @@ export class MemoryAdapter implements StorageAdapter {
   }
 
   getObjectStoreNames(db: any): string[] {
-    const database = db as MemoryDatabase;
+    const database = this.transactions.database(db) as MemoryDatabase;
     return database ? Array.from(database.stores.keys()) : [];
   }
 
   // Helper methods
+  private database(store: StoreInfo): MemoryDatabase | undefined {
+    return this.databases.get(this.transactions.database(store.db).name);
+  }
+
+  private getIndex(store: MemoryStore, indexName: string): MemoryIndex {
+    const index = store.indexes.get(indexName);
+    if (!index) {
+      throw new Error(`Index '${indexName}' not found in store '${store.name}'`);
+    }
+    return index;
+  }
+
+  private isKeyQuery(query: any): boolean {
+    if (typeof query !== 'object' || query === null || Array.isArray(query) || query instanceof Date) {
+      return true;
+    }
+    return 'lower' in query || 'upper' in query;
+  }
+
+  private getIndexKeys(index: MemoryIndex, value: any): any[] {
+    const indexKey = getKeyPathValue(value, index.keyPath);
+
+    if (index.multiEntry && Array.isArray(indexKey)) {
+      return indexKey.filter(isValidKey);
+    }
+    return isValidKey(indexKey) ? [indexKey] : [];
+  }
+
   private matchesQuery(value: any, query: any): boolean {
     if (typeof query === 'object' && query !== null) {
       return Object.entries(query).every(([key, val]) => {
@@ -342,53 +462,32 @@ export class MemoryAdapter implements StorageAdapter {
     return false;
   }
 
-  private updateIndexes(store: MemoryStore, value: any, key: any): void {
-    for (const index of store.indexes.values()) {
-      this.addToIndex(store, index, value, key);
+  // Replaces (or with `undefined` deletes) the record under `encoded`, keeping keys and indexes in sync
+  private setRecord(store: MemoryStore, encoded: string, record: MemoryRecord | undefined): void {
+    const previous = store.data.get(encoded);
+    if (previous) {
+      removePosition(store.keys, { key: previous.key, primaryKey: previous.key });
+      for (const index of store.indexes.values()) {
+        for (const key of this.getIndexKeys(index, previous.value)) {
+          removePosition(index.positions, { key, primaryKey: previous.key });
+        }
+      }
     }
-  }
-
-  private addToIndex(_store: MemoryStore, index: MemoryIndex, value: any, _key: any): void {
-    const indexKey = Array.isArray(index.keyPath) 
-      ? index.keyPath.map(k => value[k]).join('_')
-      : value[index.keyPath];
 
-    if (indexKey === undefined) return;
-
-    if (!index.data.has(indexKey)) {
-      index.data.set(indexKey, []);
+    if (!record) {
+      store.data.delete(encoded);
+      return;
     }
-
-    const existing = index.data.get(indexKey)!;
-    const existingIndex = existing.findIndex(v => v[index.keyPath as string] === value[index.keyPath as string]);
-    
-    if (existingIndex >= 0) {
-      existing[existingIndex] = value;
-    } else {
-      existing.push(value);
+    store.data.set(encoded, record);
+    insertPosition(store.keys, { key: record.key, primaryKey: record.key });
+    for (const index of store.indexes.values()) {
+      this.addToIndex(index, record);
     }
   }
 
-  private deleteFromIndexes(store: MemoryStore, key: any): void {
-    const value = store.data.get(key);
-    if (!value) return;
-
-    for (const index of store.indexes.values()) {
-      const indexKey = Array.isArray(index.keyPath) 
-        ? index.keyPath.map(k => value[k]).join('_')
-        : value[index.keyPath];
-
-      if (indexKey !== undefined) {
-        const existing = index.data.get(indexKey);
-        if (existing) {
-          const filtered = existing.filter(v => v[index.keyPath as string] !== value[index.keyPath as string]);
-          if (filtered.length === 0) {
-            index.data.delete(indexKey);
-          } else {
-            index.data.set(indexKey, filtered);
-          }
-        }
-      }
+  private addToIndex(index: MemoryIndex, record: MemoryRecord): void {
+    for (const key of this.getIndexKeys(index, record.value)) {
+      insertPosition(index.positions, { key, primaryKey: record.key });
     }
   }
 }
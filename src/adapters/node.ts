@@ -1,13 +1,44 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import type { StorageAdapter, StoreInfo, BatchItem, DatabaseInfo } from './types.js';
+import type {
+  StorageAdapter,
+  StoreInfo,
+  BatchItem,
+  DatabaseInfo,
+  CursorOptions,
+  AdapterTransaction,
+  TransactionMode,
+  TransactionOptions
+} from './types.js';
+import { UndoLogTransactions } from './undo-log.js';
+import { countPositions, insertPosition, removePosition, scanPositions, type SortedPositions } from './positions.js';
+import { ConstraintError, StoreNotFoundError, ValidationError, VersionError, toDatabaseError } from '../core/errors.js';
+import { compareCursorPositions, encodeKey, getKeyPathValue, isValidKey, withKeyPathValue } from '../utils/keys.js';
+
+interface NodeDBIndex {
+  name: string;
+  keyPath: string | string[];
+  unique: boolean;
+  multiEntry: boolean;
+  // (index key, primary key) pairs in cursor order
+  positions: SortedPositions;
+}
+
+interface NodeDBRecord {
+  key: any;
+  value: any;
+}
 
 interface NodeDBStore {
   name: string;
-  keyPath: string;
+  keyPath: string | string[];
   autoIncrement: boolean;
-  data: Map<any, any>;
-  indexes: Map<string, any>;
+  // Encoded primary key -> record, see encodeKey()
+  data: Map<string, NodeDBRecord>;
+  // Primary keys in cursor order
+  keys: SortedPositions;
+  indexes: Map<string, NodeDBIndex>;
+  autoIncrementCounter: number;
 }
 
 interface NodeDatabase {
@@ -17,11 +48,58 @@ interface NodeDatabase {
   filePath: string;
 }
 
+// Keys of the records in the file are JSON, so 1 and '1' stay apart. Dates and the numbers
+// JSON cannot hold are written as { date } and { number }.
+function toFileKey(key: any): string {
+  const tag = (part: any): any => {
+    if (part instanceof Date) return { date: part.toISOString() };
+    if (typeof part === 'number' && !Number.isFinite(part)) return { number: String(part) };
+    return Array.isArray(part) ? part.map(tag) : part;
+  };
+  return JSON.stringify(tag(key));
+}
+
+function fromFileKey(fileKey: string): any {
+  const untag = (part: any): any => {
+    if (Array.isArray(part)) return part.map(untag);
+    if (part !== null && typeof part === 'object') return 'date' in part ? new Date(part.date) : Number(part.number);
+    return part;
+  };
+  return untag(JSON.parse(fileKey));
+}
+
 export class NodeAdapter implements StorageAdapter {
   private databases: Map<string, NodeDatabase> = new Map();
   private dbPath: string;
   private inMemoryMode: boolean;
   private upgradeHandlers: Map<string, any> = new Map();
+  private transactions = new UndoLogTransactions({
+    begin: log => {
+      for (const storeName of log.storeNames) {
+        const store = (log.db as NodeDatabase).stores.get(storeName);
+        if (!store) continue;
+        const counter = store.autoIncrementCounter;
+        log.onRollback(() => {
+          store.autoIncrementCounter = counter;
+        });
+      }
+    },
+    restore: (log, storeName, keyStr, previous: NodeDBRecord | undefined) => {
+      const store = (log.db as NodeDatabase).stores.get(storeName);
+      if (!store) return;
+      this.setRecord(store, keyStr, previous);
+    },
+    settle: log => {
+      // Writes stay in memory while a transaction is open; the file is written once at the end
+      if (this.unsavedDatabases.has(log.db) && !this.transactions.isActive(log.db)) {
+        this.unsavedDatabases.delete(log.db);
+        this.saveDatabase(log.db);
+      }
+    }
+  });
+  private unsavedDatabases: Set<NodeDatabase> = new Set();
+  // Databases running their upgrade handler; their file is written when it finishes
+  private upgrading: Set<NodeDatabase> = new Set();
 
   constructor(dbPath: string = './data', options?: { inMemory?: boolean }) {
     this.dbPath = dbPath;
@@ -32,53 +110,90 @@ export class NodeAdapter implements StorageAdapter {
     }
   }
 
+  /**
+   * Opens the database like indexedDB.open: a new database or a higher version runs the
+   * upgrade handler, a lower version than the stored one fails with VersionError.
+   * The file is written once the upgrade succeeds; if the handler throws it is not touched.
+   */
   async openDatabase(name: string, version: number): Promise<NodeDatabase> {
-    const filePath = path.join(this.dbPath, `${name}.json`);
-    
-    if (this.databases.has(name)) {
-      const db = this.databases.get(name)!;
+    const cached = this.databases.get(name);
+    const db = cached ?? this.loadDatabase(name, version);
+
+    if (version < db.version) {
+      throw new VersionError(`Database '${name}' is at version ${db.version}, cannot open it with version ${version}`);
+    }
+    this.databases.set(name, db);
+    if (version === db.version) {
       return db;
     }
 
-    let db: NodeDatabase;
-
-    if (!this.inMemoryMode && fs.existsSync(filePath)) {
-      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-      db = {
-        name,
-        version: data.version || version,
-        stores: new Map(),
-        filePath
-      };
+    const oldVersion = db.version;
+    const snapshot = cached ? structuredClone(db.stores) : null;
+    const handler = this.upgradeHandlers.get(name);
 
-      for (const [storeName, storeData] of Object.entries(data.stores || {})) {
-        const store = storeData as any;
-        db.stores.set(storeName, {
-          name: storeName,
-          keyPath: store.keyPath || 'id',
-          autoIncrement: store.autoIncrement || false,
-          data: new Map(Object.entries(store.data || {})),
-          indexes: new Map()
-        });
+    this.upgrading.add(db);
+    try {
+      if (handler) {
+        await handler({ db, oldVersion, newVersion: version });
       }
-    } else {
-      db = {
-        name,
-        version,
-        stores: new Map(),
-        filePath
-      };
+    } catch (error) {
+      if (snapshot) db.stores = snapshot;
+      else this.databases.delete(name);
+      throw error;
+    } finally {
+      this.upgrading.delete(db);
+      this.unsavedDatabases.delete(db);
     }
 
-    // Call upgrade handler if exists
-    const handler = this.upgradeHandlers.get(name);
-    if (handler) {
-      // Note: In Node.js there's no real upgrade event, but we call the handler
-      // to allow for custom initialization
-      handler({ oldVersion: 0, newVersion: version });
+    db.version = version;
+    this.persist(db);
+    return db;
+  }
+
+  // Reads the database file; a database without file starts at version 0
+  private loadDatabase(name: string, version: number): NodeDatabase {
+    const filePath = path.join(this.dbPath, `${name}.json`);
+
+    if (this.inMemoryMode || !fs.existsSync(filePath)) {
+      return { name, version: 0, stores: new Map(), filePath };
     }
 
-    this.databases.set(name, db);
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const db: NodeDatabase = {
+      name,
+      version: data.version || version,
+      stores: new Map(),
+      filePath
+    };
+
+    for (const [storeName, storeData] of Object.entries(data.stores || {})) {
+      const store = storeData as any;
+      const keyPath = store.keyPath || 'id';
+      const records = new Map<string, NodeDBRecord>();
+      for (const [fileKey, stored] of Object.entries(store.data || {})) {
+        const inlineKey = getKeyPathValue(stored, keyPath);
+        let key: any;
+        let value = stored;
+        if (data.keyEncoding === 'json') {
+          key = fromFileKey(fileKey);
+          // JSON turned a Date key inside the record into a string
+          if (inlineKey !== undefined) value = withKeyPathValue(stored, keyPath, key);
+        } else {
+          // Files written before keys were typed: the record's own key is the reliable one
+          key = isValidKey(inlineKey) ? inlineKey : fileKey;
+        }
+        records.set(encodeKey(key), { key, value });
+      }
+      db.stores.set(storeName, {
+        name: storeName,
+        keyPath,
+        autoIncrement: store.autoIncrement || false,
+        data: records,
+        keys: Array.from(records.values(), ({ key }) => ({ key, primaryKey: key })).sort(compareCursorPositions),
+        indexes: new Map(),
+        autoIncrementCounter: store.autoIncrementCounter ?? this.highestNumericKey(records)
+      });
+    }
     return db;
   }
 
@@ -90,191 +205,207 @@ export class NodeAdapter implements StorageAdapter {
     return { storeName, mode };
   }
 
+  /**
+   * Starts a transaction over `storeNames`; abort() restores the records written through its
+   * `db` handle. The database file is not written until the transaction ends, so a rollback
+   * never reaches the disk.
+   */
+  async beginTransaction(db: NodeDatabase, storeNames: string[], mode: TransactionMode, options?: TransactionOptions): Promise<AdapterTransaction> {
+    return this.transactions.begin(db, storeNames, mode, options);
+  }
+
   createObjectStore(db: NodeDatabase, name: string, options: any): NodeDBStore {
     if (db.stores.has(name)) {
       return db.stores.get(name)!;
     }
 
+    if (options?.autoIncrement && Array.isArray(options.keyPath)) {
+      throw new ValidationError(`Store '${name}' cannot use autoIncrement with a compound keyPath`);
+    }
+
     const store: NodeDBStore = {
       name,
       keyPath: options?.keyPath || 'id',
       autoIncrement: options?.autoIncrement || false,
       data: new Map(),
-      indexes: new Map()
+      keys: [],
+      indexes: new Map(),
+      autoIncrementCounter: 0
     };
     
     db.stores.set(name, store);
-    if (!this.inMemoryMode) {
-      this.saveDatabase(db);
-    }
+    this.persist(db);
     return store;
   }
 
-  createIndex(_db: any, storeName: string, indexName: string, keyPath: any, _options?: any): any {
-    // Indexes are stored in memory only for Node adapter
-    const db = this.databases.get(storeName) || _db;
-    if (db && db.stores) {
-      const store = db.stores.get(storeName);
-      if (store) {
-        store.indexes.set(indexName, { keyPath });
-      }
+  deleteObjectStore(db: NodeDatabase, name: string): void {
+    if (db.stores.delete(name)) {
+      this.persist(db);
     }
-    return { name: indexName, keyPath };
   }
 
-  deleteIndex(_db: any, storeName: string, indexName: string): void {
-    const db = this.databases.get(storeName) || _db;
-    if (db && db.stores) {
-      const store = db.stores.get(storeName);
-      if (store) {
-        store.indexes.delete(indexName);
-      }
+  createIndex(db: NodeDatabase, storeName: string, indexName: string, keyPath: any, options?: any): any {
+    // Indexes are kept in memory only; they are recreated from the schema on open
+    const store = db?.stores?.get(storeName);
+    if (!store) throw new StoreNotFoundError(storeName);
+
+    const existing = store.indexes.get(indexName);
+    if (existing) return existing;
+
+    const index: NodeDBIndex = {
+      name: indexName,
+      keyPath,
+      unique: options?.unique || false,
+      multiEntry: options?.multiEntry || false,
+      positions: []
+    };
+    store.indexes.set(indexName, index);
+    for (const record of store.data.values()) {
+      this.addToIndex(index, record);
+    }
+    return index;
+  }
+
+  deleteIndex(db: NodeDatabase, storeName: string, indexName: string): void {
+    const store = db?.stores?.get(storeName);
+    if (store) {
+      store.indexes.delete(indexName);
     }
   }
 
   getObjectStoreNames(db: any): string[] {
-    return Array.from(db.stores.keys());
+    return Array.from(this.transactions.database(db).stores.keys());
   }
 
   async get(storeInfo: StoreInfo, key: any): Promise<any> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
     if (!store) return null;
     
-    const keyStr = String(key);
-    return store.data.get(keyStr) || null;
+    return store.data.get(encodeKey(key))?.value ?? null;
   }
 
   async getMany(storeInfo: StoreInfo, keys: any[]): Promise<any[]> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
     if (!store) return keys.map(() => null);
     
-    return keys.map(key => {
-      const keyStr = String(key);
-      return store.data.get(keyStr) || null;
-    });
+    return keys.map(key => store.data.get(encodeKey(key))?.value ?? null);
   }
 
   async put(storeInfo: StoreInfo, value: any, key?: any): Promise<any> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
-    if (!store) throw new Error(`Store ${storeInfo.storeName} not found`);
-    
-    const effectiveKey = key ?? value[store.keyPath];
-    const keyStr = String(effectiveKey);
-    store.data.set(keyStr, value);
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
+    if (!store) throw new StoreNotFoundError(storeInfo.storeName);
     
-    if (!this.inMemoryMode) {
-      this.saveDatabase(storeInfo.db);
-    }
+    const effectiveKey = this.writeRecord(storeInfo, store, value, key);
+    this.persist(this.database(storeInfo));
     return effectiveKey;
   }
 
   async putMany(storeInfo: StoreInfo, items: BatchItem[]): Promise<any[]> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
-    if (!store) throw new Error(`Store ${storeInfo.storeName} not found`);
-    
-    const keys: any[] = [];
-    for (const item of items) {
-      const effectiveKey = item.key ?? item.value[store.keyPath];
-      const keyStr = String(effectiveKey);
-      store.data.set(keyStr, item.value);
-      keys.push(effectiveKey);
-    }
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
+    if (!store) throw new StoreNotFoundError(storeInfo.storeName);
     
-    if (!this.inMemoryMode) {
-      this.saveDatabase(storeInfo.db);
-    }
+    const keys = items.map(item => this.writeRecord(storeInfo, store, item.value, item.key));
+    this.persist(this.database(storeInfo));
     return keys;
   }
 
   async add(storeInfo: StoreInfo, value: any, key?: any): Promise<any> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
-    if (!store) throw new Error(`Store ${storeInfo.storeName} not found`);
-    
-    const effectiveKey = key ?? value[store.keyPath];
-    const keyStr = String(effectiveKey);
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
+    if (!store) throw new StoreNotFoundError(storeInfo.storeName);
     
-    if (store.data.has(keyStr)) {
-      throw new Error(`Key ${effectiveKey} already exists`);
+    const effectiveKey = key ?? getKeyPathValue(value, store.keyPath);
+    if (effectiveKey !== undefined && store.data.has(encodeKey(effectiveKey))) {
+      throw new ConstraintError(`Key ${JSON.stringify(effectiveKey)} already exists`);
     }
     
-    store.data.set(keyStr, value);
-    
-    if (!this.inMemoryMode) {
-      this.saveDatabase(storeInfo.db);
-    }
-    return effectiveKey;
+    const addedKey = this.writeRecord(storeInfo, store, value, key);
+    this.persist(this.database(storeInfo));
+    return addedKey;
   }
 
   async delete(storeInfo: StoreInfo, key: any): Promise<any> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
-    if (!store) throw new Error(`Store ${storeInfo.storeName} not found`);
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
+    if (!store) throw new StoreNotFoundError(storeInfo.storeName);
     
-    const keyStr = String(key);
-    store.data.delete(keyStr);
+    const keyStr = encodeKey(key);
+    this.recordWrite(storeInfo, store, keyStr);
+    this.setRecord(store, keyStr, undefined);
     
-    if (!this.inMemoryMode) {
-      this.saveDatabase(storeInfo.db);
-    }
+    this.persist(this.database(storeInfo));
     return key;
   }
 
   async deleteMany(storeInfo: StoreInfo, keys: any[]): Promise<void> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
-    if (!store) throw new Error(`Store ${storeInfo.storeName} not found`);
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
+    if (!store) throw new StoreNotFoundError(storeInfo.storeName);
     
     for (const key of keys) {
-      const keyStr = String(key);
-      store.data.delete(keyStr);
+      const keyStr = encodeKey(key);
+      this.recordWrite(storeInfo, store, keyStr);
+      this.setRecord(store, keyStr, undefined);
     }
     
-    if (!this.inMemoryMode) {
-      this.saveDatabase(storeInfo.db);
-    }
+    this.persist(this.database(storeInfo));
   }
 
   async getAll(storeInfo: StoreInfo): Promise<any[]> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
     if (!store) return [];
-    return Array.from(store.data.values());
+    return Array.from(store.data.values(), (record: NodeDBRecord) => record.value);
   }
 
-  async getAllFromIndex(storeInfo: StoreInfo, _indexName: string, _query?: any): Promise<any[]> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
+  async getAllFromIndex(storeInfo: StoreInfo, indexName: string, query?: any): Promise<any[]> {
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
     if (!store) return [];
     
-    // For Node adapter, we return all values if index doesn't exist in memory
-    return Array.from(store.data.values());
+    return scanPositions(this.getPositions(store, indexName), { query })
+      .map(position => store.data.get(encodeKey(position.primaryKey))!.value);
   }
 
   async clear(storeInfo: StoreInfo): Promise<void> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
-    if (!store) throw new Error(`Store ${storeInfo.storeName} not found`);
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
+    if (!store) throw new StoreNotFoundError(storeInfo.storeName);
     
+    for (const keyStr of store.data.keys()) {
+      this.recordWrite(storeInfo, store, keyStr);
+    }
     store.data.clear();
-    
-    if (!this.inMemoryMode) {
-      this.saveDatabase(storeInfo.db);
+    store.keys.length = 0;
+    for (const index of store.indexes.values()) {
+      index.positions.length = 0;
     }
+    
+    this.persist(this.database(storeInfo));
   }
 
-  async count(storeInfo: StoreInfo, _query?: any): Promise<number> {
-    const store = storeInfo.db.stores.get(storeInfo.storeName);
+  async count(storeInfo: StoreInfo, query?: any, indexName?: string): Promise<number> {
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
     if (!store) return 0;
-    return store.data.size;
+    if (query === undefined && indexName === undefined) return store.data.size;
+    return countPositions(this.getPositions(store, indexName), query);
   }
 
-  async iterate(_storeInfo: StoreInfo, callback: any, _options?: any): Promise<void> {
-    const store = _storeInfo.db.stores.get(_storeInfo.storeName);
+  /**
+   * Iterates in key order (primary key, or index key when `indexName` is given).
+   * Returning `false` from the callback stops the iteration.
+   */
+  async iterate(storeInfo: StoreInfo, callback: any, options?: CursorOptions): Promise<void> {
+    const store = this.database(storeInfo).stores.get(storeInfo.storeName);
     if (!store) return;
     
-    for (const value of store.data.values()) {
-      const result = callback(value, null);
+    for (const position of scanPositions(this.getPositions(store, options?.indexName), options)) {
+      // The record may have been deleted by a previous callback
+      const record = store.data.get(encodeKey(position.primaryKey));
+      if (!record) continue;
+      const value = record.value;
+      const result = await callback(options?.project ? options.project(value) : value, position);
       if (result === false) break;
     }
   }
 
-  async searchByIndex(storeInfo: StoreInfo, _indexName: string, _query: any, _limit?: number): Promise<any[]> {
-    return this.getAll(storeInfo);
+  async searchByIndex(storeInfo: StoreInfo, indexName: string, query: any, limit?: number): Promise<any[]> {
+    const results = await this.getAllFromIndex(storeInfo, indexName, query);
+    return limit ? results.slice(0, limit) : results;
   }
 
   close(db: NodeDatabase): void {
@@ -333,10 +464,104 @@ export class NodeAdapter implements StorageAdapter {
     return names.includes(name);
   }
 
+  private getPositions(store: NodeDBStore, indexName?: string): SortedPositions {
+    if (indexName === undefined) return store.keys;
+    const index = store.indexes.get(indexName);
+    if (!index) {
+      throw new Error(`Index '${indexName}' not found in store '${store.name}'`);
+    }
+    return index.positions;
+  }
+
+  /**
+   * Writes `value` under `key`, or under the value at the store's keyPath. An autoIncrement
+   * store without either generates the key, stores it at the keyPath and never reuses it;
+   * an explicit numeric key above the counter moves the counter past it. Returns the key.
+   */
+  private writeRecord(storeInfo: StoreInfo, store: NodeDBStore, value: any, key?: any): any {
+    let effectiveKey = key ?? getKeyPathValue(value, store.keyPath);
+
+    if (store.autoIncrement && effectiveKey === undefined) {
+      effectiveKey = ++store.autoIncrementCounter;
+      value = withKeyPathValue(value, store.keyPath, effectiveKey);
+    } else if (!isValidKey(effectiveKey)) {
+      throw new ValidationError(`Invalid key for store '${store.name}' at keyPath ${JSON.stringify(store.keyPath)}`);
+    } else if (store.autoIncrement && typeof effectiveKey === 'number' && effectiveKey > store.autoIncrementCounter) {
+      store.autoIncrementCounter = Math.floor(effectiveKey);
+    }
+
+    const keyStr = encodeKey(effectiveKey);
+    this.recordWrite(storeInfo, store, keyStr);
+    this.setRecord(store, keyStr, { key: effectiveKey, value });
+    return effectiveKey;
+  }
+
+  // Replaces (or with `undefined` deletes) the record under `keyStr`, keeping keys and indexes in sync
+  private setRecord(store: NodeDBStore, keyStr: string, record: NodeDBRecord | undefined): void {
+    const previous = store.data.get(keyStr);
+    if (previous) {
+      removePosition(store.keys, { key: previous.key, primaryKey: previous.key });
+      for (const index of store.indexes.values()) {
+        for (const key of this.getIndexKeys(index, previous.value)) {
+          removePosition(index.positions, { key, primaryKey: previous.key });
+        }
+      }
+    }
+
+    if (!record) {
+      store.data.delete(keyStr);
+      return;
+    }
+    store.data.set(keyStr, record);
+    insertPosition(store.keys, { key: record.key, primaryKey: record.key });
+    for (const index of store.indexes.values()) {
+      this.addToIndex(index, record);
+    }
+  }
+
+  private addToIndex(index: NodeDBIndex, record: NodeDBRecord): void {
+    for (const key of this.getIndexKeys(index, record.value)) {
+      insertPosition(index.positions, { key, primaryKey: record.key });
+    }
+  }
+
+  private getIndexKeys(index: NodeDBIndex, value: any): any[] {
+    const indexKey = getKeyPathValue(value, index.keyPath);
+    const indexKeys = index.multiEntry && Array.isArray(indexKey) ? indexKey : [indexKey];
+    return indexKeys.filter(isValidKey);
+  }
+
+  private highestNumericKey(records: Map<string, NodeDBRecord>): number {
+    let highest = 0;
+    for (const { key } of records.values()) {
+      if (typeof key === 'number' && key > highest) highest = Math.floor(key);
+    }
+    return highest;
+  }
+
+  private database(storeInfo: StoreInfo): NodeDatabase {
+    return this.transactions.database(storeInfo.db);
+  }
+
+  // Keeps the previous value of a key written through the handle of an active transaction
+  private recordWrite(storeInfo: StoreInfo, store: NodeDBStore, keyStr: string): void {
+    this.transactions.record(storeInfo.db, storeInfo.storeName, keyStr, store.data.get(keyStr));
+  }
+
+  private persist(db: NodeDatabase): void {
+    if (this.inMemoryMode) return;
+    if (this.transactions.isActive(db) || this.upgrading.has(db)) {
+      this.unsavedDatabases.add(db);
+      return;
+    }
+    this.saveDatabase(db);
+  }
+
   private saveDatabase(db: NodeDatabase): void {
     const data = {
       name: db.name,
       version: db.version,
+      keyEncoding: 'json',
       stores: {} as any
     };
 
@@ -345,10 +570,15 @@ export class NodeAdapter implements StorageAdapter {
         name: store.name,
         keyPath: store.keyPath,
         autoIncrement: store.autoIncrement,
-        data: Object.fromEntries(store.data.entries())
+        autoIncrementCounter: store.autoIncrementCounter,
+        data: Object.fromEntries(Array.from(store.data.values(), ({ key, value }) => [toFileKey(key), value]))
       };
     }
 
-    fs.writeFileSync(db.filePath, JSON.stringify(data, null, 2));
+    try {
+      fs.writeFileSync(db.filePath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      throw toDatabaseError(error);
+    }
   }
 }
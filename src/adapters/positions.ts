@@ -0,0 +1,106 @@
+// Sorted cursor positions for the in-process adapters (memory, node).
+// Each store keeps its primary keys, and each index its (key, primary key) pairs, in an array
+// sorted like an IDBCursor walks them. A range scan finds its start with a binary search and
+// stops at the end of the range or once it has `offset + limit` positions.
+// The arrays are plain data, so they survive structuredClone() snapshots.
+
+import type { CursorOptions, CursorPosition } from './types.js';
+import { compareCursorPositions, compareKeys, toKeyRange } from '../utils/keys.js';
+
+export type SortedPositions = CursorPosition[];
+
+// First index whose position satisfies `test`; `test` must be false and then true along the array
+function firstIndex(positions: SortedPositions, test: (position: CursorPosition) => boolean): number {
+  let low = 0;
+  let high = positions.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (test(positions[middle]!)) high = middle;
+    else low = middle + 1;
+  }
+  return low;
+}
+
+// Index range [start, end) of the positions whose key is inside `query`
+function rangeBounds(positions: SortedPositions, query: unknown): [number, number] {
+  const range = toKeyRange(query);
+  const start = range?.lower === undefined
+    ? 0
+    : firstIndex(positions, position => compareKeys(position.key, range.lower) >= (range.lowerOpen ? 1 : 0));
+  const end = range?.upper === undefined
+    ? positions.length
+    : firstIndex(positions, position => compareKeys(position.key, range.upper) >= (range.upperOpen ? 0 : 1));
+  return [start, Math.max(start, end)];
+}
+
+export function insertPosition(positions: SortedPositions, position: CursorPosition): void {
+  const at = firstIndex(positions, candidate => compareCursorPositions(candidate, position) >= 0);
+  const existing = positions[at];
+  if (existing && compareCursorPositions(existing, position) === 0) return;
+  positions.splice(at, 0, position);
+}
+
+export function removePosition(positions: SortedPositions, position: CursorPosition): void {
+  const at = firstIndex(positions, candidate => compareCursorPositions(candidate, position) >= 0);
+  const existing = positions[at];
+  if (existing && compareCursorPositions(existing, position) === 0) positions.splice(at, 1);
+}
+
+export function countPositions(positions: SortedPositions, query?: unknown): number {
+  const [start, end] = rangeBounds(positions, query);
+  return end - start;
+}
+
+/**
+ * Positions a cursor over `query` visits in `direction`, strictly after `after` and past
+ * `offset`, up to `limit` of them. Unique directions visit the lowest primary key of each key.
+ */
+export function scanPositions(
+  positions: SortedPositions,
+  options: Pick<CursorOptions, 'query' | 'direction' | 'after' | 'offset' | 'limit'> = {}
+): CursorPosition[] {
+  const direction = options.direction || 'next';
+  const backwards = direction.startsWith('prev');
+  const unique = direction.endsWith('unique');
+  const after = options.after;
+  let [start, end] = rangeBounds(positions, options.query);
+
+  if (after && !backwards) {
+    let first = firstIndex(positions, position => compareCursorPositions(position, after) > 0);
+    // A unique cursor already visited this key through its lowest primary key
+    if (unique && first > 0 && first < positions.length && compareKeys(positions[first]!.key, positions[first - 1]!.key) === 0) {
+      first = firstIndex(positions, position => compareKeys(position.key, after.key) > 0);
+    }
+    start = Math.max(start, first);
+  }
+  if (after && backwards) {
+    end = Math.min(end, firstIndex(positions, position => compareCursorPositions(position, after) >= 0));
+  }
+
+  let skip = options.offset || 0;
+  const wanted = options.limit || Infinity;
+  const visited: CursorPosition[] = [];
+  const visit = (position: CursorPosition): boolean => {
+    if (skip > 0) skip--;
+    else visited.push(position);
+    return visited.length < wanted;
+  };
+
+  if (!backwards) {
+    for (let i = start; i < end; i++) {
+      if (unique && i > start && compareKeys(positions[i]!.key, positions[i - 1]!.key) === 0) continue;
+      if (!visit(positions[i]!)) break;
+    }
+    return visited;
+  }
+
+  for (let i = end - 1; i >= start; i--) {
+    if (unique) {
+      // Step back to the lowest primary key of this key
+      const key = positions[i]!.key;
+      i = Math.max(start, firstIndex(positions, position => compareKeys(position.key, key) >= 0));
+    }
+    if (!visit(positions[i]!)) break;
+  }
+  return visited;
+}
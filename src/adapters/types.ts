@@ -34,13 +34,32 @@ export interface IndexDefinition {
   multiEntry?: boolean;
 }
 
+// Key range, structurally compatible with IDBKeyRange
+export interface KeyRange {
+  lower?: any;
+  upper?: any;
+  lowerOpen?: boolean;
+  upperOpen?: boolean;
+}
+
 // Cursor options
 export interface CursorOptions {
   direction?: 'next' | 'nextunique' | 'prev' | 'prevunique';
   limit?: number;
   offset?: number;
   indexName?: string;
+  // Exact key, KeyRange or native IDBKeyRange
   query?: any;
+  // Resume strictly after this position (keyset pagination); applied before offset
+  after?: CursorPosition;
+  // Applied to each value before it reaches the callback (field projection)
+  project?: (value: any) => any;
+}
+
+// Position passed as second argument to iterate callbacks (IDBCursor in browsers)
+export interface CursorPosition {
+  key: any;
+  primaryKey: any;
 }
 
 // Batch operation item
@@ -49,6 +68,25 @@ export interface BatchItem {
   value: any;
 }
 
+// Transaction spanning several stores, see StorageAdapter.beginTransaction
+export interface AdapterTransaction {
+  // Database handle for the operations of the transaction: only operations given it as
+  // `StoreInfo.db` belong to the transaction, others run on their own
+  readonly db: any;
+  readonly storeNames: string[];
+  readonly mode: TransactionMode;
+  commit(): Promise<void>;
+  // Rolls back every write made to the stores since the transaction began
+  abort(): Promise<void>;
+}
+
+// Options of StorageAdapter.beginTransaction
+export interface TransactionOptions {
+  // Begun with the handle of an active transaction over the same stores, run as part of
+  // it instead of waiting for it; abort() then only undoes the writes made since this call
+  join?: boolean;
+}
+
 // Database info
 export interface DatabaseInfo {
   name: string;
@@ -64,9 +102,13 @@ export interface StorageAdapter {
   
   // Transaction
   transaction(storeName: string, mode: TransactionMode): any;
+  // Until commit/abort, every operation on `storeNames` belongs to the returned transaction.
+  // Overlapping read-write transactions run one after another.
+  beginTransaction(db: any, storeNames: string[], mode: TransactionMode, options?: TransactionOptions): Promise<AdapterTransaction>;
   
   // Object store operations
   createObjectStore(db: any, name: string, options?: any): any;
+  deleteObjectStore(db: any, name: string): void;
   
   // CRUD operations
   get(store: StoreInfo, key: any): Promise<any>;
@@ -82,7 +124,7 @@ export interface StorageAdapter {
   
   // Utility operations
   clear(store: StoreInfo): Promise<void>;
-  count(store: StoreInfo, query?: any): Promise<number>;
+  count(store: StoreInfo, query?: any, indexName?: string): Promise<number>;
   
   // Index operations
   createIndex(db: any, storeName: string, indexName: string, keyPath: any, options?: any): any;
@@ -99,7 +141,8 @@ export interface StorageAdapter {
   databaseExists(name: string): Promise<boolean>;
   clearAll(): Promise<void>;
   
-  // Upgrade handler
+  // Upgrade handler, called when the database is created or opened with a higher version.
+  // Receives { db, oldVersion, newVersion }; the open waits for it and fails if it throws.
   onUpgrade(name: string, handler: any): void;
   
   // Object store names
@@ -0,0 +1,146 @@
+// Undo log for the in-process adapters (memory, node).
+// While a read-write transaction is active, the first write made through its handle to each
+// key of its stores records the value the key had before, so abort() can undo its writes.
+// Writes made without the handle are not part of the transaction and are never undone.
+
+import type { AdapterTransaction, TransactionMode, TransactionOptions } from './types.js';
+
+export class UndoLog {
+  // Store name -> key -> previous value (undefined when the key did not exist)
+  private entries: Map<string, Map<any, any>> = new Map();
+  private rollbackHooks: Array<() => void> = [];
+  private resolveFinished!: () => void;
+  readonly finished: Promise<void> = new Promise(resolve => {
+    this.resolveFinished = resolve;
+  });
+
+  // `parent` is the log a joined transaction runs inside of
+  constructor(readonly db: any, readonly storeNames: string[], readonly parent?: UndoLog) {}
+
+  covers(db: any, storeName: string): boolean {
+    return db === this.db && this.storeNames.includes(storeName);
+  }
+
+  overlaps(db: any, storeNames: string[]): boolean {
+    return storeNames.some(storeName => this.covers(db, storeName));
+  }
+
+  record(storeName: string, key: any, previous: any): void {
+    let entries = this.entries.get(storeName);
+    if (!entries) {
+      entries = new Map();
+      this.entries.set(storeName, entries);
+    }
+    if (!entries.has(key)) entries.set(key, previous);
+    // The enclosing transaction must be able to undo the writes of the joined one too
+    this.parent?.record(storeName, key, previous);
+  }
+
+  // Extra state to restore on rollback, such as autoIncrement counters
+  onRollback(hook: () => void): void {
+    this.rollbackHooks.push(hook);
+  }
+
+  rollback(restore: (storeName: string, key: any, previous: any) => void): void {
+    for (const [storeName, entries] of this.entries) {
+      for (const [key, previous] of entries) {
+        restore(storeName, key, previous);
+      }
+    }
+    this.rollbackHooks.forEach(hook => hook());
+  }
+
+  finish(): void {
+    this.resolveFinished();
+  }
+}
+
+// Database handle of a transaction: operations given it as `StoreInfo.db` belong to it
+export class TransactionHandle {
+  constructor(readonly database: any, readonly log: UndoLog) {}
+}
+
+export interface UndoLogHandlers {
+  // Called when a read-write transaction (or a joined one) starts
+  begin?(log: UndoLog): void;
+  // Writes `previous` back under `key`, or removes the key when `previous` is undefined
+  restore(log: UndoLog, storeName: string, key: any, previous: any): void;
+  // Called after commit or rollback, once the log is no longer active
+  settle?(log: UndoLog, rolledBack: boolean): void;
+}
+
+/**
+ * Hands out adapter transactions backed by undo logs. Read-write transactions whose
+ * stores overlap run one after another; read-only ones need no log. A transaction begun
+ * with `join` on the handle of an active one over the same stores gets its own log on top
+ * of it, so aborting it only undoes its own writes.
+ */
+export class UndoLogTransactions {
+  private active: UndoLog[] = [];
+
+  constructor(private handlers: UndoLogHandlers) {}
+
+  isActive(db: any): boolean {
+    return this.active.some(log => log.db === db);
+  }
+
+  // Database behind `db`, which may be the handle of a transaction
+  database(db: any): any {
+    return db instanceof TransactionHandle ? db.database : db;
+  }
+
+  // Whether writes through `db` to the store belong to an active transaction
+  isRecording(db: any, storeName: string): boolean {
+    return db instanceof TransactionHandle && this.active.includes(db.log) && db.log.covers(db.database, storeName);
+  }
+
+  // Records the value `key` had before a write made through a transaction handle
+  record(db: any, storeName: string, key: any, previous: any): void {
+    if (!this.isRecording(db, storeName)) return;
+
+    // Adapters hand out stored objects, so keep a copy the caller cannot mutate
+    const copy = previous === undefined || previous === null ? undefined : structuredClone(previous);
+    (db as TransactionHandle).log.record(storeName, key, copy);
+  }
+
+  async begin(db: any, storeNames: string[], mode: TransactionMode, options: TransactionOptions = {}): Promise<AdapterTransaction> {
+    if (mode === 'readonly') {
+      return { db, storeNames, mode, commit: async () => {}, abort: async () => {} };
+    }
+
+    const database = this.database(db);
+    const joins = options.join === true && storeNames.every(storeName => this.isRecording(db, storeName));
+    if (!joins) {
+      let blocking = this.active.find(log => log.overlaps(database, storeNames));
+      while (blocking) {
+        await blocking.finished;
+        blocking = this.active.find(log => log.overlaps(database, storeNames));
+      }
+    }
+
+    const log = new UndoLog(database, storeNames, joins ? (db as TransactionHandle).log : undefined);
+    this.active.push(log);
+    this.handlers.begin?.(log);
+
+    let finished = false;
+    const finish = (rollBack: boolean): void => {
+      if (finished) return;
+      finished = true;
+      this.active = this.active.filter(entry => entry !== log);
+      try {
+        if (rollBack) log.rollback((storeName, key, value) => this.handlers.restore(log, storeName, key, value));
+        this.handlers.settle?.(log, rollBack);
+      } finally {
+        log.finish();
+      }
+    };
+
+    return {
+      db: new TransactionHandle(database, log),
+      storeNames,
+      mode,
+      commit: async () => finish(false),
+      abort: async () => finish(true)
+    };
+  }
+}
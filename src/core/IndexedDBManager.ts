@@ -6,7 +6,23 @@ import { StoreProxy } from './proxy/StoreProxy.js';
 import { DatabaseOperations } from './database/DatabaseOperations.js';
 import { BatchOperations } from './database/BatchOperations.js';
 import { SearchEngine } from './database/SearchEngine.js';
+import type { SearchEngineOptions } from './database/SearchEngine.js';
 import { TransactionManager } from './database/TransactionManager.js';
+import { Transaction } from './database/Transaction.js';
+import { TransactionScope } from './database/TransactionScope.js';
+import { compileProjection } from './query/Projection.js';
+import { QueryBuilder, applyChanges } from './query/QueryBuilder.js';
+import type { WhereClause } from './query/QueryBuilder.js';
+import { LiveQuery } from './query/LiveQuery.js';
+import { compareKeys, getKeyPathValue } from '../utils/keys.js';
+import { resolveRevisionField } from './database/Revisions.js';
+import type { FieldRules } from './database/Fields.js';
+import { resolveTimestamps } from './database/Timestamps.js';
+import type { Timestamps } from './database/Timestamps.js';
+import type { PrimaryKey } from './database/PrimaryKeys.js';
+import { COUNTER_STORE } from './database/Ids.js';
+import { migrationFromChanges } from './schema/Migrations.js';
+import { NotFoundError, StoreNotFoundError, ValidationError } from './errors.js';
 import {
   validateAnyDatabaseConfig,
   createTimestamp
@@ -15,25 +31,62 @@ import type {
   DatabaseConfig,
   DatabaseItem,
   DatabaseIndex,
+  DatabaseKey,
   EmitEventData,
   EmitEvents,
   SearchOptions,
   SearchResult,
+  GetAllOptions,
+  QueryExplanation,
+  AggregateStage,
   IndexedDBManagerOptions,
   EventCallback,
   FilterCriteria,
+  QueryFilter,
+  QueryField,
+  QueryFieldValue,
+  ModifyChanges,
+  UpdateOptions,
+  UpdateManyOptions,
+  BatchOptions,
+  BatchResult,
   SearchTextOptions,
+  TextSearchHit,
+  FullTextIndexOptions,
   DatabaseStats,
-  DatabaseSchema
+  DatabaseSchema,
+  ApplySchemaOptions,
+  SchemaChange,
+  SchemaUpgradeResult,
+  StoreValidationSchema,
+  InferSchemaStores,
+  InferSchemaIndexes,
+  TimestampOptions,
+  IdStrategy
 } from '../types/index.js';
-import type { StorageAdapter } from '../adapters/types.js';
+import type { StorageAdapter, TransactionMode } from '../adapters/types.js';
 import { MemoryAdapter } from '../adapters/memory.js';
 
 // Re-export for convenience
 export { SchemaManager, StoreProxy };
 export { DatabaseOperations, BatchOperations, SearchEngine, TransactionManager };
 
-export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
+// Names accepted by `store()`: any string unless the schema gives the manager literal names
+type StoreName<Stores> = string extends keyof Stores ? string : keyof Stores & string;
+type IndexName<Indexes, K> = K extends keyof Indexes ? Indexes[K] & string : string;
+
+// Operations that read and write through one transaction, see runInTransaction()
+interface TransactionModules {
+  databaseOperations: DatabaseOperations;
+  // Created with `throwOnError`, so a failed batch rejects and aborts the transaction
+  batchOperations: BatchOperations;
+}
+
+export class IndexedDBManager<
+  T extends DatabaseItem = DatabaseItem,
+  Stores extends Record<string, DatabaseItem> = Record<string, T>,
+  Indexes extends Record<string, string> = Record<string, string>
+> {
   private dbConfig: DatabaseConfig;
   private schemaManager: SchemaManager = new SchemaManager();
   public emitterInstance: Emitter;
@@ -42,12 +95,15 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
   private storeProxies: Map<string, StoreProxy<any>> = new Map();
   private adapter: StorageAdapter;
   private isNodeEnvironment: boolean;
+  private throwOnError: boolean;
+  private timestamps: boolean | TimestampOptions | undefined;
 
   // Modular components
   private databaseOperations: DatabaseOperations;
   private batchOperations: BatchOperations;
   private searchEngine: SearchEngine;
   private transactionManager: TransactionManager;
+  private transactionScope: TransactionScope = new TransactionScope();
 
   constructor(
     dbConfig: DatabaseConfig | { defaultDatabase: DatabaseConfig } | DatabaseSchema, 
@@ -55,6 +111,8 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
   ) {
     this.isNodeEnvironment = typeof window === 'undefined';
     this.adapter = options?.adapter || new MemoryAdapter();
+    this.throwOnError = options?.throwOnError ?? false;
+    this.timestamps = options?.timestamps;
 
     if ('stores' in dbConfig) {
       this.schemaManager.setSchema(dbConfig);
@@ -67,7 +125,7 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
       const actualConfig = 'defaultDatabase' in dbConfig ? dbConfig.defaultDatabase : dbConfig;
       
       if (!validateAnyDatabaseConfig(actualConfig)) {
-        throw new Error('Invalid database configuration provided');
+        throw new ValidationError('Invalid database configuration provided');
       }
       
       this.dbConfig = actualConfig;
@@ -78,8 +136,8 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     this.defaultIndexes = [];
     
     // Initialize emitEvent bound to this instance
-    const emitEvent = (event: EmitEvents, data: DatabaseItem | number | null) => {
-      this.emitEvent(event, data);
+    const emitEvent = (event: EmitEvents, data: DatabaseItem | number | null, storeName?: string) => {
+      this.emitEvent(event, data, storeName);
     };
 
     // Initialize modular components
@@ -98,7 +156,16 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
       adapter: this.adapter,
       isNodeEnvironment: this.isNodeEnvironment,
       emitEvent,
-      executeTransaction: this.transactionManager.executeTransaction.bind(this.transactionManager)
+      executeTransaction: this.transactionManager.executeTransaction.bind(this.transactionManager),
+      getRevisionField: this.getStoreRevisionField.bind(this),
+      getValidationSchema: this.getStoreValidationSchema.bind(this),
+      getFieldRules: this.getStoreFieldRules.bind(this),
+      getTimestamps: this.getStoreTimestamps.bind(this),
+      getIdStrategy: this.getStoreIdStrategy.bind(this),
+      getPrimaryKey: this.getStorePrimaryKey.bind(this),
+      getStoreIndexes: this.getStoreIndexes.bind(this),
+      throwOnError: this.throwOnError,
+      transactionScope: this.transactionScope
     });
 
     this.batchOperations = new BatchOperations({
@@ -106,12 +173,18 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
       adapter: this.adapter,
       isNodeEnvironment: this.isNodeEnvironment,
       emitEvent,
-      executeTransaction: this.transactionManager.executeTransaction.bind(this.transactionManager)
+      executeTransaction: this.transactionManager.executeTransaction.bind(this.transactionManager),
+      getRevisionField: this.getStoreRevisionField.bind(this),
+      getValidationSchema: this.getStoreValidationSchema.bind(this),
+      getFieldRules: this.getStoreFieldRules.bind(this),
+      getTimestamps: this.getStoreTimestamps.bind(this),
+      generateIds: this.databaseOperations.generateIds.bind(this.databaseOperations),
+      getPrimaryKey: this.getStorePrimaryKey.bind(this),
+      throwOnError: this.throwOnError,
+      transactionScope: this.transactionScope
     });
 
-    this.searchEngine = new SearchEngine({
-      getAllDataFromStore: this.databaseOperations.getAllDataFromStore.bind(this.databaseOperations)
-    });
+    this.searchEngine = new SearchEngine(this.searchEngineOptions(this.databaseOperations));
 
     if (options?.autoInit) {
       this.openDatabase().catch(error => {
@@ -121,8 +194,8 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
   }
 
   private syncModules(): void {
-    const emitEvent = (event: EmitEvents, data: DatabaseItem | number | null) => {
-      this.emitEvent(event, data);
+    const emitEvent = (event: EmitEvents, data: DatabaseItem | number | null, storeName?: string) => {
+      this.emitEvent(event, data, storeName);
     };
 
     this.transactionManager.updateContext({
@@ -140,7 +213,16 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
       adapter: this.adapter,
       isNodeEnvironment: this.isNodeEnvironment,
       emitEvent,
-      executeTransaction: this.transactionManager.executeTransaction.bind(this.transactionManager)
+      executeTransaction: this.transactionManager.executeTransaction.bind(this.transactionManager),
+      getRevisionField: this.getStoreRevisionField.bind(this),
+      getValidationSchema: this.getStoreValidationSchema.bind(this),
+      getFieldRules: this.getStoreFieldRules.bind(this),
+      getTimestamps: this.getStoreTimestamps.bind(this),
+      getIdStrategy: this.getStoreIdStrategy.bind(this),
+      getPrimaryKey: this.getStorePrimaryKey.bind(this),
+      getStoreIndexes: this.getStoreIndexes.bind(this),
+      throwOnError: this.throwOnError,
+      transactionScope: this.transactionScope
     });
 
     this.batchOperations.updateContext({
@@ -148,22 +230,124 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
       adapter: this.adapter,
       isNodeEnvironment: this.isNodeEnvironment,
       emitEvent,
-      executeTransaction: this.transactionManager.executeTransaction.bind(this.transactionManager)
+      executeTransaction: this.transactionManager.executeTransaction.bind(this.transactionManager),
+      getRevisionField: this.getStoreRevisionField.bind(this),
+      getValidationSchema: this.getStoreValidationSchema.bind(this),
+      getFieldRules: this.getStoreFieldRules.bind(this),
+      getTimestamps: this.getStoreTimestamps.bind(this),
+      generateIds: this.databaseOperations.generateIds.bind(this.databaseOperations),
+      getPrimaryKey: this.getStorePrimaryKey.bind(this),
+      throwOnError: this.throwOnError,
+      transactionScope: this.transactionScope
     });
 
-    this.searchEngine.updateContext({
-      getAllDataFromStore: this.databaseOperations.getAllDataFromStore.bind(this.databaseOperations)
-    });
+    this.searchEngine.updateContext(this.searchEngineOptions(this.databaseOperations));
+  }
+
+  /** Reads of a search engine, made through `databaseOperations` */
+  private searchEngineOptions(databaseOperations: DatabaseOperations): SearchEngineOptions {
+    return {
+      getAllDataFromStore: databaseOperations.getAllDataFromStore.bind(databaseOperations),
+      getStoreIndexes: this.getStoreIndexes.bind(this),
+      getStoreKeyPath: this.getStoreKeyPath.bind(this),
+      iterateStore: databaseOperations.iterateStore.bind(databaseOperations),
+      countInStore: databaseOperations.countInStore.bind(databaseOperations),
+      getDataFromStore: databaseOperations.getDataByIdFromStore.bind(databaseOperations),
+      getStoreFullText: this.getStoreFullText.bind(this)
+    };
+  }
+
+  /**
+   * Indexes declared for a store: those of the active schema or, without a schema,
+   * the default indexes of the main store.
+   */
+  private getStoreIndexes(storeName: string): DatabaseIndex[] {
+    const schema = this.schemaManager.getSchema();
+    if (schema) {
+      return schema.stores.find(store => store.name === storeName)?.indexes || [];
+    }
+    return storeName === this.dbConfig.store ? this.defaultIndexes : [];
+  }
+
+  /**
+   * Full-text index settings of a store, if the schema declares them
+   */
+  private getStoreFullText(storeName: string): FullTextIndexOptions | undefined {
+    return this.schemaManager.getSchema()?.stores.find(store => store.name === storeName)?.fullText;
+  }
+
+  /**
+   * keyPath of a store's primary key ("id" if the schema does not set one)
+   */
+  private getStoreKeyPath(storeName: string): string | string[] {
+    const schema = this.schemaManager.getSchema();
+    return schema?.stores.find(store => store.name === storeName)?.keyPath || 'id';
+  }
+
+  /**
+   * Primary key of a store: its keyPath and whether the adapter generates the keys
+   */
+  private getStorePrimaryKey(storeName: string): PrimaryKey {
+    const store = this.schemaManager.getSchema()?.stores.find(store => store.name === storeName);
+    return { keyPath: store?.keyPath || 'id', autoIncrement: store?.autoIncrement ?? false };
+  }
+
+  /**
+   * Revision field of a versioned store, or undefined if the store is not versioned
+   */
+  private getStoreRevisionField(storeName: string): string | undefined {
+    const store = this.schemaManager.getSchema()?.stores.find(store => store.name === storeName);
+    return resolveRevisionField(store?.versioned);
+  }
+
+  /**
+   * Validation schema the store applies on every write
+   */
+  private getStoreValidationSchema(storeName: string): StoreValidationSchema | undefined {
+    return this.schemaManager.getSchema()?.stores.find(store => store.name === storeName)?.validation;
+  }
+
+  /**
+   * Defaults, transforms and computed fields the store applies on write
+   */
+  private getStoreFieldRules(storeName: string): FieldRules | undefined {
+    return this.schemaManager.getSchema()?.stores.find(store => store.name === storeName);
+  }
+
+  /**
+   * Strategy the store uses to generate the IDs of new records
+   */
+  private getStoreIdStrategy(storeName: string): IdStrategy | undefined {
+    return this.schemaManager.getSchema()?.stores.find(store => store.name === storeName)?.idStrategy;
+  }
+
+  /**
+   * Creation and last-write dates the store keeps, its own or inherited from the manager
+   */
+  private getStoreTimestamps(storeName: string): Timestamps | undefined {
+    const store = this.schemaManager.getSchema()?.stores.find(store => store.name === storeName);
+    return resolveTimestamps(store?.timestamps, this.timestamps);
   }
 
   setAdapter(adapter: StorageAdapter): void {
     this.adapter = adapter;
     this.isNodeEnvironment = false; // MemoryAdapter works in all environments
+    this.searchEngine.resetTextIndexes();
     this.syncModules();
   }
 
-  static async initializeWithSchema(schema: DatabaseSchema, options?: IndexedDBManagerOptions): Promise<IndexedDBManager> {
-    const manager = new IndexedDBManager(schema, { ...options, autoInit: false });
+  /**
+   * With a literal schema or one built with `defineSchema`, `store(name)` only accepts the
+   * declared stores and returns a proxy typed with their records and indexes.
+   */
+  static async initializeWithSchema<const S extends DatabaseSchema>(
+    schema: S,
+    options?: IndexedDBManagerOptions
+  ): Promise<IndexedDBManager<DatabaseItem, InferSchemaStores<S>, InferSchemaIndexes<S>>> {
+    const manager = new IndexedDBManager<DatabaseItem, InferSchemaStores<S>, InferSchemaIndexes<S>>(
+      schema,
+      { ...options, autoInit: false }
+    );
     await manager.openDatabase();
     return manager;
   }
@@ -182,14 +366,86 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     }
   }
 
-  store<S extends DatabaseItem = T>(storeName: string): StoreProxy<S> {
+  /**
+   * Applies a schema to the open database: computes the changes from the current schema,
+   * bumps the version and runs them as that version's migration, followed by the migration
+   * the schema declares for the same version.
+   * Destructive changes are rejected unless `allowDestructive` is set.
+   */
+  async applySchema(
+    schema: Omit<DatabaseSchema, 'version'> & { version?: number },
+    options: ApplySchemaOptions = {}
+  ): Promise<SchemaUpgradeResult> {
+    if (schema.name !== this.dbConfig.name) {
+      throw new ValidationError(`applySchema expects the schema of '${this.dbConfig.name}', got '${schema.name}'`);
+    }
+    await this.openDatabase();
+
+    const current = this.schemaManager.getSchema(this.dbConfig.name) ?? {
+      stores: [{ name: this.dbConfig.store, keyPath: 'id', indexes: this.defaultIndexes }]
+    };
+    const changes = SchemaManager.diff(current, schema);
+    if (changes.length === 0) {
+      return { version: this.dbConfig.version, changes };
+    }
+
+    const destructive = changes.filter(change => change.destructive);
+    if (destructive.length > 0 && !options.allowDestructive) {
+      throw new ValidationError(
+        `Destructive schema changes need allowDestructive: ${destructive.map(describeSchemaChange).join(', ')}`
+      );
+    }
+
+    const version = Math.max(this.dbConfig.version + 1, schema.version ?? 0);
+    const generated = migrationFromChanges(changes, { ...schema, version });
+    const declared = schema.migrations?.[version];
+    const next: DatabaseSchema = {
+      ...schema,
+      version,
+      migrations: {
+        ...schema.migrations,
+        // A migration the schema declares for this version runs once the changes are applied
+        [version]: declared
+          ? async ctx => {
+            await generated(ctx);
+            await declared(ctx);
+          }
+          : generated
+      }
+    };
+
+    const previous = { schema: this.schemaManager.getSchema(this.dbConfig.name), config: this.dbConfig };
+    this.close();
+    this.setSchema(next);
+    this.syncModules();
+    try {
+      await this.openDatabase();
+    } catch (error) {
+      // The failed upgrade kept the previous data, so reopen it with the previous schema
+      this.close();
+      if (previous.schema) {
+        this.schemaManager.setSchema(previous.schema);
+      } else {
+        this.schemaManager.removeSchema(previous.config.name);
+      }
+      this.dbConfig = previous.config;
+      this.syncModules();
+      await this.openDatabase();
+      throw error;
+    }
+    return { version, changes };
+  }
+
+  store<K extends keyof Stores & string>(storeName: K): StoreProxy<Stores[K], IndexName<Indexes, K>>;
+  store<S extends DatabaseItem = T>(storeName: StoreName<Stores>): StoreProxy<S>;
+  store(storeName: string): StoreProxy<any> {
     const currentSchema = this.schemaManager.getSchema();
     if (currentSchema && !this.schemaManager.validateStore(currentSchema.name, storeName)) {
-      throw new Error(`Store '${storeName}' not found in schema '${currentSchema.name}'`);
+      throw new StoreNotFoundError(storeName, { schemaName: currentSchema.name });
     }
 
     const proxyKey = `${storeName}-${Date.now()}`;
-    const proxy = new StoreProxy<S>(this, storeName);
+    const proxy = new StoreProxy(this, storeName);
     this.storeProxies.set(proxyKey, proxy);
     
     this.cleanupOldProxies(storeName);
@@ -234,11 +490,12 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
 
   setDefaultIndexes(indexes: DatabaseIndex[]): void {
     this.defaultIndexes = indexes;
+    this.syncModules();
   }
 
   async setDatabase(config: DatabaseConfig): Promise<void> {
     if (!validateAnyDatabaseConfig(config)) {
-      throw new Error('Invalid database configuration provided');
+      throw new ValidationError('Invalid database configuration provided');
     }
     
     this.close();
@@ -267,8 +524,8 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     return this.dbConfig.version;
   }
 
-  async getAll(): Promise<T[]> {
-    return this.getAllData();
+  async getAll(options: GetAllOptions<T> = {}): Promise<T[]> {
+    return this.getAllData(options);
   }
 
   async addMany(items: Partial<T>[]): Promise<boolean> {
@@ -291,15 +548,15 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     return this.saveData(data);
   }
 
-  async updateMany(items: T[]): Promise<boolean> {
-    return this.batchOperations.updateManyInStore(this.dbConfig.store, items);
+  async updateMany(items: T[], options: UpdateManyOptions = {}): Promise<boolean> {
+    return this.batchOperations.updateManyInStore(this.dbConfig.store, items, options);
   }
 
   async count(): Promise<number> {
     return this.databaseOperations.countInStore(this.dbConfig.store);
   }
 
-  async deleteMany(ids: (string | number)[]): Promise<boolean> {
+  async deleteMany(ids: DatabaseKey[]): Promise<boolean> {
     return this.batchOperations.deleteManyFromStore(this.dbConfig.store, ids);
   }
 
@@ -307,24 +564,56 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     return this.databaseOperations.saveDataToStore(storeName, data) as Promise<S>;
   }
 
-  async getDataByIdFromStore<S extends DatabaseItem = DatabaseItem>(storeName: string, id: string | number): Promise<S | null> {
+  async getDataByIdFromStore<S extends DatabaseItem = DatabaseItem>(storeName: string, id: DatabaseKey): Promise<S | null> {
     return this.databaseOperations.getDataByIdFromStore(storeName, id) as Promise<S | null>;
   }
 
   async updateDataByIdInStore<S extends DatabaseItem = DatabaseItem>(
     storeName: string,
-    id: string | number,
-    updatedData: Partial<S>
+    id: DatabaseKey,
+    updatedData: Partial<S>,
+    options: UpdateOptions = {}
   ): Promise<S | null> {
-    return this.databaseOperations.updateDataByIdInStore(storeName, id, updatedData) as Promise<S | null>;
+    return this.databaseOperations.updateDataByIdInStore(storeName, id, updatedData, options) as Promise<S | null>;
   }
 
-  async deleteDataFromStore(storeName: string, id: string | number): Promise<string | number> {
+  /**
+   * Updates `item` in the store, taking its key from the store's keyPath
+   */
+  async updateRecordInStore<S extends DatabaseItem = DatabaseItem>(
+    storeName: string,
+    item: S,
+    options: UpdateOptions = {}
+  ): Promise<S | null> {
+    const key = getKeyPathValue(item, this.getStoreKeyPath(storeName));
+    return this.updateDataByIdInStore<S>(storeName, key, item, options);
+  }
+
+  async deleteDataFromStore(storeName: string, id: DatabaseKey): Promise<DatabaseKey> {
     return this.databaseOperations.deleteDataFromStore(storeName, id);
   }
 
-  async getAllDataFromStore<S extends DatabaseItem = DatabaseItem>(storeName: string): Promise<S[]> {
-    return this.databaseOperations.getAllDataFromStore(storeName) as Promise<S[]>;
+  async getAllDataFromStore<S extends DatabaseItem = DatabaseItem>(storeName: string, options: GetAllOptions<S> = {}): Promise<S[]> {
+    const project = options.select ? compileProjection(options.select, this.getStoreKeyPath(storeName)) : undefined;
+    return this.databaseOperations.getAllDataFromStore(storeName, project) as Promise<S[]>;
+  }
+
+  /**
+   * Records whose key in the `indexName` index matches `query` (a key or a `KeyRange`);
+   * without `query`, all of them in index order
+   */
+  async getAllFromIndexInStore<S extends DatabaseItem = DatabaseItem>(
+    storeName: string,
+    indexName: string,
+    query?: unknown
+  ): Promise<S[]> {
+    const items: S[] = [];
+    await this.databaseOperations.iterateStore(
+      storeName,
+      value => { items.push(value as S); },
+      query === undefined ? { indexName } : { indexName, query }
+    );
+    return items;
   }
 
   async clearStore(storeName: string): Promise<void> {
@@ -335,27 +624,157 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     return this.databaseOperations.countInStore(storeName);
   }
 
-  async searchDataInStore<S extends DatabaseItem = DatabaseItem>(storeName: string, query: Partial<S>, options: SearchOptions = {}): Promise<SearchResult<S>> {
-    return this.searchEngine.searchDataInStore(storeName, query as any, options) as Promise<SearchResult<S>>;
+  async searchDataInStore<S extends DatabaseItem = DatabaseItem>(storeName: string, query: QueryFilter<S> = {}, options: SearchOptions = {}): Promise<SearchResult<S>> {
+    return this.searchEngine.searchDataInStore(storeName, query as QueryFilter, options) as Promise<SearchResult<S>>;
   }
 
-  async filterInStore<S extends DatabaseItem = DatabaseItem>(storeName: string, criteria: FilterCriteria): Promise<S[]> {
-    return this.searchEngine.filterInStore(storeName, criteria) as Promise<S[]>;
+  async filterInStore<S extends DatabaseItem = DatabaseItem>(storeName: string, criteria: FilterCriteria<S>): Promise<S[]> {
+    return this.searchEngine.filterInStore(storeName, criteria as FilterCriteria) as Promise<S[]>;
+  }
+
+  async explainInStore<S extends DatabaseItem = DatabaseItem>(storeName: string, query: QueryFilter<S> = {}, options: SearchOptions = {}): Promise<QueryExplanation> {
+    return this.searchEngine.explainInStore(storeName, query as QueryFilter, options);
+  }
+
+  async aggregateInStore<R = Record<string, any>, S extends DatabaseItem = DatabaseItem>(storeName: string, pipeline: AggregateStage<S>[]): Promise<R[]> {
+    return this.searchEngine.aggregateInStore(storeName, pipeline) as Promise<R[]>;
+  }
+
+  async searchTextInStore<S extends DatabaseItem = DatabaseItem>(storeName: string, text: string, options: SearchTextOptions = {}): Promise<TextSearchHit<S>[]> {
+    return this.searchEngine.searchTextInStore(storeName, text, options) as Promise<TextSearchHit<S>[]>;
+  }
+
+  async distinctInStore<V = unknown, S extends DatabaseItem = DatabaseItem>(storeName: string, field: string, query: QueryFilter<S> = {}): Promise<V[]> {
+    return this.searchEngine.distinctInStore(storeName, field, query as QueryFilter) as Promise<V[]>;
+  }
+
+  /**
+   * Subscribable result of `searchDataInStore(storeName, query, options)` that re-emits
+   * when a mutation of the store changes it
+   */
+  liveQuery<S extends DatabaseItem = DatabaseItem>(storeName: string, query: QueryFilter<S> = {}, options: SearchOptions = {}): LiveQuery<S> {
+    return new LiveQuery<S>({
+      getEmitter: () => this.emitterInstance,
+      searchDataInStore: this.searchDataInStore.bind(this),
+      getStoreKeyPath: this.getStoreKeyPath.bind(this)
+    }, storeName, query, options);
+  }
+
+  /**
+   * Deletes the records matching `query` (within `orderBy`, `limit` and `offset`) and returns how many
+   */
+  async deleteWhereInStore<S extends DatabaseItem = DatabaseItem>(storeName: string, query: QueryFilter<S> = {}, options: SearchOptions = {}): Promise<number> {
+    const keyPath = this.getStoreKeyPath(storeName);
+    return this.writeWhere(
+      storeName,
+      query as QueryFilter,
+      options,
+      items => items.map(item => getKeyPathValue(item, keyPath) as DatabaseKey),
+      (batchOperations, keys) => batchOperations.deleteManyFromStore(storeName, keys)
+    );
+  }
+
+  /**
+   * Applies `changes` to the records matching `query` and returns how many were written.
+   * The primary key cannot be changed.
+   */
+  async modifyWhereInStore<S extends DatabaseItem = DatabaseItem>(
+    storeName: string,
+    query: QueryFilter<S>,
+    changes: ModifyChanges<S>,
+    options: SearchOptions = {}
+  ): Promise<number> {
+    const keyPath = this.getStoreKeyPath(storeName);
+    return this.writeWhere(
+      storeName,
+      query as QueryFilter,
+      options,
+      items => items.map(item => {
+        const next = applyChanges(item as S, changes);
+        if (compareKeys(getKeyPathValue(next, keyPath), getKeyPathValue(item, keyPath)) !== 0) {
+          throw new ValidationError('modify() cannot change the primary key');
+        }
+        return next;
+      }),
+      (batchOperations, updated) => batchOperations.updateManyInStore(storeName, updated)
+    );
+  }
+
+  /**
+   * Searches the store and writes the entries `prepare` makes of the matching records in one
+   * transaction, so no other write lands in between. Returns how many entries were written;
+   * a failed write rolls back the others and returns 0, or rethrows with `throwOnError`.
+   */
+  private async writeWhere<E>(
+    storeName: string,
+    query: QueryFilter,
+    options: SearchOptions,
+    prepare: (items: DatabaseItem[]) => E[],
+    write: (batchOperations: BatchOperations, entries: E[]) => Promise<unknown>
+  ): Promise<number> {
+    let writing = false;
+    try {
+      return await this.runInTransaction([storeName], 'readwrite', async ({ databaseOperations, batchOperations }) => {
+        const searchEngine = new SearchEngine(this.searchEngineOptions(databaseOperations));
+        const { items } = await searchEngine.searchDataInStore(storeName, query, options);
+        const entries = prepare(items);
+        if (entries.length === 0) return 0;
+
+        writing = true;
+        await write(batchOperations, entries);
+        return entries.length;
+      });
+    } catch (error) {
+      if (!writing || this.throwOnError) throw error;
+      return 0;
+    }
   }
 
   async addManyToStore<S extends DatabaseItem = DatabaseItem>(storeName: string, items: Partial<S>[]): Promise<boolean> {
     return this.batchOperations.addManyToStore(storeName, items as any);
   }
 
-  async updateManyInStore<S extends DatabaseItem = DatabaseItem>(storeName: string, items: S[]): Promise<boolean> {
-    return this.batchOperations.updateManyInStore(storeName, items);
+  async updateManyInStore<S extends DatabaseItem = DatabaseItem>(
+    storeName: string,
+    items: S[],
+    options: UpdateManyOptions = {}
+  ): Promise<boolean> {
+    return this.batchOperations.updateManyInStore(storeName, items, options);
   }
 
-  async deleteManyFromStore(storeName: string, ids: (string | number)[]): Promise<boolean> {
+  async deleteManyFromStore(storeName: string, ids: DatabaseKey[]): Promise<boolean> {
     return this.batchOperations.deleteManyFromStore(storeName, ids);
   }
 
-  async getManyFromStore<S extends DatabaseItem = DatabaseItem>(storeName: string, ids: (string | number)[]): Promise<S[]> {
+  /**
+   * Batch variants that report the outcome of each item. With `mode: 'bestEffort'`
+   * the valid items are written even if others fail.
+   */
+  async addManyToStoreWithResults<S extends DatabaseItem = DatabaseItem>(
+    storeName: string,
+    items: Partial<S>[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult<Partial<S>>> {
+    return this.batchOperations.addManyToStoreWithResults(storeName, items, options) as Promise<BatchResult<Partial<S>>>;
+  }
+
+  async updateManyInStoreWithResults<S extends DatabaseItem = DatabaseItem>(
+    storeName: string,
+    items: S[],
+    options: UpdateManyOptions & BatchOptions = {}
+  ): Promise<BatchResult<S>> {
+    return this.batchOperations.updateManyInStoreWithResults(storeName, items, options) as Promise<BatchResult<S>>;
+  }
+
+  async deleteManyFromStoreWithResults(
+    storeName: string,
+    ids: DatabaseKey[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult<DatabaseKey>> {
+    return this.batchOperations.deleteManyFromStoreWithResults(storeName, ids, options);
+  }
+
+  async getManyFromStore<S extends DatabaseItem = DatabaseItem>(storeName: string, ids: DatabaseKey[]): Promise<S[]> {
     return this.databaseOperations.getManyFromStore(storeName, ids) as Promise<S[]>;
   }
 
@@ -363,19 +782,19 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     return this.databaseOperations.getStatsForStore(storeName);
   }
 
-  private async idExistsInStore(storeName: string, id: string | number): Promise<boolean> {
+  private async idExistsInStore(storeName: string, id: DatabaseKey): Promise<boolean> {
     return this.databaseOperations.idExistsInStore(storeName, id);
   }
 
-  async idExists(id: string | number): Promise<boolean> {
+  async idExists(id: DatabaseKey): Promise<boolean> {
     return this.idExistsInStore(this.dbConfig.store, id);
   }
 
-  async updateDataById(id: string | number, updatedData: Partial<T>): Promise<T | null> {
-    return this.databaseOperations.updateDataByIdInStore(this.dbConfig.store, id, updatedData) as Promise<T | null>;
+  async updateDataById(id: DatabaseKey, updatedData: Partial<T>, options: UpdateOptions = {}): Promise<T | null> {
+    return this.databaseOperations.updateDataByIdInStore(this.dbConfig.store, id, updatedData, options) as Promise<T | null>;
   }
 
-  async getDataById(id: string | number): Promise<T | null> {
+  async getDataById(id: DatabaseKey): Promise<T | null> {
     return this.databaseOperations.getDataByIdFromStore(this.dbConfig.store, id) as Promise<T | null>;
   }
 
@@ -383,39 +802,72 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     return this.databaseOperations.saveDataToStore(this.dbConfig.store, data) as Promise<T>;
   }
 
-  async deleteData(id: string | number): Promise<string | number> {
+  async deleteData(id: DatabaseKey): Promise<DatabaseKey> {
     return this.databaseOperations.deleteDataFromStore(this.dbConfig.store, id);
   }
 
-  async getAllData(): Promise<T[]> {
-    return this.databaseOperations.getAllDataFromStore(this.dbConfig.store) as Promise<T[]>;
+  async getAllData(options: GetAllOptions<T> = {}): Promise<T[]> {
+    return this.getAllDataFromStore<T>(this.dbConfig.store, options);
+  }
+
+  /**
+   * Starts a typed query chain on the default store: `where('age').gt(18).toArray()`
+   */
+  where<P extends QueryField<T>>(field: P): WhereClause<T, QueryFieldValue<T, P>> {
+    return this.query().where(field);
+  }
+
+  query(): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, this.dbConfig.store);
+  }
+
+  async searchData(query: QueryFilter<T> = {}, options: SearchOptions = {}): Promise<SearchResult<T>> {
+    return this.searchEngine.searchDataInStore(this.dbConfig.store, query as QueryFilter, options) as Promise<SearchResult<T>>;
   }
 
-  async searchData(query: Partial<T>, options: SearchOptions = {}): Promise<SearchResult<T>> {
-    return this.searchEngine.searchDataInStore(this.dbConfig.store, query as any, options) as Promise<SearchResult<T>>;
+  async explain(query: QueryFilter<T> = {}, options: SearchOptions = {}): Promise<QueryExplanation> {
+    return this.searchEngine.explainInStore(this.dbConfig.store, query as QueryFilter, options);
+  }
+
+  async aggregate<R = Record<string, any>>(pipeline: AggregateStage<T>[]): Promise<R[]> {
+    return this.searchEngine.aggregateInStore(this.dbConfig.store, pipeline) as Promise<R[]>;
+  }
+
+  async distinct<V = unknown>(field: string, query: QueryFilter<T> = {}): Promise<V[]> {
+    return this.searchEngine.distinctInStore(this.dbConfig.store, field, query as QueryFilter) as Promise<V[]>;
   }
 
   async clearDatabase(): Promise<void> {
     return this.databaseOperations.clearStore(this.dbConfig.store);
   }
 
-  async get(id: string | number): Promise<T | null> {
+  async get(id: DatabaseKey): Promise<T | null> {
     return this.getDataById(id);
   }
 
-  async update(item: T): Promise<T> {
-    const result = await this.updateDataById(item.id, item);
+  async update(item: T, options: UpdateOptions = {}): Promise<T> {
+    const key = getKeyPathValue(item, this.getStoreKeyPath(this.dbConfig.store));
+    const result = await this.updateDataById(key, item, options);
     if (!result) {
-      throw new Error(`Item with id ${item.id} not found`);
+      throw new NotFoundError(this.dbConfig.store, key);
     }
     return result!;
   }
 
-  async delete(id: string | number): Promise<boolean> {
+  async delete(id: DatabaseKey): Promise<boolean> {
+    return this.deleteFromStore(this.dbConfig.store, id);
+  }
+
+  /**
+   * Deletes a record and returns `true`. On failure returns `false`, or rethrows the error
+   * with `throwOnError`.
+   */
+  async deleteFromStore(storeName: string, id: DatabaseKey): Promise<boolean> {
     try {
-      await this.deleteData(id);
+      await this.databaseOperations.deleteDataFromStore(storeName, id);
       return true;
-    } catch {
+    } catch (error) {
+      if (this.throwOnError) throw error;
       return false;
     }
   }
@@ -424,31 +876,30 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     await this.clearDatabase();
   }
 
-  async search(query: string, options?: SearchTextOptions): Promise<T[]> {
-    const allData = await this.getAllData();
-    return this.searchEngine.search(allData, query, options) as Promise<T[]>;
+  async search(query: string, options: SearchTextOptions = {}): Promise<TextSearchHit<T>[]> {
+    return this.searchEngine.searchTextInStore(this.dbConfig.store, query, options) as Promise<TextSearchHit<T>[]>;
   }
 
-  async filter(criteria: FilterCriteria): Promise<T[]> {
-    return this.searchEngine.filterInStore(this.dbConfig.store, criteria) as Promise<T[]>;
+  async filter(criteria: FilterCriteria<T>): Promise<T[]> {
+    return this.searchEngine.filterInStore(this.dbConfig.store, criteria as FilterCriteria) as Promise<T[]>;
   }
 
-  async getMany(ids: (string | number)[]): Promise<T[]> {
+  async getMany(ids: DatabaseKey[]): Promise<T[]> {
     return this.databaseOperations.getManyFromStore(this.dbConfig.store, ids) as Promise<T[]>;
   }
 
   async getStats(): Promise<DatabaseStats> {
     return this.databaseOperations.getStatsForStore(this.dbConfig.store);
   }
-  async getById(id: string | number): Promise<T | null> {
+  async getById(id: DatabaseKey): Promise<T | null> {
     return this.get(id);
   }
 
-  async updateById(id: string | number, data: Partial<T>): Promise<T | null> {
-    return this.updateDataById(id, data);
+  async updateById(id: DatabaseKey, data: Partial<T>, options: UpdateOptions = {}): Promise<T | null> {
+    return this.updateDataById(id, data, options);
   }
 
-  async deleteById(id: string | number): Promise<boolean> {
+  async deleteById(id: DatabaseKey): Promise<boolean> {
     return this.delete(id);
   }
 
@@ -456,6 +907,7 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     return this.openDatabase();
   }
   async openDatabase(): Promise<any> {
+    this.searchEngine.resetTextIndexes();
     this.db = await this.transactionManager.openDatabase();
     this.syncModules();
     return this.db;
@@ -469,19 +921,109 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
     return this.transactionManager.executeTransaction(storeName, mode, callback);
   }
 
+  /**
+   * Runs `callback` in one transaction over `storeNames`. Writes made through
+   * `tx.store(name)` commit together when the callback resolves and are all rolled back
+   * when it throws; their events are emitted only after the commit.
+   *
+   * With an adapter, manager calls and nested transactions made from the callback on its
+   * stores join it as well, where the runtime has AsyncLocalStorage (Node, Bun, Deno).
+   */
+  async transaction<R>(
+    storeNames: string[],
+    mode: TransactionMode,
+    callback: (tx: Transaction) => Promise<R> | R
+  ): Promise<R> {
+    return this.runInTransaction(storeNames, mode, async ({ databaseOperations, batchOperations }) => {
+      const tx = new Transaction({
+        databaseOperations,
+        batchOperations,
+        getStoreKeyPath: this.getStoreKeyPath.bind(this)
+      }, storeNames, mode);
+
+      try {
+        return await callback(tx);
+      } finally {
+        tx.finish();
+      }
+    });
+  }
+
+  /**
+   * Runs `work` in one transaction over `storeNames` with operations bound to it, see
+   * transaction(). The events of its writes are emitted once it commits.
+   */
+  private async runInTransaction<R>(
+    storeNames: string[],
+    mode: TransactionMode,
+    work: (modules: TransactionModules) => Promise<R>
+  ): Promise<R> {
+    if (!this.db) await this.openDatabase();
+
+    const events: Array<[EmitEvents, DatabaseItem | number | null, string | undefined]> = [];
+    const emitEvent = (event: EmitEvents, data: DatabaseItem | number | null, storeName?: string) => {
+      events.push([event, data, storeName]);
+    };
+
+    // Counters of autoIncrement stores advance within the transaction
+    const scope = mode === 'readwrite' && storeNames.some(name => this.getStoreIdStrategy(name) === 'autoIncrement')
+      ? [...storeNames, COUNTER_STORE]
+      : storeNames;
+    const outer = this.isNodeEnvironment && mode === 'readwrite' ? this.transactionScope.current(scope) : undefined;
+
+    const result = await this.transactionManager.runTransaction(scope, mode, async (executeTransaction, db) => {
+      const context = {
+        db,
+        adapter: this.adapter,
+        isNodeEnvironment: this.isNodeEnvironment,
+        emitEvent,
+        executeTransaction,
+        getRevisionField: this.getStoreRevisionField.bind(this),
+        getValidationSchema: this.getStoreValidationSchema.bind(this),
+        getFieldRules: this.getStoreFieldRules.bind(this),
+        getTimestamps: this.getStoreTimestamps.bind(this),
+        getIdStrategy: this.getStoreIdStrategy.bind(this),
+        getPrimaryKey: this.getStorePrimaryKey.bind(this),
+        getStoreIndexes: this.getStoreIndexes.bind(this),
+        throwOnError: this.throwOnError
+      };
+      const databaseOperations = new DatabaseOperations({ ...context, dbConfig: this.dbConfig });
+      const modules: TransactionModules = {
+        databaseOperations,
+        // Failed batches abort the transaction with their own error
+        batchOperations: new BatchOperations({
+          ...context,
+          generateIds: databaseOperations.generateIds.bind(databaseOperations),
+          throwOnError: true
+        })
+      };
+
+      if (!this.isNodeEnvironment || mode !== 'readwrite') return work(modules);
+      return this.transactionScope.run({ db, storeNames: scope, emitEvent }, () => work(modules));
+    }, outer?.db);
+
+    // A nested transaction hands its events to the one it joined
+    events.forEach(([event, data, storeName]) => outer ? outer.emitEvent(event, data, storeName) : this.emitEvent(event, data, storeName));
+    return result;
+  }
+
   close(): void {
     this.transactionManager.close();
+    this.searchEngine.resetTextIndexes();
     this.db = null;
     this.storeProxies.clear();
   }
 
-  private emitEvent(event: EmitEvents, data: DatabaseItem | number | null): void {
+  private emitEvent(event: EmitEvents, data: DatabaseItem | number | null, storeName: string = this.dbConfig.store): void {
+    this.searchEngine.applyMutation(storeName, event, data);
+
     const eventData: EmitEventData = {
       config: this.dbConfig,
       data,
       metadata: {
         timestamp: createTimestamp(),
-        operation: event
+        operation: event,
+        storeName
       }
     }
     this.emitterInstance?.emit(event, eventData);
@@ -516,4 +1058,11 @@ export class IndexedDBManager<T extends DatabaseItem = DatabaseItem> {
   }
 }
 
+// Short description of a schema change for error messages
+function describeSchemaChange(change: SchemaChange): string {
+  if (change.type !== 'changeKeyPath') return `${change.type} '${change.store}'`;
+  const describeKey = (keyPath: string | string[], autoIncrement: boolean) => `${keyPath}${autoIncrement ? ' autoIncrement' : ''}`;
+  return `changeKeyPath '${change.store}' (${describeKey(change.from, change.fromAutoIncrement)} -> ${describeKey(change.to, change.toAutoIncrement)})`;
+}
+
 export default IndexedDBManager;
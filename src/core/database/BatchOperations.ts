@@ -2,32 +2,114 @@
  * BatchOperations - Handles batch operations (addMany, updateMany, deleteMany)
  */
 
-import type { DatabaseItem, EmitEvents } from '../../types/index.js';
+import type {
+  BatchItemFailure,
+  BatchMode,
+  BatchOptions,
+  BatchResult,
+  DatabaseItem,
+  DatabaseKey,
+  EmitEvents,
+  StoreValidationSchema,
+  UpdateManyOptions
+} from '../../types/index.js';
 import type { StorageAdapter } from '../../adapters/types.js';
-import { isValidId, normalizeId, generateNextId } from '../../utils/helpers.js';
+import { encodeKey, getKeyPathValue } from '../../utils/keys.js';
+import { ConflictError, ValidationError, toDatabaseError } from '../errors.js';
+import { assertRevision, requireRevisionField, withNextRevision } from './Revisions.js';
+import { createRecordValidator } from './Validation.js';
+import { applyFieldRules } from './Fields.js';
+import type { FieldRules } from './Fields.js';
+import { withTimestamps } from './Timestamps.js';
+import type { Timestamps } from './Timestamps.js';
+import { nextNumericId } from './Ids.js';
+import { DEFAULT_PRIMARY_KEY, getRecordKey, normalizeKey, withRecordKey } from './PrimaryKeys.js';
+import type { PrimaryKey } from './PrimaryKeys.js';
+import type { TransactionScope } from './TransactionScope.js';
+
+/**
+ * Reads and writes of a batch, on the adapter (Node) or on an IDBObjectStore (browser)
+ */
+interface BatchStore {
+  getAll(): Promise<DatabaseItem[]>;
+  get(id: DatabaseKey): Promise<DatabaseItem | undefined>;
+  /** Resolves with the key written, which an autoIncrement store may have generated */
+  put(item: DatabaseItem): Promise<DatabaseKey>;
+  delete(id: DatabaseKey): Promise<void>;
+}
+
+/** A write of a batch and the event it emits once committed */
+interface PreparedWrite {
+  /** Unknown until written when an autoIncrement store generates it */
+  id: DatabaseKey | undefined;
+  action: EmitEvents;
+  data: DatabaseItem | number;
+  apply: (store: BatchStore) => Promise<void>;
+}
+
+/** Thrown to roll back an atomic batch whose failures are already recorded */
+class BatchRollback extends Error {}
+
+function requestStore(store: IDBObjectStore): BatchStore {
+  const request = <R>(req: IDBRequest<R>) => new Promise<R>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = (event) => {
+      // Keep the transaction alive: the batch decides whether the failure aborts it
+      event.preventDefault();
+      event.stopPropagation();
+      reject(req.error);
+    };
+  });
+
+  return {
+    getAll: () => request(store.getAll()),
+    get: id => request(store.get(id)),
+    put: async item => await request(store.put(item)) as DatabaseKey,
+    delete: id => request(store.delete(id))
+  };
+}
 
 export interface BatchOperationsOptions {
   db: any;
   adapter: StorageAdapter;
   isNodeEnvironment: boolean;
-  emitEvent: (event: EmitEvents, data: DatabaseItem | number | null) => void;
+  emitEvent: (event: EmitEvents, data: DatabaseItem | number | null, storeName?: string) => void;
   executeTransaction: <T>(
     storeName: string,
     mode: 'readonly' | 'readwrite',
     callback: (store: IDBObjectStore) => Promise<T> | T
   ) => Promise<T>;
+  getRevisionField?: (storeName: string) => string | undefined;
+  getValidationSchema?: (storeName: string) => StoreValidationSchema | undefined;
+  getFieldRules?: (storeName: string) => FieldRules | undefined;
+  getTimestamps?: (storeName: string) => Timestamps | undefined;
+  /** IDs of new records from the store's `idStrategy`; `undefined` numbers them after the highest stored key */
+  generateIds?: (storeName: string, records: Partial<DatabaseItem>[]) => Promise<Array<string | number> | undefined>;
+  getPrimaryKey?: (storeName: string) => PrimaryKey;
+  /** Throw typed errors instead of resolving failed batches with `false` */
+  throwOnError?: boolean;
+  /** Running transaction() callbacks, whose writes batches made from them join */
+  transactionScope?: TransactionScope;
 }
 
 export class BatchOperations {
   private db: any;
   private adapter: StorageAdapter;
   private isNodeEnvironment: boolean;
-  private emitEvent: (event: EmitEvents, data: DatabaseItem | number | null) => void;
+  private emitEvent: (event: EmitEvents, data: DatabaseItem | number | null, storeName?: string) => void;
   private executeTransaction: <T>(
     storeName: string,
     mode: 'readonly' | 'readwrite',
     callback: (store: IDBObjectStore) => Promise<T> | T
   ) => Promise<T>;
+  private getRevisionField: (storeName: string) => string | undefined;
+  private getValidationSchema: (storeName: string) => StoreValidationSchema | undefined;
+  private getFieldRules: (storeName: string) => FieldRules | undefined;
+  private getTimestamps: (storeName: string) => Timestamps | undefined;
+  private generateIds: (storeName: string, records: Partial<DatabaseItem>[]) => Promise<Array<string | number> | undefined>;
+  private getPrimaryKey: (storeName: string) => PrimaryKey;
+  private throwOnError: boolean;
+  private transactionScope: TransactionScope | undefined;
 
   constructor(options: BatchOperationsOptions) {
     this.db = options.db;
@@ -35,6 +117,14 @@ export class BatchOperations {
     this.isNodeEnvironment = options.isNodeEnvironment;
     this.emitEvent = options.emitEvent;
     this.executeTransaction = options.executeTransaction;
+    this.getRevisionField = options.getRevisionField ?? (() => undefined);
+    this.getValidationSchema = options.getValidationSchema ?? (() => undefined);
+    this.getFieldRules = options.getFieldRules ?? (() => undefined);
+    this.getTimestamps = options.getTimestamps ?? (() => undefined);
+    this.generateIds = options.generateIds ?? (async () => undefined);
+    this.getPrimaryKey = options.getPrimaryKey ?? (() => DEFAULT_PRIMARY_KEY);
+    this.throwOnError = options.throwOnError ?? false;
+    this.transactionScope = options.transactionScope;
   }
 
   updateContext(options: Partial<BatchOperationsOptions>): void {
@@ -43,155 +133,317 @@ export class BatchOperations {
     if (options.isNodeEnvironment !== undefined) this.isNodeEnvironment = options.isNodeEnvironment;
     if (options.emitEvent !== undefined) this.emitEvent = options.emitEvent;
     if (options.executeTransaction !== undefined) this.executeTransaction = options.executeTransaction;
+    if (options.getRevisionField !== undefined) this.getRevisionField = options.getRevisionField;
+    if (options.getValidationSchema !== undefined) this.getValidationSchema = options.getValidationSchema;
+    if (options.getFieldRules !== undefined) this.getFieldRules = options.getFieldRules;
+    if (options.getTimestamps !== undefined) this.getTimestamps = options.getTimestamps;
+    if (options.generateIds !== undefined) this.generateIds = options.generateIds;
+    if (options.getPrimaryKey !== undefined) this.getPrimaryKey = options.getPrimaryKey;
+    if (options.throwOnError !== undefined) this.throwOnError = options.throwOnError;
+    if (options.transactionScope !== undefined) this.transactionScope = options.transactionScope;
   }
 
   async addManyToStore(storeName: string, items: Partial<DatabaseItem>[]): Promise<boolean> {
-    const itemsToEmit: { actionType: EmitEvents, data: DatabaseItem }[] = [];
+    return this.toSuccess(storeName, 'Error adding multiple items:', () => this.addManyToStoreWithResults(storeName, items));
+  }
+
+  /**
+   * Writes `items` as given. With `options.ifMatch`, each item whose expected revision
+   * differs from the stored one makes the whole batch fail with `ConflictError`.
+   */
+  async updateManyInStore(storeName: string, items: DatabaseItem[], options: UpdateManyOptions = {}): Promise<boolean> {
+    return this.toSuccess(storeName, 'Error updating multiple items:', () => this.updateManyInStoreWithResults(storeName, items, options));
+  }
+
+  async deleteManyFromStore(storeName: string, ids: DatabaseKey[]): Promise<boolean> {
+    return this.toSuccess(storeName, 'Error deleting multiple items:', () => this.deleteManyFromStoreWithResults(storeName, ids));
+  }
+
+  /**
+   * Adds or replaces `items`, generating the IDs they lack, and reports each item's outcome
+   */
+  async addManyToStoreWithResults(
+    storeName: string,
+    items: Partial<DatabaseItem>[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult<Partial<DatabaseItem>>> {
+    const revisionField = this.getRevisionField(storeName);
+    const fieldRules = this.getFieldRules(storeName);
+    const timestamps = this.getTimestamps(storeName);
+    const primaryKey = this.getPrimaryKey(storeName);
+    const isCompound = Array.isArray(primaryKey.keyPath);
+    // IDs are generated up front: an autoIncrement counter lives in a store of its own
+    const newIndexes = isCompound
+      ? []
+      : items.flatMap((item, index) => getRecordKey(item, primaryKey) === undefined ? [index] : []);
+    const generatedIds = newIndexes.length > 0
+      ? await this.generateIds(storeName, newIndexes.map(index => items[index]!))
+      : undefined;
+    const generatedIdAt = new Map(generatedIds?.map((id, position) => [newIndexes[position]!, id]));
 
-    if (this.isNodeEnvironment) {
-      const allDataInStore = await this.adapter.getAll({ db: this.db, storeName });
-      const existingIds = new Set(allDataInStore.map((d: DatabaseItem) => d.id));
+    return this.executeBatch(storeName, items, options.mode ?? 'atomic', async store => {
+      const allDataInStore = await store.getAll();
+      const existing = new Map(allDataInStore.map(d => [encodeKey(getKeyPathValue(d, primaryKey.keyPath)), d]));
+      const validate = createRecordValidator(
+        storeName,
+        this.getValidationSchema(storeName),
+        async () => allDataInStore,
+        primaryKey.keyPath
+      );
+      // Without an idStrategy, new records follow the highest numeric key, found once per batch
+      let highestKey: number | undefined;
+      const trackKey = (key: unknown) => {
+        if (typeof key === 'number' && (highestKey === undefined || key > highestKey)) highestKey = key;
+      };
+      allDataInStore.forEach(record => trackKey(getKeyPathValue(record, primaryKey.keyPath)));
 
-      for (const item of items) {
+      return async (item, index) => {
         const cleanItem = { ...item };
-        let targetId: string | number;
+        const explicitKey = getRecordKey(cleanItem, primaryKey);
+        // Without a key of its own, an autoIncrement store leaves the key to the adapter
+        let targetKey: DatabaseKey | undefined;
         let isUpdate = false;
 
-        if (isValidId(cleanItem.id)) {
-          targetId = normalizeId(cleanItem.id as string | number);
-          isUpdate = existingIds.has(targetId);
+        if (explicitKey !== undefined) {
+          targetKey = explicitKey;
+          isUpdate = existing.has(encodeKey(targetKey));
+        } else if (isCompound) {
+          throw new ValidationError(`Record for store '${storeName}' is missing its compound key ${JSON.stringify(primaryKey.keyPath)}`);
         } else {
-          targetId = generateNextId([...allDataInStore, ...itemsToEmit.map(i => i.data)]);
+          targetKey = generatedIdAt.get(index) ?? (primaryKey.autoIncrement ? undefined : nextNumericId(highestKey));
         }
 
-        const newData = { ...cleanItem, id: targetId } as DatabaseItem;
-        await this.adapter.put({ db: this.db, storeName }, newData);
+        const keyed = targetKey === undefined ? cleanItem : withRecordKey(cleanItem, primaryKey, targetKey);
+        const record = applyFieldRules(fieldRules, keyed as DatabaseItem);
+        const stored = targetKey === undefined ? undefined : existing.get(encodeKey(targetKey));
+        const newData = withNextRevision(withTimestamps(record, stored, timestamps), stored, revisionField);
+        await validate(newData);
+        trackKey(targetKey);
 
-        const actionType: EmitEvents = isUpdate ? "update" : "add";
-        itemsToEmit.push({ actionType, data: newData });
-      }
-
-      itemsToEmit.forEach(item => this.emitEvent(item.actionType, item.data));
-      return true;
-    }
-
-    return this.executeTransaction(storeName, "readwrite", async (store) => {
-      const allDataInStore = await new Promise<DatabaseItem[]>((resolve, reject) => {
-        const req = store.getAll();
-        req.onsuccess = () => resolve(req.result);
-        req.onerror = () => reject(req.error);
-      });
+        const write: PreparedWrite = {
+          id: targetKey,
+          action: isUpdate ? "update" : "add",
+          data: newData,
+          apply: async target => {
+            write.id = await target.put(newData);
+            write.data = withRecordKey(newData, primaryKey, write.id);
+          }
+        };
+        return write;
+      };
+    });
+  }
 
-      const existingIds = new Set(allDataInStore.map(d => d.id));
-      const itemsToAdd: DatabaseItem[] = [];
+  /**
+   * Writes `items` as given and reports each item's outcome. A revision that differs from
+   * `options.ifMatch` fails its item with `ConflictError`.
+   */
+  async updateManyInStoreWithResults(
+    storeName: string,
+    items: DatabaseItem[],
+    options: UpdateManyOptions & BatchOptions = {}
+  ): Promise<BatchResult<DatabaseItem>> {
+    const revisionField = this.getRevisionField(storeName);
+    const fieldRules = this.getFieldRules(storeName);
+    const timestamps = this.getTimestamps(storeName);
+    const primaryKey = this.getPrimaryKey(storeName);
+    if (options.ifMatch) requireRevisionField(storeName, revisionField);
 
-      for (const item of items) {
-        const cleanItem = { ...item };
-        let targetId: string | number;
-        let isUpdate = false;
+    return this.executeBatch(storeName, items, options.mode ?? 'atomic', async store => {
+      const validate = createRecordValidator(
+        storeName,
+        this.getValidationSchema(storeName),
+        () => store.getAll(),
+        primaryKey.keyPath
+      );
 
-        if (isValidId(cleanItem.id)) {
-          targetId = normalizeId(cleanItem.id as string | number);
-          isUpdate = existingIds.has(targetId);
-        } else {
-          const currentDataForIdGen = [...allDataInStore, ...itemsToAdd];
-          targetId = generateNextId(currentDataForIdGen);
+      return async (item, index) => {
+        const key = getKeyPathValue(item, primaryKey.keyPath);
+        if (normalizeKey(key) === undefined) {
+          throw new ValidationError("Invalid ID provided for update");
         }
 
-        const newData = { ...cleanItem, id: targetId } as DatabaseItem;
-        itemsToAdd.push(newData);
+        let newData = applyFieldRules(fieldRules, item);
+        // Revisions and timestamps carry on from the stored versions, checking ifMatch on the way
+        if (revisionField || timestamps) {
+          const stored = await store.get(key);
+          newData = withTimestamps(newData, stored, timestamps);
+          if (revisionField) {
+            assertRevision(storeName, key, stored, revisionField, options.ifMatch?.[index]);
+            newData = withNextRevision(newData, stored, revisionField);
+          }
+        }
+        await validate(newData);
+        return {
+          id: key,
+          action: "update",
+          data: newData,
+          apply: async target => {
+            await target.put(newData);
+          }
+        };
+      };
+    });
+  }
 
-        const actionType: EmitEvents = isUpdate ? "update" : "add";
-        itemsToEmit.push({ actionType, data: newData });
+  /**
+   * Deletes `ids` and reports each one's outcome
+   */
+  async deleteManyFromStoreWithResults(
+    storeName: string,
+    ids: DatabaseKey[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult<DatabaseKey>> {
+    return this.executeBatch(storeName, ids, options.mode ?? 'atomic', async () => async id => {
+      const key = normalizeKey(id);
+      if (key === undefined) {
+        throw new ValidationError("Invalid ID provided for deletion");
       }
+      return { id: key, action: "delete", data: key as number, apply: target => target.delete(key) };
+    });
+  }
 
-      const promises = itemsToAdd.map(item => {
-        return new Promise<void>((resolve, reject) => {
-          const request = store.put(item);
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        });
-      });
+  /**
+   * Prepares every entry (IDs, revision checks) and then writes the prepared ones. Failures
+   * of either step are reported per entry. In atomic mode any failure leaves the store as
+   * it was; in bestEffort mode the other entries are still written. Events are emitted for
+   * the written entries once the batch has committed.
+   */
+  private async executeBatch<I>(
+    storeName: string,
+    entries: I[],
+    mode: BatchMode,
+    createPreparer: (store: BatchStore) => Promise<(entry: I, index: number) => Promise<PreparedWrite>>
+  ): Promise<BatchResult<I>> {
+    // A batch made from a transaction() callback holding the store writes through its handle
+    const { db, emitEvent } = this.transactionScope?.current([storeName]) ?? { db: this.db, emitEvent: this.emitEvent };
+    const failed: BatchItemFailure<I>[] = [];
+    let written: Array<{ index: number; write: PreparedWrite }> = [];
+    let rolledBack = false;
 
-      await Promise.all(promises);
-      return true;
+    const fail = (index: number, error: unknown) => {
+      failed.push({ index, item: entries[index]!, error: toDatabaseError(error, storeName) });
+    };
 
-    }).then((success) => {
-      if (success) {
-        itemsToEmit.forEach(item => this.emitEvent(item.actionType, item.data));
+    const run = async (
+      store: BatchStore,
+      isolate: (write: (target: BatchStore) => Promise<void>) => Promise<void>,
+      rollback: () => void
+    ): Promise<void> => {
+      const prepare = await createPreparer(store);
+      const prepared: Array<{ index: number; write: PreparedWrite }> = [];
+      for (let index = 0; index < entries.length; index++) {
+        try {
+          prepared.push({ index, write: await prepare(entries[index]!, index) });
+        } catch (error) {
+          fail(index, error);
+        }
       }
-      return true;
-    }).catch(err => {
-      console.error('Error adding multiple items:', err);
-      return false;
-    });
-  }
+      if (mode === 'atomic' && failed.length > 0) return;
 
-  async updateManyInStore(storeName: string, items: DatabaseItem[]): Promise<boolean> {
-    const itemsToEmit = [...items];
+      for (const entry of prepared) {
+        try {
+          await isolate(target => entry.write.apply(target));
+          written.push(entry);
+        } catch (error) {
+          fail(entry.index, error);
+        }
+      }
+      if (mode === 'atomic' && failed.length > 0) {
+        rolledBack = true;
+        rollback();
+        throw new BatchRollback();
+      }
+    };
 
-    if (this.isNodeEnvironment) {
-      for (const item of items) {
-        await this.adapter.put({ db: this.db, storeName }, item);
+    try {
+      if (this.isNodeEnvironment) {
+        // In bestEffort mode each write gets its own savepoint, so a failed one leaves no trace
+        await this.runAtomic(db, storeName, handle => {
+          const store = this.adapterStore(handle, storeName);
+          const isolate = mode === 'bestEffort'
+            ? (write: (target: BatchStore) => Promise<void>) =>
+                this.runAtomic(handle, storeName, savepoint => write(this.adapterStore(savepoint, storeName)))
+            : (write: (target: BatchStore) => Promise<void>) => write(store);
+          return run(store, isolate, () => {});
+        });
+      } else {
+        await this.executeTransaction(storeName, "readwrite", store => {
+          const target = requestStore(store);
+          return run(target, write => write(target), () => {
+            try {
+              store.transaction.abort();
+            } catch {
+              // Already finished
+            }
+          });
+        });
       }
-      itemsToEmit.forEach(item => this.emitEvent("update", item));
-      return true;
+    } catch (error) {
+      if (!rolledBack) throw error;
     }
 
-    return this.executeTransaction(storeName, "readwrite", async (store) => {
-      const promises = items.map(item => {
-        return new Promise<void>((resolve, reject) => {
-          const request = store.put(item);
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        });
-      });
-      await Promise.all(promises);
-      return true;
+    if (rolledBack) written = [];
+    written.forEach(({ write }) => emitEvent(write.action, write.data, storeName));
 
-    }).then((success) => {
-      if (success) {
-        itemsToEmit.forEach(item => this.emitEvent("update", item));
-      }
-      return true;
-    }).catch(err => {
-      console.error('Error updating multiple items:', err);
-      return false;
-    });
+    return {
+      succeeded: written.map(({ index, write }) => ({ index, id: write.id! })),
+      failed: failed.sort((a, b) => a.index - b.index),
+      created: written.filter(({ write }) => write.action === "add").length,
+      updated: written.filter(({ write }) => write.action === "update").length
+    };
   }
 
-  async deleteManyFromStore(storeName: string, ids: (string | number)[]): Promise<boolean> {
-    const idsToEmit = ids.map(normalizeId);
-
-    if (this.isNodeEnvironment) {
-      for (const id of idsToEmit) {
-        await this.adapter.delete({ db: this.db, storeName }, id);
-      }
-      idsToEmit.forEach(id => this.emitEvent("delete", id as number));
+  /**
+   * Boolean outcome of an atomic batch: the first failure goes through `handleFailure`
+   */
+  private async toSuccess(storeName: string, message: string, run: () => Promise<BatchResult<unknown>>): Promise<boolean> {
+    try {
+      const result = await run();
+      if (result.failed.length > 0) throw result.failed[0]!.error;
       return true;
+    } catch (error) {
+      return this.handleFailure(error, storeName, message);
     }
+  }
 
-    return this.executeTransaction(storeName, "readwrite", async (store) => {
-      const normalizedIds = ids.map(normalizeId);
-      const promises = normalizedIds.map(id => {
-        return new Promise<void>((resolve, reject) => {
-          const request = store.delete(id);
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        });
-      });
-      await Promise.all(promises);
-      return true;
+  private adapterStore(db: any, storeName: string): BatchStore {
+    const store = { db, storeName };
+    return {
+      getAll: () => this.adapter.getAll(store),
+      get: id => this.adapter.get(store, id),
+      put: item => this.adapter.put(store, item),
+      delete: id => this.adapter.delete(store, id)
+    };
+  }
 
-    }).then((success) => {
-      if (success) {
-        idsToEmit.forEach(id => this.emitEvent("delete", id as number));
-      }
-      return true;
-    }).catch(err => {
-      console.error('Error deleting multiple items:', err);
-      return false;
-    });
+  /**
+   * Runs the writes of a batch in an adapter transaction, so a failure part-way leaves the
+   * store as it was. `work` writes through the transaction's handle. Given the handle of a
+   * transaction over the same store (a batch on `tx.store()`), the batch joins it; otherwise
+   * it waits for the transactions over the store to finish, so their aborts cannot undo it.
+   */
+  private async runAtomic(db: any, storeName: string, work: (db: any) => Promise<void>): Promise<void> {
+    const transaction = await this.adapter.beginTransaction(db, [storeName], 'readwrite', { join: true });
+    try {
+      await work(transaction.db);
+    } catch (error) {
+      await transaction.abort();
+      throw toDatabaseError(error, storeName);
+    }
+    await transaction.commit();
+  }
+
+  /**
+   * Failed batches resolve with `false` unless `throwOnError` is set. A conflict is
+   * an answer for the caller rather than a storage failure, so it always throws.
+   */
+  private handleFailure(error: unknown, storeName: string, message: string): false {
+    if (this.throwOnError || error instanceof ConflictError) {
+      throw toDatabaseError(error, storeName);
+    }
+    console.error(message, error);
+    return false;
   }
 }
 
@@ -2,21 +2,89 @@
  * DatabaseOperations - Handles all CRUD operations for IndexedDB
  */
 
-import type { DatabaseItem, DatabaseConfig, EmitEvents, CreateDatabaseItem } from '../../types/index.js';
-import type { StorageAdapter } from '../../adapters/types.js';
+import type {
+  DatabaseIndex,
+  DatabaseItem,
+  DatabaseConfig,
+  EmitEvents,
+  CreateDatabaseItem,
+  UpdateOptions,
+  StoreValidationSchema,
+  IdStrategy,
+  DatabaseKey
+} from '../../types/index.js';
+import type { StorageAdapter, StoreInfo, CursorOptions, CursorPosition, KeyRange } from '../../adapters/types.js';
 import { normalizeId, isValidId } from '../../utils/helpers.js';
+import { continueToPosition, isPastPosition, toIDBQuery } from '../../utils/keys.js';
+import { assertRevision, requireRevisionField, withNextRevision } from './Revisions.js';
+import { createRecordValidator, getUniqueIndexes } from './Validation.js';
+import { applyFieldRules } from './Fields.js';
+import type { FieldRules } from './Fields.js';
+import { withTimestamps } from './Timestamps.js';
+import type { Timestamps } from './Timestamps.js';
+import { COUNTER_STORE, initialCounterValue, nextNumericId, resolveIdGenerator, withCounterLock } from './Ids.js';
+import { DEFAULT_PRIMARY_KEY, getRecordKey, normalizeKey, withRecordKey } from './PrimaryKeys.js';
+import type { PrimaryKey } from './PrimaryKeys.js';
+import { NotFoundError, ValidationError } from '../errors.js';
+import type { ActiveTransaction, TransactionScope } from './TransactionScope.js';
+
+/**
+ * Iteration callback; returning `false` stops the cursor
+ */
+export type StoreIterationCallback = (value: DatabaseItem, position: CursorPosition) => boolean | void;
+
+/** Reads of a store that validating a write needs */
+interface ValidationReader {
+  getAll(): Promise<DatabaseItem[]>;
+  getAllFromIndex(indexName: string, value: unknown): Promise<DatabaseItem[]>;
+}
+
+// Every numeric key; the highest one is the first a reverse cursor over them visits
+const NUMERIC_KEYS: KeyRange = { upper: Infinity };
+
+function requestResult<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise<R>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function requestReader(store: IDBObjectStore): ValidationReader {
+  return {
+    getAll: () => requestResult(store.getAll()),
+    getAllFromIndex: (indexName, value) => requestResult(store.index(indexName).getAll(value as IDBValidKey))
+  };
+}
 
 export interface DatabaseOperationsOptions {
   db: any;
   dbConfig: DatabaseConfig;
   adapter: StorageAdapter;
   isNodeEnvironment: boolean;
-  emitEvent: (event: EmitEvents, data: DatabaseItem | number | null) => void;
+  emitEvent: (event: EmitEvents, data: DatabaseItem | number | null, storeName?: string) => void;
   executeTransaction: <T>(
     storeName: string,
     mode: 'readonly' | 'readwrite',
     callback: (store: IDBObjectStore) => Promise<T> | T
   ) => Promise<T>;
+  /** Revision field of the store, if it was declared `versioned` */
+  getRevisionField?: (storeName: string) => string | undefined;
+  /** Validation schema of the store, if it declares one */
+  getValidationSchema?: (storeName: string) => StoreValidationSchema | undefined;
+  /** Defaults, transforms and computed fields of the store */
+  getFieldRules?: (storeName: string) => FieldRules | undefined;
+  /** Date fields the store keeps, if it declares them */
+  getTimestamps?: (storeName: string) => Timestamps | undefined;
+  /** ID generation strategy of the store, if it declares one */
+  getIdStrategy?: (storeName: string) => IdStrategy | undefined;
+  /** keyPath and autoIncrement of the store's primary key */
+  getPrimaryKey?: (storeName: string) => PrimaryKey;
+  /** Indexes declared for the store, used to look up unique fields */
+  getStoreIndexes?: (storeName: string) => DatabaseIndex[];
+  /** Throw `NotFoundError` instead of returning `null` when updating a missing record */
+  throwOnError?: boolean;
+  /** Running transaction() callbacks, whose writes calls made from them join */
+  transactionScope?: TransactionScope;
 }
 
 export class DatabaseOperations {
@@ -24,12 +92,21 @@ export class DatabaseOperations {
   private dbConfig: DatabaseConfig;
   private adapter: StorageAdapter;
   private isNodeEnvironment: boolean;
-  private emitEvent: (event: EmitEvents, data: DatabaseItem | number | null) => void;
+  private emitEvent: (event: EmitEvents, data: DatabaseItem | number | null, storeName?: string) => void;
   private executeTransaction: <T>(
     storeName: string,
     mode: 'readonly' | 'readwrite',
     callback: (store: IDBObjectStore) => Promise<T> | T
   ) => Promise<T>;
+  private getRevisionField: (storeName: string) => string | undefined;
+  private getValidationSchema: (storeName: string) => StoreValidationSchema | undefined;
+  private getFieldRules: (storeName: string) => FieldRules | undefined;
+  private getTimestamps: (storeName: string) => Timestamps | undefined;
+  private getIdStrategy: (storeName: string) => IdStrategy | undefined;
+  private getPrimaryKey: (storeName: string) => PrimaryKey;
+  private getStoreIndexes: (storeName: string) => DatabaseIndex[];
+  private throwOnError: boolean;
+  private transactionScope: TransactionScope | undefined;
 
   constructor(options: DatabaseOperationsOptions) {
     this.db = options.db;
@@ -38,6 +115,15 @@ export class DatabaseOperations {
     this.isNodeEnvironment = options.isNodeEnvironment;
     this.emitEvent = options.emitEvent;
     this.executeTransaction = options.executeTransaction;
+    this.getRevisionField = options.getRevisionField ?? (() => undefined);
+    this.getValidationSchema = options.getValidationSchema ?? (() => undefined);
+    this.getFieldRules = options.getFieldRules ?? (() => undefined);
+    this.getTimestamps = options.getTimestamps ?? (() => undefined);
+    this.getIdStrategy = options.getIdStrategy ?? (() => undefined);
+    this.getPrimaryKey = options.getPrimaryKey ?? (() => DEFAULT_PRIMARY_KEY);
+    this.getStoreIndexes = options.getStoreIndexes ?? (() => []);
+    this.throwOnError = options.throwOnError ?? false;
+    this.transactionScope = options.transactionScope;
   }
 
   updateContext(options: Partial<DatabaseOperationsOptions>): void {
@@ -47,58 +133,133 @@ export class DatabaseOperations {
     if (options.isNodeEnvironment !== undefined) this.isNodeEnvironment = options.isNodeEnvironment;
     if (options.emitEvent !== undefined) this.emitEvent = options.emitEvent;
     if (options.executeTransaction !== undefined) this.executeTransaction = options.executeTransaction;
+    if (options.getRevisionField !== undefined) this.getRevisionField = options.getRevisionField;
+    if (options.getValidationSchema !== undefined) this.getValidationSchema = options.getValidationSchema;
+    if (options.getFieldRules !== undefined) this.getFieldRules = options.getFieldRules;
+    if (options.getTimestamps !== undefined) this.getTimestamps = options.getTimestamps;
+    if (options.getIdStrategy !== undefined) this.getIdStrategy = options.getIdStrategy;
+    if (options.getPrimaryKey !== undefined) this.getPrimaryKey = options.getPrimaryKey;
+    if (options.getStoreIndexes !== undefined) this.getStoreIndexes = options.getStoreIndexes;
+    if (options.throwOnError !== undefined) this.throwOnError = options.throwOnError;
+    if (options.transactionScope !== undefined) this.transactionScope = options.transactionScope;
+  }
+
+  /**
+   * Handle and event sink for writes to the store: those of the transaction() this call
+   * runs inside of when it holds the store, otherwise the database's own
+   */
+  private writeContext(storeName: string): Pick<ActiveTransaction, 'db' | 'emitEvent'> {
+    return this.transactionScope?.current([storeName]) ?? { db: this.db, emitEvent: this.emitEvent };
+  }
+
+  /**
+   * Runs `write` in an adapter transaction over the store. It waits for the transactions
+   * holding the store, or joins the one this call runs inside of.
+   */
+  private async writeInTransaction<R>(storeName: string, write: (store: StoreInfo) => Promise<R>): Promise<R> {
+    const transaction = await this.adapter.beginTransaction(this.writeContext(storeName).db, [storeName], "readwrite", { join: true });
+    let result: R;
+    try {
+      result = await write({ db: transaction.db, storeName });
+    } catch (error) {
+      await transaction.abort();
+      throw error;
+    }
+    await transaction.commit();
+    return result;
   }
 
   async saveDataToStore(storeName: string, data: Partial<CreateDatabaseItem>): Promise<DatabaseItem> {
     if (typeof data !== "object" || data === null) {
-      return Promise.reject(new Error("Invalid data: must be an object."));
+      return Promise.reject(new ValidationError("Invalid data: must be an object."));
     }
 
     const cleanData = { ...data };
-    
-    const hasExplicitId = isValidId(cleanData.id);
-    let targetId: string | number;
-    let isUpdate = false;
-
-    if (hasExplicitId) {
-      targetId = normalizeId(cleanData.id as string | number);
-      isUpdate = await this.idExistsInStore(storeName, targetId);
+    const primaryKey = this.getPrimaryKey(storeName);
+    const explicitKey = getRecordKey(cleanData, primaryKey);
+    // Without a key of its own, an autoIncrement store leaves the key to the adapter
+    let targetKey: DatabaseKey | undefined;
+    // Without an idStrategy, the key follows the highest stored one, read in the write transaction
+    let numbered = false;
+
+    if (explicitKey !== undefined) {
+      targetKey = explicitKey;
+    } else if (Array.isArray(primaryKey.keyPath)) {
+      throw new ValidationError(`Record for store '${storeName}' is missing its compound key ${JSON.stringify(primaryKey.keyPath)}`);
     } else {
-      targetId = `${Date.now()}-${Math.floor(Math.random() * 10000)}`;
-      isUpdate = false;
+      const [generatedId] = await this.generateIds(storeName, [cleanData]) ?? [];
+      targetKey = generatedId;
+      numbered = generatedId === undefined && !primaryKey.autoIncrement;
     }
     
-    const newData: DatabaseItem = { ...cleanData, id: targetId } as DatabaseItem;
-    const actionType: EmitEvents = isUpdate ? "update" : "add";
+    const revisionField = this.getRevisionField(storeName);
+    const timestamps = this.getTimestamps(storeName);
+    const fieldRules = this.getFieldRules(storeName);
+
+    // Reading the stored record, validation and write run in one transaction, so two
+    // concurrent saves cannot both pass the unique checks or take the same number
+    const prepare = async (
+      reader: ValidationReader,
+      get: (key: DatabaseKey) => Promise<DatabaseItem | null>,
+      highestKey: () => Promise<number | undefined>
+    ) => {
+      const key = numbered ? nextNumericId(await highestKey()) : targetKey;
+      const keyed = key === undefined ? cleanData : withRecordKey(cleanData, primaryKey, key);
+      const record = applyFieldRules(fieldRules, keyed as DatabaseItem);
+      const stored = key === undefined ? null : await get(key) ?? null;
+      const newData: DatabaseItem = withNextRevision(withTimestamps(record, stored, timestamps), stored, revisionField);
+      await this.validate(storeName, newData, reader);
+      return { newData, actionType: (stored ? "update" : "add") as EmitEvents };
+    };
 
     if (this.isNodeEnvironment) {
-      await this.adapter.put({ db: this.db, storeName }, newData);
-      this.emitEvent(actionType, newData);
-      return newData;
+      const { savedData, actionType } = await this.writeInTransaction(storeName, async store => {
+        const { newData, actionType } = await prepare(
+          this.adapterReader(store),
+          key => this.adapter.get(store, key),
+          () => this.highestNumericKey(store)
+        );
+        const key = await this.adapter.put(store, newData);
+        return { savedData: withRecordKey(newData, primaryKey, key), actionType };
+      });
+
+      this.writeContext(storeName).emitEvent(actionType, savedData, storeName);
+      return savedData;
     }
 
     return this.executeTransaction(
       storeName,
       "readwrite",
-      (store: IDBObjectStore) => {
-        return new Promise<DatabaseItem>((resolve, reject) => {
-          const request = store.put(newData);
-          request.onsuccess = () => resolve(newData);
-          request.onerror = () => reject(request.error);
-        });
+      async (store: IDBObjectStore) => {
+        const { newData, actionType } = await prepare(
+          requestReader(store),
+          key => requestResult(store.get(key)),
+          () => requestResult(store.openCursor(toIDBQuery(NUMERIC_KEYS), "prev")).then(cursor => cursor?.primaryKey as number | undefined)
+        );
+        const key = await requestResult(store.put(newData));
+        return { savedData: withRecordKey(newData, primaryKey, key as DatabaseKey), actionType };
       }
-    ).then((savedData) => {
-      this.emitEvent(actionType, savedData);
+    ).then(({ savedData, actionType }) => {
+      this.emitEvent(actionType, savedData, storeName);
       return savedData;
     });
   }
 
-  async getDataByIdFromStore(storeName: string, id: string | number): Promise<DatabaseItem | null> {
-    if (!isValidId(id)) {
+  // Highest numeric primary key of the store: numbers sort before every other key type
+  private async highestNumericKey(store: StoreInfo): Promise<number | undefined> {
+    let highest: number | undefined;
+    await this.adapter.iterate(store, (_value: unknown, position: CursorPosition) => {
+      highest = position.primaryKey as number;
+      return false;
+    }, { query: NUMERIC_KEYS, direction: "prev", limit: 1 });
+    return highest;
+  }
+
+  async getDataByIdFromStore(storeName: string, id: DatabaseKey): Promise<DatabaseItem | null> {
+    const normalizedId = normalizeKey(id);
+    if (normalizedId === undefined) {
       return null;
     }
-
-    const normalizedId = normalizeId(id);
     
     if (this.isNodeEnvironment) {
       return this.adapter.get({ db: this.db, storeName }, normalizedId);
@@ -117,31 +278,53 @@ export class DatabaseOperations {
     );
   }
 
+  /**
+   * Merges `updatedData` into the record. With `ifMatch`, fails with `ConflictError` if the
+   * stored revision is a different one.
+   */
   async updateDataByIdInStore(
     storeName: string,
-    id: string | number,
-    updatedData: Partial<DatabaseItem>
+    id: DatabaseKey,
+    updatedData: Partial<DatabaseItem>,
+    options: UpdateOptions = {}
   ): Promise<DatabaseItem | null> {
-    if (!isValidId(id)) {
-      throw new Error("Invalid ID provided for update");
+    const normalizedId = normalizeKey(id);
+    if (normalizedId === undefined) {
+      throw new ValidationError("Invalid ID provided for update");
     }
 
-    const normalizedId = normalizeId(id);
+    const revisionField = this.getRevisionField(storeName);
+    if (options.ifMatch !== undefined) requireRevisionField(storeName, revisionField);
+    const timestamps = this.getTimestamps(storeName);
+    const primaryKey = this.getPrimaryKey(storeName);
+
     const exists = await this.idExistsInStore(storeName, normalizedId);
     
     if (!exists) {
-      return null;
+      return this.notFound(storeName, normalizedId);
     }
 
+    // Read, revision check, validation and write run in one transaction, so a concurrent
+    // update of the record cannot slip in between them
+    const update = (existing: DatabaseItem): DatabaseItem => {
+      if (revisionField) assertRevision(storeName, normalizedId, existing, revisionField, options.ifMatch);
+      const merged = applyFieldRules(this.getFieldRules(storeName), withRecordKey({ ...existing, ...updatedData }, primaryKey, normalizedId));
+      return withNextRevision(withTimestamps(merged, existing, timestamps), existing, revisionField);
+    };
+
     if (this.isNodeEnvironment) {
-      const existing = await this.adapter.get({ db: this.db, storeName }, normalizedId);
-      if (existing) {
-        const newData: DatabaseItem = { ...existing, ...updatedData, id: normalizedId };
-        await this.adapter.put({ db: this.db, storeName }, newData);
-        this.emitEvent("update", newData);
+      const newData = await this.writeInTransaction(storeName, async store => {
+        const existing = await this.adapter.get(store, normalizedId);
+        if (!existing) return undefined;
+        const newData = update(existing);
+        await this.validate(storeName, newData, this.adapterReader(store));
+        await this.adapter.put(store, newData);
         return newData;
-      }
-      return null;
+      });
+
+      if (!newData) return this.notFound(storeName, normalizedId);
+      this.writeContext(storeName).emitEvent("update", newData, storeName);
+      return newData;
     }
 
     return this.executeTransaction(
@@ -151,22 +334,24 @@ export class DatabaseOperations {
         return new Promise<DatabaseItem | null>((resolve, reject) => {
           const getRequest = store.get(normalizedId);
 
-          getRequest.onsuccess = () => {
-            if (getRequest.result) {
-              const newData: DatabaseItem = {
-                ...getRequest.result,
-                ...updatedData,
-                id: normalizedId,
-              };
-              
+          getRequest.onsuccess = async () => {
+            try {
+              if (!getRequest.result) {
+                resolve(this.notFound(storeName, normalizedId));
+                return;
+              }
+
+              const newData = update(getRequest.result);
+              await this.validate(storeName, newData, requestReader(store));
+
               const putRequest = store.put(newData);
               putRequest.onsuccess = () => {
-                this.emitEvent("update", newData);
+                this.emitEvent("update", newData, storeName);
                 resolve(newData);
               };
               putRequest.onerror = () => reject(putRequest.error);
-            } else {
-              resolve(null);
+            } catch (error) {
+              reject(error);
             }
           };
           getRequest.onerror = () => reject(getRequest.error);
@@ -175,16 +360,105 @@ export class DatabaseOperations {
     );
   }
 
-  async deleteDataFromStore(storeName: string, id: string | number): Promise<string | number> {
-    if (!isValidId(id)) {
-      throw new Error("Invalid ID provided for deletion");
-    }
+  /**
+   * IDs for the new `records` from the store's `idStrategy`, or `undefined` if it
+   * declares none
+   */
+  async generateIds(storeName: string, records: Partial<DatabaseItem>[]): Promise<Array<string | number> | undefined> {
+    const strategy = this.getIdStrategy(storeName);
+    if (strategy === undefined) return undefined;
+    if (strategy === 'autoIncrement') return this.reserveIds(storeName, records.length);
+
+    const generate = resolveIdGenerator(strategy);
+    return records.map(record => {
+      const id = generate(record);
+      if (!isValidId(id)) {
+        throw new ValidationError(`idStrategy of store '${storeName}' returned an invalid ID`);
+      }
+      return normalizeId(id);
+    });
+  }
+
+  /**
+   * Reserves `count` consecutive values of the store's counter. A reserved value is never
+   * handed out again, even if the write fails or the record is deleted later.
+   */
+  private async reserveIds(storeName: string, count: number): Promise<number[]> {
+    if (count === 0) return [];
+
+    return withCounterLock(async () => {
+      const counters = { db: this.writeContext(COUNTER_STORE).db, storeName: COUNTER_STORE };
+      const stored = await this.getDataByIdFromStore(COUNTER_STORE, storeName);
+      // A store without a counter yet continues after the numeric IDs it already has
+      const start = typeof stored?.next === 'number'
+        ? stored.next
+        : initialCounterValue(await this.getAllDataFromStore(storeName), this.getPrimaryKey(storeName).keyPath);
+      const counter = { id: storeName, next: start + count };
+
+      if (this.isNodeEnvironment) {
+        await this.adapter.put(counters, counter);
+      } else {
+        await this.executeTransaction(COUNTER_STORE, "readwrite", (store: IDBObjectStore) => {
+          return new Promise<void>((resolve, reject) => {
+            const request = store.put(counter);
+            request.onsuccess = () => resolve();
+            request.onerror = () => reject(request.error);
+          });
+        });
+      }
+      return Array.from({ length: count }, (_, index) => start + index);
+    });
+  }
+
+  /**
+   * Outcome of updating a missing record: `null`, or `NotFoundError` with `throwOnError`
+   */
+  private notFound(storeName: string, id: DatabaseKey): null {
+    if (this.throwOnError) throw new NotFoundError(storeName, id);
+    return null;
+  }
+
+  /**
+   * Checks `record` against the validation schema of the store. Unique fields are compared
+   * with the other records, so they hold even on adapters without unique indexes; a field
+   * with an index of its own is looked up there instead of reading the whole store.
+   * `source` reads through the transaction that writes the record.
+   */
+  private async validate(storeName: string, record: DatabaseItem, source: ValidationReader): Promise<void> {
+    const schema = this.getValidationSchema(storeName);
+    if (!schema) return;
+
+    const lookups = Object.fromEntries(
+      Array.from(getUniqueIndexes(schema, this.getStoreIndexes(storeName)), ([field, indexName]) =>
+        [field, (value: unknown) => source.getAllFromIndex(indexName, value)]
+      )
+    );
+    const validate = createRecordValidator(
+      storeName,
+      schema,
+      () => source.getAll(),
+      this.getPrimaryKey(storeName).keyPath,
+      lookups
+    );
+    await validate(record);
+  }
+
+  private adapterReader(store: StoreInfo): ValidationReader {
+    return {
+      getAll: () => this.adapter.getAll(store),
+      getAllFromIndex: (indexName, value) => this.adapter.getAllFromIndex(store, indexName, value)
+    };
+  }
 
-    const keyId = normalizeId(id);
+  async deleteDataFromStore(storeName: string, id: DatabaseKey): Promise<DatabaseKey> {
+    const keyId = normalizeKey(id);
+    if (keyId === undefined) {
+      throw new ValidationError("Invalid ID provided for deletion");
+    }
 
     if (this.isNodeEnvironment) {
-      await this.adapter.delete({ db: this.db, storeName }, keyId);
-      this.emitEvent("delete", keyId as number);
+      await this.writeInTransaction(storeName, store => this.adapter.delete(store, keyId));
+      this.writeContext(storeName).emitEvent("delete", keyId as number, storeName);
       return keyId;
     }
 
@@ -192,19 +466,31 @@ export class DatabaseOperations {
       storeName,
       "readwrite",
       (store: IDBObjectStore) => {
-        return new Promise<string | number>((resolve, reject) => {
+        return new Promise<DatabaseKey>((resolve, reject) => {
           const request = store.delete(keyId);
           request.onsuccess = () => resolve(keyId);
           request.onerror = () => reject(request.error);
         });
       }
     ).then((deletedId) => {
-      this.emitEvent("delete", deletedId as number);
+      this.emitEvent("delete", deletedId as number, storeName);
       return deletedId;
     });
   }
 
-  async getAllDataFromStore(storeName: string): Promise<DatabaseItem[]> {
+  /**
+   * Reads every record of a store. With `project`, each record is projected while the
+   * cursor walks the store instead of returning the whole objects.
+   */
+  async getAllDataFromStore(storeName: string, project?: (value: DatabaseItem) => DatabaseItem): Promise<DatabaseItem[]> {
+    if (project) {
+      const items: DatabaseItem[] = [];
+      await this.iterateStore(storeName, item => {
+        items.push(item);
+      }, { project });
+      return items;
+    }
+
     if (this.isNodeEnvironment) {
       return this.adapter.getAll({ db: this.db, storeName });
     }
@@ -224,8 +510,8 @@ export class DatabaseOperations {
 
   async clearStore(storeName: string): Promise<void> {
     if (this.isNodeEnvironment) {
-      await this.adapter.clear({ db: this.db, storeName });
-      this.emitEvent("clear", null);
+      await this.writeInTransaction(storeName, store => this.adapter.clear(store));
+      this.writeContext(storeName).emitEvent("clear", null, storeName);
       return;
     }
 
@@ -236,7 +522,7 @@ export class DatabaseOperations {
         return new Promise<void>((resolve, reject) => {
           const request = store.clear();
           request.onsuccess = () => {
-            this.emitEvent("clear", null);
+            this.emitEvent("clear", null, storeName);
             resolve();
           };
           request.onerror = () => reject(request.error);
@@ -245,9 +531,9 @@ export class DatabaseOperations {
     );
   }
 
-  async countInStore(storeName: string): Promise<number> {
+  async countInStore(storeName: string, indexName?: string, range?: KeyRange): Promise<number> {
     if (this.isNodeEnvironment) {
-      return this.adapter.count({ db: this.db, storeName });
+      return this.adapter.count({ db: this.db, storeName }, range, indexName);
     }
 
     return this.executeTransaction(
@@ -255,7 +541,8 @@ export class DatabaseOperations {
       "readonly",
       (store: IDBObjectStore) => {
         return new Promise<number>((resolve, reject) => {
-          const request = store.count();
+          const source = indexName !== undefined ? store.index(indexName) : store;
+          const request = source.count(toIDBQuery(range));
           request.onsuccess = () => resolve(request.result);
           request.onerror = () => reject(request.error);
         });
@@ -263,7 +550,64 @@ export class DatabaseOperations {
     );
   }
 
-  async getManyFromStore(storeName: string, ids: (string | number)[]): Promise<DatabaseItem[]> {
+  /**
+   * Walks a store (or one of its indexes) with a cursor, honoring range, direction,
+   * offset and limit. The callback is synchronous so the transaction does not close.
+   */
+  async iterateStore(storeName: string, callback: StoreIterationCallback, options: CursorOptions = {}): Promise<void> {
+    if (this.isNodeEnvironment) {
+      return this.adapter.iterate({ db: this.db, storeName }, callback, options);
+    }
+
+    return this.executeTransaction(
+      storeName,
+      "readonly",
+      (store: IDBObjectStore) => {
+        return new Promise<void>((resolve, reject) => {
+          const source = options.indexName !== undefined ? store.index(options.indexName) : store;
+          const request = source.openCursor(toIDBQuery(options.query), options.direction || 'next');
+          let skipped = 0;
+          let delivered = 0;
+
+          request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+              resolve();
+              return;
+            }
+
+            if (options.after && !isPastPosition(cursor, options.after, options.direction)) {
+              continueToPosition(cursor, options.after);
+              return;
+            }
+
+            if (options.offset && skipped < options.offset) {
+              skipped++;
+              cursor.continue();
+              return;
+            }
+
+            const value = options.project ? options.project(cursor.value) : cursor.value;
+            if (callback(value, cursor) === false) {
+              resolve();
+              return;
+            }
+
+            delivered++;
+            if (options.limit && delivered >= options.limit) {
+              resolve();
+              return;
+            }
+
+            cursor.continue();
+          };
+          request.onerror = () => reject(request.error);
+        });
+      }
+    );
+  }
+
+  async getManyFromStore(storeName: string, ids: DatabaseKey[]): Promise<DatabaseItem[]> {
     const results: DatabaseItem[] = [];
     
     for (const id of ids) {
@@ -277,18 +621,21 @@ export class DatabaseOperations {
   }
 
   async getStatsForStore(storeName: string): Promise<{ totalRecords: number; storeName: string; databaseName: string; version: number }> {
-    const allData = await this.getAllDataFromStore(storeName);
+    const totalRecords = await this.countInStore(storeName);
 
     return {
-      totalRecords: allData.length,
+      totalRecords,
       storeName: storeName,
       databaseName: this.dbConfig.name,
       version: this.dbConfig.version
     };
   }
 
-  async idExistsInStore(storeName: string, id: string | number): Promise<boolean> {
-    const normalizedId = normalizeId(id);
+  async idExistsInStore(storeName: string, id: DatabaseKey): Promise<boolean> {
+    const normalizedId = normalizeKey(id);
+    if (normalizedId === undefined) {
+      return false;
+    }
     
     if (this.isNodeEnvironment) {
       const item = await this.adapter.get({ db: this.db, storeName }, normalizedId);
@@ -0,0 +1,31 @@
+/**
+ * Fields - Applies the field defaults, transforms and computed fields of a store to each write
+ */
+
+import type { DatabaseItem, StoreSchema } from '../../types/index.js';
+
+/** Field rules declared by a store */
+export type FieldRules = Pick<StoreSchema, 'fields' | 'computed'>;
+
+/**
+ * Record as it is stored: missing fields take their default, fields with a value go through
+ * their transform, and computed fields are derived from the result. `record` is not changed.
+ */
+export function applyFieldRules(rules: FieldRules | undefined, record: DatabaseItem): DatabaseItem {
+  if (!rules?.fields && !rules?.computed) return record;
+
+  const result: Record<string, unknown> = { ...record };
+  for (const [field, options] of Object.entries(rules.fields ?? {})) {
+    if (result[field] === undefined && options.default !== undefined) {
+      // Records must not share a default object
+      result[field] = typeof options.default === 'function' ? options.default() : structuredClone(options.default);
+    }
+    if (result[field] !== undefined && options.transform) {
+      result[field] = options.transform(result[field], result);
+    }
+  }
+  for (const [field, compute] of Object.entries(rules.computed ?? {})) {
+    result[field] = compute(result);
+  }
+  return result as DatabaseItem;
+}
@@ -0,0 +1,96 @@
+/**
+ * Ids - ID generation strategies for new records and the persisted autoIncrement counters
+ */
+
+import type { DatabaseItem, DatabaseSchema, IdGenerator, IdStrategy } from '../../types/index.js';
+import { getKeyPathValue } from '../../utils/keys.js';
+
+/** Internal store holding one `{ id: storeName, next }` counter per autoIncrement store */
+export const COUNTER_STORE = '__idCounters';
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const NANOID_ALPHABET = 'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict';
+
+/** Random version 4 UUID */
+export function uuidv4(): string {
+  return crypto.randomUUID();
+}
+
+/** Version 7 UUID: the milliseconds of `time` followed by random bits, so IDs sort by creation */
+export function uuidv7(time: number = Date.now()): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  for (let index = 5, rest = time; index >= 0; index--, rest = Math.floor(rest / 256)) {
+    bytes[index] = rest % 256;
+  }
+  bytes[6] = (bytes[6]! & 0x0f) | 0x70;
+  bytes[8] = (bytes[8]! & 0x3f) | 0x80;
+
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/** ULID: 10 Crockford base32 characters of `time` and 16 random ones, sortable as text */
+export function ulid(time: number = Date.now()): string {
+  let timePart = '';
+  for (let index = 0, rest = time; index < 10; index++, rest = Math.floor(rest / 32)) {
+    timePart = CROCKFORD_BASE32[rest % 32] + timePart;
+  }
+  const randomPart = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => CROCKFORD_BASE32[byte % 32]).join('');
+  return timePart + randomPart;
+}
+
+/** URL-safe random ID of `size` characters (21 by default) */
+export function nanoid(size: number = 21): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(size)), byte => NANOID_ALPHABET[byte & 63]).join('');
+}
+
+const generators: Record<Exclude<IdStrategy, 'autoIncrement' | IdGenerator>, IdGenerator> = {
+  uuidv4: () => uuidv4(),
+  uuidv7: () => uuidv7(),
+  ulid: () => ulid(),
+  nanoid: () => nanoid()
+};
+
+/**
+ * Generator of a strategy other than `autoIncrement`, which needs the stored counter
+ */
+export function resolveIdGenerator(strategy: Exclude<IdStrategy, 'autoIncrement'>): IdGenerator {
+  return typeof strategy === 'function' ? strategy : generators[strategy];
+}
+
+/** Whether the schema needs `COUNTER_STORE` */
+export function usesIdCounters(schema: Pick<DatabaseSchema, 'stores'> | null | undefined): boolean {
+  return schema?.stores.some(store => store.idStrategy === 'autoIncrement') ?? false;
+}
+
+/** First counter value of a store that has none yet: after its highest numeric ID */
+export function initialCounterValue(records: DatabaseItem[], keyPath: string | string[] = 'id'): number {
+  let highest = 0;
+  for (const record of records) {
+    const id = getKeyPathValue(record, keyPath);
+    if (typeof id === 'number' && Number.isInteger(id) && id > highest) {
+      highest = id;
+    }
+  }
+  return highest + 1;
+}
+
+/**
+ * ID of a new record in a store without `idStrategy`: the integer after `highest`, the
+ * store's highest numeric key (1 when it has none). `add` and `addMany` both number records this way.
+ */
+export function nextNumericId(highest: number | undefined): number {
+  return highest === undefined || highest < 1 ? 1 : Math.floor(highest) + 1;
+}
+
+let counterLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs `reserve` after the reservations already queued, so two of them never read the same
+ * counter value
+ */
+export function withCounterLock<T>(reserve: () => Promise<T>): Promise<T> {
+  const result = counterLock.then(reserve);
+  counterLock = result.catch(() => undefined);
+  return result;
+}
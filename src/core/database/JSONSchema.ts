@@ -0,0 +1,252 @@
+/**
+ * JSONSchema - Validates values against JSON Schema draft 2020-12 documents
+ */
+
+import type { JSONSchema, JSONSchemaObject, JSONSchemaType } from '../../types/index.js';
+import { valuesEqual } from '../query/QueryMatcher.js';
+
+/** A problem found in a value, at the path of the offending part (empty for the value itself) */
+export interface JSONSchemaIssue {
+  path: Array<string | number>;
+  message: string;
+}
+
+interface ValidationState {
+  root: JSONSchema;
+  issues: JSONSchemaIssue[];
+}
+
+/**
+ * Checks `value` against `schema` and returns every problem found. Only local `$ref`s
+ * (pointers into the same document) are resolved.
+ */
+export function validateJSONSchema(schema: JSONSchema, value: unknown): JSONSchemaIssue[] {
+  const state: ValidationState = { root: schema, issues: [] };
+  validate(state, schema, value, []);
+  return state.issues;
+}
+
+function isValid(state: ValidationState, schema: JSONSchema, value: unknown, path: Array<string | number>): boolean {
+  const nested: ValidationState = { root: state.root, issues: [] };
+  validate(nested, schema, value, path);
+  return nested.issues.length === 0;
+}
+
+function validate(state: ValidationState, schema: JSONSchema, value: unknown, path: Array<string | number>): void {
+  const report = (message: string, at: Array<string | number> = path): void => {
+    state.issues.push({ path: at, message });
+  };
+
+  if (schema === true) return;
+  if (schema === false) {
+    report('is not allowed');
+    return;
+  }
+
+  if (schema.$ref !== undefined) {
+    validate(state, resolveRef(state.root, schema.$ref), value, path);
+  }
+
+  if (schema.type !== undefined) {
+    const types: readonly JSONSchemaType[] = Array.isArray(schema.type) ? schema.type : [schema.type as JSONSchemaType];
+    if (!types.some(type => hasType(value, type))) {
+      report(`must be ${types.map(withArticle).join(' or ')}`);
+      return;
+    }
+  }
+  if (schema.const !== undefined && !valuesEqual(value, schema.const)) {
+    report(`must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => valuesEqual(value, option))) {
+    report(`must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') validateString(schema, value, report);
+  if (typeof value === 'number') validateNumber(schema, value, report);
+  if (Array.isArray(value)) validateArray(state, schema, value, path, report);
+  else if (isObject(value)) validateObject(state, schema, value, path, report);
+
+  validateComposition(state, schema, value, path, report);
+}
+
+function validateString(schema: JSONSchemaObject, value: string, report: (message: string) => void): void {
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    report(`must have at least ${schema.minLength} characters`);
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    report(`must have at most ${schema.maxLength} characters`);
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    report(`must match pattern ${schema.pattern}`);
+  }
+}
+
+function validateNumber(schema: JSONSchemaObject, value: number, report: (message: string) => void): void {
+  if (schema.minimum !== undefined && value < schema.minimum) report(`must be >= ${schema.minimum}`);
+  if (schema.maximum !== undefined && value > schema.maximum) report(`must be <= ${schema.maximum}`);
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    report(`must be > ${schema.exclusiveMinimum}`);
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    report(`must be < ${schema.exclusiveMaximum}`);
+  }
+  if (schema.multipleOf !== undefined) {
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) report(`must be a multiple of ${schema.multipleOf}`);
+  }
+}
+
+function validateArray(
+  state: ValidationState,
+  schema: JSONSchemaObject,
+  value: unknown[],
+  path: Array<string | number>,
+  report: (message: string) => void
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    report(`must have at least ${schema.minItems} items`);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    report(`must have at most ${schema.maxItems} items`);
+  }
+  if (schema.uniqueItems && value.some((item, index) => value.findIndex(other => valuesEqual(item, other)) !== index)) {
+    report('must not have duplicate items');
+  }
+
+  const prefixItems = schema.prefixItems ?? [];
+  value.forEach((item, index) => {
+    const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+    if (itemSchema !== undefined) validate(state, itemSchema, item, [...path, index]);
+  });
+
+  if (schema.contains !== undefined) {
+    const contains = schema.contains;
+    const matches = value.filter((item, index) => isValid(state, contains, item, [...path, index])).length;
+    const minContains = schema.minContains ?? 1;
+    if (matches < minContains) {
+      report(minContains === 1 ? 'must contain a matching item' : `must contain at least ${minContains} matching items`);
+    }
+    if (schema.maxContains !== undefined && matches > schema.maxContains) {
+      report(`must contain at most ${schema.maxContains} matching items`);
+    }
+  }
+}
+
+function validateObject(
+  state: ValidationState,
+  schema: JSONSchemaObject,
+  value: Record<string, unknown>,
+  path: Array<string | number>,
+  report: (message: string, at?: Array<string | number>) => void
+): void {
+  const keys = Object.keys(value).filter(key => value[key] !== undefined);
+
+  if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+    report(`must have at least ${schema.minProperties} properties`);
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    report(`must have at most ${schema.maxProperties} properties`);
+  }
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) report('is required', [...path, key]);
+  }
+  for (const [key, dependencies] of Object.entries(schema.dependentRequired ?? {})) {
+    if (value[key] === undefined) continue;
+    for (const dependency of dependencies) {
+      if (value[dependency] === undefined) report(`is required when ${key} is present`, [...path, dependency]);
+    }
+  }
+  for (const [key, dependentSchema] of Object.entries(schema.dependentSchemas ?? {})) {
+    if (value[key] !== undefined) validate(state, dependentSchema, value, path);
+  }
+
+  const patterns = Object.entries(schema.patternProperties ?? {}).map(
+    ([pattern, patternSchema]) => [new RegExp(pattern, 'u'), patternSchema] as const
+  );
+
+  for (const key of keys) {
+    const keyPath = [...path, key];
+    if (schema.propertyNames !== undefined && !isValid(state, schema.propertyNames, key, keyPath)) {
+      report('is not an allowed property name', keyPath);
+    }
+
+    let evaluated = false;
+    const propertySchema = schema.properties?.[key];
+    if (propertySchema !== undefined) {
+      evaluated = true;
+      validate(state, propertySchema, value[key], keyPath);
+    }
+    for (const [pattern, patternSchema] of patterns) {
+      if (!pattern.test(key)) continue;
+      evaluated = true;
+      validate(state, patternSchema, value[key], keyPath);
+    }
+    if (!evaluated && schema.additionalProperties !== undefined) {
+      if (schema.additionalProperties === false) report('is not allowed', keyPath);
+      else validate(state, schema.additionalProperties, value[key], keyPath);
+    }
+  }
+}
+
+function validateComposition(
+  state: ValidationState,
+  schema: JSONSchemaObject,
+  value: unknown,
+  path: Array<string | number>,
+  report: (message: string) => void
+): void {
+  for (const subschema of schema.allOf ?? []) {
+    validate(state, subschema, value, path);
+  }
+  if (schema.anyOf && !schema.anyOf.some(subschema => isValid(state, subschema, value, path))) {
+    report('must match a schema in anyOf');
+  }
+  if (schema.oneOf && schema.oneOf.filter(subschema => isValid(state, subschema, value, path)).length !== 1) {
+    report('must match exactly one schema in oneOf');
+  }
+  if (schema.not !== undefined && isValid(state, schema.not, value, path)) {
+    report('must not match the schema in not');
+  }
+  if (schema.if !== undefined) {
+    const branch = isValid(state, schema.if, value, path) ? schema.then : schema.else;
+    if (branch !== undefined) validate(state, branch, value, path);
+  }
+}
+
+function resolveRef(root: JSONSchema, ref: string): JSONSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Cannot resolve $ref '${ref}': only references within the same schema are supported`);
+  }
+
+  let target: unknown = root;
+  const pointer = decodeURIComponent(ref.slice(1));
+  for (const token of pointer.split('/').slice(1)) {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    target = isObject(target) || Array.isArray(target) ? (target as Record<string, unknown>)[key] : undefined;
+  }
+
+  if (typeof target !== 'boolean' && !isObject(target)) {
+    throw new Error(`Cannot resolve $ref '${ref}'`);
+  }
+  return target as JSONSchema;
+}
+
+function hasType(value: unknown, type: JSONSchemaType): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function withArticle(type: JSONSchemaType): string {
+  return type === 'null' ? 'null' : `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`;
+}
@@ -0,0 +1,37 @@
+/**
+ * PrimaryKeys - Reading and writing the primary key of records with custom, compound and autoIncrement keyPaths
+ */
+
+import type { DatabaseKey } from '../../types/index.js';
+import { isValidId } from '../../utils/helpers.js';
+import { getKeyPathValue, withKeyPathValue } from '../../utils/keys.js';
+
+/** Primary key declared by a store */
+export interface PrimaryKey {
+  keyPath: string | string[];
+  /** The adapter numbers the records that arrive without a key */
+  autoIncrement: boolean;
+}
+
+export const DEFAULT_PRIMARY_KEY: PrimaryKey = { keyPath: 'id', autoIncrement: false };
+
+/**
+ * `key` as given, or `undefined` when it is not a usable primary key. Strings are kept,
+ * also inside compound keys, since '1' and 1 are different keys.
+ */
+export function normalizeKey(key: unknown): DatabaseKey | undefined {
+  if (Array.isArray(key)) {
+    return key.length > 0 && key.every(part => isValidId(part)) ? key : undefined;
+  }
+  return isValidId(key) ? key : undefined;
+}
+
+/** Normalized key of `record`, or `undefined` when it lacks one */
+export function getRecordKey(record: unknown, primaryKey: PrimaryKey): DatabaseKey | undefined {
+  return normalizeKey(getKeyPathValue(record, primaryKey.keyPath));
+}
+
+/** Copy of `record` with `key` at the store's keyPath */
+export function withRecordKey<T>(record: T, primaryKey: PrimaryKey, key: DatabaseKey): T {
+  return withKeyPathValue(record, primaryKey.keyPath, key);
+}
@@ -0,0 +1,56 @@
+/**
+ * Revisions - Record revisions for optimistic concurrency control
+ */
+
+import type { DatabaseItem, DatabaseKey } from '../../types/index.js';
+import { ConflictError } from '../errors.js';
+
+/** Field holding the revision of stores declared with `versioned: true` */
+export const DEFAULT_REVISION_FIELD = '_rev';
+
+export function resolveRevisionField(versioned: boolean | string | undefined): string | undefined {
+  if (typeof versioned === 'string') return versioned;
+  return versioned ? DEFAULT_REVISION_FIELD : undefined;
+}
+
+export function getRevision(item: DatabaseItem | null | undefined, field: string): number | null {
+  const revision = item?.[field];
+  return typeof revision === 'number' ? revision : null;
+}
+
+/** Revision of the next write of a record currently stored as `stored` (1 for new records) */
+export function nextRevision(stored: DatabaseItem | null | undefined, field: string): number {
+  return (getRevision(stored, field) ?? 0) + 1;
+}
+
+/** Copy of `item` carrying the revision that follows `stored` */
+export function withNextRevision<T extends DatabaseItem>(item: T, stored: DatabaseItem | null | undefined, field: string | undefined): T {
+  return field ? { ...item, [field]: nextRevision(stored, field) } : item;
+}
+
+/**
+ * Rejects `ifMatch` on stores without revisions, where it could never be checked
+ */
+export function requireRevisionField(storeName: string, field: string | undefined): string {
+  if (!field) {
+    throw new Error(`ifMatch requires a versioned store, but '${storeName}' has no 'versioned' option`);
+  }
+  return field;
+}
+
+/**
+ * Throws `ConflictError` when `expected` is given and differs from the stored revision
+ */
+export function assertRevision(
+  storeName: string,
+  id: DatabaseKey,
+  stored: DatabaseItem | null | undefined,
+  field: string,
+  expected: number | undefined
+): void {
+  if (expected === undefined) return;
+  const actual = getRevision(stored, field);
+  if (actual !== expected) {
+    throw new ConflictError(storeName, id, expected, actual);
+  }
+}
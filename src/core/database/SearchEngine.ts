@@ -2,154 +2,815 @@
  * SearchEngine - Handles search and filter operations
  */
 
-import type { DatabaseItem, SearchOptions, SearchResult, FilterCriteria, SearchTextOptions } from '../../types/index.js';
+import type {
+  DatabaseItem,
+  DatabaseIndex,
+  SearchOptions,
+  SearchResult,
+  FilterCriteria,
+  QueryFilter,
+  QueryPlan,
+  QueryExplanation,
+  SearchTextOptions,
+  AggregateStage,
+  EmitEvents,
+  FullTextIndexOptions,
+  TextSearchHit,
+  TextMatch
+} from '../../types/index.js';
+import type { CursorOptions, CursorPosition, KeyRange } from '../../adapters/types.js';
+import type { StoreIterationCallback } from './DatabaseOperations.js';
+import type { NormalizedSortField, SortComparator } from '../query/Sorting.js';
+import type { ProjectionFunction } from '../query/Projection.js';
+import { getValueByPath, matchesQuery } from '../query/QueryMatcher.js';
+import { QueryPlanner } from '../query/QueryPlanner.js';
+import { GroupAccumulator, applyStages, parsePipeline } from '../query/Aggregation.js';
+import { FullTextIndex } from '../query/FullTextIndex.js';
+import { compileProjection } from '../query/Projection.js';
+import { PREFIX_WEIGHT, TextAnalyzer, editDistance, getMaxDistance, getTextValues, highlightTokens } from '../query/TextAnalysis.js';
+import { encodeCursorToken, decodeCursorToken } from '../query/CursorToken.js';
+import { createSortComparator, getSortSignature, getSortValues, normalizeSort } from '../query/Sorting.js';
+import { compareKeys, encodeKey, getKeyPathValue } from '../../utils/keys.js';
 
 export interface SearchEngineOptions {
   getAllDataFromStore: (storeName: string) => Promise<DatabaseItem[]>;
+  getStoreIndexes: (storeName: string) => DatabaseIndex[];
+  getStoreKeyPath: (storeName: string) => string | string[];
+  iterateStore: (storeName: string, callback: StoreIterationCallback, options?: CursorOptions) => Promise<void>;
+  countInStore: (storeName: string, indexName?: string, range?: KeyRange) => Promise<number>;
+  getDataFromStore: (storeName: string, id: any) => Promise<DatabaseItem | null>;
+  getStoreFullText: (storeName: string) => FullTextIndexOptions | undefined;
+}
+
+/** Full-text index of a store and the build that fills it */
+interface TextIndexEntry {
+  index: FullTextIndex;
+  ready: Promise<FullTextIndex>;
+}
+
+/** Counters collected while a query runs (used by `explain`) */
+interface ExecutionStats {
+  examined: number;
+}
+
+/** A record together with its position in the result order */
+interface PageEntry {
+  item: DatabaseItem;
+  position: CursorPosition;
+  /** Sort values of the record, one per `orderBy` field */
+  values: unknown[];
+}
+
+interface PageWindow {
+  entries: PageEntry[];
+  total: number;
+  hasPrevious: boolean;
+  hasNext: boolean;
+}
+
+/** Decoded `after` / `before` token */
+interface PageBoundary {
+  values: unknown[];
+  primaryKey: unknown;
+  backwards: boolean;
+}
+
+/** Normalized `orderBy` of a search */
+interface ResultOrder {
+  sort: NormalizedSortField[];
+  compare: SortComparator;
+  signature: string | null;
+  /** Direction of the primary key tie-breaker */
+  primaryKeyDirection: 1 | -1;
 }
 
 export class SearchEngine {
-  private getAllDataFromStore: (storeName: string) => Promise<DatabaseItem[]>;
+  private getAllDataFromStore: SearchEngineOptions['getAllDataFromStore'];
+  private getStoreIndexes: SearchEngineOptions['getStoreIndexes'];
+  private getStoreKeyPath: SearchEngineOptions['getStoreKeyPath'];
+  private iterateStore: SearchEngineOptions['iterateStore'];
+  private countInStore: SearchEngineOptions['countInStore'];
+  private getDataFromStore: SearchEngineOptions['getDataFromStore'];
+  private getStoreFullText: SearchEngineOptions['getStoreFullText'];
+  private planner: QueryPlanner = new QueryPlanner();
+  private textIndexes: Map<string, TextIndexEntry> = new Map();
+  /** Store -> results of `holdsArrayKeys`, dropped on every write to the store */
+  private arrayKeyChecks: Map<string, Map<string, boolean>> = new Map();
 
   constructor(options: SearchEngineOptions) {
     this.getAllDataFromStore = options.getAllDataFromStore;
+    this.getStoreIndexes = options.getStoreIndexes;
+    this.getStoreKeyPath = options.getStoreKeyPath;
+    this.iterateStore = options.iterateStore;
+    this.countInStore = options.countInStore;
+    this.getDataFromStore = options.getDataFromStore;
+    this.getStoreFullText = options.getStoreFullText;
   }
 
   updateContext(options: Partial<SearchEngineOptions>): void {
-    if (options.getAllDataFromStore !== undefined) {
-      this.getAllDataFromStore = options.getAllDataFromStore;
-    }
-  }
-
-  async searchDataInStore(storeName: string, query: Partial<DatabaseItem>, options: SearchOptions = {}): Promise<SearchResult> {
-    const allData = await this.getAllDataFromStore(storeName);
-    
-    if (Object.keys(query).length === 0) {
-      let filteredData = [...allData];
-      
-      if (options.orderBy) {
-        filteredData.sort((a, b) => {
-          const aVal = a[options.orderBy!];
-          const bVal = b[options.orderBy!];
-          const direction = options.orderDirection === 'desc' ? -1 : 1;
-
-          if (aVal == null && bVal == null) return 0;
-          if (aVal == null) return 1 * direction;
-          if (bVal == null) return -1 * direction;
-          if (aVal < bVal) return -1 * direction;
-          if (aVal > bVal) return 1 * direction;
-          return 0;
-        });
+    if (options.getAllDataFromStore !== undefined) this.getAllDataFromStore = options.getAllDataFromStore;
+    if (options.getStoreIndexes !== undefined) this.getStoreIndexes = options.getStoreIndexes;
+    if (options.getStoreKeyPath !== undefined) this.getStoreKeyPath = options.getStoreKeyPath;
+    if (options.iterateStore !== undefined) this.iterateStore = options.iterateStore;
+    if (options.countInStore !== undefined) this.countInStore = options.countInStore;
+    if (options.getDataFromStore !== undefined) this.getDataFromStore = options.getDataFromStore;
+    if (options.getStoreFullText !== undefined) this.getStoreFullText = options.getStoreFullText;
+  }
+
+  /**
+   * Builds the execution plan for a query. Order-only index plans are downgraded to a
+   * scan when the index does not hold every record (missing or non-key values). A plain
+   * index keys an array value as a whole while the query matches its elements, so an
+   * index holding arrays where the query looks is left out of the plan.
+   */
+  async planQuery(storeName: string, query: QueryFilter = {}, options: SearchOptions = {}): Promise<QueryPlan> {
+    let indexes = this.getStoreIndexes(storeName);
+    let plan = this.planner.plan(query, indexes, options);
+
+    while (plan.strategy === 'index' && !plan.orderOnly && !plan.multiEntry && await this.holdsArrayKeys(storeName, plan)) {
+      const unusable = plan.indexName;
+      indexes = indexes.filter(index => index.name !== unusable);
+      plan = this.planner.plan(query, indexes, options);
+    }
+
+    if (plan.orderOnly) {
+      const [indexed, total] = await Promise.all([
+        this.countInStore(storeName, plan.indexName),
+        this.countInStore(storeName)
+      ]);
+      if (indexed !== total) {
+        return this.planner.scanPlan(query, false);
       }
+    }
 
-      const total = filteredData.length;
-      
-      if (options.limit || options.offset) {
-        const offset = options.offset || 0;
-        const limit = options.limit || total;
-        filteredData = filteredData.slice(offset, offset + limit);
+    return plan;
+  }
+
+  async searchDataInStore(storeName: string, query: QueryFilter = {}, options: SearchOptions = {}): Promise<SearchResult> {
+    const plan = await this.planQuery(storeName, query, options);
+    return this.executeSearch(storeName, options, plan);
+  }
+
+  async filterInStore(storeName: string, criteria: FilterCriteria): Promise<DatabaseItem[]> {
+    const plan = await this.planQuery(storeName, criteria);
+    return this.collectMatches(storeName, plan);
+  }
+
+  /**
+   * Runs the query like `searchDataInStore` and reports how it was executed
+   */
+  async explainInStore(storeName: string, query: QueryFilter = {}, options: SearchOptions = {}): Promise<QueryExplanation> {
+    const plan = await this.planQuery(storeName, query, options);
+    const estimatedRecords = plan.strategy === 'index'
+      ? await this.countInStore(storeName, plan.indexName, plan.range)
+      : await this.countInStore(storeName);
+
+    const stats: ExecutionStats = { examined: 0 };
+    const startedAt = Date.now();
+    const result = await this.executeSearch(storeName, options, plan, stats);
+    const executionTime = Date.now() - startedAt;
+
+    const explanation: QueryExplanation = {
+      storeName,
+      strategy: plan.strategy,
+      direction: plan.direction,
+      indexedFields: plan.indexedFields,
+      postFilter: plan.residual,
+      sort: normalizeSort(options).length === 0 ? 'none' : (plan.orderSatisfied ? 'index' : 'memory'),
+      estimatedRecords,
+      recordsExamined: stats.examined,
+      totalMatches: result.total,
+      recordsReturned: result.items.length,
+      executionTime
+    };
+    if (plan.indexName !== undefined) explanation.indexName = plan.indexName;
+    if (plan.keyPath !== undefined) explanation.keyPath = plan.keyPath;
+    if (plan.range !== undefined) explanation.range = plan.range;
+
+    return explanation;
+  }
+
+  /**
+   * Runs an aggregation pipeline. Leading `$match` stages are planned like a search and
+   * streamed from the adapter cursor; a `$sort` the index satisfies (and a `$limit` after
+   * it) is applied while iterating, and a `$group` at that point accumulates records as
+   * they are read. Later stages run over the (already reduced) documents in memory.
+   */
+  async aggregateInStore(storeName: string, pipeline: AggregateStage<any>[]): Promise<Record<string, unknown>[]> {
+    const stages = parsePipeline(pipeline);
+    let position = 0;
+
+    const filters: QueryFilter[] = [];
+    while (stages[position]?.type === '$match') {
+      const stage = stages[position++] as { query: QueryFilter };
+      filters.push(stage.query);
+    }
+    const query: QueryFilter = filters.length === 1 ? filters[0]! : (filters.length > 1 ? { $and: filters } : {});
+
+    const sortStage = stages[position];
+    const plan = await this.planQuery(storeName, query, sortStage?.type === '$sort' ? { orderBy: sortStage.sort } : {});
+
+    let limit: number | undefined;
+    if (sortStage?.type === '$sort' && plan.orderSatisfied && !plan.multiEntry) {
+      position++;
+      const limitStage = stages[position];
+      if (limitStage?.type === '$limit') {
+        limit = limitStage.limit;
+        position++;
       }
+    }
 
-      const result: SearchResult<DatabaseItem> = {
-        items: filteredData,
-        total
-      };
-      
-      if (options.offset && options.limit) {
-        result.page = Math.floor(options.offset / options.limit) + (options.offset > 0 ? 2 : 1);
+    const groupStage = stages[position];
+    const group = groupStage?.type === '$group' ? new GroupAccumulator(groupStage.spec) : null;
+    if (group) position++;
+
+    const docs: Record<string, unknown>[] = [];
+    let taken = 0;
+    if (limit !== 0) {
+      await this.streamMatches(storeName, plan, item => {
+        if (group) group.add(item);
+        else docs.push(item);
+        taken++;
+        return limit === undefined || taken < limit;
+      });
+    }
+
+    return applyStages(group ? group.result() : docs, stages.slice(position));
+  }
+
+  /**
+   * Distinct values of a field among the records matching `query`. Array values
+   * contribute each element. Without a query, an index on the field that holds every
+   * record is read with a `nextunique` cursor instead of visiting each record.
+   */
+  async distinctInStore(storeName: string, field: string, query: QueryFilter = {}): Promise<unknown[]> {
+    const values: unknown[] = [];
+
+    const index = Object.keys(query).length === 0
+      ? this.getStoreIndexes(storeName).find(candidate => candidate.keyPath === field && !candidate.multiEntry)
+      : undefined;
+    if (index) {
+      const [indexed, total] = await Promise.all([
+        this.countInStore(storeName, index.name),
+        this.countInStore(storeName)
+      ]);
+      if (indexed === total) {
+        await this.iterateStore(storeName, (_item, position) => {
+          values.push(position.key);
+        }, { indexName: index.name, direction: 'nextunique' });
+        return values;
       }
-      
-      if (options.limit) {
-        result.limit = options.limit;
+    }
+
+    const seen = new Set<string>();
+    const plan = await this.planQuery(storeName, query);
+    await this.streamMatches(storeName, plan, item => {
+      const value = getValueByPath(item, field);
+      for (const member of Array.isArray(value) ? value : [value]) {
+        if (member === undefined) continue;
+        const key = this.toDistinctKey(member);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        values.push(member);
       }
-      
-      return result;
-    }
-    
-    let filteredData = allData.filter(item => {
-      return Object.entries(query).every(([key, value]) => {
-        if (value === undefined || value === null) return true;
-        if (typeof value === 'string') {
-          const fieldValue = String(item[key] || '');
-          
-          const isDomainSearch = value.includes('.');
-          
-          const commonExactValues = ['active', 'inactive', 'pending', 'draft', 'published', 'archived'];
-          const isLikelyExactValue = commonExactValues.includes(value.toLowerCase());
-          
-          if (isDomainSearch && !isLikelyExactValue) {
-            return fieldValue.toLowerCase().includes(value.toLowerCase());
-          } else {
-            return fieldValue.toLowerCase() === value.toLowerCase();
-          }
-        }
-        return item[key] === value;
+    });
+
+    const sort = normalizeSort({ orderBy: field });
+    const compare = createSortComparator(sort);
+    return values.sort((a, b) => compare([a], [b]));
+  }
+
+  private toDistinctKey(value: unknown): string {
+    if (value instanceof Date) return `date:${value.getTime()}`;
+    if (value !== null && typeof value === 'object') return `json:${JSON.stringify(value)}`;
+    return `${typeof value}:${String(value)}`;
+  }
+
+  private async executeSearch(
+    storeName: string,
+    options: SearchOptions,
+    plan: QueryPlan,
+    stats?: ExecutionStats
+  ): Promise<SearchResult> {
+    const order = this.resolveOrder(options);
+    const boundary = this.decodeBoundary(options, order);
+    const project = options.select ? compileProjection(options.select, this.getStoreKeyPath(storeName)) : undefined;
+    const streamed = this.canStreamWindow(plan, options, order);
+    const page = streamed
+      ? await this.streamWindow(storeName, plan, options, order, boundary, stats, project)
+      : await this.sliceWindow(storeName, plan, options, order, boundary, stats);
+
+    // Streamed pages are projected by the cursor; sliced ones need full records to match
+    // and sort, so only the window is projected
+    const items = page.entries.map(entry => entry.item);
+    const result: SearchResult<DatabaseItem> = {
+      items: project && !streamed ? items.map(project) : items,
+      total: page.total
+    };
+
+    const first = page.entries[0];
+    const last = page.entries[page.entries.length - 1];
+    if (first && page.hasPrevious) result.prevCursor = this.toCursorToken(first, order);
+    if (last && page.hasNext) result.nextCursor = this.toCursorToken(last, order);
+
+    if (options.limit) {
+      // Keyset pages have no fixed position, so they carry no page number
+      if (!boundary) result.page = Math.floor((options.offset || 0) / options.limit) + 1;
+      result.limit = options.limit;
+    }
+
+    return result;
+  }
+
+  /**
+   * Reads the page straight from the index: the range answers the whole query in order,
+   * so `total` is an index count and only the requested window (plus one look-ahead entry)
+   * is read. Keyset boundaries are resolved by the adapter cursor (`after`).
+   */
+  private async streamWindow(
+    storeName: string,
+    plan: QueryPlan,
+    options: SearchOptions,
+    order: ResultOrder,
+    boundary: PageBoundary | undefined,
+    stats?: ExecutionStats,
+    project?: ProjectionFunction
+  ): Promise<PageWindow> {
+    const total = await this.countInStore(storeName, plan.indexName, plan.range);
+    const backward = plan.direction === 'next' ? 'prev' : 'next';
+    const cursorOptions = this.toCursorOptions(plan, options.offset, options.limit ? options.limit + 1 : undefined);
+    if (project) cursorOptions.project = project;
+
+    if (boundary) {
+      cursorOptions.after = {
+        // Without orderBy the range is a single key, so only the primary key matters
+        key: order.sort.length > 0 ? this.toIndexKey(boundary.values, plan) : plan.range?.lower,
+        primaryKey: boundary.primaryKey
+      };
+      if (boundary.backwards) cursorOptions.direction = backward;
+    }
+
+    const entries: PageEntry[] = [];
+    await this.iterateStore(storeName, (item, position) => {
+      if (stats) stats.examined++;
+      entries.push({
+        item,
+        position: { key: position.key, primaryKey: position.primaryKey },
+        values: order.sort.length > 0 ? this.fromIndexKey(position.key, plan) : []
       });
+    }, cursorOptions);
+
+    const hasMore = Boolean(options.limit) && entries.length > options.limit!;
+    if (hasMore) entries.pop();
+
+    if (boundary?.backwards) {
+      entries.reverse();
+      return {
+        entries,
+        total,
+        hasPrevious: hasMore,
+        hasNext: await this.hasEntryPast(storeName, plan, entries[entries.length - 1], plan.direction, stats)
+      };
+    }
+
+    return {
+      entries,
+      total,
+      hasPrevious: boundary
+        ? await this.hasEntryPast(storeName, plan, entries[0], backward, stats)
+        : Boolean(options.offset),
+      hasNext: hasMore
+    };
+  }
+
+  /**
+   * Collects every match, orders it by (sort values, primary key) and cuts the window
+   */
+  private async sliceWindow(
+    storeName: string,
+    plan: QueryPlan,
+    options: SearchOptions,
+    order: ResultOrder,
+    boundary: PageBoundary | undefined,
+    stats?: ExecutionStats
+  ): Promise<PageWindow> {
+    const keyPath = this.getStoreKeyPath(storeName);
+    const matches = await this.collectMatches(storeName, plan, stats);
+    const entries: PageEntry[] = matches.map(item => {
+      const values = getSortValues(item, order.sort);
+      return { item, position: { key: values, primaryKey: getKeyPathValue(item, keyPath) }, values };
     });
 
-    if (options.orderBy) {
-      filteredData.sort((a, b) => {
-        const aVal = a[options.orderBy!];
-        const bVal = b[options.orderBy!];
-        const direction = options.orderDirection === 'desc' ? -1 : 1;
-
-        if (aVal == null && bVal == null) return 0;
-        if (aVal == null) return 1 * direction;
-        if (bVal == null) return -1 * direction;
-        if (aVal < bVal) return -1 * direction;
-        if (aVal > bVal) return 1 * direction;
-        return 0;
+    // Paginated results without orderBy follow the primary key so cursors stay stable
+    const sorted = order.sort.length > 0 ? !plan.orderSatisfied : this.isPaginated(options);
+    if (sorted) {
+      entries.sort((a, b) => this.compareEntries(a, b, order));
+    }
+
+    let start = 0;
+    let end = entries.length;
+
+    if (boundary) {
+      const position: PageEntry = {
+        item: {} as DatabaseItem,
+        position: { key: boundary.values, primaryKey: boundary.primaryKey },
+        values: boundary.values
+      };
+      const index = entries.findIndex(entry => {
+        const comparison = this.compareEntries(entry, position, order);
+        return boundary.backwards ? comparison >= 0 : comparison > 0;
       });
+      const edge = index === -1 ? entries.length : index;
+      if (boundary.backwards) end = edge;
+      else start = edge;
     }
 
-    const total = filteredData.length;
-    
-    if (options.limit || options.offset) {
-      const offset = options.offset || 0;
-      const limit = options.limit || total;
-      filteredData = filteredData.slice(offset, offset + limit);
+    const offset = options.offset || 0;
+    if (boundary?.backwards) {
+      end = Math.max(start, end - offset);
+      if (options.limit) start = Math.max(start, end - options.limit);
+    } else {
+      start = Math.min(end, start + offset);
+      if (options.limit) end = Math.min(end, start + options.limit);
     }
 
-    const result: SearchResult<DatabaseItem> = {
-      items: filteredData,
-      total
+    return {
+      entries: entries.slice(start, end),
+      total: entries.length,
+      hasPrevious: start > 0,
+      hasNext: end < entries.length
     };
-    
-    if (options.limit) {
-      if (options.offset) {
-        result.page = Math.floor(options.offset / options.limit) + (options.offset > 0 ? 2 : 1);
-      } else {
-        result.page = 1;
+  }
+
+  /**
+   * Checks whether the index range holds another entry beyond `entry` in `direction`
+   */
+  private async hasEntryPast(
+    storeName: string,
+    plan: QueryPlan,
+    entry: PageEntry | undefined,
+    direction: 'next' | 'prev',
+    stats?: ExecutionStats
+  ): Promise<boolean> {
+    if (!entry) return false;
+
+    let found = false;
+    const cursorOptions = this.toCursorOptions(plan, undefined, 1);
+    cursorOptions.direction = direction;
+    cursorOptions.after = entry.position;
+
+    await this.iterateStore(storeName, () => {
+      if (stats) stats.examined++;
+      found = true;
+      return false;
+    }, cursorOptions);
+
+    return found;
+  }
+
+  private resolveOrder(options: SearchOptions): ResultOrder {
+    const sort = normalizeSort(options);
+    const leadingDirection = sort[0]?.direction ?? options.orderDirection;
+    return {
+      sort,
+      compare: createSortComparator(sort),
+      signature: getSortSignature(sort),
+      primaryKeyDirection: leadingDirection === 'desc' ? -1 : 1
+    };
+  }
+
+  private decodeBoundary(options: SearchOptions, order: ResultOrder): PageBoundary | undefined {
+    if (options.after && options.before) {
+      throw new Error('Use either "after" or "before" to paginate, not both');
+    }
+
+    const token = options.after || options.before;
+    if (!token) return undefined;
+
+    const payload = decodeCursorToken(token);
+    if (payload.orderBy !== order.signature) {
+      throw new Error('Pagination cursor was created for a different orderBy');
+    }
+    if (payload.values.length !== order.sort.length) {
+      throw new Error('Invalid pagination cursor');
+    }
+
+    return { values: payload.values, primaryKey: payload.primaryKey, backwards: Boolean(options.before) };
+  }
+
+  private toCursorToken(entry: PageEntry, order: ResultOrder): string {
+    return encodeCursorToken({
+      orderBy: order.signature,
+      values: entry.values,
+      primaryKey: entry.position.primaryKey
+    });
+  }
+
+  private isPaginated(options: SearchOptions): boolean {
+    return Boolean(options.limit || options.offset || options.after || options.before);
+  }
+
+  /**
+   * Reads the records selected by the plan and applies its residual to them: the index
+   * range already guarantees the conditions it resolved
+   */
+  private async collectMatches(storeName: string, plan: QueryPlan, stats?: ExecutionStats): Promise<DatabaseItem[]> {
+    if (plan.strategy === 'scan') {
+      const allData = await this.getAllDataFromStore(storeName);
+      if (stats) stats.examined += allData.length;
+      return allData.filter(item => matchesQuery(item, plan.residual));
+    }
+
+    const matches: DatabaseItem[] = [];
+    await this.streamMatches(storeName, plan, item => {
+      matches.push(item);
+    }, stats);
+
+    return matches;
+  }
+
+  /**
+   * Iterates the records selected by the plan (the whole store for scans) and passes
+   * those matching its residual to `onMatch`, which can return `false` to stop the cursor
+   */
+  private async streamMatches(
+    storeName: string,
+    plan: QueryPlan,
+    onMatch: (item: DatabaseItem) => boolean | void,
+    stats?: ExecutionStats
+  ): Promise<void> {
+    // A record can appear under several keys of a multiEntry index
+    const seen = plan.multiEntry ? new Set<string>() : null;
+
+    await this.iterateStore(storeName, (item, position) => {
+      if (stats) stats.examined++;
+      if (seen) {
+        const key = encodeKey(position.primaryKey);
+        if (seen.has(key)) return;
+        seen.add(key);
+      }
+      if (matchesQuery(item, plan.residual)) {
+        return onMatch(item);
       }
+    }, this.toCursorOptions(plan));
+  }
+
+  /**
+   * Whether the index of `plan` holds array keys where its range looks: anywhere for a
+   * single keyPath, right after each prefix of the queried key for a compound one. Arrays
+   * sort after every other key type, so the first key past `[...prefix, []]` tells.
+   * The answer is kept until the next write to the store.
+   */
+  private async holdsArrayKeys(storeName: string, plan: QueryPlan): Promise<boolean> {
+    const cacheKey = Array.isArray(plan.keyPath)
+      ? `${plan.indexName}:${encodeKey(plan.range!.lower)}`
+      : plan.indexName!;
+    let checks = this.arrayKeyChecks.get(storeName);
+    if (!checks) {
+      checks = new Map();
+      this.arrayKeyChecks.set(storeName, checks);
     }
-    
-    if (options.limit) {
-      result.limit = options.limit;
+
+    let holds = checks.get(cacheKey);
+    if (holds === undefined) {
+      holds = await this.probeArrayKeys(storeName, plan);
+      checks.set(cacheKey, holds);
     }
-    
-    return result;
+    return holds;
   }
 
-  async filterInStore(storeName: string, criteria: FilterCriteria): Promise<DatabaseItem[]> {
-    const allData = await this.getAllDataFromStore(storeName);
-    return allData.filter(item => {
-      return Object.entries(criteria).every(([key, value]) => {
-        if (value === undefined || value === null) return true;
-        return item[key] === value;
+  private async probeArrayKeys(storeName: string, plan: QueryPlan): Promise<boolean> {
+    if (!Array.isArray(plan.keyPath)) {
+      return await this.firstIndexKey(storeName, plan.indexName!, []) !== undefined;
+    }
+
+    const key = plan.range!.lower as unknown[];
+    for (let part = 0; part < key.length; part++) {
+      const prefix = key.slice(0, part);
+      const found = await this.firstIndexKey(storeName, plan.indexName!, [...prefix, []]);
+      if (Array.isArray(found)
+        && Array.isArray(found[part])
+        && prefix.every((value, i) => compareKeys(value, found[i]) === 0)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async firstIndexKey(storeName: string, indexName: string, lower: unknown[]): Promise<unknown> {
+    let key: unknown;
+    await this.iterateStore(storeName, (_item, position) => {
+      key = position.key;
+      return false;
+    }, { indexName, query: { lower }, limit: 1 });
+    return key;
+  }
+
+  private canStreamWindow(plan: QueryPlan, options: SearchOptions, order: ResultOrder): boolean {
+    return plan.strategy === 'index'
+      && plan.orderSatisfied
+      && !plan.multiEntry
+      && Object.keys(plan.residual).length === 0
+      // Without orderBy, paginated pages must follow the primary key: only a single-key range does
+      && (order.sort.length > 0 || !this.isPaginated(options) || this.isSingleKeyRange(plan.range));
+  }
+
+  private isSingleKeyRange(range?: KeyRange): boolean {
+    return range !== undefined
+      && range.lower !== undefined
+      && !range.lowerOpen
+      && !range.upperOpen
+      && compareKeys(range.lower, range.upper) === 0;
+  }
+
+  private toCursorOptions(plan: QueryPlan, offset?: number, limit?: number): CursorOptions {
+    const options: CursorOptions = { direction: plan.direction };
+    if (plan.indexName !== undefined) options.indexName = plan.indexName;
+    if (plan.range !== undefined) options.query = plan.range;
+    if (offset) options.offset = offset;
+    if (limit) options.limit = limit;
+    return options;
+  }
+
+  /**
+   * Ranked text search: answered by the store's `fullText` index when it declares one,
+   * otherwise by scanning the store with `search`
+   */
+  async searchTextInStore(storeName: string, text: string, options: SearchTextOptions = {}): Promise<TextSearchHit[]> {
+    const index = await this.getTextIndex(storeName);
+    if (!index) {
+      const hits = await this.search(await this.getAllDataFromStore(storeName), text, options);
+      return options.limit ? hits.slice(0, options.limit) : hits;
+    }
+
+    const matches = index.search(text, options);
+    const window = options.limit ? matches.slice(0, options.limit) : matches;
+    const fields = options.fields
+      ? index.indexedFields.filter(field => options.fields!.includes(field))
+      : index.indexedFields;
+
+    const hits: TextSearchHit[] = [];
+    for (const match of window) {
+      const item = await this.getDataFromStore(storeName, match.primaryKey);
+      if (!item) continue;
+      hits.push({
+        item,
+        score: match.score,
+        matches: highlightTokens(item, fields, index.analyzer, term => match.terms.has(term))
       });
-    });
+    }
+    return hits;
+  }
+
+  /**
+   * Keeps full-text indexes in sync with a write and forgets the index checks of the store.
+   * Full-text indexes that were never built are left alone: they read the store when first used.
+   */
+  applyMutation(storeName: string, event: EmitEvents, data: DatabaseItem | number | null): void {
+    this.arrayKeyChecks.delete(storeName);
+    const entry = this.textIndexes.get(storeName);
+    if (!entry) return;
+
+    switch (event) {
+      case 'add':
+      case 'update':
+      case 'save':
+        if (data !== null && typeof data === 'object') entry.index.add(data);
+        break;
+      case 'delete':
+        entry.index.remove(data);
+        break;
+      case 'clear':
+        entry.index.clear();
+        break;
+    }
+  }
+
+  /**
+   * Drops every full-text index and cached index check (the database was closed or replaced)
+   */
+  resetTextIndexes(): void {
+    this.textIndexes.clear();
+    this.arrayKeyChecks.clear();
   }
 
-  async search(allData: DatabaseItem[], query: string, options?: SearchTextOptions): Promise<DatabaseItem[]> {
-    const searchFields = options?.fields || ['name', 'title', 'description'];
+  private async getTextIndex(storeName: string): Promise<FullTextIndex | undefined> {
+    const options = this.getStoreFullText(storeName);
+    if (!options) return undefined;
+
+    let entry = this.textIndexes.get(storeName);
+    if (!entry || entry.index.options !== options) {
+      const index = new FullTextIndex(options, this.getStoreKeyPath(storeName));
+      const ready = this.iterateStore(storeName, item => {
+        index.add(item);
+      }).then(() => index);
+      entry = { index, ready };
+      this.textIndexes.set(storeName, entry);
 
-    return allData.filter(item => {
-      return searchFields.some(field => {
-        const value = item[field];
-        return typeof value === 'string' &&
-               value.toLowerCase().includes(query.toLowerCase());
+      ready.catch(() => {
+        if (this.textIndexes.get(storeName) === entry) this.textIndexes.delete(storeName);
       });
-    });
+    }
+
+    return entry.ready;
+  }
+
+  /**
+   * Scores records without a full-text index. A field matches when it contains the query
+   * (case-insensitive) and scores by how much of the field it covers. With `fuzzy`, each
+   * query word is compared with the words of the field by edit distance instead, and
+   * `prefix` / `operator` apply. Results are ordered by descending score.
+   */
+  async search(allData: DatabaseItem[], query: string, options: SearchTextOptions = {}): Promise<TextSearchHit[]> {
+    const fields = options.fields || ['name', 'title', 'description'];
+    const weightOf = (field: string) => options.weights?.[field] ?? 1;
+    const hits: TextSearchHit[] = [];
+
+    if (!options.fuzzy) {
+      const needle = query.toLowerCase();
+      if (needle.length === 0) return [];
+
+      for (const item of allData) {
+        let score = 0;
+        const matches: TextMatch[] = [];
+
+        for (const field of fields) {
+          for (const value of getTextValues(item, field)) {
+            const ranges: Array<[number, number]> = [];
+            const haystack = value.toLowerCase();
+            for (let start = haystack.indexOf(needle); start !== -1; start = haystack.indexOf(needle, start + needle.length)) {
+              ranges.push([start, start + needle.length]);
+            }
+            if (ranges.length === 0) continue;
+            matches.push({ field, value, ranges });
+            score += weightOf(field) * ranges.length * needle.length / value.length;
+          }
+        }
+
+        if (matches.length > 0) hits.push({ item, score, matches });
+      }
+
+      return hits.sort((a, b) => b.score - a.score);
+    }
+
+    const analyzer = new TextAnalyzer();
+    const terms = Array.from(new Set(analyzer.analyze(query)));
+    if (terms.length === 0) return [];
+    const maxDistances = terms.map(term => getMaxDistance(term, options.fuzzy));
+
+    for (const item of allData) {
+      let score = 0;
+      const matched = new Set<number>();
+      const matches: TextMatch[] = [];
+
+      for (const field of fields) {
+        for (const value of getTextValues(item, field)) {
+          const ranges: Array<[number, number]> = [];
+
+          for (const token of analyzer.tokens(value)) {
+            let best = 0;
+            terms.forEach((term, termIndex) => {
+              const distance = editDistance(term, token.term, maxDistances[termIndex]);
+              const similarity = distance <= maxDistances[termIndex]!
+                ? 1 / (1 + distance)
+                : (options.prefix && token.term.startsWith(term) ? PREFIX_WEIGHT : 0);
+              if (similarity > 0) {
+                matched.add(termIndex);
+                best = Math.max(best, similarity);
+              }
+            });
+            if (best > 0) {
+              ranges.push([token.start, token.end]);
+              score += weightOf(field) * best;
+            }
+          }
+
+          if (ranges.length > 0) matches.push({ field, value, ranges });
+        }
+      }
+
+      if (matches.length === 0) continue;
+      if (options.operator === 'and' && matched.size < terms.length) continue;
+      hits.push({ item, score, matches });
+    }
+
+    return hits.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Index keys hold the sort values: one value for a single keyPath, a tuple for a compound one
+   */
+  private toIndexKey(values: unknown[], plan: QueryPlan): unknown {
+    return Array.isArray(plan.keyPath) ? values : values[0];
+  }
+
+  private fromIndexKey(key: unknown, plan: QueryPlan): unknown[] {
+    return Array.isArray(plan.keyPath) ? key as unknown[] : [key];
+  }
+
+  private compareEntries(a: PageEntry, b: PageEntry, order: ResultOrder): number {
+    return order.compare(a.values, b.values)
+      || compareKeys(a.position.primaryKey, b.position.primaryKey) * order.primaryKeyDirection;
   }
 }
 
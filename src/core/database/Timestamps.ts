@@ -0,0 +1,64 @@
+/**
+ * Timestamps - Creation and last write dates kept on each record
+ */
+
+import type { DatabaseItem, TimestampOptions } from '../../types/index.js';
+import { createTimestamp } from '../../utils/helpers.js';
+
+/** Timestamp settings of a store, with the defaults applied */
+export interface Timestamps {
+  createdAt: string | undefined;
+  updatedAt: string | undefined;
+  format: 'epoch' | 'iso';
+  clock: () => Date | number;
+}
+
+/**
+ * Settings of a store: its own `timestamps` option or, when it has none, the manager's.
+ * `true` takes the manager's options, if any.
+ */
+export function resolveTimestamps(
+  store: boolean | TimestampOptions | undefined,
+  manager: boolean | TimestampOptions | undefined
+): Timestamps | undefined {
+  const setting = store ?? manager;
+  if (!setting) return undefined;
+
+  const options: TimestampOptions = {
+    ...(typeof manager === 'object' ? manager : {}),
+    ...(typeof setting === 'object' ? setting : {})
+  };
+  return {
+    createdAt: options.createdAt === false ? undefined : options.createdAt ?? 'createdAt',
+    updatedAt: options.updatedAt === false ? undefined : options.updatedAt ?? 'updatedAt',
+    format: options.format ?? 'epoch',
+    clock: options.clock ?? (() => new Date())
+  };
+}
+
+export function formatTimestamp(date: Date | number, format: 'epoch' | 'iso'): number | string {
+  const value = new Date(date);
+  return format === 'iso' ? createTimestamp(value) : value.getTime();
+}
+
+/**
+ * Copy of `item` with its dates for a write over `stored` (`null` for new records). The stored
+ * creation date wins over the one received; a new record keeps the one it brings, if any.
+ */
+export function withTimestamps<T extends DatabaseItem>(
+  item: T,
+  stored: DatabaseItem | null | undefined,
+  timestamps: Timestamps | undefined
+): T {
+  if (!timestamps) return item;
+
+  const now = formatTimestamp(timestamps.clock(), timestamps.format);
+  const result: Record<string, unknown> = { ...item };
+  if (timestamps.createdAt) {
+    result[timestamps.createdAt] = stored?.[timestamps.createdAt] ?? item[timestamps.createdAt] ?? now;
+  }
+  if (timestamps.updatedAt) {
+    result[timestamps.updatedAt] = now;
+  }
+  return result as T;
+}
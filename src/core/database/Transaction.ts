@@ -0,0 +1,158 @@
+/**
+ * Transaction - Scoped CRUD access to the stores of a multi-store transaction
+ */
+
+import type {
+  BatchOptions,
+  BatchResult,
+  DatabaseItem,
+  DatabaseKey,
+  GetAllOptions,
+  UpdateManyOptions,
+  UpdateOptions
+} from '../../types/index.js';
+import type { TransactionMode } from '../../adapters/types.js';
+import type { DatabaseOperations } from './DatabaseOperations.js';
+import type { BatchOperations } from './BatchOperations.js';
+import { compileProjection } from '../query/Projection.js';
+import { getKeyPathValue } from '../../utils/keys.js';
+
+export interface TransactionContext {
+  databaseOperations: DatabaseOperations;
+  /** Created with `throwOnError`, so a failed batch rejects and aborts the transaction */
+  batchOperations: BatchOperations;
+  getStoreKeyPath: (storeName: string) => string | string[];
+}
+
+/**
+ * Handle passed to `manager.transaction()` callbacks. Only the stores named when the
+ * transaction started can be used, and only while the callback runs.
+ */
+export class Transaction {
+  private stores: Map<string, TransactionStore<any>> = new Map();
+  private finished = false;
+
+  constructor(
+    private context: TransactionContext,
+    readonly storeNames: string[],
+    readonly mode: TransactionMode
+  ) {}
+
+  get active(): boolean {
+    return !this.finished;
+  }
+
+  store<S extends DatabaseItem = DatabaseItem>(storeName: string): TransactionStore<S> {
+    if (!this.storeNames.includes(storeName)) {
+      throw new Error(`Store '${storeName}' is not part of this transaction`);
+    }
+
+    let store = this.stores.get(storeName);
+    if (!store) {
+      store = new TransactionStore(this, this.context, storeName);
+      this.stores.set(storeName, store);
+    }
+    return store as TransactionStore<S>;
+  }
+
+  /** Called once the transaction has committed or rolled back */
+  finish(): void {
+    this.finished = true;
+  }
+
+  assertActive(write: boolean): void {
+    if (this.finished) {
+      throw new Error('Transaction has already finished');
+    }
+    if (write && this.mode === 'readonly') {
+      throw new Error('Cannot write in a readonly transaction');
+    }
+  }
+}
+
+/**
+ * CRUD operations on one store of a transaction. Failed writes throw, so the whole
+ * transaction is rolled back.
+ */
+export class TransactionStore<T extends DatabaseItem = DatabaseItem> {
+  constructor(
+    private transaction: Transaction,
+    private context: TransactionContext,
+    readonly storeName: string
+  ) {}
+
+  async add(data: Partial<T>): Promise<T> {
+    this.transaction.assertActive(true);
+    return this.context.databaseOperations.saveDataToStore(this.storeName, data) as Promise<T>;
+  }
+
+  async get(id: DatabaseKey): Promise<T | null> {
+    this.transaction.assertActive(false);
+    return this.context.databaseOperations.getDataByIdFromStore(this.storeName, id) as Promise<T | null>;
+  }
+
+  async update(item: T, options: UpdateOptions = {}): Promise<T | null> {
+    this.transaction.assertActive(true);
+    const key = getKeyPathValue(item, this.context.getStoreKeyPath(this.storeName));
+    return this.context.databaseOperations.updateDataByIdInStore(this.storeName, key, item, options) as Promise<T | null>;
+  }
+
+  async delete(id: DatabaseKey): Promise<boolean> {
+    this.transaction.assertActive(true);
+    await this.context.databaseOperations.deleteDataFromStore(this.storeName, id);
+    return true;
+  }
+
+  async getAll(options: GetAllOptions<T> = {}): Promise<T[]> {
+    this.transaction.assertActive(false);
+    const project = options.select
+      ? compileProjection(options.select, this.context.getStoreKeyPath(this.storeName))
+      : undefined;
+    return this.context.databaseOperations.getAllDataFromStore(this.storeName, project) as Promise<T[]>;
+  }
+
+  async count(): Promise<number> {
+    this.transaction.assertActive(false);
+    return this.context.databaseOperations.countInStore(this.storeName);
+  }
+
+  async clear(): Promise<void> {
+    this.transaction.assertActive(true);
+    return this.context.databaseOperations.clearStore(this.storeName);
+  }
+
+  async getMany(ids: DatabaseKey[]): Promise<T[]> {
+    this.transaction.assertActive(false);
+    return this.context.databaseOperations.getManyFromStore(this.storeName, ids) as Promise<T[]>;
+  }
+
+  async addMany(items: Partial<T>[]): Promise<boolean> {
+    this.transaction.assertActive(true);
+    return this.context.batchOperations.addManyToStore(this.storeName, items);
+  }
+
+  async updateMany(items: T[], options: UpdateManyOptions = {}): Promise<boolean> {
+    this.transaction.assertActive(true);
+    return this.context.batchOperations.updateManyInStore(this.storeName, items, options);
+  }
+
+  async deleteMany(ids: DatabaseKey[]): Promise<boolean> {
+    this.transaction.assertActive(true);
+    return this.context.batchOperations.deleteManyFromStore(this.storeName, ids);
+  }
+
+  async addManyWithResults(items: Partial<T>[], options: BatchOptions = {}): Promise<BatchResult<Partial<T>>> {
+    this.transaction.assertActive(true);
+    return this.context.batchOperations.addManyToStoreWithResults(this.storeName, items, options) as Promise<BatchResult<Partial<T>>>;
+  }
+
+  async updateManyWithResults(items: T[], options: UpdateManyOptions & BatchOptions = {}): Promise<BatchResult<T>> {
+    this.transaction.assertActive(true);
+    return this.context.batchOperations.updateManyInStoreWithResults(this.storeName, items, options) as Promise<BatchResult<T>>;
+  }
+
+  async deleteManyWithResults(ids: DatabaseKey[], options: BatchOptions = {}): Promise<BatchResult<DatabaseKey>> {
+    this.transaction.assertActive(true);
+    return this.context.batchOperations.deleteManyFromStoreWithResults(this.storeName, ids, options);
+  }
+}
@@ -3,8 +3,17 @@
  */
 
 import type { DatabaseConfig, DatabaseSchema, DatabaseIndex } from '../../types/index.js';
-import type { StorageAdapter } from '../../adapters/types.js';
+import type { StorageAdapter, TransactionMode } from '../../adapters/types.js';
 import { validateAnyDatabaseConfig } from '../../utils/helpers.js';
+import { StoreNotFoundError, TransactionAbortedError, ValidationError, toDatabaseError } from '../errors.js';
+import {
+  adapterMigrationTarget,
+  ensureStore,
+  getPendingMigrations,
+  indexedDBMigrationTarget,
+  runMigrations
+} from '../schema/Migrations.js';
+import { COUNTER_STORE, usesIdCounters } from './Ids.js';
 
 export interface TransactionManagerOptions {
   db: any;
@@ -17,6 +26,12 @@ export interface TransactionManagerOptions {
   defaultIndexes: DatabaseIndex[];
 }
 
+export type ExecuteTransaction = <T>(
+  storeName: string,
+  mode: 'readonly' | 'readwrite',
+  callback: (store: IDBObjectStore) => Promise<T> | T
+) => Promise<T>;
+
 export class TransactionManager {
   private db: any;
   private dbConfig: DatabaseConfig;
@@ -71,9 +86,16 @@ export class TransactionManager {
 
   private async _doOpenDatabase(): Promise<any> {
     if (this.isNodeEnvironment) {
+      const currentSchema = this.schemaManager.getSchema();
+      // Set on every open, so the migrations of a previous schema never run again. The adapter
+      // awaits the handler and keeps the previous data if a migration fails.
+      this.adapter.onUpgrade(this.dbConfig.name, async ({ db, oldVersion, newVersion }: any) => {
+        const migrations = getPendingMigrations(currentSchema, oldVersion, newVersion);
+        await runMigrations(migrations, adapterMigrationTarget(this.adapter, db), oldVersion, newVersion);
+      });
+
       this.db = await this.adapter.openDatabase(this.dbConfig.name, this.dbConfig.version);
       
-      const currentSchema = this.schemaManager.getSchema();
       if (currentSchema) {
         currentSchema.stores.forEach(storeConfig => {
           if (!this.db.stores.has(storeConfig.name)) {
@@ -82,7 +104,11 @@ export class TransactionManager {
               autoIncrement: storeConfig.autoIncrement || false,
             });
           }
+          this.ensureAdapterIndexes(storeConfig.name, storeConfig.indexes || []);
         });
+        if (usesIdCounters(currentSchema) && !this.db.stores.has(COUNTER_STORE)) {
+          this.adapter.createObjectStore(this.db, COUNTER_STORE, { keyPath: "id", autoIncrement: false });
+        }
       } else {
         if (!this.db.stores.has(this.dbConfig.store)) {
           this.adapter.createObjectStore(this.db, this.dbConfig.store, {
@@ -90,6 +116,7 @@ export class TransactionManager {
             autoIncrement: false,
           });
         }
+        this.ensureAdapterIndexes(this.dbConfig.store, this.defaultIndexes);
       }
       
       return this.db;
@@ -99,12 +126,15 @@ export class TransactionManager {
       const currentSchema = this.schemaManager.getSchema();
       
       if (!currentSchema && !validateAnyDatabaseConfig(this.dbConfig)) {
-        reject(new Error('Invalid database configuration'));
+        reject(new ValidationError('Invalid database configuration'));
         return;
       }
 
       const request = indexedDB.open(this.dbConfig.name, this.dbConfig.version);
 
+      // Error of a failed migration, reported instead of the AbortError it causes
+      let upgradeError: unknown;
+
       request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
         const db = (event.target as IDBOpenDBRequest).result;
         const transaction = (event.target as IDBOpenDBRequest).transaction;
@@ -114,53 +144,54 @@ export class TransactionManager {
           return;
         }
 
-        try {
-          if (currentSchema) {
-            currentSchema.stores.forEach(storeConfig => {
-              if (!db.objectStoreNames.contains(storeConfig.name)) {
-                const objectStore = db.createObjectStore(storeConfig.name, {
+        const target = indexedDBMigrationTarget(db, transaction);
+        const onIndexError = (index: DatabaseIndex, indexError: unknown) => {
+          console.error(`Error creating index ${index.name}:`, indexError);
+        };
+
+        // Missing stores and indexes are created after the migrations, also on existing stores
+        const createDeclaredStores = () => {
+          try {
+            if (currentSchema) {
+              currentSchema.stores.forEach(storeConfig => {
+                ensureStore(target, storeConfig.name, {
                   keyPath: storeConfig.keyPath || "id",
                   autoIncrement: storeConfig.autoIncrement || false,
-                });
-
-                if (storeConfig.indexes) {
-                  storeConfig.indexes.forEach((index) => {
-                    try {
-                      if (!objectStore.indexNames.contains(index.name)) {
-                        objectStore.createIndex(index.name, index.keyPath, {
-                          unique: index.unique,
-                        });
-                      }
-                    } catch (indexError) {
-                      console.error(`Error creating index ${index.name}:`, indexError);
-                    }
-                  });
-                }
+                  indexes: storeConfig.indexes || [],
+                }, onIndexError);
+              });
+              if (usesIdCounters(currentSchema)) {
+                ensureStore(target, COUNTER_STORE, { keyPath: "id", autoIncrement: false, indexes: [] }, onIndexError);
               }
-            });
-          } else {
-            if (!db.objectStoreNames.contains(this.dbConfig.store)) {
-              const objectStore = db.createObjectStore(this.dbConfig.store, {
+            } else {
+              ensureStore(target, this.dbConfig.store, {
                 keyPath: "id",
                 autoIncrement: false,
-              });
-
-              this.defaultIndexes.forEach((index) => {
-                try {
-                  if (!objectStore.indexNames.contains(index.name)) {
-                    objectStore.createIndex(index.name, index.keyPath, {
-                      unique: index.unique,
-                    });
-                  }
-                } catch (indexError) {
-                  console.error(`Error creating index ${index.name}:`, indexError);
-                }
-              });
+                indexes: this.defaultIndexes,
+              }, onIndexError);
             }
+          } catch (upgradeError) {
+            console.error('Error during database upgrade:', upgradeError);
           }
-        } catch (upgradeError) {
-          console.error('Error during database upgrade:', upgradeError);
+        };
+
+        const newVersion = event.newVersion ?? this.dbConfig.version;
+        const migrations = getPendingMigrations(currentSchema, event.oldVersion, newVersion);
+        if (migrations.length === 0) {
+          createDeclaredStores();
+          return;
         }
+
+        runMigrations(migrations, target, event.oldVersion, newVersion)
+          .then(createDeclaredStores)
+          .catch(error => {
+            upgradeError = error;
+            try {
+              transaction.abort();
+            } catch {
+              // Already finished
+            }
+          });
       };
 
       request.onsuccess = () => {
@@ -181,7 +212,7 @@ export class TransactionManager {
             this.db.close();
             this.db = null;
           }
-          reject(error);
+          reject(upgradeError ?? toDatabaseError(error));
         } catch (errorHandlingError) {
           console.error('Error in onerror handler:', errorHandlingError);
           reject(errorHandlingError);
@@ -194,6 +225,18 @@ export class TransactionManager {
     });
   }
 
+  /**
+   * Creates the declared indexes in the adapter (createIndex is idempotent there)
+   */
+  private ensureAdapterIndexes(storeName: string, indexes: DatabaseIndex[]): void {
+    indexes.forEach(index => {
+      this.adapter.createIndex(this.db, storeName, index.name, index.keyPath, {
+        unique: index.unique,
+        multiEntry: index.multiEntry || false,
+      });
+    });
+  }
+
   async executeTransaction<T>(
     storeName: string,
     mode: IDBTransactionMode,
@@ -203,10 +246,7 @@ export class TransactionManager {
 
     return new Promise<T>((resolve, reject) => {
       if (!db.objectStoreNames.contains(storeName)) {
-        const availableStores = Array.from(db.objectStoreNames);
-        const errorMsg = `Store '${storeName}' not found. Available stores: [${availableStores.join(', ')}]`;
-        console.error(errorMsg);
-        return reject(new Error(errorMsg));
+        return reject(new StoreNotFoundError(storeName, { availableStores: Array.from(db.objectStoreNames) }));
       }
 
       let transaction: IDBTransaction;
@@ -214,7 +254,7 @@ export class TransactionManager {
         transaction = db.transaction(storeName, mode);
       } catch (error) {
         console.error(`Error creating transaction for store ${storeName}:`, error);
-        return reject(error);
+        return reject(toDatabaseError(error, storeName));
       }
       
       let callbackResult: T | undefined;
@@ -239,12 +279,13 @@ export class TransactionManager {
 
       transaction.onerror = () => {
         console.error(`Transaction error for store ${storeName}:`, transaction.error);
-        reject(transaction.error);
+        reject(toDatabaseError(transaction.error, storeName));
       };
 
       transaction.onabort = () => {
         console.error(`Transaction aborted for store ${storeName}`);
-        reject(new Error('Transaction was aborted'));
+        // The callback error explains the abort better than the abort itself
+        reject(callbackError ?? new TransactionAbortedError('Transaction was aborted', { cause: transaction.error }));
       };
 
       try {
@@ -259,7 +300,11 @@ export class TransactionManager {
             callbackError = err;
             isCallbackDone = true;
             if (transaction.abort) {
-              transaction.abort();
+              try {
+                transaction.abort();
+              } catch {
+                // The callback already aborted it
+              }
             } else {
                checkCompletion();
             }
@@ -274,6 +319,81 @@ export class TransactionManager {
     });
   }
 
+  /**
+   * Runs `callback` in one transaction over `storeNames`. The callback receives the
+   * `executeTransaction` and the database handle to use inside it: only what runs through
+   * them is part of the transaction. When it resolves every store commits, and when it
+   * throws every store is rolled back. Given the adapter handle of a transaction over the
+   * same stores, it runs inside of it: a throw only rolls back its own writes.
+   */
+  async runTransaction<T>(
+    storeNames: string[],
+    mode: TransactionMode,
+    callback: (executeTransaction: ExecuteTransaction, db: any) => Promise<T>,
+    parentDb?: any
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    const availableStores: string[] = this.isNodeEnvironment
+      ? this.adapter.getObjectStoreNames(db)
+      : Array.from(db.objectStoreNames);
+    const missing = storeNames.find(name => !availableStores.includes(name));
+    if (missing !== undefined) {
+      throw new StoreNotFoundError(missing, { availableStores });
+    }
+
+    if (this.isNodeEnvironment) {
+      const transaction = parentDb === undefined
+        ? await this.adapter.beginTransaction(db, storeNames, mode)
+        : await this.adapter.beginTransaction(parentDb, storeNames, mode, { join: true });
+      let result: T;
+      try {
+        result = await callback(this.executeTransaction.bind(this), transaction.db);
+      } catch (error) {
+        await transaction.abort();
+        throw error;
+      }
+      await transaction.commit();
+      return result;
+    }
+
+    const transaction: IDBTransaction = db.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () => reject(
+        toDatabaseError(transaction.error) ?? new TransactionAbortedError('Transaction was aborted')
+      );
+    });
+    done.catch(() => {});
+
+    // Requests of the callback share the transaction instead of opening their own
+    const executeTransaction: ExecuteTransaction = async (storeName, _mode, run) => {
+      if (!storeNames.includes(storeName)) {
+        throw new Error(`Store '${storeName}' is not part of this transaction`);
+      }
+      return run(transaction.objectStore(storeName));
+    };
+
+    let result: T;
+    try {
+      result = await callback(executeTransaction, db);
+    } catch (error) {
+      try {
+        transaction.abort();
+      } catch {
+        // Already finished
+      }
+      throw error;
+    }
+
+    try {
+      transaction.commit?.();
+    } catch {
+      // No longer active: it commits on its own once its requests are done
+    }
+    await done;
+    return result;
+  }
+
   close(): void {
     if (this.db) {
       this.adapter.close(this.db);
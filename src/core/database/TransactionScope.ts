@@ -0,0 +1,53 @@
+/**
+ * TransactionScope - Tracks the transaction() callback a call runs inside of, so manager
+ * calls made from it write through its handle instead of waiting for it to finish
+ */
+
+import type { DatabaseItem, EmitEvents } from '../../types/index.js';
+import { TransactionAbortedError } from '../errors.js';
+
+/** Read-write adapter transaction whose callback is running */
+export interface ActiveTransaction {
+  /** Handle its writes go through */
+  db: any;
+  storeNames: string[];
+  /** Collects the events emitted once it commits */
+  emitEvent: (event: EmitEvents, data: DatabaseItem | number | null, storeName?: string) => void;
+}
+
+interface ContextStorage {
+  run<R>(transaction: ActiveTransaction, callback: () => R): R;
+  getStore(): ActiveTransaction | undefined;
+}
+
+// AsyncLocalStorage where the runtime has one (Node, Bun, Deno)
+function createStorage(): ContextStorage | null {
+  const asyncHooks = (globalThis as any).process?.getBuiltinModule?.('node:async_hooks');
+  return asyncHooks?.AsyncLocalStorage ? new asyncHooks.AsyncLocalStorage() : null;
+}
+
+export class TransactionScope {
+  private storage: ContextStorage | null = createStorage();
+
+  run<R>(transaction: ActiveTransaction, callback: () => R): R {
+    return this.storage ? this.storage.run(transaction, callback) : callback();
+  }
+
+  /**
+   * Transaction a call over `storeNames` runs inside of, if it holds them. A call needing
+   * some of its stores and others it does not hold could only wait for it, so it throws.
+   */
+  current(storeNames: string[]): ActiveTransaction | undefined {
+    const transaction = this.storage?.getStore();
+    if (!transaction || !storeNames.some(name => transaction.storeNames.includes(name))) return undefined;
+
+    const missing = storeNames.filter(name => !transaction.storeNames.includes(name));
+    if (missing.length > 0) {
+      throw new TransactionAbortedError(
+        `Cannot use ${missing.map(name => `'${name}'`).join(', ')} inside the transaction over ` +
+        `${transaction.storeNames.map(name => `'${name}'`).join(', ')}: include them in it or run the call after it`
+      );
+    }
+    return transaction;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Validation - Checks records against the validation declared by their store: a
+ * TypeValidationSchema, a JSON Schema document or a Standard Schema validator
+ */
+
+import type {
+  DatabaseIndex,
+  DatabaseItem,
+  StandardSchemaIssue,
+  StandardSchemaV1,
+  StoreValidationSchema,
+  TypeValidationSchema
+} from '../../types/index.js';
+import { ValidationError } from '../errors.js';
+import { encodeKey, getKeyPathValue, isValidKey } from '../../utils/keys.js';
+import { validateJSONSchema } from './JSONSchema.js';
+
+/** Problems found in a record, by field name */
+export type FieldErrors = Record<string, string[]>;
+
+function addProblem(errors: FieldErrors, field: string, problem: string): void {
+  (errors[field] ??= []).push(problem);
+}
+
+/** Key of `fields` for the problems of the record as a whole */
+export const RECORD_FIELD = '$';
+
+/**
+ * Required fields and custom validators. Validators only run on fields that have a value.
+ */
+export function validateFields(schema: TypeValidationSchema<any>, record: DatabaseItem): FieldErrors {
+  const errors: FieldErrors = {};
+
+  for (const field of schema.requiredFields.map(String)) {
+    if (record[field] === undefined || record[field] === null) {
+      addProblem(errors, field, 'is required');
+    }
+  }
+
+  for (const [field, validator] of Object.entries(schema.validators ?? {})) {
+    if (!validator || record[field] === undefined || errors[field]) continue;
+    const result = validator(record[field]);
+    if (result !== true) {
+      addProblem(errors, field, typeof result === 'string' ? result : 'is invalid');
+    }
+  }
+  return errors;
+}
+
+/**
+ * Values taken by the unique fields of a store, so writes can be checked on adapters
+ * without native unique indexes. Like an index, only values that are valid keys count.
+ */
+export class UniqueValues {
+  // field -> encoded value -> encoded primary key of the record holding it
+  private owners = new Map<string, Map<string, string>>();
+  // encoded primary key -> field -> encoded value it holds
+  private held = new Map<string, Map<string, string>>();
+  // Records of autoIncrement stores have no key until written
+  private unkeyed = 0;
+
+  constructor(
+    private fields: string[],
+    records: Iterable<DatabaseItem> = [],
+    private keyPath: string | string[] = 'id'
+  ) {
+    fields.forEach(field => this.owners.set(field, new Map()));
+    for (const record of records) this.set(record);
+  }
+
+  /** Unique fields of `record` whose value belongs to another record */
+  conflicts(record: DatabaseItem): FieldErrors {
+    const errors: FieldErrors = {};
+    const id = this.keyOf(record, false);
+    for (const field of this.fields) {
+      const value = getKeyPathValue(record, field);
+      if (!isValidKey(value)) continue;
+      const owner = this.owners.get(field)!.get(encodeKey(value));
+      if (owner !== undefined && owner !== id) {
+        addProblem(errors, field, 'must be unique');
+      }
+    }
+    return errors;
+  }
+
+  /** Records the stored `records`, except those already recorded in a newer version */
+  seed(records: Iterable<DatabaseItem>): void {
+    for (const record of records) {
+      const key = getKeyPathValue(record, this.keyPath);
+      if (key === undefined || !this.held.has(encodeKey(key))) this.set(record);
+    }
+  }
+
+  /** Records the values of `record`, releasing the ones it held before */
+  set(record: DatabaseItem): void {
+    const id = this.keyOf(record, true);
+    const previous = this.held.get(id);
+    const values = new Map<string, string>();
+
+    for (const field of this.fields) {
+      const owners = this.owners.get(field)!;
+      const old = previous?.get(field);
+      if (old !== undefined && owners.get(old) === id) owners.delete(old);
+
+      const value = getKeyPathValue(record, field);
+      if (!isValidKey(value)) continue;
+      owners.set(encodeKey(value), id);
+      values.set(field, encodeKey(value));
+    }
+    this.held.set(id, values);
+  }
+
+  private keyOf(record: DatabaseItem, assign: boolean): string {
+    const key = getKeyPathValue(record, this.keyPath);
+    if (key !== undefined) return encodeKey(key);
+    return `unkeyed:${assign ? this.unkeyed++ : this.unkeyed}`;
+  }
+}
+
+export function isStandardSchema(schema: StoreValidationSchema): schema is StandardSchemaV1 {
+  return typeof (schema as Partial<StandardSchemaV1>)['~standard']?.validate === 'function';
+}
+
+function isTypeValidationSchema(schema: StoreValidationSchema): schema is TypeValidationSchema<any> {
+  return Array.isArray((schema as Partial<TypeValidationSchema<any>>).requiredFields);
+}
+
+/**
+ * Problems of `record` by field, whatever kind of validation the store declares. Nested
+ * problems are keyed by their dotted path; those of the whole record by `RECORD_FIELD`.
+ */
+export async function validateRecord(schema: StoreValidationSchema, record: DatabaseItem): Promise<FieldErrors> {
+  if (isTypeValidationSchema(schema)) return validateFields(schema, record);
+
+  const errors: FieldErrors = {};
+  if (isStandardSchema(schema)) {
+    const result = await schema['~standard'].validate(record);
+    (result.issues ?? []).forEach(issue => addProblem(errors, issuePath(issue), issue.message));
+  } else {
+    validateJSONSchema(schema, record).forEach(issue => addProblem(errors, issue.path.join('.') || RECORD_FIELD, issue.message));
+  }
+  return errors;
+}
+
+function issuePath(issue: StandardSchemaIssue): string {
+  const segments = (issue.path ?? []).map(segment => String(typeof segment === 'object' ? segment.key : segment));
+  return segments.join('.') || RECORD_FIELD;
+}
+
+/** Only a TypeValidationSchema declares unique fields */
+export function getUniqueFields(schema: StoreValidationSchema | undefined): string[] {
+  if (!schema || !isTypeValidationSchema(schema)) return [];
+  return (schema.uniqueFields ?? []).map(String);
+}
+
+/** Reads the stored records whose unique field holds `value`, through an index over it */
+export type UniqueLookups = Record<string, (value: unknown) => Promise<DatabaseItem[]>>;
+
+/**
+ * Index to look each unique field up in: a plain index whose keyPath is the field. Unique
+ * fields without one are checked against every record of the store.
+ */
+export function getUniqueIndexes(schema: StoreValidationSchema | undefined, indexes: DatabaseIndex[]): Map<string, string> {
+  const uniqueIndexes = new Map<string, string>();
+  for (const field of getUniqueFields(schema)) {
+    const index = indexes.find(candidate => candidate.keyPath === field && !candidate.multiEntry);
+    if (index) uniqueIndexes.set(field, index.name);
+  }
+  return uniqueIndexes;
+}
+
+/**
+ * Throws a `ValidationError` listing the problems of each field of `record`
+ */
+export async function assertValidRecord(
+  storeName: string,
+  schema: StoreValidationSchema,
+  record: DatabaseItem,
+  unique?: UniqueValues,
+  keyPath: string | string[] = 'id'
+): Promise<void> {
+  const errors = await validateRecord(schema, record);
+  if (unique) {
+    for (const [field, problems] of Object.entries(unique.conflicts(record))) {
+      problems.forEach(problem => addProblem(errors, field, problem));
+    }
+  }
+
+  const fields = Object.keys(errors);
+  if (fields.length === 0) return;
+
+  const details = fields.map(field => `${field} ${errors[field]!.join(', ')}`).join('; ');
+  const key = getKeyPathValue(record, keyPath);
+  throw new ValidationError(`Invalid record ${String(key)} for store '${storeName}': ${details}`, { fields: errors });
+}
+
+/**
+ * Validator for a sequence of writes to one store. Unique fields are compared with the
+ * records validated before and with the stored ones: those holding the value, read with
+ * `lookups` for the fields that have one, or else `getRecords()` (read once, only if some
+ * unique field lacks a lookup).
+ */
+export function createRecordValidator(
+  storeName: string,
+  schema: StoreValidationSchema | undefined,
+  getRecords: () => Promise<DatabaseItem[]>,
+  keyPath: string | string[] = 'id',
+  lookups: UniqueLookups = {}
+): (record: DatabaseItem) => Promise<void> {
+  if (!schema) return async () => {};
+
+  const uniqueFields = getUniqueFields(schema);
+  const scanned = uniqueFields.some(field => !lookups[field]);
+  let unique: Promise<UniqueValues> | undefined;
+  return async record => {
+    const values = uniqueFields.length > 0
+      ? await (unique ??= (scanned ? getRecords() : Promise.resolve([]))
+        .then(records => new UniqueValues(uniqueFields, records, keyPath)))
+      : undefined;
+    if (values && !scanned) {
+      for (const field of uniqueFields) {
+        const value = getKeyPathValue(record, field);
+        if (isValidKey(value)) values.seed(await lookups[field]!(value));
+      }
+    }
+    await assertValidRecord(storeName, schema, record, values, keyPath);
+    values?.set(record);
+  };
+}
@@ -3,7 +3,7 @@
  */
 
 export { DatabaseOperations } from './DatabaseOperations.js';
-export type { DatabaseOperationsOptions } from './DatabaseOperations.js';
+export type { DatabaseOperationsOptions, StoreIterationCallback } from './DatabaseOperations.js';
 
 export { BatchOperations } from './BatchOperations.js';
 export type { BatchOperationsOptions } from './BatchOperations.js';
@@ -12,4 +12,7 @@ export { SearchEngine } from './SearchEngine.js';
 export type { SearchEngineOptions } from './SearchEngine.js';
 
 export { TransactionManager } from './TransactionManager.js';
-export type { TransactionManagerOptions } from './TransactionManager.js';
+export type { TransactionManagerOptions, ExecuteTransaction } from './TransactionManager.js';
+
+export { Transaction, TransactionStore } from './Transaction.js';
+export type { TransactionContext } from './Transaction.js';
@@ -0,0 +1,179 @@
+/**
+ * Errors - Error classes thrown by the manager
+ */
+
+import type { DatabaseKey } from '../types/index.js';
+
+/** Stable identifier of each error class, safe to compare across bundles */
+export type DatabaseErrorCode =
+  | 'STORE_NOT_FOUND'
+  | 'NOT_FOUND'
+  | 'CONSTRAINT'
+  | 'VALIDATION'
+  | 'VERSION'
+  | 'QUOTA_EXCEEDED'
+  | 'TRANSACTION_ABORTED'
+  | 'CONFLICT';
+
+export interface DatabaseErrorOptions {
+  /** Underlying error (a DOMException, a file system error...) */
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error raised by the library
+ */
+export abstract class DatabaseError extends Error {
+  abstract readonly code: DatabaseErrorCode;
+  override readonly cause: unknown;
+
+  constructor(message: string, options: DatabaseErrorOptions = {}) {
+    super(message);
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Thrown when an operation targets a store that the database does not have
+ */
+export class StoreNotFoundError extends DatabaseError {
+  readonly code = 'STORE_NOT_FOUND';
+
+  constructor(
+    readonly storeName: string,
+    options: DatabaseErrorOptions & { availableStores?: string[]; schemaName?: string } = {}
+  ) {
+    super(
+      `Store '${storeName}' not found` +
+      (options.schemaName !== undefined ? ` in schema '${options.schemaName}'` : '') +
+      (options.availableStores ? `. Available stores: [${options.availableStores.join(', ')}]` : ''),
+      options
+    );
+    this.name = 'StoreNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a record that must exist is missing
+ */
+export class NotFoundError extends DatabaseError {
+  readonly code = 'NOT_FOUND';
+
+  constructor(readonly storeName: string, readonly id: unknown, options: DatabaseErrorOptions = {}) {
+    super(`Item with id ${String(id)} not found in store '${storeName}'`, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Thrown when a write breaks a key or unique index constraint
+ */
+export class ConstraintError extends DatabaseError {
+  readonly code = 'CONSTRAINT';
+
+  constructor(message: string, options: DatabaseErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ConstraintError';
+  }
+}
+
+/**
+ * Thrown when the data or the arguments of an operation are not valid
+ */
+export class ValidationError extends DatabaseError {
+  readonly code = 'VALIDATION';
+  /** Problems of each field, when a record fails the validation schema of its store */
+  readonly fields: Record<string, string[]>;
+
+  constructor(message: string, options: DatabaseErrorOptions & { fields?: Record<string, string[]> } = {}) {
+    super(message, options);
+    this.name = 'ValidationError';
+    this.fields = options.fields ?? {};
+  }
+}
+
+/**
+ * Thrown when the database is opened with a version lower than the stored one
+ */
+export class VersionError extends DatabaseError {
+  readonly code = 'VERSION';
+
+  constructor(message: string, options: DatabaseErrorOptions = {}) {
+    super(message, options);
+    this.name = 'VersionError';
+  }
+}
+
+/**
+ * Thrown when the storage has no room left for a write
+ */
+export class QuotaExceededError extends DatabaseError {
+  readonly code = 'QUOTA_EXCEEDED';
+
+  constructor(message: string, options: DatabaseErrorOptions = {}) {
+    super(message, options);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Thrown when a transaction is aborted before it commits
+ */
+export class TransactionAbortedError extends DatabaseError {
+  readonly code = 'TRANSACTION_ABORTED';
+
+  constructor(message: string, options: DatabaseErrorOptions = {}) {
+    super(message, options);
+    this.name = 'TransactionAbortedError';
+  }
+}
+
+/**
+ * Thrown when a conditional write (`ifMatch`) finds a different revision stored
+ */
+export class ConflictError extends DatabaseError {
+  readonly code = 'CONFLICT';
+
+  constructor(
+    readonly storeName: string,
+    readonly id: DatabaseKey,
+    readonly expectedRevision: number,
+    readonly actualRevision: number | null
+  ) {
+    super(
+      `Revision conflict on record ${id} of store '${storeName}': ` +
+      `expected ${expectedRevision}, found ${actualRevision ?? 'none'}`
+    );
+    this.name = 'ConflictError';
+  }
+}
+
+/** File system codes that mean the disk or the user quota is full */
+const QUOTA_CODES = new Set(['ENOSPC', 'EDQUOT']);
+
+/**
+ * Maps errors raised by IndexedDB (DOMException names) or the file system to the
+ * matching `DatabaseError`. Errors without an equivalent are returned unchanged.
+ */
+export function toDatabaseError(error: unknown, storeName?: string): unknown {
+  if (error instanceof DatabaseError || error === null || typeof error !== 'object') return error;
+
+  const { name, code, message } = error as { name?: unknown; code?: unknown; message?: unknown };
+  const text = typeof message === 'string' && message ? message : String(name);
+  switch (name) {
+    case 'ConstraintError':
+      return new ConstraintError(text, { cause: error });
+    case 'QuotaExceededError':
+      return new QuotaExceededError(text, { cause: error });
+    case 'VersionError':
+      return new VersionError(text, { cause: error });
+    case 'AbortError':
+      return new TransactionAbortedError(text, { cause: error });
+    case 'NotFoundError':
+      return storeName !== undefined ? new StoreNotFoundError(storeName, { cause: error }) : error;
+  }
+  if (typeof code === 'string' && QUOTA_CODES.has(code)) {
+    return new QuotaExceededError(text, { cause: error });
+  }
+  return error;
+}
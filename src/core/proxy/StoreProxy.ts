@@ -2,16 +2,35 @@
 
 import type { 
   DatabaseItem, 
+  DatabaseKey,
   SearchOptions, 
   SearchResult, 
+  GetAllOptions,
   FilterCriteria, 
-  DatabaseStats 
+  QueryFilter,
+  QueryExplanation,
+  AggregateStage,
+  SearchTextOptions,
+  TextSearchHit,
+  QueryField,
+  QueryFieldValue,
+  DatabaseStats,
+  UpdateOptions,
+  UpdateManyOptions,
+  BatchOptions,
+  BatchResult
 } from '../../types/index.js';
+import { QueryBuilder } from '../query/QueryBuilder.js';
+import type { WhereClause } from '../query/QueryBuilder.js';
+import type { LiveQuery } from '../query/LiveQuery.js';
 
 // Forward declaration type
 type IndexedDBManagerType = any;
 
-export class StoreProxy<T extends DatabaseItem = DatabaseItem> {
+/**
+ * `I` are the index names of the store, known when the schema declares them literally
+ */
+export class StoreProxy<T extends DatabaseItem = DatabaseItem, I extends string = string> {
   private _manager: IndexedDBManagerType;
   private _storeName: string;
   private _instanceId: string;
@@ -34,25 +53,24 @@ export class StoreProxy<T extends DatabaseItem = DatabaseItem> {
     return this._manager.saveDataToStore(this._storeName, data);
   }
 
-  async get(id: string | number): Promise<T | null> {
+  async get(id: DatabaseKey): Promise<T | null> {
     return this._manager.getDataByIdFromStore(this._storeName, id);
   }
 
-  async update(item: T): Promise<T | null> {
-    return this._manager.updateDataByIdInStore(this._storeName, item.id!, item);
+  async update(item: T, options: UpdateOptions = {}): Promise<T | null> {
+    return this._manager.updateRecordInStore(this._storeName, item, options);
   }
 
-  async delete(id: string | number): Promise<boolean> {
-    try {
-      await this._manager.deleteDataFromStore(this._storeName, id);
-      return true;
-    } catch {
-      return false;
-    }
+  async delete(id: DatabaseKey): Promise<boolean> {
+    return this._manager.deleteFromStore(this._storeName, id);
   }
 
-  async getAll(): Promise<T[]> {
-    return this._manager.getAllDataFromStore(this._storeName);
+  async getAll(options: GetAllOptions<T> = {}): Promise<T[]> {
+    return this._manager.getAllDataFromStore(this._storeName, options);
+  }
+
+  async getAllFromIndex(indexName: I, query?: unknown): Promise<T[]> {
+    return this._manager.getAllFromIndexInStore(this._storeName, indexName, query);
   }
 
   async clear(): Promise<void> {
@@ -63,27 +81,67 @@ export class StoreProxy<T extends DatabaseItem = DatabaseItem> {
     return this._manager.countInStore(this._storeName);
   }
 
-  async search(query: Partial<T>, options: SearchOptions = {}): Promise<SearchResult<T>> {
+  async search(query: QueryFilter<T> = {}, options: SearchOptions = {}): Promise<SearchResult<T>> {
     return this._manager.searchDataInStore(this._storeName, query, options);
   }
 
-  async filter(criteria: FilterCriteria): Promise<T[]> {
+  where<P extends QueryField<T>>(field: P): WhereClause<T, QueryFieldValue<T, P>> {
+    return this.query().where(field);
+  }
+
+  query(): QueryBuilder<T> {
+    return new QueryBuilder<T>(this._manager, this._storeName);
+  }
+
+  liveQuery(query: QueryFilter<T> = {}, options: SearchOptions = {}): LiveQuery<T> {
+    return this._manager.liveQuery(this._storeName, query, options);
+  }
+
+  async filter(criteria: FilterCriteria<T>): Promise<T[]> {
     return this._manager.filterInStore(this._storeName, criteria);
   }
 
+  async explain(query: QueryFilter<T> = {}, options: SearchOptions = {}): Promise<QueryExplanation> {
+    return this._manager.explainInStore(this._storeName, query, options);
+  }
+
+  async searchText(text: string, options: SearchTextOptions = {}): Promise<TextSearchHit<T>[]> {
+    return this._manager.searchTextInStore(this._storeName, text, options);
+  }
+
+  async aggregate<R = Record<string, any>>(pipeline: AggregateStage<T>[]): Promise<R[]> {
+    return this._manager.aggregateInStore(this._storeName, pipeline);
+  }
+
+  async distinct<V = unknown>(field: string, query: QueryFilter<T> = {}): Promise<V[]> {
+    return this._manager.distinctInStore(this._storeName, field, query);
+  }
+
   async addMany(items: Partial<T>[]): Promise<boolean> {
     return this._manager.addManyToStore(this._storeName, items);
   }
 
-  async updateMany(items: T[]): Promise<boolean> {
-    return this._manager.updateManyInStore(this._storeName, items);
+  async updateMany(items: T[], options: UpdateManyOptions = {}): Promise<boolean> {
+    return this._manager.updateManyInStore(this._storeName, items, options);
   }
 
-  async deleteMany(ids: (string | number)[]): Promise<boolean> {
+  async deleteMany(ids: DatabaseKey[]): Promise<boolean> {
     return this._manager.deleteManyFromStore(this._storeName, ids);
   }
 
-  async getMany(ids: (string | number)[]): Promise<T[]> {
+  async addManyWithResults(items: Partial<T>[], options: BatchOptions = {}): Promise<BatchResult<Partial<T>>> {
+    return this._manager.addManyToStoreWithResults(this._storeName, items, options);
+  }
+
+  async updateManyWithResults(items: T[], options: UpdateManyOptions & BatchOptions = {}): Promise<BatchResult<T>> {
+    return this._manager.updateManyInStoreWithResults(this._storeName, items, options);
+  }
+
+  async deleteManyWithResults(ids: DatabaseKey[], options: BatchOptions = {}): Promise<BatchResult<DatabaseKey>> {
+    return this._manager.deleteManyFromStoreWithResults(this._storeName, ids, options);
+  }
+
+  async getMany(ids: DatabaseKey[]): Promise<T[]> {
     return this._manager.getManyFromStore(this._storeName, ids);
   }
 
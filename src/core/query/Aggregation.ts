@@ -0,0 +1,298 @@
+/**
+ * Aggregation - Pipeline stages ($match, $group, $sort, $limit, $project) and accumulators
+ */
+
+import type {
+  AggregateAccumulator,
+  AggregateGroupSpec,
+  AggregateProjection,
+  AggregateSortSpec,
+  AggregateStage,
+  QueryFilter,
+  SortField
+} from '../../types/index.js';
+import { getValueByPath, matchesQuery, valuesEqual } from './QueryMatcher.js';
+import { createSortComparator, getSortValues, normalizeSort } from './Sorting.js';
+import { omitPath, withPath } from './Projection.js';
+
+const ACCUMULATORS = ['$sum', '$avg', '$min', '$max', '$count', '$first', '$last', '$push', '$addToSet'];
+
+export type ParsedStage =
+  | { type: '$match'; query: QueryFilter<any> }
+  | { type: '$group'; spec: AggregateGroupSpec }
+  | { type: '$sort'; sort: SortField[] }
+  | { type: '$limit'; limit: number }
+  | { type: '$project'; projection: AggregateProjection };
+
+/**
+ * Validates a pipeline and returns its stages in a tagged form
+ */
+export function parsePipeline(pipeline: AggregateStage<any>[]): ParsedStage[] {
+  if (!Array.isArray(pipeline)) {
+    throw new Error('aggregate() expects an array of stages');
+  }
+
+  return pipeline.map(stage => {
+    const keys = stage && typeof stage === 'object' ? Object.keys(stage) : [];
+    if (keys.length !== 1) {
+      throw new Error('Each aggregation stage must have exactly one operator');
+    }
+
+    const type = keys[0]!;
+    const value = (stage as Record<string, any>)[type];
+
+    switch (type) {
+      case '$match':
+        return { type, query: value ?? {} };
+      case '$group':
+        validateGroupSpec(value);
+        return { type, spec: value };
+      case '$sort':
+        return { type, sort: toSortFields(value) };
+      case '$limit':
+        if (!Number.isInteger(value) || value < 0) throw new Error('$limit expects a non-negative integer');
+        return { type, limit: value };
+      case '$project':
+        if (!value || typeof value !== 'object') throw new Error('$project expects an object');
+        return { type, projection: value };
+      default:
+        throw new Error(`Unsupported aggregation stage: ${type}`);
+    }
+  });
+}
+
+/**
+ * Converts `{ field: 1 | -1 }` (or a `SortField[]`) into sort fields
+ */
+export function toSortFields(spec: AggregateSortSpec): SortField[] {
+  if (Array.isArray(spec)) return spec;
+  if (!spec || typeof spec !== 'object') throw new Error('$sort expects an object or an array of sort fields');
+
+  return Object.entries(spec).map(([field, direction]) => ({
+    field,
+    direction: direction === -1 || direction === 'desc' ? 'desc' : 'asc'
+  }));
+}
+
+/**
+ * Resolves an expression: `'$path'` reads a field, objects and arrays are resolved
+ * member by member and anything else is a literal.
+ */
+export function resolveExpression(doc: unknown, expression: unknown): unknown {
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return getValueByPath(doc, expression.slice(1));
+  }
+  if (Array.isArray(expression)) {
+    return expression.map(member => resolveExpression(doc, member));
+  }
+  if (expression !== null && typeof expression === 'object' && !(expression instanceof Date)) {
+    const resolved: Record<string, unknown> = {};
+    for (const [key, member] of Object.entries(expression)) {
+      resolved[key] = resolveExpression(doc, member);
+    }
+    return resolved;
+  }
+  return expression;
+}
+
+/**
+ * Encodes a value as a string that is equal for structurally equal values
+ */
+function groupKey(value: unknown): string {
+  if (value === undefined || value === null) return 'null';
+  if (value instanceof Date) return `d:${value.getTime()}`;
+  if (Array.isArray(value)) return `[${value.map(groupKey).join(',')}]`;
+  if (typeof value === 'object') {
+    return `{${Object.entries(value).map(([key, member]) => `${JSON.stringify(key)}:${groupKey(member)}`).join(',')}}`;
+  }
+  return `${typeof value}:${String(value)}`;
+}
+
+function validateGroupSpec(spec: unknown): asserts spec is AggregateGroupSpec {
+  if (!spec || typeof spec !== 'object' || !('_id' in spec)) {
+    throw new Error('$group requires an _id expression');
+  }
+
+  for (const [field, accumulator] of Object.entries(spec)) {
+    if (field === '_id') continue;
+    const operators = accumulator && typeof accumulator === 'object' ? Object.keys(accumulator) : [];
+    if (operators.length !== 1 || !ACCUMULATORS.includes(operators[0]!)) {
+      throw new Error(`Invalid accumulator for field '${field}' in $group`);
+    }
+  }
+}
+
+interface AccumulatorState {
+  sum: number;
+  count: number;
+  value: unknown;
+  values: unknown[];
+  seen: boolean;
+}
+
+const compareValues = createSortComparator(normalizeSort({ orderBy: [{ field: 'value' }] }));
+
+/**
+ * Groups documents one at a time, so records can be streamed from a cursor
+ */
+export class GroupAccumulator {
+  private groups: Map<string, { id: unknown; states: Map<string, AccumulatorState> }> = new Map();
+  private fields: Array<[string, string, unknown]>;
+
+  constructor(private spec: AggregateGroupSpec) {
+    this.fields = Object.entries(spec)
+      .filter(([field]) => field !== '_id')
+      .map(([field, accumulator]) => {
+        const [operator, operand] = Object.entries(accumulator as AggregateAccumulator)[0]!;
+        return [field, operator, operand];
+      });
+  }
+
+  add(doc: unknown): void {
+    const id = resolveExpression(doc, this.spec._id) ?? null;
+    const key = groupKey(id);
+
+    let group = this.groups.get(key);
+    if (!group) {
+      group = { id, states: new Map() };
+      for (const [field] of this.fields) {
+        group.states.set(field, { sum: 0, count: 0, value: undefined, values: [], seen: false });
+      }
+      this.groups.set(key, group);
+    }
+
+    for (const [field, operator, operand] of this.fields) {
+      this.accumulate(group.states.get(field)!, operator, operator === '$count' ? undefined : resolveExpression(doc, operand));
+    }
+  }
+
+  result(): Record<string, unknown>[] {
+    return Array.from(this.groups.values()).map(group => {
+      const doc: Record<string, unknown> = { _id: group.id };
+      for (const [field, operator] of this.fields) {
+        doc[field] = this.finalize(group.states.get(field)!, operator);
+      }
+      return doc;
+    });
+  }
+
+  private accumulate(state: AccumulatorState, operator: string, value: unknown): void {
+    switch (operator) {
+      case '$sum':
+      case '$avg':
+        if (typeof value === 'number' && !Number.isNaN(value)) {
+          state.sum += value;
+          state.count++;
+        }
+        break;
+      case '$count':
+        state.count++;
+        break;
+      case '$min':
+      case '$max': {
+        if (value === null || value === undefined) break;
+        const comparison = state.seen ? compareValues([value], [state.value]) : 0;
+        if (!state.seen || (operator === '$min' ? comparison < 0 : comparison > 0)) {
+          state.value = value;
+          state.seen = true;
+        }
+        break;
+      }
+      case '$first':
+        if (!state.seen) {
+          state.value = value;
+          state.seen = true;
+        }
+        break;
+      case '$last':
+        state.value = value;
+        state.seen = true;
+        break;
+      case '$push':
+        state.values.push(value);
+        break;
+      case '$addToSet':
+        if (value !== undefined && !state.values.some(existing => valuesEqual(existing, value))) {
+          state.values.push(value);
+        }
+        break;
+    }
+  }
+
+  private finalize(state: AccumulatorState, operator: string): unknown {
+    switch (operator) {
+      case '$sum':
+        return state.sum;
+      case '$avg':
+        return state.count > 0 ? state.sum / state.count : null;
+      case '$count':
+        return state.count;
+      case '$push':
+      case '$addToSet':
+        return state.values;
+      default:
+        return state.seen ? state.value : null;
+    }
+  }
+}
+
+/**
+ * Applies a `$project` stage: `1` keeps a field, `0` removes it and `'$path'`
+ * (or any other expression) computes a new one.
+ */
+export function projectDocument(doc: Record<string, unknown>, projection: AggregateProjection): Record<string, unknown> {
+  const entries = Object.entries(projection);
+  const excluded = entries.filter(([, value]) => value === 0 || value === false);
+
+  if (excluded.length === entries.length) {
+    return excluded.reduce((projected, [path]) => omitPath(projected, path), doc);
+  }
+  if (excluded.length > 0) {
+    throw new Error('$project cannot mix inclusion and exclusion');
+  }
+
+  let projected: Record<string, unknown> = {};
+  for (const [path, value] of entries) {
+    const resolved = value === 1 || value === true ? getValueByPath(doc, path) : resolveExpression(doc, value);
+    if (resolved !== undefined) projected = withPath(projected, path, resolved);
+  }
+  return projected;
+}
+
+/**
+ * Runs stages over documents already in memory
+ */
+export function applyStages(docs: Record<string, unknown>[], stages: ParsedStage[]): Record<string, unknown>[] {
+  let current = docs;
+
+  for (const stage of stages) {
+    switch (stage.type) {
+      case '$match':
+        current = current.filter(doc => matchesQuery(doc, stage.query));
+        break;
+      case '$group': {
+        const group = new GroupAccumulator(stage.spec);
+        current.forEach(doc => group.add(doc));
+        current = group.result();
+        break;
+      }
+      case '$sort': {
+        const sort = normalizeSort({ orderBy: stage.sort });
+        const compare = createSortComparator(sort);
+        current = current
+          .map(doc => ({ doc, values: getSortValues(doc, sort) }))
+          .sort((a, b) => compare(a.values, b.values))
+          .map(entry => entry.doc);
+        break;
+      }
+      case '$limit':
+        current = current.slice(0, stage.limit);
+        break;
+      case '$project':
+        current = current.map(doc => projectDocument(doc, stage.projection));
+        break;
+    }
+  }
+
+  return current;
+}
@@ -0,0 +1,69 @@
+/**
+ * CursorToken - Opaque keyset pagination tokens (`nextCursor` / `prevCursor`)
+ */
+
+export interface CursorTokenPayload {
+  /** Signature of the sort the page was built with (`null` when ordered by primary key) */
+  orderBy: string | null;
+  /** Sort values of the boundary record, one per sort field */
+  values: unknown[];
+  /** Primary key of the boundary record, used as tie-breaker */
+  primaryKey: unknown;
+}
+
+function toSerializable(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return { $date: value.getTime() };
+  if (Array.isArray(value)) return value.map(toSerializable);
+  return value;
+}
+
+function fromSerializable(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(fromSerializable);
+  if (value !== null && typeof value === 'object' && '$date' in value) {
+    return new Date((value as { $date: number }).$date);
+  }
+  return value;
+}
+
+function toBase64Url(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): string {
+  const base64 = token.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+export function encodeCursorToken(payload: CursorTokenPayload): string {
+  return toBase64Url(JSON.stringify([
+    payload.orderBy,
+    toSerializable(payload.values),
+    toSerializable(payload.primaryKey)
+  ]));
+}
+
+export function decodeCursorToken(token: string): CursorTokenPayload {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(fromBase64Url(token));
+  } catch {
+    throw new Error('Invalid pagination cursor');
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 3 || !Array.isArray(decoded[1])
+    || (decoded[0] !== null && typeof decoded[0] !== 'string')) {
+    throw new Error('Invalid pagination cursor');
+  }
+
+  return {
+    orderBy: decoded[0],
+    values: fromSerializable(decoded[1]) as unknown[],
+    primaryKey: fromSerializable(decoded[2])
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * FullTextIndex - Inverted index with configurable analysis and BM25 ranking
+ */
+
+import type { FullTextIndexOptions, SearchTextOptions } from '../../types/index.js';
+import { PREFIX_WEIGHT, TextAnalyzer, editDistance, getMaxDistance, getTextValues } from './TextAnalysis.js';
+import { compareKeys, encodeKey, getKeyPathValue } from '../../utils/keys.js';
+
+export type FullTextSearchOptions = Pick<SearchTextOptions, 'fields' | 'weights' | 'prefix' | 'fuzzy' | 'operator'>;
+
+export interface FullTextMatch {
+  primaryKey: unknown;
+  score: number;
+  /** Indexed terms that matched, used for highlighting */
+  terms: Set<string>;
+}
+
+interface IndexedDocument {
+  primaryKey: unknown;
+  /** Token count per indexed field */
+  lengths: number[];
+  terms: Set<string>;
+}
+
+export class FullTextIndex {
+  readonly analyzer: TextAnalyzer;
+  private fields: string[];
+  private k1: number;
+  private b: number;
+  private documents: Map<string, IndexedDocument> = new Map();
+  /** term -> document key -> term frequency per field */
+  private postings: Map<string, Map<string, number[]>> = new Map();
+  private fieldTotals: number[];
+  private sortedTerms: string[] | null = null;
+
+  constructor(public readonly options: FullTextIndexOptions, private keyPath: string | string[]) {
+    if (!Array.isArray(options.fields) || options.fields.length === 0) {
+      throw new Error('A fullText index requires at least one field');
+    }
+    this.fields = options.fields;
+    this.analyzer = new TextAnalyzer(options);
+    this.k1 = options.bm25?.k1 ?? 1.2;
+    this.b = options.bm25?.b ?? 0.75;
+    this.fieldTotals = this.fields.map(() => 0);
+  }
+
+  get indexedFields(): string[] {
+    return this.fields;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Indexes a record, replacing any previous version with the same primary key
+   */
+  add(item: unknown): void {
+    const primaryKey = getKeyPathValue(item, this.keyPath);
+    if (primaryKey === undefined) return;
+
+    this.remove(primaryKey);
+
+    const docKey = encodeKey(primaryKey);
+    const document: IndexedDocument = { primaryKey, lengths: [], terms: new Set() };
+
+    this.fields.forEach((field, fieldIndex) => {
+      const tokens = getTextValues(item, field).flatMap(text => this.analyzer.analyze(text));
+      document.lengths.push(tokens.length);
+      this.fieldTotals[fieldIndex]! += tokens.length;
+
+      for (const token of tokens) {
+        let postings = this.postings.get(token);
+        if (!postings) {
+          postings = new Map();
+          this.postings.set(token, postings);
+          this.sortedTerms = null;
+        }
+        let frequencies = postings.get(docKey);
+        if (!frequencies) {
+          frequencies = this.fields.map(() => 0);
+          postings.set(docKey, frequencies);
+        }
+        frequencies[fieldIndex]!++;
+        document.terms.add(token);
+      }
+    });
+
+    this.documents.set(docKey, document);
+  }
+
+  remove(primaryKey: unknown): void {
+    const docKey = encodeKey(primaryKey);
+    const document = this.documents.get(docKey);
+    if (!document) return;
+
+    document.lengths.forEach((length, fieldIndex) => {
+      this.fieldTotals[fieldIndex]! -= length;
+    });
+    for (const term of document.terms) {
+      const postings = this.postings.get(term);
+      postings?.delete(docKey);
+      if (postings && postings.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+    this.documents.delete(docKey);
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.fieldTotals = this.fields.map(() => 0);
+    this.sortedTerms = null;
+  }
+
+  /**
+   * Ranks the indexed records against `text` with BM25, summed over the searched fields
+   * (times their weight). Prefix and fuzzy expansions score less than exact terms.
+   * Results are ordered by descending score, then by primary key.
+   */
+  search(text: string, options: FullTextSearchOptions = {}): FullTextMatch[] {
+    const queryTerms = Array.from(new Set(this.analyzer.analyze(text)));
+    if (queryTerms.length === 0) return [];
+
+    const fieldWeights = this.fields.map(field => {
+      if (options.fields && !options.fields.includes(field)) return 0;
+      return options.weights?.[field] ?? 1;
+    });
+
+    const total = this.documents.size;
+    const scores = new Map<string, { score: number; matched: Set<number>; terms: Set<string> }>();
+
+    queryTerms.forEach((queryTerm, termIndex) => {
+      for (const [term, weight] of this.expand(queryTerm, options)) {
+        const postings = this.postings.get(term);
+        if (!postings) continue;
+
+        const idf = Math.log(1 + (total - postings.size + 0.5) / (postings.size + 0.5));
+
+        for (const [docKey, frequencies] of postings) {
+          const document = this.documents.get(docKey)!;
+          let score = 0;
+
+          fieldWeights.forEach((fieldWeight, fieldIndex) => {
+            const frequency = frequencies[fieldIndex]!;
+            if (frequency === 0 || fieldWeight === 0) return;
+            const averageLength = this.fieldTotals[fieldIndex]! / total || 1;
+            const lengthRatio = document.lengths[fieldIndex]! / averageLength;
+            score += fieldWeight * idf * (frequency * (this.k1 + 1)) / (frequency + this.k1 * (1 - this.b + this.b * lengthRatio));
+          });
+
+          if (score > 0) {
+            let entry = scores.get(docKey);
+            if (!entry) {
+              entry = { score: 0, matched: new Set(), terms: new Set() };
+              scores.set(docKey, entry);
+            }
+            entry.score += score * weight;
+            entry.matched.add(termIndex);
+            entry.terms.add(term);
+          }
+        }
+      }
+    });
+
+    const results: FullTextMatch[] = [];
+    for (const [docKey, entry] of scores) {
+      if (options.operator === 'and' && entry.matched.size < queryTerms.length) continue;
+      results.push({ primaryKey: this.documents.get(docKey)!.primaryKey, score: entry.score, terms: entry.terms });
+    }
+
+    return results.sort((a, b) => b.score - a.score || compareKeys(a.primaryKey, b.primaryKey));
+  }
+
+  /**
+   * Indexed terms a query term stands for, with the weight of each match: the term itself,
+   * terms it prefixes and terms within the allowed edit distance (weighted 1 / (1 + distance))
+   */
+  private expand(queryTerm: string, options: FullTextSearchOptions): Map<string, number> {
+    const expansions = new Map<string, number>([[queryTerm, 1]]);
+    const setWeight = (term: string, weight: number) => {
+      expansions.set(term, Math.max(expansions.get(term) ?? 0, weight));
+    };
+
+    if (options.prefix) {
+      this.termsWithPrefix(queryTerm).forEach(term => setWeight(term, PREFIX_WEIGHT));
+    }
+
+    const maxDistance = getMaxDistance(queryTerm, options.fuzzy);
+    if (maxDistance > 0) {
+      for (const term of this.postings.keys()) {
+        const distance = editDistance(queryTerm, term, maxDistance);
+        if (distance > 0 && distance <= maxDistance) setWeight(term, 1 / (1 + distance));
+      }
+    }
+
+    return expansions;
+  }
+
+  private termsWithPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+
+    const terms = this.sortedTerms;
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (terms[middle]! < prefix) low = middle + 1;
+      else high = middle;
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < terms.length && terms[i]!.startsWith(prefix); i++) {
+      matches.push(terms[i]!);
+    }
+    return matches;
+  }
+}
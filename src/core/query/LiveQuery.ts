@@ -0,0 +1,225 @@
+/**
+ * LiveQuery - Query results that re-emit when a mutation of the store affects them
+ */
+
+import type {
+  DatabaseItem,
+  EmitEventData,
+  EmitEvents,
+  LiveQueryObserver,
+  LiveQuerySubscription,
+  QueryFilter,
+  SearchOptions,
+  SearchResult
+} from '../../types/index.js';
+import type { Emitter } from '../Emitter.js';
+import type { NormalizedSortField, SortComparator } from './Sorting.js';
+import type { ProjectionFunction } from './Projection.js';
+import { matchesQuery, valuesEqual } from './QueryMatcher.js';
+import { compileProjection } from './Projection.js';
+import { createSortComparator, getSortValues, normalizeSort } from './Sorting.js';
+import { compareKeys, encodeKey, getKeyPathValue } from '../../utils/keys.js';
+
+const MUTATION_EVENTS: EmitEvents[] = ['add', 'update', 'save', 'delete', 'clear', 'import'];
+
+export interface LiveQueryContext {
+  getEmitter: () => Emitter;
+  searchDataInStore: (storeName: string, query: QueryFilter, options: SearchOptions) => Promise<SearchResult>;
+  getStoreKeyPath: (storeName: string) => string | string[];
+}
+
+/**
+ * Subscribable result set of `searchDataInStore(storeName, query, options)`.
+ *
+ * Listeners are attached to the emitter with the first subscriber and released with the
+ * last one. Each mutation event is checked against the last result: writes of records that
+ * neither match the query nor were part of the result, or that fall beyond a full page,
+ * are ignored without querying again. Mutations in the same tick (e.g. `addMany`) share
+ * one refresh, and a refresh that yields the same records does not emit.
+ */
+export class LiveQuery<T extends DatabaseItem = DatabaseItem> {
+  private observers: Set<LiveQueryObserver<T>> = new Set();
+  private emitter: Emitter | null = null;
+  private searchOptions: SearchOptions;
+  private project: ProjectionFunction | undefined;
+  private sort: NormalizedSortField[];
+  private compare: SortComparator;
+  /** Full records of the last result, before projection */
+  private records: DatabaseItem[] | null = null;
+  private recordKeys: Set<string> = new Set();
+  private current: T[] | null = null;
+  private scheduled = false;
+  private running = false;
+  /** Increased on every refresh and on stop, so stale results are dropped */
+  private generation = 0;
+  private readonly listener = (event: EmitEventData) => this.handleMutation(event);
+
+  constructor(
+    private context: LiveQueryContext,
+    readonly storeName: string,
+    readonly query: QueryFilter<T> = {},
+    readonly options: SearchOptions = {}
+  ) {
+    const { select, ...searchOptions } = options;
+    this.searchOptions = searchOptions;
+    this.project = select ? compileProjection(select, context.getStoreKeyPath(storeName)) : undefined;
+    this.sort = normalizeSort(options);
+    this.compare = createSortComparator(this.sort);
+  }
+
+  get subscriberCount(): number {
+    return this.observers.size;
+  }
+
+  /**
+   * Receives the current result right away and again whenever it changes
+   */
+  subscribe(
+    observerOrNext: LiveQueryObserver<T> | ((items: T[]) => void),
+    error?: (error: unknown) => void
+  ): LiveQuerySubscription {
+    const observer: LiveQueryObserver<T> = typeof observerOrNext === 'function'
+      ? { next: observerOrNext, ...(error ? { error } : {}) }
+      : observerOrNext;
+
+    this.observers.add(observer);
+    if (this.observers.size === 1) {
+      this.start();
+    } else if (this.current) {
+      const current = this.current;
+      queueMicrotask(() => {
+        if (this.observers.has(observer)) this.notify(observer, current);
+      });
+    }
+
+    let closed = false;
+    return {
+      unsubscribe: () => {
+        if (closed) return;
+        closed = true;
+        this.observers.delete(observer);
+        if (this.observers.size === 0) this.stop();
+      },
+      get closed() {
+        return closed;
+      }
+    };
+  }
+
+  private start(): void {
+    this.emitter = this.context.getEmitter();
+    MUTATION_EVENTS.forEach(event => this.emitter!.on(event, this.listener));
+    this.schedule();
+  }
+
+  private stop(): void {
+    MUTATION_EVENTS.forEach(event => this.emitter?.off(event, this.listener as (data: unknown) => void));
+    this.emitter = null;
+    this.records = null;
+    this.recordKeys = new Set();
+    this.current = null;
+    this.running = false;
+    this.generation++;
+  }
+
+  private handleMutation(event: EmitEventData): void {
+    if (this.scheduled) return;
+    const storeName = event.metadata?.storeName ?? event.config?.store;
+    if (storeName !== this.storeName) return;
+    if (this.running || this.affects(event.metadata?.operation, event.data)) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Whether a mutation can change the last result. Anything unknown counts as a change.
+   */
+  private affects(operation: string | undefined, data: EmitEventData['data']): boolean {
+    if (!this.records) return true;
+    const offset = Boolean(this.searchOptions.offset);
+
+    switch (operation) {
+      case 'add':
+      case 'update':
+      case 'save': {
+        if (data === null || typeof data !== 'object') return true;
+        if (this.recordKeys.has(encodeKey(this.getPrimaryKey(data)))) return true;
+        // With an offset, a record that stops matching may shift the window
+        if (!matchesQuery(data, this.query)) return offset && operation !== 'add';
+        return offset || !this.isPastFullPage(data);
+      }
+      case 'delete':
+        return this.recordKeys.has(encodeKey(data)) || offset;
+      case 'clear':
+        return this.records.length > 0;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * A full page (no `before` cursor) keeps its records when a new match sorts after its last one
+   */
+  private isPastFullPage(item: DatabaseItem): boolean {
+    const { limit, before } = this.searchOptions;
+    const last = this.records![this.records!.length - 1];
+    if (!limit || before || this.records!.length < limit || !last) return false;
+
+    const primaryKeyDirection = (this.sort[0]?.direction ?? this.searchOptions.orderDirection) === 'desc' ? -1 : 1;
+    const comparison = this.compare(getSortValues(item, this.sort), getSortValues(last, this.sort))
+      || compareKeys(this.getPrimaryKey(item), this.getPrimaryKey(last)) * primaryKeyDirection;
+    return comparison > 0;
+  }
+
+  private schedule(): void {
+    if (this.scheduled) return;
+    this.scheduled = true;
+    queueMicrotask(() => {
+      this.scheduled = false;
+      if (this.observers.size > 0) void this.refresh();
+    });
+  }
+
+  private async refresh(): Promise<void> {
+    const generation = ++this.generation;
+    this.running = true;
+
+    try {
+      const result = await this.context.searchDataInStore(this.storeName, this.query as QueryFilter, this.searchOptions);
+      if (generation !== this.generation) return;
+
+      const previous = this.records;
+      this.records = result.items;
+      this.recordKeys = new Set(result.items.map(item => encodeKey(this.getPrimaryKey(item))));
+      if (previous && this.sameRecords(previous, result.items)) return;
+
+      const items = (this.project ? result.items.map(this.project) : result.items) as T[];
+      this.current = items;
+      [...this.observers].forEach(observer => this.notify(observer, items));
+    } catch (error) {
+      if (generation !== this.generation) return;
+      [...this.observers].forEach(observer => {
+        if (observer.error) observer.error(error);
+        else console.error(`Error in live query on '${this.storeName}':`, error);
+      });
+    } finally {
+      if (generation === this.generation) this.running = false;
+    }
+  }
+
+  private notify(observer: LiveQueryObserver<T>, items: T[]): void {
+    try {
+      observer.next?.(items);
+    } catch (error) {
+      console.error(`Error in live query subscriber on '${this.storeName}':`, error);
+    }
+  }
+
+  private sameRecords(previous: DatabaseItem[], next: DatabaseItem[]): boolean {
+    return previous.length === next.length && previous.every((item, index) => valuesEqual(item, next[index]));
+  }
+
+  private getPrimaryKey(item: unknown): unknown {
+    return getKeyPathValue(item, this.context.getStoreKeyPath(this.storeName));
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Projection - Field selection (`select`) for search and getAll results
+ */
+
+import type { Projection } from '../../types/index.js';
+import { getValueByPath } from './QueryMatcher.js';
+
+export type ProjectionFunction = (item: any) => any;
+
+/**
+ * Returns a copy of `source` with `value` at a dot path. Only the objects along the
+ * path are copied, so values shared with a stored record are never modified.
+ */
+export function withPath(source: Record<string, unknown>, path: string, value: unknown): Record<string, unknown> {
+  const [head, ...rest] = path.split('.');
+  const copy = { ...source };
+
+  if (rest.length === 0) {
+    copy[head!] = value;
+  } else {
+    const child = source[head!];
+    const base = child !== null && typeof child === 'object' && !Array.isArray(child) ? child as Record<string, unknown> : {};
+    copy[head!] = withPath(base, rest.join('.'), value);
+  }
+  return copy;
+}
+
+/**
+ * Removes a dot path from `source` without modifying it: only the objects along
+ * the path are copied, everything else is shared.
+ */
+export function omitPath(source: Record<string, unknown>, path: string): Record<string, unknown> {
+  const [head, ...rest] = path.split('.');
+  if (!(head! in source)) return source;
+
+  const copy = { ...source };
+  if (rest.length === 0) {
+    delete copy[head!];
+    return copy;
+  }
+
+  const child = source[head!];
+  if (child === null || typeof child !== 'object' || Array.isArray(child)) return source;
+  copy[head!] = omitPath(child as Record<string, unknown>, rest.join('.'));
+  return copy;
+}
+
+/**
+ * Compiles a `select` spec into a function applied to each record.
+ *
+ * - `['name', 'address.city']` or `{ name: 1 }` keeps only those paths
+ * - `{ password: 0 }` keeps everything except those paths
+ * - `{ fullName: item => ... }` computes a field from the whole record; computed fields
+ *   alone behave like an inclusion projection
+ *
+ * Inclusion projections always keep the primary key unless it is excluded explicitly.
+ * Selected values are shared with the record, not copied.
+ */
+export function compileProjection(select: Projection<any>, keyPath: string | string[] = 'id'): ProjectionFunction {
+  const spec: Record<string, unknown> = Array.isArray(select)
+    ? Object.fromEntries(select.map(path => [path, 1]))
+    : select;
+
+  const included: string[] = [];
+  const excluded: string[] = [];
+  const computed: Array<[string, ProjectionFunction]> = [];
+
+  for (const [path, value] of Object.entries(spec)) {
+    if (typeof value === 'function') computed.push([path, value as ProjectionFunction]);
+    else if (value === 1 || value === true) included.push(path);
+    else if (value === 0 || value === false) excluded.push(path);
+    else throw new Error(`Invalid projection value for '${path}': use 1, 0 or a function`);
+  }
+
+  const primaryKeyPaths = Array.isArray(keyPath) ? keyPath : [keyPath];
+  const excludesOnlyPrimaryKey = excluded.every(path => primaryKeyPaths.includes(path));
+
+  if (included.length > 0 && !excludesOnlyPrimaryKey) {
+    throw new Error('A projection cannot mix included and excluded fields');
+  }
+
+  if (included.length > 0 || (computed.length > 0 && excluded.length === 0)) {
+    const paths = [
+      ...primaryKeyPaths.filter(path => !excluded.includes(path) && !included.includes(path)),
+      ...included
+    ];
+
+    return item => {
+      let projected: Record<string, unknown> = {};
+      for (const path of paths) {
+        const value = getValueByPath(item, path);
+        if (value !== undefined) projected = withPath(projected, path, value);
+      }
+      for (const [path, compute] of computed) {
+        projected = withPath(projected, path, compute(item));
+      }
+      return projected;
+    };
+  }
+
+  return item => {
+    let projected = item as Record<string, unknown>;
+    for (const path of excluded) {
+      projected = omitPath(projected, path);
+    }
+    for (const [path, compute] of computed) {
+      projected = withPath(projected, path, compute(item));
+    }
+    return projected;
+  };
+}
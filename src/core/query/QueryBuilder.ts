@@ -0,0 +1,212 @@
+/**
+ * QueryBuilder - Chainable, typed queries compiled to the same filters as `searchDataInStore`
+ */
+
+import type {
+  DatabaseItem,
+  ModifyChanges,
+  Projection,
+  QueryField,
+  QueryFieldValue,
+  QueryFilter,
+  QueryOperators,
+  SearchOptions,
+  SortField
+} from '../../types/index.js';
+
+// Forward declaration type
+type IndexedDBManagerType = any;
+
+interface BuilderState {
+  conditions: Array<[string, QueryOperators]>;
+  sort: SortField[];
+  limit?: number;
+  offset?: number;
+  select?: Projection<any>;
+}
+
+/**
+ * Returns the record after applying `modify()` changes. Functions receive a deep copy,
+ * so in-place edits never reach the stored object before it is written back.
+ */
+export function applyChanges<T extends DatabaseItem>(item: T, changes: ModifyChanges<T>): T {
+  if (typeof changes !== 'function') return { ...item, ...changes };
+
+  const copy = structuredClone(item);
+  const result = changes(copy);
+  return result ? { ...copy, ...result } : copy;
+}
+
+/**
+ * Comparison step of a chain: `where('age')` waits for an operator such as `.gt(18)`
+ */
+export class WhereClause<T extends DatabaseItem, V> {
+  constructor(private readonly addCondition: (operators: QueryOperators) => QueryBuilder<T>) {}
+
+  eq(value: V | null): QueryBuilder<T> {
+    return this.addCondition({ $eq: value });
+  }
+
+  ne(value: V | null): QueryBuilder<T> {
+    return this.addCondition({ $ne: value });
+  }
+
+  gt(value: V): QueryBuilder<T> {
+    return this.addCondition({ $gt: value });
+  }
+
+  gte(value: V): QueryBuilder<T> {
+    return this.addCondition({ $gte: value });
+  }
+
+  lt(value: V): QueryBuilder<T> {
+    return this.addCondition({ $lt: value });
+  }
+
+  lte(value: V): QueryBuilder<T> {
+    return this.addCondition({ $lte: value });
+  }
+
+  /** Both bounds included */
+  between(lower: V, upper: V): QueryBuilder<T> {
+    return this.addCondition({ $gte: lower, $lte: upper });
+  }
+
+  in(values: (V | null)[]): QueryBuilder<T> {
+    return this.addCondition({ $in: values });
+  }
+
+  notIn(values: (V | null)[]): QueryBuilder<T> {
+    return this.addCondition({ $nin: values });
+  }
+
+  /** Written as a key range so an index on the field can answer it */
+  startsWith(prefix: string): QueryBuilder<T> {
+    return this.addCondition({ $gte: prefix, $lt: `${prefix}\uffff` });
+  }
+
+  matches(pattern: RegExp | string): QueryBuilder<T> {
+    return this.addCondition({ $regex: pattern });
+  }
+
+  exists(exists: boolean = true): QueryBuilder<T> {
+    return this.addCondition({ $exists: exists });
+  }
+}
+
+/**
+ * Immutable query chain over one store: every step returns a new builder, so a partial
+ * chain can be reused as a base for several queries.
+ */
+export class QueryBuilder<T extends DatabaseItem = DatabaseItem> {
+  constructor(
+    private readonly manager: IndexedDBManagerType,
+    private readonly storeName: string,
+    private readonly state: BuilderState = { conditions: [], sort: [] }
+  ) {}
+
+  where<P extends QueryField<T>>(field: P): WhereClause<T, QueryFieldValue<T, P>> {
+    return new WhereClause(operators => this.extend({
+      conditions: [...this.state.conditions, [field, operators]]
+    }));
+  }
+
+  /** Adds another condition; every condition of the chain must match */
+  and<P extends QueryField<T>>(field: P): WhereClause<T, QueryFieldValue<T, P>> {
+    return this.where(field);
+  }
+
+  /** Sorts by `field`; further calls add tie-breaking fields */
+  orderBy<P extends QueryField<T>>(field: P, direction: 'asc' | 'desc' = 'asc'): QueryBuilder<T> {
+    return this.extend({ sort: [...this.state.sort, { field, direction }] });
+  }
+
+  limit(count: number): QueryBuilder<T> {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error('limit() expects a positive integer');
+    }
+    return this.extend({ limit: count });
+  }
+
+  offset(count: number): QueryBuilder<T> {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error('offset() expects a non-negative integer');
+    }
+    return this.extend({ offset: count });
+  }
+
+  select(projection: Projection<T>): QueryBuilder<T> {
+    return this.extend({ select: projection });
+  }
+
+  /**
+   * Filter built by the chain. Conditions on different fields share one object; repeated
+   * operators on the same field go to `$and`.
+   */
+  toQuery(): QueryFilter<T> {
+    const query: Record<string, unknown> = {};
+    const repeated: QueryFilter<T>[] = [];
+
+    for (const [field, operators] of this.state.conditions) {
+      const current = query[field] as QueryOperators | undefined;
+      if (!current) {
+        query[field] = operators;
+      } else if (Object.keys(operators).some(operator => operator in current)) {
+        repeated.push({ [field]: operators } as QueryFilter<T>);
+      } else {
+        query[field] = { ...current, ...operators };
+      }
+    }
+
+    if (repeated.length > 0) query.$and = repeated;
+    return query as QueryFilter<T>;
+  }
+
+  toOptions(): SearchOptions {
+    const options = this.toWindowOptions();
+    if (this.state.select) options.select = this.state.select;
+    return options;
+  }
+
+  async toArray(): Promise<T[]> {
+    const result = await this.manager.searchDataInStore(this.storeName, this.toQuery(), this.toOptions());
+    return result.items;
+  }
+
+  async first(): Promise<T | null> {
+    const [item] = await this.limit(1).toArray();
+    return item ?? null;
+  }
+
+  /** Number of records `toArray()` would return */
+  async count(): Promise<number> {
+    const { total } = await this.manager.searchDataInStore(this.storeName, this.toQuery(), { limit: 1 });
+    const available = Math.max(0, total - (this.state.offset ?? 0));
+    return this.state.limit === undefined ? available : Math.min(available, this.state.limit);
+  }
+
+  /** Deletes the matching records (within `orderBy`/`limit`/`offset`) and returns how many */
+  async delete(): Promise<number> {
+    return this.manager.deleteWhereInStore(this.storeName, this.toQuery(), this.toWindowOptions());
+  }
+
+  /**
+   * Updates the matching records with `changes` (fields to merge, or a function that edits
+   * or returns changes for each record) and returns how many were written
+   */
+  async modify(changes: ModifyChanges<T>): Promise<number> {
+    return this.manager.modifyWhereInStore(this.storeName, this.toQuery(), changes, this.toWindowOptions());
+  }
+
+  private toWindowOptions(): SearchOptions {
+    const options: SearchOptions = {};
+    if (this.state.sort.length > 0) options.orderBy = this.state.sort;
+    if (this.state.limit !== undefined) options.limit = this.state.limit;
+    if (this.state.offset !== undefined) options.offset = this.state.offset;
+    return options;
+  }
+
+  private extend(changes: Partial<BuilderState>): QueryBuilder<T> {
+    return new QueryBuilder<T>(this.manager, this.storeName, { ...this.state, ...changes });
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * QueryMatcher - Evaluates operator-based query filters against records
+ */
+
+import type { QueryFilter, QueryOperators } from '../../types/index.js';
+
+/**
+ * Resolves a dot-separated path (`address.city`, `tags.0`) inside a record.
+ * When an intermediate value is an array and the next segment is not an index,
+ * the path is resolved on every element and the results are flattened.
+ */
+export function getValueByPath(source: unknown, path: string): unknown {
+  if (source === null || source === undefined) return undefined;
+  if (!path.includes('.')) {
+    return (source as Record<string, unknown>)[path];
+  }
+
+  let current: unknown = source;
+  const segments = path.split('.');
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]!;
+    if (current === null || current === undefined) return undefined;
+
+    if (Array.isArray(current) && !/^\d+$/.test(segment)) {
+      const rest = segments.slice(i).join('.');
+      const values = current
+        .map(element => getValueByPath(element, rest))
+        .filter(value => value !== undefined);
+      return values.flat();
+    }
+
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Checks whether a value is an operator object such as `{ $gt: 5 }`
+ */
+export function isOperatorObject(value: unknown): value is QueryOperators {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  if (value instanceof Date || value instanceof RegExp) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => key.startsWith('$'));
+}
+
+/**
+ * Compares two scalar values. Returns `undefined` when the values are not comparable
+ * (different types), so range operators never match across types. As with IndexedDB keys,
+ * a Date is a type of its own: it compares with Dates only, never with numbers.
+ */
+export function compareValues(a: unknown, b: unknown): number | undefined {
+  if ((a instanceof Date) !== (b instanceof Date)) return undefined;
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+
+  if (typeof left !== typeof right || left === null || right === null) return undefined;
+  if (typeof left === 'number' || typeof left === 'string' || typeof left === 'boolean' || typeof left === 'bigint') {
+    if (left < (right as typeof left)) return -1;
+    if (left > (right as typeof left)) return 1;
+    return 0;
+  }
+  return undefined;
+}
+
+/**
+ * Structural equality used by `$eq`, `$ne`, `$in` and `$nin`
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((value, index) => valuesEqual(value, b[index]));
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every(key => valuesEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+function matchesEquality(fieldValue: unknown, expected: unknown): boolean {
+  if (expected instanceof RegExp) {
+    return matchesRegex(fieldValue, expected);
+  }
+  if (expected === null) {
+    return fieldValue === null || fieldValue === undefined;
+  }
+  if (valuesEqual(fieldValue, expected)) return true;
+  if (Array.isArray(fieldValue) && !Array.isArray(expected)) {
+    return fieldValue.some(element => valuesEqual(element, expected));
+  }
+  return false;
+}
+
+function matchesRegex(fieldValue: unknown, pattern: RegExp): boolean {
+  if (Array.isArray(fieldValue)) {
+    return fieldValue.some(element => matchesRegex(element, pattern));
+  }
+  if (typeof fieldValue !== 'string') return false;
+  pattern.lastIndex = 0;
+  return pattern.test(fieldValue);
+}
+
+function matchesRange(fieldValue: unknown, expected: unknown, accept: (comparison: number) => boolean): boolean {
+  if (Array.isArray(fieldValue)) {
+    return fieldValue.some(element => matchesRange(element, expected, accept));
+  }
+  const comparison = compareValues(fieldValue, expected);
+  return comparison !== undefined && accept(comparison);
+}
+
+function toRegExp(pattern: unknown, flags?: string): RegExp {
+  if (pattern instanceof RegExp) {
+    return flags ? new RegExp(pattern.source, flags) : pattern;
+  }
+  if (typeof pattern === 'string') {
+    return new RegExp(pattern, flags);
+  }
+  throw new Error('$regex expects a string or RegExp');
+}
+
+function matchesOperators(fieldValue: unknown, operators: QueryOperators): boolean {
+  for (const [operator, operand] of Object.entries(operators)) {
+    if (operand === undefined) continue;
+
+    switch (operator) {
+      case '$eq':
+        if (!matchesEquality(fieldValue, operand)) return false;
+        break;
+      case '$ne':
+        if (matchesEquality(fieldValue, operand)) return false;
+        break;
+      case '$gt':
+        if (!matchesRange(fieldValue, operand, c => c > 0)) return false;
+        break;
+      case '$gte':
+        if (!matchesRange(fieldValue, operand, c => c >= 0)) return false;
+        break;
+      case '$lt':
+        if (!matchesRange(fieldValue, operand, c => c < 0)) return false;
+        break;
+      case '$lte':
+        if (!matchesRange(fieldValue, operand, c => c <= 0)) return false;
+        break;
+      case '$in':
+        if (!Array.isArray(operand)) throw new Error('$in expects an array');
+        if (!operand.some(candidate => matchesEquality(fieldValue, candidate))) return false;
+        break;
+      case '$nin':
+        if (!Array.isArray(operand)) throw new Error('$nin expects an array');
+        if (operand.some(candidate => matchesEquality(fieldValue, candidate))) return false;
+        break;
+      case '$exists':
+        if ((fieldValue !== undefined) !== Boolean(operand)) return false;
+        break;
+      case '$regex':
+        if (!matchesRegex(fieldValue, toRegExp(operand, operators.$options))) return false;
+        break;
+      case '$options':
+        if (operators.$regex === undefined) throw new Error('$options requires $regex');
+        break;
+      case '$not':
+        if (matchesCondition(fieldValue, operand)) return false;
+        break;
+      default:
+        throw new Error(`Unsupported query operator: ${operator}`);
+    }
+  }
+  return true;
+}
+
+/**
+ * Evaluates a single field condition (plain value, RegExp or operator object)
+ */
+export function matchesCondition(fieldValue: unknown, condition: unknown): boolean {
+  if (isOperatorObject(condition)) {
+    return matchesOperators(fieldValue, condition);
+  }
+  return matchesEquality(fieldValue, condition);
+}
+
+/**
+ * Evaluates a query filter against a record. Top-level keys are ANDed together;
+ * `undefined` conditions are ignored so partial objects can be used as queries.
+ */
+export function matchesQuery<T = unknown>(item: T, query: QueryFilter<any> | null | undefined): boolean {
+  if (!query) return true;
+
+  for (const [key, condition] of Object.entries(query)) {
+    if (condition === undefined) continue;
+
+    switch (key) {
+      case '$and':
+        if (!Array.isArray(condition)) throw new Error('$and expects an array of filters');
+        if (!condition.every(subQuery => matchesQuery(item, subQuery))) return false;
+        break;
+      case '$or':
+        if (!Array.isArray(condition)) throw new Error('$or expects an array of filters');
+        if (!condition.some(subQuery => matchesQuery(item, subQuery))) return false;
+        break;
+      case '$not':
+        if (matchesQuery(item, condition as QueryFilter<any>)) return false;
+        break;
+      default:
+        if (key.startsWith('$')) {
+          throw new Error(`Unsupported query operator: ${key}`);
+        }
+        if (!matchesCondition(getValueByPath(item, key), condition)) return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,261 @@
+/**
+ * QueryPlanner - Chooses between an index range scan and a full store scan
+ */
+
+import type { DatabaseIndex, QueryFilter, QueryPlan, SearchOptions } from '../../types/index.js';
+import type { KeyRange } from '../../adapters/types.js';
+import type { NormalizedSortField } from './Sorting.js';
+import { isOperatorObject } from './QueryMatcher.js';
+import { normalizeSort } from './Sorting.js';
+import { getKeyTypeBounds, isValidKey } from '../../utils/keys.js';
+
+const RANGE_OPERATORS = ['$eq', '$gt', '$gte', '$lt', '$lte'];
+
+interface FieldRange {
+  range: KeyRange;
+  equality: boolean;
+  /** Both bounds come from the query (as opposed to the key type limits) */
+  twoSided: boolean;
+  /** The condition only uses operators that the range fully expresses */
+  exact: boolean;
+}
+
+interface Candidate {
+  index: DatabaseIndex;
+  fields: string[];
+  range: KeyRange;
+  exact: boolean;
+  score: number;
+}
+
+export class QueryPlanner {
+  /**
+   * Builds an execution plan for `query` over the given indexes
+   */
+  plan(query: QueryFilter<any>, indexes: DatabaseIndex[], options: Pick<SearchOptions, 'orderBy' | 'orderDirection'> = {}): QueryPlan {
+    const sort = normalizeSort(options);
+    const fieldRanges = this.collectFieldRanges(query);
+    const direction = sort[0]?.direction === 'desc' ? 'prev' : 'next';
+    const candidate = this.pickCandidate(fieldRanges, indexes);
+
+    if (candidate) {
+      const keyPath = candidate.index.keyPath;
+      const orderedByIndex = this.isOrderedBy(candidate.index, sort);
+      return {
+        strategy: 'index',
+        indexName: candidate.index.name,
+        keyPath,
+        range: candidate.range,
+        direction: orderedByIndex ? direction : 'next',
+        indexedFields: candidate.fields,
+        residual: candidate.exact ? this.withoutFields(query, candidate.fields) : query,
+        orderSatisfied: sort.length === 0 || orderedByIndex,
+        orderOnly: false,
+        multiEntry: candidate.index.multiEntry || false
+      };
+    }
+
+    const orderIndex = indexes.find(index => this.isOrderedBy(index, sort) && !index.multiEntry);
+
+    if (orderIndex) {
+      return {
+        strategy: 'index',
+        indexName: orderIndex.name,
+        keyPath: orderIndex.keyPath,
+        direction,
+        indexedFields: [],
+        residual: query,
+        orderSatisfied: true,
+        orderOnly: true,
+        multiEntry: false
+      };
+    }
+
+    return this.scanPlan(query, sort.length === 0);
+  }
+
+  /**
+   * Plan that reads every record of the store
+   */
+  scanPlan(query: QueryFilter<any>, orderSatisfied: boolean = true): QueryPlan {
+    return {
+      strategy: 'scan',
+      direction: 'next',
+      indexedFields: [],
+      residual: query,
+      orderSatisfied,
+      orderOnly: false,
+      multiEntry: false
+    };
+  }
+
+  /**
+   * An index walks records in the requested order when its keyPath lists the sort fields
+   * in the same order, every field shares one direction and no collation is requested
+   * (index keys compare strings by code unit).
+   */
+  private isOrderedBy(index: DatabaseIndex, sort: NormalizedSortField[]): boolean {
+    if (sort.length === 0) return false;
+    if (sort.some(field => field.collation !== undefined || field.direction !== sort[0]!.direction)) return false;
+
+    const fields = sort.map(field => field.field);
+    if (Array.isArray(index.keyPath)) {
+      return index.keyPath.length === fields.length && index.keyPath.every((path, i) => path === fields[i]);
+    }
+    return fields.length === 1 && index.keyPath === fields[0];
+  }
+
+  private pickCandidate(fieldRanges: Map<string, FieldRange>, indexes: DatabaseIndex[]): Candidate | undefined {
+    let best: Candidate | undefined;
+
+    for (const index of indexes) {
+      const candidate = Array.isArray(index.keyPath)
+        ? this.compoundCandidate(index, index.keyPath, fieldRanges)
+        : this.singleCandidate(index, index.keyPath, fieldRanges);
+
+      if (candidate && (!best || candidate.score > best.score)) {
+        best = candidate;
+      }
+    }
+
+    return best;
+  }
+
+  private singleCandidate(index: DatabaseIndex, keyPath: string, fieldRanges: Map<string, FieldRange>): Candidate | undefined {
+    const fieldRange = fieldRanges.get(keyPath);
+    if (!fieldRange) return undefined;
+
+    if (index.multiEntry && !fieldRange.equality && fieldRange.twoSided) {
+      // Each bound may hold for a different element of an array, as the query matches it:
+      // the index narrows by the lower one and the residual checks the whole condition
+      const bounds = getKeyTypeBounds(fieldRange.range.lower)!;
+      const range: KeyRange = {
+        lower: fieldRange.range.lower,
+        upper: bounds.upper,
+        lowerOpen: fieldRange.range.lowerOpen === true,
+        upperOpen: bounds.upperOpen
+      };
+      return { index, fields: [keyPath], range, exact: false, score: 1 };
+    }
+
+    let score = fieldRange.equality ? 3 : (fieldRange.twoSided ? 2 : 1);
+    if (fieldRange.equality && index.unique) score = 4;
+
+    return { index, fields: [keyPath], range: fieldRange.range, exact: fieldRange.exact, score };
+  }
+
+  private compoundCandidate(index: DatabaseIndex, keyPath: string[], fieldRanges: Map<string, FieldRange>): Candidate | undefined {
+    const parts = keyPath.map(path => fieldRanges.get(path));
+    if (parts.some(part => !part || !part.equality)) return undefined;
+
+    const key = parts.map(part => part!.range.lower);
+    return {
+      index,
+      fields: [...keyPath],
+      range: { lower: key, upper: key },
+      exact: parts.every(part => part!.exact),
+      score: 4 + keyPath.length
+    };
+  }
+
+  /**
+   * Extracts a key range for every top-level field (including `$and` members)
+   */
+  private collectFieldRanges(query: QueryFilter<any>): Map<string, FieldRange> {
+    const ranges = new Map<string, FieldRange>();
+
+    const visit = (filter: QueryFilter<any>) => {
+      for (const [field, condition] of Object.entries(filter)) {
+        if (condition === undefined) continue;
+        if (field === '$and' && Array.isArray(condition)) {
+          condition.forEach(visit);
+          continue;
+        }
+        if (field.startsWith('$')) continue;
+
+        // A field constrained twice keeps its first range and must be re-checked afterwards
+        const existing = ranges.get(field);
+        if (existing) {
+          existing.exact = false;
+          continue;
+        }
+
+        const fieldRange = this.toFieldRange(condition);
+        if (fieldRange) ranges.set(field, fieldRange);
+      }
+    };
+
+    visit(query);
+    return ranges;
+  }
+
+  private toFieldRange(condition: unknown): FieldRange | undefined {
+    if (!isOperatorObject(condition)) {
+      if (Array.isArray(condition) || !isValidKey(condition)) return undefined;
+      return { range: { lower: condition, upper: condition }, equality: true, twoSided: true, exact: true };
+    }
+
+    const operators = condition as Record<string, unknown>;
+    const exact = Object.keys(operators).every(operator => RANGE_OPERATORS.includes(operator));
+
+    if (operators.$eq !== undefined) {
+      if (Array.isArray(operators.$eq) || !isValidKey(operators.$eq)) return undefined;
+      // The range only expresses $eq: any other operator next to it is left to the residual
+      const alone = Object.keys(operators).length === 1;
+      return { range: { lower: operators.$eq, upper: operators.$eq }, equality: true, twoSided: true, exact: exact && alone };
+    }
+
+    const lowerValue = operators.$gt ?? operators.$gte;
+    const upperValue = operators.$lt ?? operators.$lte;
+    const reference = lowerValue ?? upperValue;
+    if (reference === undefined || Array.isArray(reference) || !isValidKey(reference)) return undefined;
+
+    const bounds = getKeyTypeBounds(reference);
+    if (!bounds) return undefined;
+    if (lowerValue !== undefined && upperValue !== undefined && !this.sameKeyType(lowerValue, upperValue)) {
+      return undefined;
+    }
+
+    const range: KeyRange = {
+      lower: lowerValue ?? bounds.lower,
+      upper: upperValue ?? bounds.upper,
+      lowerOpen: operators.$gt !== undefined,
+      upperOpen: upperValue !== undefined ? operators.$lt !== undefined : bounds.upperOpen
+    };
+
+    // Both $gt and $gte (or $lt and $lte) present: let the residual filter handle the stricter one
+    const redundant = (operators.$gt !== undefined && operators.$gte !== undefined)
+      || (operators.$lt !== undefined && operators.$lte !== undefined);
+
+    return {
+      range,
+      equality: false,
+      twoSided: lowerValue !== undefined && upperValue !== undefined,
+      exact: exact && !redundant
+    };
+  }
+
+  private sameKeyType(a: unknown, b: unknown): boolean {
+    return typeof a === typeof b && (a instanceof Date) === (b instanceof Date);
+  }
+
+  private withoutFields(query: QueryFilter<any>, fields: string[]): QueryFilter<any> {
+    const residual: Record<string, unknown> = {};
+
+    for (const [key, condition] of Object.entries(query)) {
+      if (fields.includes(key)) continue;
+      if (key === '$and' && Array.isArray(condition)) {
+        const members = condition
+          .map(member => this.withoutFields(member, fields))
+          .filter(member => Object.keys(member).length > 0);
+        if (members.length > 0) residual.$and = members;
+        continue;
+      }
+      residual[key] = condition;
+    }
+
+    return residual as QueryFilter<any>;
+  }
+}
+
+export default QueryPlanner;
@@ -0,0 +1,132 @@
+/**
+ * Sorting - Normalizes `orderBy` specs and compares records by them
+ */
+
+import type { SearchOptions, SortCollation, SortField } from '../../types/index.js';
+import { getValueByPath } from './QueryMatcher.js';
+
+/** Sort field with every default resolved */
+export interface NormalizedSortField {
+  field: string;
+  direction: 'asc' | 'desc';
+  nulls: 'first' | 'last';
+  collation?: SortCollation;
+}
+
+export type SortComparator = (a: unknown[], b: unknown[]) => number;
+
+/**
+ * Turns `orderBy` (field name, spec or array of specs) into a list of sort fields.
+ * A plain field name uses `orderDirection`. Nulls sort last in ascending order and
+ * first in descending order unless `nulls` says otherwise.
+ */
+export function normalizeSort(options: Pick<SearchOptions, 'orderBy' | 'orderDirection'> = {}): NormalizedSortField[] {
+  const { orderBy, orderDirection } = options;
+  if (orderBy === undefined) return [];
+
+  const specs: SortField[] = typeof orderBy === 'string'
+    ? [{ field: orderBy, direction: orderDirection ?? 'asc' }]
+    : (Array.isArray(orderBy) ? orderBy : [orderBy]);
+
+  return specs.map(spec => {
+    if (!spec || typeof spec.field !== 'string' || spec.field.length === 0) {
+      throw new Error('orderBy entries require a field name');
+    }
+    const direction = spec.direction ?? 'asc';
+    const normalized: NormalizedSortField = {
+      field: spec.field,
+      direction,
+      nulls: spec.nulls ?? (direction === 'asc' ? 'last' : 'first')
+    };
+    if (spec.collation !== undefined) normalized.collation = spec.collation;
+    return normalized;
+  });
+}
+
+/**
+ * Reads the sort values of a record (dot paths are supported)
+ */
+export function getSortValues(item: unknown, sort: NormalizedSortField[]): unknown[] {
+  return sort.map(field => getValueByPath(item, field.field));
+}
+
+/**
+ * Stable identifier of a sort spec, stored in pagination cursors
+ */
+export function getSortSignature(sort: NormalizedSortField[]): string | null {
+  if (sort.length === 0) return null;
+  return sort
+    .map(field => [field.field, field.direction, field.nulls, field.collation ? JSON.stringify(field.collation) : '']
+      .join(':'))
+    .join(',');
+}
+
+function typeRank(value: unknown): number {
+  if (typeof value === 'boolean') return 0;
+  if (typeof value === 'number' || typeof value === 'bigint') return 1;
+  if (value instanceof Date) return 2;
+  if (typeof value === 'string') return 3;
+  if (Array.isArray(value)) return 4;
+  return 5;
+}
+
+function compareDefined(a: unknown, b: unknown, collator?: Intl.Collator): number {
+  // Values of different types are ordered by type so mixed fields sort deterministically
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) return rankA < rankB ? -1 : 1;
+
+  if (typeof a === 'string' && collator) {
+    return Math.sign(collator.compare(a, b as string));
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+      const comparison = compareValue(a[i], b[i], 'last', collator);
+      if (comparison !== 0) return comparison;
+    }
+    return a.length === b.length ? 0 : (a.length < b.length ? -1 : 1);
+  }
+  if (rankA === 5) return 0;
+
+  const left = a instanceof Date ? a.getTime() : a as any;
+  const right = b instanceof Date ? b.getTime() : b as any;
+  if (left < right) return -1;
+  if (left > right) return 1;
+  return 0;
+}
+
+function compareValue(a: unknown, b: unknown, nulls: 'first' | 'last', collator?: Intl.Collator): number {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) {
+    if (aMissing && bMissing) return 0;
+    return (aMissing ? 1 : -1) * (nulls === 'last' ? 1 : -1);
+  }
+  return compareDefined(a, b, collator);
+}
+
+/**
+ * Builds a comparator over sort value tuples (as returned by `getSortValues`).
+ * Collators are created once per comparator.
+ */
+export function createSortComparator(sort: NormalizedSortField[]): SortComparator {
+  const collators = sort.map(field => {
+    if (!field.collation) return undefined;
+    const { locale, ...collatorOptions } = field.collation;
+    return new Intl.Collator(locale, collatorOptions);
+  });
+
+  return (a, b) => {
+    for (let i = 0; i < sort.length; i++) {
+      const field = sort[i]!;
+      const comparison = compareValue(a[i], b[i], field.nulls, collators[i]);
+      if (comparison !== 0) {
+        // Null placement is absolute; only the ordering of present values is reversed
+        const isNullComparison = a[i] === null || a[i] === undefined || b[i] === null || b[i] === undefined;
+        return isNullComparison || field.direction === 'asc' ? comparison : -comparison;
+      }
+    }
+    return 0;
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * TextAnalysis - Tokenization, normalization, edit distance and highlight ranges for text search
+ */
+
+import type { FullTextIndexOptions, TextMatch } from '../../types/index.js';
+import { getValueByPath } from './QueryMatcher.js';
+
+/** Score multiplier for words matched only as a prefix */
+export const PREFIX_WEIGHT = 0.5;
+
+/** A normalized term and the `[start, end)` range it came from in the original text */
+export interface TextToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export type AnalyzerOptions = Omit<FullTextIndexOptions, 'fields' | 'bm25'>;
+
+/**
+ * Applies diacritic folding, lowercasing, tokenization, minimum length and stop words,
+ * the same way to indexed text and to queries.
+ */
+export class TextAnalyzer {
+  private lowercase: boolean;
+  private foldDiacritics: boolean;
+  private minLength: number;
+  private tokenizer: NonNullable<FullTextIndexOptions['tokenizer']>;
+  private stopWords: Set<string>;
+
+  constructor(options: AnalyzerOptions = {}) {
+    this.lowercase = options.lowercase ?? true;
+    this.foldDiacritics = options.foldDiacritics ?? true;
+    this.minLength = options.minTokenLength ?? 1;
+    this.tokenizer = options.tokenizer ?? 'word';
+    this.stopWords = new Set((options.stopWords ?? []).map(word => this.normalize(word)));
+  }
+
+  normalize(text: string): string {
+    let normalized = this.foldDiacritics ? text.normalize('NFD').replace(/\p{M}+/gu, '') : text;
+    if (this.lowercase) normalized = normalized.toLowerCase();
+    return normalized;
+  }
+
+  analyze(text: string): string[] {
+    if (typeof this.tokenizer === 'function') {
+      return this.tokenizer(this.normalize(text))
+        .map(token => this.normalize(token))
+        .filter(token => this.keep(token));
+    }
+    return this.tokens(text).map(token => token.term);
+  }
+
+  /**
+   * Tokens with their offsets in `text`. Custom tokenizer functions may rewrite tokens,
+   * so only the ones found verbatim in the normalized text get a position.
+   */
+  tokens(text: string): TextToken[] {
+    // Normalize character by character to map normalized offsets back to the original
+    let normalized = '';
+    const origins: number[] = [];
+    let offset = 0;
+    for (const char of text) {
+      const piece = this.normalize(char);
+      for (let i = 0; i < piece.length; i++) origins.push(offset);
+      normalized += piece;
+      offset += char.length;
+    }
+    origins.push(text.length);
+
+    const tokens: TextToken[] = [];
+    for (const [start, end] of this.spans(normalized)) {
+      const term = normalized.slice(start, end);
+      if (!this.keep(term)) continue;
+      const last = origins[end - 1]!;
+      tokens.push({ term, start: origins[start]!, end: last + (text.codePointAt(last)! > 0xffff ? 2 : 1) });
+    }
+    return tokens;
+  }
+
+  private spans(text: string): Array<[number, number]> {
+    const spans: Array<[number, number]> = [];
+
+    if (typeof this.tokenizer === 'function') {
+      let from = 0;
+      for (const token of this.tokenizer(text)) {
+        const start = text.indexOf(token, from);
+        if (token.length === 0 || start === -1) continue;
+        spans.push([start, start + token.length]);
+        from = start + token.length;
+      }
+      return spans;
+    }
+
+    if (this.tokenizer === 'word' || this.tokenizer === 'whitespace') {
+      const pattern = this.tokenizer === 'word' ? /[\p{L}\p{N}]+/gu : /\S+/gu;
+      for (const match of text.matchAll(pattern)) {
+        spans.push([match.index!, match.index! + match[0].length]);
+      }
+      return spans;
+    }
+
+    // A RegExp tokenizer describes the separators
+    const separator = new RegExp(this.tokenizer.source, this.tokenizer.flags.includes('g') ? this.tokenizer.flags : `${this.tokenizer.flags}g`);
+    let start = 0;
+    for (const match of text.matchAll(separator)) {
+      if (match[0].length === 0) continue;
+      if (match.index! > start) spans.push([start, match.index!]);
+      start = match.index! + match[0].length;
+    }
+    if (start < text.length) spans.push([start, text.length]);
+    return spans;
+  }
+
+  private keep(token: string): boolean {
+    return token.length >= this.minLength && !this.stopWords.has(token);
+  }
+}
+
+/**
+ * Levenshtein distance between `a` and `b`, or `max + 1` as soon as it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  if (a === b) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+    if (rowMinimum > max) return max + 1;
+    previous = current;
+  }
+  return Math.min(previous[b.length]!, max + 1);
+}
+
+/**
+ * Maximum edit distance allowed for a query term: the configured one, or by default
+ * none up to 3 characters, 1 up to 6 and 2 beyond.
+ */
+export function getMaxDistance(term: string, fuzzy: boolean | { maxDistance?: number } | undefined): number {
+  if (!fuzzy) return 0;
+  if (typeof fuzzy === 'object' && fuzzy.maxDistance !== undefined) return fuzzy.maxDistance;
+  return term.length <= 3 ? 0 : (term.length <= 6 ? 1 : 2);
+}
+
+/**
+ * Searchable text of a field: a string or number value, or those found in an array
+ */
+export function getTextValues(item: unknown, field: string): string[] {
+  const value = field === '' ? item : getValueByPath(item, field);
+  if (typeof value === 'string') return [value];
+  if (typeof value === 'number') return [String(value)];
+  if (Array.isArray(value)) return value.flatMap(member => getTextValues(member, ''));
+  return [];
+}
+
+/**
+ * Highlight ranges of the tokens of `fields` accepted by `isMatch`, one entry per text value
+ */
+export function highlightTokens(
+  item: unknown,
+  fields: string[],
+  analyzer: TextAnalyzer,
+  isMatch: (term: string) => boolean
+): TextMatch[] {
+  const matches: TextMatch[] = [];
+  for (const field of fields) {
+    for (const value of getTextValues(item, field)) {
+      const ranges = analyzer.tokens(value)
+        .filter(token => isMatch(token.term))
+        .map(token => [token.start, token.end] as [number, number]);
+      if (ranges.length > 0) matches.push({ field, value, ranges });
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,299 @@
+/**
+ * Migrations - Runs the versioned migrations of a schema while the database upgrades
+ */
+
+import type {
+  DatabaseIndex,
+  DatabaseItem,
+  DatabaseSchema,
+  Migration,
+  MigrationContext,
+  MigrationRecordResult,
+  MigrationStoreOptions,
+  SchemaChange
+} from '../../types/index.js';
+import type { StorageAdapter } from '../../adapters/types.js';
+import { StoreNotFoundError, ValidationError } from '../errors.js';
+import { getKeyPathValue, isValidKey } from '../../utils/keys.js';
+
+type RecordCallback = (record: DatabaseItem) => MigrationRecordResult | Promise<MigrationRecordResult>;
+
+/**
+ * Storage the migration context works on: an adapter database or an IndexedDB
+ * `versionchange` transaction. Creating an existing index does nothing.
+ */
+export interface MigrationTarget {
+  hasStore(name: string): boolean;
+  createStore(name: string, options: MigrationStoreOptions): void;
+  deleteStore(name: string): void;
+  createIndex(storeName: string, index: DatabaseIndex): void;
+  deleteIndex(storeName: string, indexName: string): void;
+  putRecord(storeName: string, record: DatabaseItem): Promise<void>;
+  forEachRecord(storeName: string, callback: RecordCallback): Promise<void>;
+}
+
+export interface PendingMigration {
+  version: number;
+  migrate: Migration;
+}
+
+/**
+ * Migrations to run when going from `oldVersion` to `newVersion`, in version order.
+ * A new database (`oldVersion` 0) runs none: it is created from the declared stores.
+ */
+export function getPendingMigrations(
+  schema: DatabaseSchema | null,
+  oldVersion: number,
+  newVersion: number
+): PendingMigration[] {
+  if (!schema?.migrations || oldVersion === 0) return [];
+
+  return Object.entries(schema.migrations)
+    .map(([version, migrate]) => ({ version: Number(version), migrate }))
+    .filter(({ version }) => Number.isInteger(version) && version > oldVersion && version <= newVersion)
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Runs each migration after the previous one has finished
+ */
+export async function runMigrations(
+  migrations: PendingMigration[],
+  target: MigrationTarget,
+  oldVersion: number,
+  newVersion: number
+): Promise<void> {
+  for (const { version, migrate } of migrations) {
+    await migrate(createMigrationContext(target, oldVersion, version, newVersion));
+  }
+}
+
+/**
+ * Creates the store if it is missing and adds the indexes it does not have yet
+ */
+export function ensureStore(
+  target: MigrationTarget,
+  name: string,
+  options: MigrationStoreOptions,
+  onIndexError?: (index: DatabaseIndex, error: unknown) => void
+): void {
+  if (!target.hasStore(name)) {
+    target.createStore(name, options);
+  }
+  (options.indexes || []).forEach(index => {
+    try {
+      target.createIndex(name, index);
+    } catch (error) {
+      if (!onIndexError) throw error;
+      onIndexError(index, error);
+    }
+  });
+}
+
+/**
+ * Migration that applies the changes computed by `SchemaManager.diff` towards `schema`.
+ * A keyPath change recreates the store, and fails before touching it if a record has no new key.
+ */
+export function migrationFromChanges(changes: SchemaChange[], schema: DatabaseSchema): Migration {
+  const storeOptions = (storeName: string): MigrationStoreOptions => {
+    const store = schema.stores.find(candidate => candidate.name === storeName);
+    return {
+      keyPath: store?.keyPath || 'id',
+      autoIncrement: store?.autoIncrement || false,
+      indexes: store?.indexes || []
+    };
+  };
+
+  return async ctx => {
+    for (const change of changes) {
+      switch (change.type) {
+        case 'addStore':
+          await ctx.createStore(change.store, storeOptions(change.store));
+          break;
+        case 'removeStore':
+          await ctx.deleteStore(change.store);
+          break;
+        case 'changeKeyPath': {
+          const options = storeOptions(change.store);
+          const keyless: string[] = [];
+          await ctx.forEachRecord(change.store, record => {
+            if (!options.autoIncrement && !isValidKey(getKeyPathValue(record, change.to))) {
+              keyless.push(String(getKeyPathValue(record, change.from)));
+            }
+          });
+          if (keyless.length > 0) {
+            throw new ValidationError(
+              `Cannot change the keyPath of '${change.store}' to ${JSON.stringify(change.to)}: ` +
+              `records ${keyless.join(', ')} have no valid key there`
+            );
+          }
+
+          const temporary = `${change.store}__migration`;
+          await ctx.createStore(temporary, { keyPath: change.from, autoIncrement: change.fromAutoIncrement });
+          await ctx.forEachRecord(change.store, record => ctx.putRecord(temporary, record));
+          await ctx.deleteStore(change.store);
+          await ctx.createStore(change.store, options);
+          await ctx.forEachRecord(temporary, record => ctx.putRecord(change.store, record));
+          await ctx.deleteStore(temporary);
+          break;
+        }
+        case 'addIndex':
+          await ctx.createIndex(change.store, change.index);
+          break;
+        case 'removeIndex':
+          await ctx.deleteIndex(change.store, change.index.name);
+          break;
+        case 'changeUnique':
+          await ctx.deleteIndex(change.store, change.index.name);
+          await ctx.createIndex(change.store, change.index);
+          break;
+      }
+    }
+  };
+}
+
+function createMigrationContext(
+  target: MigrationTarget,
+  oldVersion: number,
+  version: number,
+  newVersion: number
+): MigrationContext {
+  const requireStore = (storeName: string): void => {
+    if (!target.hasStore(storeName)) throw new StoreNotFoundError(storeName);
+  };
+
+  const forEachRecord = async (storeName: string, callback: RecordCallback): Promise<void> => {
+    requireStore(storeName);
+    await target.forEachRecord(storeName, callback);
+  };
+
+  return {
+    oldVersion,
+    version,
+    newVersion,
+    createStore: async (name, options = {}) => {
+      ensureStore(target, name, options);
+    },
+    deleteStore: async name => {
+      target.deleteStore(name);
+    },
+    createIndex: async (storeName, index) => {
+      requireStore(storeName);
+      target.createIndex(storeName, index);
+    },
+    deleteIndex: async (storeName, indexName) => {
+      requireStore(storeName);
+      target.deleteIndex(storeName, indexName);
+    },
+    putRecord: async (storeName, record) => {
+      requireStore(storeName);
+      await target.putRecord(storeName, record);
+    },
+    renameField: (storeName, from, to) => forEachRecord(storeName, record => {
+      if (!(from in record)) return;
+      record[to] = record[from];
+      delete record[from];
+    }),
+    forEachRecord
+  };
+}
+
+/**
+ * Migration target over a database opened by a StorageAdapter (Memory, Node)
+ */
+export function adapterMigrationTarget(adapter: StorageAdapter, db: any): MigrationTarget {
+  return {
+    hasStore: name => adapter.getObjectStoreNames(db).includes(name),
+    createStore: (name, options) => {
+      adapter.createObjectStore(db, name, {
+        keyPath: options.keyPath || 'id',
+        autoIncrement: options.autoIncrement || false
+      });
+    },
+    deleteStore: name => adapter.deleteObjectStore(db, name),
+    createIndex: (storeName, index) => {
+      adapter.createIndex(db, storeName, index.name, index.keyPath, {
+        unique: index.unique,
+        multiEntry: index.multiEntry || false
+      });
+    },
+    deleteIndex: (storeName, indexName) => adapter.deleteIndex(db, storeName, indexName),
+    putRecord: async (storeName, record) => {
+      await adapter.put({ db, storeName }, record);
+    },
+    forEachRecord: async (storeName, callback) => {
+      const storeInfo = { db, storeName };
+      const records: Array<[any, DatabaseItem]> = [];
+      await adapter.iterate(storeInfo, (value: DatabaseItem, position: { primaryKey: any }) => {
+        records.push([position.primaryKey, value]);
+      });
+
+      for (const [key, value] of records) {
+        // The callback may change the record in place; the stored one must stay intact until put
+        const record = structuredClone(value);
+        const result = await callback(record);
+        if (result === null) {
+          await adapter.delete(storeInfo, key);
+        } else {
+          await adapter.put(storeInfo, result ?? record);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Migration target over the `versionchange` transaction of an IndexedDB upgrade
+ */
+export function indexedDBMigrationTarget(db: IDBDatabase, transaction: IDBTransaction): MigrationTarget {
+  return {
+    hasStore: name => db.objectStoreNames.contains(name),
+    createStore: (name, options) => {
+      db.createObjectStore(name, {
+        keyPath: options.keyPath || 'id',
+        autoIncrement: options.autoIncrement || false
+      });
+    },
+    deleteStore: name => {
+      if (db.objectStoreNames.contains(name)) db.deleteObjectStore(name);
+    },
+    createIndex: (storeName, index) => {
+      const store = transaction.objectStore(storeName);
+      if (!store.indexNames.contains(index.name)) {
+        store.createIndex(index.name, index.keyPath, {
+          unique: index.unique,
+          multiEntry: index.multiEntry || false
+        });
+      }
+    },
+    deleteIndex: (storeName, indexName) => {
+      const store = transaction.objectStore(storeName);
+      if (store.indexNames.contains(indexName)) store.deleteIndex(indexName);
+    },
+    putRecord: (storeName, record) => new Promise<void>((resolve, reject) => {
+      const request = transaction.objectStore(storeName).put(record);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    }),
+    forEachRecord: (storeName, callback) => new Promise<void>((resolve, reject) => {
+      const request = transaction.objectStore(storeName).openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = async () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        try {
+          const record = cursor.value as DatabaseItem;
+          const result = await callback(record);
+          const write = result === null ? cursor.delete() : cursor.update(result ?? record);
+          write.onerror = () => reject(write.error);
+          cursor.continue();
+        } catch (error) {
+          reject(error);
+        }
+      };
+    })
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * SchemaBuilder - Typed schema declaration: `defineSchema` with stores built by `store<T>()`
+ */
+
+import type {
+  DatabaseItem,
+  DefinedSchema,
+  SchemaDefinition,
+  StoreDefinition,
+  StoreDefinitionOptions,
+  StoreValidationSchema
+} from '../../types/index.js';
+
+/**
+ * Declares a store whose records are `T`, or the type its `validation` describes. Index names
+ * are inferred from `indexes` unless `T` is given explicitly; pass them as the second type
+ * argument then.
+ */
+export function store<
+  T extends DatabaseItem = DatabaseItem,
+  const I extends string = string,
+  const V extends StoreValidationSchema = StoreValidationSchema
+>(
+  options: StoreDefinitionOptions<T, I> & { validation?: V } = {}
+): StoreDefinition<T, I> & { validation?: V } {
+  const { indexes, ...rest } = options;
+  // The per-field typing of `fields` and `computed` only checks the options
+  const definition = { ...rest } as StoreDefinition<T, I> & { validation?: V };
+  if (indexes) {
+    definition.indexes = indexes.map(index => ({ ...index, unique: index.unique ?? false }));
+  }
+  return definition;
+}
+
+/**
+ * Builds a `DatabaseSchema` from stores declared by name. `IndexedDBManager.initializeWithSchema`
+ * infers the store names, record types and index names of the result.
+ */
+export function defineSchema<const Stores extends Record<string, StoreDefinition<any, any>>>(
+  definition: SchemaDefinition<Stores>
+): DefinedSchema<Stores> {
+  const stores = Object.entries(definition.stores).map(([name, storeDefinition]) => ({ ...storeDefinition, name }));
+  return { ...definition, stores } as DefinedSchema<Stores>;
+}
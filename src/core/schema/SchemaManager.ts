@@ -1,6 +1,6 @@
 // Schema Manager - Manages database schemas
 
-import type { DatabaseSchema } from '../../types/index.js';
+import type { DatabaseIndex, DatabaseSchema, SchemaChange, StoreSchema } from '../../types/index.js';
 
 export class SchemaManager {
   private schemas: Map<string, DatabaseSchema> = new Map();
@@ -49,6 +49,81 @@ export class SchemaManager {
   removeSchema(name: string): boolean {
     return this.schemas.delete(name);
   }
+
+  /**
+   * Changes needed to go from `oldSchema` to `newSchema`, store by store in the order of
+   * the new schema, followed by the removed stores. An index whose keyPath or multiEntry
+   * changes is reported as removed and added again. A store whose keyPath or autoIncrement
+   * changes is recreated with `changeKeyPath`.
+   */
+  static diff(oldSchema: Pick<DatabaseSchema, 'stores'>, newSchema: Pick<DatabaseSchema, 'stores'>): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const oldStores = new Map(oldSchema.stores.map(store => [store.name, store]));
+    const newNames = new Set(newSchema.stores.map(store => store.name));
+
+    for (const store of newSchema.stores) {
+      const previous = oldStores.get(store.name);
+      if (!previous) {
+        changes.push({ type: 'addStore', store: store.name, destructive: false });
+        continue;
+      }
+
+      const from = previous.keyPath || 'id';
+      const to = store.keyPath || 'id';
+      const fromAutoIncrement = previous.autoIncrement || false;
+      const toAutoIncrement = store.autoIncrement || false;
+      if (JSON.stringify(from) !== JSON.stringify(to) || fromAutoIncrement !== toAutoIncrement) {
+        changes.push({
+          type: 'changeKeyPath',
+          store: store.name,
+          from,
+          to,
+          fromAutoIncrement,
+          toAutoIncrement,
+          destructive: true
+        });
+      }
+      changes.push(...SchemaManager.diffIndexes(store.name, previous, store));
+    }
+
+    for (const store of oldSchema.stores) {
+      if (!newNames.has(store.name)) {
+        changes.push({ type: 'removeStore', store: store.name, destructive: true });
+      }
+    }
+    return changes;
+  }
+
+  private static diffIndexes(storeName: string, previous: StoreSchema, store: StoreSchema): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const oldIndexes = new Map((previous.indexes || []).map(index => [index.name, index]));
+    const sameKey = (a: DatabaseIndex, b: DatabaseIndex) =>
+      JSON.stringify(a.keyPath) === JSON.stringify(b.keyPath) && !!a.multiEntry === !!b.multiEntry;
+
+    for (const index of previous.indexes || []) {
+      const next = store.indexes?.find(candidate => candidate.name === index.name);
+      if (!next || !sameKey(index, next)) {
+        changes.push({ type: 'removeIndex', store: storeName, index, destructive: false });
+      }
+    }
+
+    for (const index of store.indexes || []) {
+      const old = oldIndexes.get(index.name);
+      if (!old || !sameKey(old, index)) {
+        changes.push({ type: 'addIndex', store: storeName, index, destructive: false });
+      } else if (!!old.unique !== !!index.unique) {
+        changes.push({
+          type: 'changeUnique',
+          store: storeName,
+          index,
+          from: !!old.unique,
+          to: !!index.unique,
+          destructive: false
+        });
+      }
+    }
+    return changes;
+  }
 }
 
 export default SchemaManager;
@@ -2,6 +2,7 @@
 export type {
   DatabaseConfig,
   DatabaseItem,
+  DatabaseKey,
   IndexedDBManagerOptions,
   EventCallback,
   EventMap,
@@ -11,11 +12,78 @@ export type {
   TransactionMode,
   DatabaseSchema,
   StoreSchema,
-  TypeValidationSchema
+  FieldSchema,
+  ComputedField,
+  TimestampOptions,
+  IdStrategy,
+  IdGenerator,
+  Migration,
+  MigrationContext,
+  MigrationRecordResult,
+  MigrationStoreOptions,
+  SchemaChange,
+  ApplySchemaOptions,
+  SchemaUpgradeResult,
+  TypeValidationSchema,
+  StoreValidationSchema,
+  JSONSchema,
+  JSONSchemaObject,
+  JSONSchemaType,
+  StandardSchemaV1,
+  StandardSchemaProps,
+  StandardSchemaResult,
+  StandardSchemaIssue,
+  InferJSONSchema,
+  InferStoreRecord,
+  InferSchemaStores,
+  InferStoreIndexes,
+  InferSchemaIndexes,
+  StoreIndexDefinition,
+  StoreDefinitionOptions,
+  StoreDefinition,
+  SchemaDefinition,
+  DefinedSchema,
+  FilterCriteria,
+  QueryFilter,
+  QueryOperators,
+  QueryCondition,
+  SearchOptions,
+  SearchResult,
+  Projection,
+  GetAllOptions,
+  SortField,
+  SortCollation,
+  QueryExplanation,
+  AggregateStage,
+  AggregateExpression,
+  AggregateAccumulator,
+  AggregateGroupSpec,
+  AggregateSortSpec,
+  AggregateProjection,
+  FullTextIndexOptions,
+  SearchTextOptions,
+  TextSearchHit,
+  TextMatch,
+  FieldPath,
+  PathValue,
+  QueryField,
+  QueryFieldValue,
+  ModifyChanges,
+  UpdateOptions,
+  UpdateManyOptions,
+  BatchMode,
+  BatchOptions,
+  BatchResult,
+  BatchItemSuccess,
+  BatchItemFailure,
+  ErrorHandlingOptions,
+  LiveQueryObserver,
+  LiveQuerySubscription
 } from './types/index.js';
 
 // Exportar clase principal
 export { IndexedDBManager,StoreProxy,SchemaManager } from './core/IndexedDBManager.js';
+export { defineSchema, store } from './core/schema/SchemaBuilder.js';
 // Exportar utilidades
 export {
   normalizeId,
@@ -40,6 +108,35 @@ export {
   restoreFromBackup
 } from './utils/database.js';
 
+// Exportar evaluación de consultas
+export { matchesQuery, getValueByPath } from './core/query/QueryMatcher.js';
+export { QueryBuilder, WhereClause } from './core/query/QueryBuilder.js';
+export { LiveQuery } from './core/query/LiveQuery.js';
+
+// Exportar validación con JSON Schema
+export { validateJSONSchema } from './core/database/JSONSchema.js';
+export type { JSONSchemaIssue } from './core/database/JSONSchema.js';
+
+// Exportar generadores de IDs
+export { uuidv4, uuidv7, ulid, nanoid } from './core/database/Ids.js';
+
+// Exportar transacciones multi-store
+export { Transaction, TransactionStore } from './core/database/Transaction.js';
+
+// Exportar errores
+export {
+  DatabaseError,
+  StoreNotFoundError,
+  NotFoundError,
+  ConstraintError,
+  ValidationError,
+  VersionError,
+  QuotaExceededError,
+  TransactionAbortedError,
+  ConflictError
+} from './core/errors.js';
+export type { DatabaseErrorCode, DatabaseErrorOptions } from './core/errors.js';
+
 // Exportar emisor de eventos
 export { Emitter } from './core/Emitter.js';
 
@@ -1,4 +1,4 @@
-import type { StorageAdapter } from '../adapters/types.js';
+import type { StorageAdapter, KeyRange } from '../adapters/types.js';
 /**
  * Configuración de la base de datos IndexedDB
  */
@@ -21,6 +21,8 @@ export interface DatabaseIndex {
   keyPath: string | string[];
   /** Si el índice debe ser único */
   unique: boolean;
+  /** Indexar cada elemento de un campo array por separado */
+  multiEntry?: boolean;
 }
 
 /**
@@ -28,6 +30,12 @@ export interface DatabaseIndex {
  */
 export type DatabaseItemId = string | number;
 
+/**
+ * Clave primaria de un registro: un ID, o un array con un valor por ruta si el store
+ * declara un keyPath compuesto
+ */
+export type DatabaseKey = DatabaseItemId | DatabaseItemId[];
+
 /**
  * Tipos de datos soportados en propiedades de elementos
  */
@@ -81,20 +89,351 @@ export interface TypeValidationSchema<T extends Record<string, DatabaseItemValue
   validators?: {
     [K in keyof T]?: (value: T[K]) => boolean | string;
   };
-  /** Campos que deben ser únicos */
+  /**
+   * Campos que deben ser únicos. Si el store declara un índice sobre el campo, se
+   * comprueban consultándolo; si no, leyendo todos los registros en cada escritura.
+   */
   uniqueFields?: (keyof T)[];
   /** Campos indexados para búsquedas */
   indexedFields?: (keyof T)[];
 }
 
+/**
+ * Tipos primitivos de JSON Schema
+ */
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Documento de JSON Schema (draft 2020-12). `true` acepta cualquier valor y `false` ninguno.
+ */
+export type JSONSchema = boolean | JSONSchemaObject;
+
+/**
+ * Palabras clave de JSON Schema 2020-12 que se comprueban al validar. `format`, `title`,
+ * `description`, `default` y `examples` son solo anotaciones.
+ */
+export interface JSONSchemaObject {
+  $schema?: string;
+  $id?: string;
+  /** Referencia local: `#`, `#/$defs/nombre` o cualquier puntero JSON del documento */
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  definitions?: Record<string, JSONSchema>;
+
+  type?: JSONSchemaType | readonly JSONSchemaType[];
+  enum?: readonly unknown[];
+  const?: unknown;
+
+  properties?: Record<string, JSONSchema>;
+  required?: readonly string[];
+  additionalProperties?: JSONSchema;
+  patternProperties?: Record<string, JSONSchema>;
+  propertyNames?: JSONSchema;
+  minProperties?: number;
+  maxProperties?: number;
+  dependentRequired?: Record<string, readonly string[]>;
+  dependentSchemas?: Record<string, JSONSchema>;
+
+  items?: JSONSchema;
+  prefixItems?: readonly JSONSchema[];
+  contains?: JSONSchema;
+  minContains?: number;
+  maxContains?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+
+  allOf?: readonly JSONSchema[];
+  anyOf?: readonly JSONSchema[];
+  oneOf?: readonly JSONSchema[];
+  not?: JSONSchema;
+  if?: JSONSchema;
+  then?: JSONSchema;
+  else?: JSONSchema;
+
+  title?: string;
+  description?: string;
+  default?: unknown;
+  examples?: readonly unknown[];
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  deprecated?: boolean;
+}
+
+/**
+ * Validador que implementa la interfaz Standard Schema v1 (Zod, Valibot, ArkType...)
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaProps<Input, Output>;
+}
+
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+  /** Solo para inferir tipos, no existe en tiempo de ejecución */
+  readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  /** Ruta del valor con el problema; vacía o ausente si es el registro completo */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+/**
+ * Validación de un store: un `TypeValidationSchema`, un documento de JSON Schema o un
+ * validador Standard Schema
+ */
+export type StoreValidationSchema = TypeValidationSchema<any> | JSONSchemaObject | StandardSchemaV1;
+
+/**
+ * Tipo de los valores que acepta un JSON Schema declarado `as const`
+ */
+export type InferJSONSchema<S> =
+  S extends true ? unknown :
+  S extends false ? never :
+  S extends { const: infer C } ? C :
+  S extends { enum: readonly (infer E)[] } ? E :
+  S extends { anyOf: readonly (infer A)[] } ? InferJSONSchema<A> :
+  S extends { oneOf: readonly (infer A)[] } ? InferJSONSchema<A> :
+  S extends { type: readonly (infer T)[] } ? InferJSONSchemaTypes<S, T> :
+  S extends { type: 'string' } ? string :
+  S extends { type: 'number' | 'integer' } ? number :
+  S extends { type: 'boolean' } ? boolean :
+  S extends { type: 'null' } ? null :
+  S extends { type: 'array' } ? (S extends { items: infer I } ? InferJSONSchema<I>[] : unknown[]) :
+  S extends { type: 'object' } | { properties: object } ? InferJSONSchemaObject<S> :
+  unknown;
+
+type InferJSONSchemaObject<S> = S extends { properties: infer P }
+  ? Flatten<
+      { -readonly [K in keyof P as K extends RequiredJSONSchemaKeys<S> ? K : never]: InferJSONSchema<P[K]> } &
+      { -readonly [K in keyof P as K extends RequiredJSONSchemaKeys<S> ? never : K]?: InferJSONSchema<P[K]> }
+    >
+  : Record<string, unknown>;
+
+type InferJSONSchemaTypes<S, T> = T extends JSONSchemaType ? InferJSONSchema<Omit<S, 'type'> & { type: T }> : never;
+
+type RequiredJSONSchemaKeys<S> = S extends { required: readonly (infer R)[] } ? R : never;
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Tipo de los registros de un store: el declarado con `store<T>()` o, si no hay, el que
+ * describe su validación
+ */
+export type InferStoreRecord<S extends StoreSchema> =
+  S extends { readonly types?: { readonly record: infer R } }
+    ? DatabaseItem extends R ? InferValidationRecord<S> : R
+    : InferValidationRecord<S>;
+
+type InferValidationRecord<S extends StoreSchema> =
+  S extends { validation?: infer V } ? InferValidatorRecord<NonNullable<V>> : DatabaseItem;
+
+type InferValidatorRecord<V> =
+  [V] extends [StandardSchemaV1<any, infer Output>] ? DatabaseItem & Output :
+  [V] extends [TypeValidationSchema<infer T>] ? DatabaseItem & T :
+  [V] extends [JSONSchemaObject] ? DatabaseItem & InferJSONSchema<V> :
+  DatabaseItem;
+
+/**
+ * Nombres de los índices de un store; `string` si el esquema no los declara literalmente
+ */
+export type InferStoreIndexes<S extends StoreSchema> =
+  S extends { readonly types?: { readonly indexes: infer I } }
+    ? unknown extends I ? DeclaredIndexNames<S> : I
+    : DeclaredIndexNames<S>;
+
+type DeclaredIndexNames<S extends StoreSchema> =
+  string extends S['name'] ? string :
+  S extends { indexes: readonly (infer Index)[] } ? (Index extends { name: infer N extends string } ? N : never) :
+  never;
+
+/**
+ * Tipo de los registros de cada store de un esquema, por nombre de store
+ */
+export type InferSchemaStores<S extends DatabaseSchema> = {
+  [Store in S['stores'][number] as Store['name']]: InferStoreRecord<Store>;
+};
+
+/**
+ * Nombres de los índices de cada store de un esquema, por nombre de store
+ */
+export type InferSchemaIndexes<S extends DatabaseSchema> = {
+  [Store in S['stores'][number] as Store['name']]: InferStoreIndexes<Store>;
+};
+
+// Rutas de los campos que declara `T`, además de los de `DatabaseItem`; cualquier string si no declara ninguno
+type StoreField<T> = [Exclude<KnownKeys<T>, KnownKeys<DatabaseItem>>] extends [never] ? string : FieldPath<T>;
+
+/**
+ * Índice de un store declarado con `store<T>()`. El keyPath se comprueba con los campos de `T`.
+ */
+export interface StoreIndexDefinition<T = DatabaseItem, I extends string = string> {
+  name: I;
+  keyPath: StoreField<T> | StoreField<T>[];
+  /** Por defecto false */
+  unique?: boolean;
+  multiEntry?: boolean;
+}
+
+/**
+ * Opciones de `store<T>()`: las de `StoreSchema` sin el nombre, que es la clave en `stores`
+ */
+export interface StoreDefinitionOptions<T = DatabaseItem, I extends string = string>
+  extends Omit<StoreSchema, 'name' | 'keyPath' | 'indexes' | 'fields' | 'computed'> {
+  keyPath?: StoreField<T> | StoreField<T>[];
+  indexes?: readonly StoreIndexDefinition<T, I>[];
+  fields?: { [K in keyof T & string]?: FieldSchema<T[K], T> };
+  computed?: { [K in keyof T & string]?: ComputedField<T> };
+}
+
+/**
+ * Store declarado con `store<T>()`. `types` solo existe para inferir tipos.
+ */
+export interface StoreDefinition<T extends DatabaseItem = DatabaseItem, I extends string = string>
+  extends Omit<StoreSchema, 'name'> {
+  readonly types?: { readonly record: T; readonly indexes: I };
+}
+
+/**
+ * Argumento de `defineSchema`: los stores se declaran por nombre
+ */
+export interface SchemaDefinition<Stores extends Record<string, StoreDefinition<any, any>>>
+  extends Omit<DatabaseSchema, 'stores'> {
+  stores: Stores;
+}
+
+/**
+ * Esquema creado con `defineSchema`, con el nombre y los tipos de cada store
+ */
+export interface DefinedSchema<Stores extends Record<string, StoreDefinition<any, any>>> extends DatabaseSchema {
+  stores: Array<{ [K in keyof Stores & string]: Stores[K] & { name: K } }[keyof Stores & string]>;
+}
+
 /**
  * Configuración de esquemas para múltiples stores
  */
 export interface StoreSchema {
   name: string;
-  keyPath?: string;
+  /** Ruta de la clave primaria ("id" por defecto); un array declara una clave compuesta */
+  keyPath?: string | string[];
+  /** Clave numérica generada por el store; no admite un keyPath compuesto */
   autoIncrement?: boolean;
   indexes?: DatabaseIndex[];
+  /** Índice de texto completo usado por `search` / `searchText` */
+  fullText?: FullTextIndexOptions;
+  /**
+   * Control optimista de concurrencia: cada escritura incrementa la revisión del registro.
+   * `true` la guarda en `_rev`; un string indica otro campo.
+   */
+  versioned?: boolean | string;
+  /**
+   * Validación aplicada en cada escritura (`add`, `update`, operaciones por lotes).
+   * Un registro inválido se rechaza con `ValidationError`. Acepta un `TypeValidationSchema`,
+   * un documento de JSON Schema 2020-12 o un validador Standard Schema.
+   */
+  validation?: StoreValidationSchema;
+  /** Valores por defecto y transformaciones de cada campo, aplicados en cada escritura */
+  fields?: Record<string, FieldSchema>;
+  /**
+   * Campos derivados: se calculan del registro en cada escritura, después de `fields`,
+   * y sustituyen el valor recibido
+   */
+  computed?: Record<string, ComputedField>;
+  /**
+   * Mantiene `createdAt` y `updatedAt` en cada escritura. Sustituye a la opción `timestamps`
+   * del manager; `false` la desactiva en este store.
+   */
+  timestamps?: boolean | TimestampOptions;
+  /**
+   * Cómo se genera el ID de los registros nuevos que no lo traen, en `add` y `addMany`.
+   * Sin estrategia, ambos usan el número siguiente a la clave numérica más alta del store, que
+   * puede reutilizar el número de un registro borrado si era el más alto.
+   */
+  idStrategy?: IdStrategy;
+}
+
+/**
+ * Estrategias de generación de IDs. `autoIncrement` usa un contador guardado en la base de
+ * datos que nunca reutiliza valores, aunque se borren registros.
+ */
+export type IdStrategy = 'uuidv4' | 'uuidv7' | 'ulid' | 'nanoid' | 'autoIncrement' | IdGenerator;
+
+/**
+ * Generador propio de IDs: recibe el registro que se va a crear
+ */
+export type IdGenerator = (record: Partial<DatabaseItem>) => DatabaseItemId;
+
+/**
+ * Campos de fecha que se mantienen en cada escritura
+ */
+export interface TimestampOptions {
+  /** Campo con la fecha de creación, que no cambia al actualizar (por defecto 'createdAt'); `false` no lo guarda */
+  createdAt?: string | false;
+  /** Campo con la fecha de la última escritura (por defecto 'updatedAt'); `false` no lo guarda */
+  updatedAt?: string | false;
+  /** 'epoch' guarda milisegundos; 'iso' un string ISO 8601 de `createTimestamp` (por defecto 'epoch') */
+  format?: 'epoch' | 'iso';
+  /** Reloj usado para las fechas (por defecto la hora del sistema) */
+  clock?: () => Date | number;
+}
+
+/**
+ * Reglas de un campo. Se aplican antes de validar, en `add`, `update` y las operaciones por lotes.
+ */
+export interface FieldSchema<V = any, T = any> {
+  /** Valor del campo si falta (`undefined`). Una función se llama en cada escritura. */
+  default?: V | (() => V);
+  /** Convierte el valor antes de guardarlo; no se llama si el campo falta */
+  transform?: (value: V, record: T) => V;
+}
+
+/**
+ * Calcula un campo derivado a partir del registro que se va a guardar
+ */
+export type ComputedField<T = any> = (record: T) => unknown;
+
+/**
+ * Configuración del índice de texto completo (invertido) de un store.
+ * Se construye en memoria la primera vez que se usa y se actualiza en cada escritura.
+ */
+export interface FullTextIndexOptions {
+  /** Campos indexados (admite rutas con puntos; los arrays indexan cada elemento) */
+  fields: string[];
+  /** Separación en tokens: 'word' (letras y números), 'whitespace', una RegExp separadora o una función */
+  tokenizer?: 'word' | 'whitespace' | RegExp | ((text: string) => string[]);
+  /** Convertir a minúsculas (por defecto true) */
+  lowercase?: boolean;
+  /** Eliminar diacríticos: "canción" se indexa como "cancion" (por defecto true) */
+  foldDiacritics?: boolean;
+  /** Palabras que no se indexan ni se buscan */
+  stopWords?: string[];
+  /** Longitud mínima de un token (por defecto 1) */
+  minTokenLength?: number;
+  /** Parámetros de la puntuación BM25 */
+  bm25?: {
+    /** Saturación de la frecuencia del término (por defecto 1.2) */
+    k1?: number;
+    /** Normalización por longitud del campo (por defecto 0.75) */
+    b?: number;
+  };
 }
 
 /**
@@ -104,6 +443,100 @@ export interface DatabaseSchema {
   name: string;
   version: number;
   stores: StoreSchema[];
+  /**
+   * Migraciones por versión. Al abrir una base de datos existente con una versión mayor
+   * se ejecutan en orden las de `versión guardada + 1` hasta `version`; después se crean
+   * los stores e índices declarados que falten.
+   */
+  migrations?: Record<number, Migration>;
+}
+
+/**
+ * Cambio entre dos esquemas, ver `SchemaManager.diff`. Los destructivos pueden perder datos:
+ * eliminar un store o cambiar su keyPath o autoIncrement (falla sin tocar el store si algún registro no tiene la nueva clave).
+ */
+export type SchemaChange =
+  | { type: 'addStore'; store: string; destructive: false }
+  | { type: 'removeStore'; store: string; destructive: true }
+  | {
+    type: 'changeKeyPath';
+    store: string;
+    from: string | string[];
+    to: string | string[];
+    fromAutoIncrement: boolean;
+    toAutoIncrement: boolean;
+    destructive: true;
+  }
+  | { type: 'addIndex'; store: string; index: DatabaseIndex; destructive: false }
+  | { type: 'removeIndex'; store: string; index: DatabaseIndex; destructive: false }
+  | { type: 'changeUnique'; store: string; index: DatabaseIndex; from: boolean; to: boolean; destructive: false };
+
+/**
+ * Opciones de `applySchema`
+ */
+export interface ApplySchemaOptions {
+  /** Permitir cambios que pueden perder datos (por defecto false) */
+  allowDestructive?: boolean;
+}
+
+/**
+ * Resultado de `applySchema`
+ */
+export interface SchemaUpgradeResult {
+  /** Versión de la base de datos tras aplicar el esquema */
+  version: number;
+  /** Cambios aplicados (vacío si el esquema no cambió) */
+  changes: SchemaChange[];
+}
+
+/**
+ * Paso de migración hacia una versión concreta
+ */
+export type Migration = (ctx: MigrationContext) => Promise<void> | void;
+
+/**
+ * Resultado del callback de `forEachRecord`: un registro lo reemplaza, `null` lo elimina
+ * y `undefined` guarda el registro recibido (con los cambios que se le hayan hecho)
+ */
+export type MigrationRecordResult = DatabaseItem | null | undefined | void;
+
+/**
+ * Operaciones disponibles dentro de una migración. En el navegador se ejecutan en la
+ * transacción `versionchange`: no se debe esperar a nada que no sea una de estas operaciones.
+ */
+export interface MigrationContext {
+  /** Versión guardada antes de la actualización */
+  oldVersion: number;
+  /** Versión a la que lleva esta migración */
+  version: number;
+  /** Versión final de la actualización */
+  newVersion: number;
+  /** Crear un store (no hace nada si ya existe, salvo añadir los índices que falten) */
+  createStore(name: string, options?: MigrationStoreOptions): Promise<void>;
+  /** Eliminar un store con todos sus registros */
+  deleteStore(name: string): Promise<void>;
+  /** Crear un índice en un store existente */
+  createIndex(storeName: string, index: DatabaseIndex): Promise<void>;
+  /** Eliminar un índice */
+  deleteIndex(storeName: string, indexName: string): Promise<void>;
+  /** Renombrar un campo de primer nivel en todos los registros del store */
+  renameField(storeName: string, from: string, to: string): Promise<void>;
+  /** Guardar un registro, por ejemplo al copiar datos a un store nuevo para renombrarlo */
+  putRecord(storeName: string, record: DatabaseItem): Promise<void>;
+  /** Recorrer los registros del store para transformarlos o eliminarlos */
+  forEachRecord(
+    storeName: string,
+    callback: (record: DatabaseItem) => MigrationRecordResult | Promise<MigrationRecordResult>
+  ): Promise<void>;
+}
+
+/**
+ * Opciones de `MigrationContext.createStore`
+ */
+export interface MigrationStoreOptions {
+  keyPath?: string | string[];
+  autoIncrement?: boolean;
+  indexes?: DatabaseIndex[];
 }
 
 /**
@@ -140,6 +573,8 @@ export interface EmitEventData {
     timestamp: number | string;
     /** Tipo de operación */
     operation: string;
+    /** Store afectado */
+    storeName?: string;
     /** Número de registros afectados */
     recordCount?: number;
   };
@@ -185,13 +620,26 @@ export const EMIT_EVENTS: EmitEvents[] = [
 export type EventCallback<T = EmitEventData> = (data: T) => void;
 export type EventMap = Record<string, EventCallback>;
 
+/**
+ * Cómo se informan los fallos de las operaciones
+ */
+export interface ErrorHandlingOptions {
+  /**
+   * Lanzar errores tipados (`StoreNotFoundError`, `ConstraintError`...) en lugar de
+   * devolver `false`, `null` o `[]` cuando una operación falla
+   */
+  throwOnError?: boolean;
+}
+
 // Opciones del IndexedDBManager
-export interface IndexedDBManagerOptions {
+export interface IndexedDBManagerOptions extends ErrorHandlingOptions {
   storeName?: string;
   enableEvents?: boolean;
   autoInit?: boolean;
   debug?: boolean;
   adapter?: StorageAdapter;
+  /** Fechas de creación y actualización en todos los stores; cada store puede sustituirla */
+  timestamps?: boolean | TimestampOptions;
 }
 
 /**
@@ -212,13 +660,18 @@ export interface IndexedDBManagerOptionsLegacy {
 }
 
 /** Opciones para importar datos */
-export interface ImportOptions {
+export interface ImportOptions extends ErrorHandlingOptions {
   /** Limpiar la base de datos antes de importar */
   clearBefore?: boolean;
   /** Validar datos antes de importar */
   validate?: boolean;
   /** Función para transformar cada elemento antes de importar */
   transform?: (item: any) => DatabaseItem;
+  /**
+   * Validación de cada elemento, ya transformado. Los inválidos se omiten (se registran en la
+   * consola) o, con `throwOnError`, detienen la importación con `ValidationError`.
+   */
+  schema?: StoreValidationSchema;
 }
 
 /** Opciones para exportar datos */
@@ -258,6 +711,32 @@ export interface SearchResult<T = DatabaseItem> {
   page?: number;
   /** Elementos por página */
   limit?: number;
+  /** Token para pedir la página siguiente (`after`); ausente en la última página */
+  nextCursor?: string;
+  /** Token para pedir la página anterior (`before`); ausente en la primera página */
+  prevCursor?: string;
+}
+
+/**
+ * Opciones de comparación de strings para ordenar (se pasan a `Intl.Collator`)
+ */
+export interface SortCollation extends Intl.CollatorOptions {
+  /** Locale o lista de locales (por defecto el del entorno) */
+  locale?: string | string[];
+}
+
+/**
+ * Campo de ordenamiento
+ */
+export interface SortField {
+  /** Campo a ordenar (admite rutas con puntos como `address.city`) */
+  field: string;
+  /** Dirección del ordenamiento (por defecto `asc`) */
+  direction?: 'asc' | 'desc';
+  /** Posición de null/undefined (por defecto al final en `asc` y al principio en `desc`) */
+  nulls?: 'first' | 'last';
+  /** Comparación de strings sensible al idioma; sin ella se compara por code unit */
+  collation?: SortCollation;
 }
 
 /**
@@ -268,30 +747,384 @@ export interface SearchOptions {
   limit?: number;
   /** Offset para paginación */
   offset?: number;
-  /** Ordenamiento */
-  orderBy?: string;
-  /** Dirección del ordenamiento */
+  /** Ordenamiento: nombre de campo, un campo o varios campos en orden de prioridad */
+  orderBy?: string | SortField | SortField[];
+  /** Dirección del ordenamiento cuando `orderBy` es un nombre de campo */
   orderDirection?: 'asc' | 'desc';
+  /** Devuelve los registros posteriores a este token (`nextCursor` de otra página) */
+  after?: string;
+  /** Devuelve los registros anteriores a este token (`prevCursor` de otra página) */
+  before?: string;
+  /** Campos a devolver de cada registro */
+  select?: Projection;
+}
+
+/**
+ * Proyección de campos (`select`): lista de rutas a incluir, u objeto con `1` (incluir),
+ * `0` (excluir) o una función que calcula el campo a partir del registro completo.
+ * Las proyecciones de inclusión conservan siempre la clave primaria salvo que se excluya.
+ */
+export type Projection<T = DatabaseItem> =
+  | string[]
+  | Record<string, 0 | 1 | boolean | ((item: T) => unknown)>;
+
+/**
+ * Opciones para `getAll`
+ */
+export interface GetAllOptions<T = DatabaseItem> {
+  /** Campos a devolver de cada registro */
+  select?: Projection<T>;
 }
 
 /**
  * Tipos de valores para filtrado
  */
-export type FilterValue = string | number | boolean;
+export type FilterValue = string | number | boolean | null | Date;
+
+/**
+ * Operadores de comparación aplicables a un campo
+ */
+export interface QueryOperators<V = unknown> {
+  /** Igual a (igualdad estructural) */
+  $eq?: V | null;
+  /** Distinto de */
+  $ne?: V | null;
+  /** Mayor que */
+  $gt?: V;
+  /** Mayor o igual que */
+  $gte?: V;
+  /** Menor que */
+  $lt?: V;
+  /** Menor o igual que */
+  $lte?: V;
+  /** El valor está en la lista */
+  $in?: (V | RegExp | null)[];
+  /** El valor no está en la lista */
+  $nin?: (V | RegExp | null)[];
+  /** El campo existe (o no) en el registro */
+  $exists?: boolean;
+  /** Expresión regular para campos string */
+  $regex?: RegExp | string;
+  /** Flags para `$regex` cuando se pasa como string */
+  $options?: string;
+  /** Niega la condición indicada */
+  $not?: QueryOperators<V> | RegExp | V;
+}
+
+/**
+ * Condición de un campo: valor exacto, expresión regular u objeto de operadores
+ */
+export type QueryCondition<V = unknown> = V | RegExp | null | QueryOperators<V>;
+
+/**
+ * Operadores lógicos de nivel superior
+ */
+export interface QueryLogicalOperators<T = DatabaseItem> {
+  /** Todas las condiciones deben cumplirse */
+  $and?: QueryFilter<T>[];
+  /** Al menos una condición debe cumplirse */
+  $or?: QueryFilter<T>[];
+  /** La condición no debe cumplirse */
+  $not?: QueryFilter<T>;
+}
+
+/**
+ * Filtro de consulta con operadores. Las claves pueden ser campos del elemento
+ * o rutas con puntos (`address.city`) hacia campos anidados.
+ */
+export type QueryFilter<T = DatabaseItem> = {
+  [K in keyof T & string]?: QueryCondition<T[K]>;
+} & QueryLogicalOperators<T> & {
+  [path: string]: unknown;
+};
 
 /**
  * Criterios de filtrado
  */
-export interface FilterCriteria {
-  [key: string]: FilterValue;
+export type FilterCriteria<T = DatabaseItem> = QueryFilter<T>;
+
+/**
+ * Claves declaradas de un tipo, sin las firmas de índice (`[key: string]`)
+ */
+export type KnownKeys<T> = keyof {
+  [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K]
+} & string;
+
+type PathDepth = [unknown, unknown, unknown, unknown];
+
+/**
+ * Rutas con puntos de los campos declarados de `T` (hasta cuatro niveles de profundidad)
+ */
+export type FieldPath<T, Depth extends unknown[] = []> = Depth['length'] extends PathDepth['length']
+  ? never
+  : {
+      [K in KnownKeys<T>]: NonNullable<T[K]> extends readonly unknown[] | Date | RegExp | ((...args: any[]) => unknown)
+        ? K
+        : NonNullable<T[K]> extends object
+          ? K | `${K}.${FieldPath<NonNullable<T[K]>, [...Depth, unknown]>}`
+          : K
+    }[KnownKeys<T>];
+
+/**
+ * Tipo del valor en una ruta con puntos
+ */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T ? PathValue<NonNullable<T[K]>, Rest> : unknown
+  : P extends keyof T ? T[P] : unknown;
+
+/**
+ * Campos aceptados por el query builder: las rutas declaradas de `T`, o cualquier
+ * string cuando el store no declara campos propios (`DatabaseItem` sin tipar)
+ */
+export type QueryField<T> = [Exclude<KnownKeys<T>, keyof DatabaseItem>] extends [never]
+  ? string
+  : FieldPath<T>;
+
+/**
+ * Valor comparable en un campo: en los arrays también se compara cada elemento
+ */
+export type QueryFieldValue<T, P extends string> = NonNullable<PathValue<T, P>> extends readonly (infer E)[]
+  ? NonNullable<PathValue<T, P>> | E
+  : NonNullable<PathValue<T, P>>;
+
+/**
+ * Observador de una consulta en vivo
+ */
+export interface LiveQueryObserver<T = DatabaseItem> {
+  /** Recibe el resultado actual al suscribirse y cada vez que cambia */
+  next?: (items: T[]) => void;
+  /** Recibe los errores al ejecutar la consulta */
+  error?: (error: unknown) => void;
 }
 
+/**
+ * Suscripción a una consulta en vivo
+ */
+export interface LiveQuerySubscription {
+  /** Deja de recibir resultados; con el último suscriptor se liberan los listeners */
+  unsubscribe(): void;
+  readonly closed: boolean;
+}
+
+/**
+ * Cambios para `modify()`: campos a fusionar, o una función que recibe una copia del
+ * registro y la modifica o devuelve los campos a fusionar
+ */
+export type ModifyChanges<T = DatabaseItem> = Partial<T> | ((item: T) => Partial<T> | void);
+
+/**
+ * Opciones de actualización de un registro
+ */
+export interface UpdateOptions {
+  /** Revisión esperada; si la almacenada es otra se lanza `ConflictError` (stores con `versioned`) */
+  ifMatch?: number;
+}
+
+/**
+ * Opciones de actualización por lotes
+ */
+export interface UpdateManyOptions {
+  /** Revisión esperada de cada elemento, en el mismo orden; `undefined` omite la comprobación */
+  ifMatch?: (number | undefined)[];
+}
+
+/**
+ * Qué hace un lote cuando fallan algunos elementos: `atomic` no escribe ninguno,
+ * `bestEffort` escribe el resto
+ */
+export type BatchMode = 'atomic' | 'bestEffort';
+
+/**
+ * Opciones de las operaciones por lotes que devuelven resultados por elemento
+ */
+export interface BatchOptions {
+  /** Por defecto `atomic` */
+  mode?: BatchMode;
+}
+
+/** Elemento escrito por un lote */
+export interface BatchItemSuccess {
+  /** Posición del elemento en la entrada */
+  index: number;
+  id: DatabaseKey;
+}
+
+/** Elemento que un lote no escribió */
+export interface BatchItemFailure<I = unknown> {
+  /** Posición del elemento en la entrada */
+  index: number;
+  item: I;
+  error: unknown;
+}
+
+/**
+ * Resultado por elemento de una operación por lotes
+ */
+export interface BatchResult<I = unknown> {
+  succeeded: BatchItemSuccess[];
+  failed: BatchItemFailure<I>[];
+  /** Registros nuevos escritos */
+  created: number;
+  /** Registros existentes sobrescritos */
+  updated: number;
+}
+
+/**
+ * Plan de ejecución de una consulta generado por el QueryPlanner
+ */
+export interface QueryPlan {
+  /** Recorrido por índice o recorrido completo del store */
+  strategy: 'index' | 'scan';
+  /** Índice utilizado */
+  indexName?: string;
+  /** keyPath del índice utilizado */
+  keyPath?: string | string[];
+  /** Rango de claves aplicado sobre el índice */
+  range?: KeyRange;
+  /** Dirección del cursor */
+  direction: 'next' | 'prev';
+  /** Campos del filtro resueltos por el índice */
+  indexedFields: string[];
+  /** Predicados que se evalúan después de leer cada registro */
+  residual: QueryFilter<any>;
+  /** El orden del índice ya cumple `orderBy` (no hace falta ordenar en memoria) */
+  orderSatisfied: boolean;
+  /** El índice solo se usa para ordenar; puede no contener todos los registros */
+  orderOnly: boolean;
+  /** El índice es multiEntry (un registro puede aparecer varias veces) */
+  multiEntry: boolean;
+}
+
+/**
+ * Diagnóstico de una consulta ejecutada con `explain()`
+ */
+export interface QueryExplanation {
+  /** Store consultado */
+  storeName: string;
+  /** Recorrido por índice o recorrido completo del store */
+  strategy: 'index' | 'scan';
+  /** Índice utilizado */
+  indexName?: string;
+  /** keyPath del índice utilizado */
+  keyPath?: string | string[];
+  /** Rango de claves aplicado sobre el índice */
+  range?: KeyRange;
+  /** Dirección del cursor */
+  direction: 'next' | 'prev';
+  /** Campos del filtro resueltos por el índice */
+  indexedFields: string[];
+  /** Predicados evaluados sobre cada registro leído */
+  postFilter: QueryFilter<any>;
+  /** Cómo se aplica `orderBy`: por el índice, ordenando en memoria o sin orden */
+  sort: 'index' | 'memory' | 'none';
+  /** Registros que el plan prevé leer (entradas del rango o total del store) */
+  estimatedRecords: number;
+  /** Registros leídos realmente al ejecutar la consulta */
+  recordsExamined: number;
+  /** Registros que cumplen la consulta (antes de paginar) */
+  totalMatches: number;
+  /** Registros devueltos (después de paginar) */
+  recordsReturned: number;
+  /** Duración de la ejecución en milisegundos */
+  executionTime: number;
+}
+
+/**
+ * Expresión de agregación: `'$campo'` (admite rutas con puntos) lee un campo,
+ * los objetos y arrays se resuelven miembro a miembro y el resto son literales
+ */
+export type AggregateExpression =
+  | string
+  | number
+  | boolean
+  | null
+  | Date
+  | AggregateExpression[]
+  | { [key: string]: AggregateExpression };
+
+/**
+ * Acumuladores disponibles en `$group`
+ */
+export type AggregateAccumulator =
+  | { $sum: AggregateExpression }
+  | { $avg: AggregateExpression }
+  | { $min: AggregateExpression }
+  | { $max: AggregateExpression }
+  | { $count: Record<string, never> }
+  | { $first: AggregateExpression }
+  | { $last: AggregateExpression }
+  | { $push: AggregateExpression }
+  | { $addToSet: AggregateExpression };
+
+/**
+ * Especificación de `$group`: `_id` define la clave del grupo (`null` agrupa todo)
+ */
+export type AggregateGroupSpec = { _id: AggregateExpression } & {
+  [field: string]: AggregateAccumulator | AggregateExpression;
+};
+
+/**
+ * Especificación de `$sort`: `{ campo: 1 | -1 }` o la misma lista que `orderBy`
+ */
+export type AggregateSortSpec = Record<string, 1 | -1 | 'asc' | 'desc'> | SortField[];
+
+/**
+ * Especificación de `$project`: `1` conserva un campo, `0` lo elimina y una expresión lo calcula
+ */
+export type AggregateProjection = Record<string, 0 | 1 | boolean | AggregateExpression>;
+
+/**
+ * Etapa de un pipeline de `aggregate()`
+ */
+export type AggregateStage<T = DatabaseItem> =
+  | { $match: QueryFilter<T> }
+  | { $group: AggregateGroupSpec }
+  | { $sort: AggregateSortSpec }
+  | { $limit: number }
+  | { $project: AggregateProjection };
+
 /**
  * Opciones para búsqueda de texto
  */
 export interface SearchTextOptions {
   /** Campos específicos para buscar */
   fields?: string[];
+  /** Peso de cada campo en la puntuación (por defecto 1) */
+  weights?: Record<string, number>;
+  /**
+   * Tolerancia a errores tipográficos por distancia de edición. Con `true` la distancia
+   * depende de la longitud de cada palabra (0 hasta 3 letras, 1 hasta 6, 2 a partir de 7)
+   */
+  fuzzy?: boolean | { maxDistance?: number };
+  /** Coincidir también con términos que empiezan por cada palabra buscada */
+  prefix?: boolean;
+  /** 'or' (por defecto): basta con un término; 'and': deben aparecer todos */
+  operator?: 'and' | 'or';
+  /** Número máximo de resultados */
+  limit?: number;
+}
+
+/**
+ * Resultado de una búsqueda de texto completo, ordenado por relevancia
+ */
+export interface TextSearchHit<T = DatabaseItem> {
+  item: T;
+  /** Puntuación de relevancia (mayor es más relevante) */
+  score: number;
+  /** Fragmentos que coincidieron, para resaltarlos */
+  matches: TextMatch[];
+}
+
+/**
+ * Coincidencias dentro de un valor de texto de un campo
+ */
+export interface TextMatch {
+  /** Campo (ruta) donde se encontró la coincidencia */
+  field: string;
+  /** Texto al que se refieren los rangos (el valor del campo o un elemento del array) */
+  value: string;
+  /** Rangos `[inicio, fin)` de cada coincidencia dentro de `value` */
+  ranges: Array<[number, number]>;
 }
 
 /**
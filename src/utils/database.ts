@@ -1,8 +1,17 @@
-import type { DatabaseConfig, DatabaseItem, ImportOptions, ExportOptions, CreateDatabaseItem } from '../types/index.js';
+import type {
+  DatabaseConfig,
+  DatabaseItem,
+  ImportOptions,
+  ExportOptions,
+  CreateDatabaseItem,
+  ErrorHandlingOptions
+} from '../types/index.js';
 import { downloadJSON, readJSONFile } from './helpers.js';
 import type { StorageAdapter } from '../adapters/types.js';
 import { BrowserAdapter } from '../adapters/browser.js';
 import { NodeAdapter } from '../adapters/node.js';
+import { StoreNotFoundError, ValidationError, toDatabaseError } from '../core/errors.js';
+import { createRecordValidator } from '../core/database/Validation.js';
 
 // Detect environment and create default adapter
 function getDefaultAdapter(): StorageAdapter {
@@ -17,13 +26,16 @@ function getDefaultAdapter(): StorageAdapter {
 const defaultAdapter = getDefaultAdapter();
 
 /**
- * Obtiene todos los datos de una base de datos específica
+ * Obtiene todos los datos de una base de datos específica. Si falla devuelve `[]`,
+ * salvo con `throwOnError`, que lanza el error tipado.
  */
 export async function getAllDataFromDatabase(
   databaseConfig: DatabaseConfig,
-  adapter: StorageAdapter = defaultAdapter
+  adapter: StorageAdapter = defaultAdapter,
+  options: ErrorHandlingOptions = {}
 ): Promise<DatabaseItem[]> {
   if (!databaseConfig || !databaseConfig.name || !databaseConfig.version) {
+    if (options.throwOnError) throw new ValidationError('Invalid database configuration');
     console.error("Invalid database configuration:", databaseConfig);
     return [];
   }
@@ -36,6 +48,7 @@ export async function getAllDataFromDatabase(
       // Browser: check if store exists
       if (!db.objectStoreNames.contains(databaseConfig.store)) {
         adapter.close(db);
+        if (options.throwOnError) throw new StoreNotFoundError(databaseConfig.store);
         return [];
       }
     } else if (adapter instanceof NodeAdapter) {
@@ -49,6 +62,7 @@ export async function getAllDataFromDatabase(
     adapter.close(db);
     return result || [];
   } catch (error) {
+    if (options.throwOnError) throw toDatabaseError(error, databaseConfig.store);
     console.error('Error getting data from database:', error);
     return [];
   }
@@ -64,13 +78,14 @@ export async function importDataToDatabase(
   adapter: StorageAdapter = defaultAdapter
 ): Promise<boolean> {
   // Validate database configuration first
+  const { clearBefore = true, validate = true, transform, schema, throwOnError = false } = options;
+
   if (!databaseConfig || !databaseConfig.name || !databaseConfig.version || !databaseConfig.store) {
+    if (throwOnError) throw new ValidationError('Invalid database configuration');
     console.error("Invalid database configuration:", databaseConfig);
     return false;
   }
 
-  const { clearBefore = true, validate = true, transform } = options;
-
   try {
     const db = await adapter.openDatabase(databaseConfig.name, databaseConfig.version);
     
@@ -102,10 +117,14 @@ export async function importDataToDatabase(
     }
 
     // Import all data
+    const storeInfo = { db, storeName: databaseConfig.store };
+    const validateItem = createRecordValidator(databaseConfig.store, schema, () => adapter.getAll(storeInfo));
     for (const item of processedData) {
       try {
-        await adapter.put({ db, storeName: databaseConfig.store }, item);
+        await validateItem(item as DatabaseItem);
+        await adapter.put(storeInfo, item);
       } catch (error) {
+        if (throwOnError) throw error;
         console.error('Error importing item:', item, error);
       }
     }
@@ -113,6 +132,7 @@ export async function importDataToDatabase(
     adapter.close(db);
     return true;
   } catch (error) {
+    if (throwOnError) throw toDatabaseError(error, databaseConfig.store);
     console.error('Error importing data to database:', error);
     return false;
   }
@@ -176,6 +196,7 @@ export async function importDataFromFile(
     const dataArray = Array.isArray(data) ? data : [data];
     return await importDataToDatabase(databaseConfig, dataArray, options, adapter);
   } catch (error) {
+    if (options.throwOnError) throw error;
     console.error('Error importing data from file:', error);
     return false;
   }
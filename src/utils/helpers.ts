@@ -234,7 +234,12 @@ export function validateStoreSchema(storeConfig: any): storeConfig is StoreSchem
 
   // Optional: keyPath
   if (storeConfig.keyPath !== undefined && typeof storeConfig.keyPath !== 'string') {
-    return false;
+    const isCompound = Array.isArray(storeConfig.keyPath) &&
+      storeConfig.keyPath.length > 0 &&
+      storeConfig.keyPath.every((path: unknown) => typeof path === 'string');
+    if (!isCompound) {
+      return false;
+    }
   }
 
   // Optional: autoIncrement
@@ -0,0 +1,207 @@
+import type { CursorOptions, CursorPosition, KeyRange } from '../adapters/types.js';
+
+/** Smallest and largest `Date` values accepted by the JS runtime */
+const MIN_DATE = new Date(-8.64e15);
+const MAX_DATE = new Date(8.64e15);
+
+function keyTypeRank(key: unknown): number {
+  if (typeof key === 'number') return 1;
+  if (key instanceof Date) return 2;
+  if (typeof key === 'string') return 3;
+  if (key instanceof ArrayBuffer || ArrayBuffer.isView(key)) return 4;
+  if (Array.isArray(key)) return 5;
+  return 0;
+}
+
+/**
+ * Whether a value is a valid IndexedDB key
+ */
+export function isValidKey(key: unknown): boolean {
+  if (typeof key === 'number') return !Number.isNaN(key);
+  if (typeof key === 'string') return true;
+  if (key instanceof Date) return !Number.isNaN(key.getTime());
+  if (Array.isArray(key)) return key.every(isValidKey);
+  return false;
+}
+
+/**
+ * Compares two keys in IndexedDB order:
+ * number < Date < string < binary < Array
+ */
+export function compareKeys(a: unknown, b: unknown): number {
+  const rankA = keyTypeRank(a);
+  const rankB = keyTypeRank(b);
+  if (rankA !== rankB) return rankA < rankB ? -1 : 1;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+      const comparison = compareKeys(a[i], b[i]);
+      if (comparison !== 0) return comparison;
+    }
+    return a.length === b.length ? 0 : (a.length < b.length ? -1 : 1);
+  }
+
+  const left = a instanceof Date ? a.getTime() : a as any;
+  const right = b instanceof Date ? b.getTime() : b as any;
+  if (left < right) return -1;
+  if (left > right) return 1;
+  return 0;
+}
+
+/**
+ * Whether a key is inside a range
+ */
+export function isKeyInRange(key: unknown, range?: KeyRange | null): boolean {
+  if (!range) return true;
+  if (range.lower !== undefined) {
+    const comparison = compareKeys(key, range.lower);
+    if (comparison < 0 || (comparison === 0 && range.lowerOpen)) return false;
+  }
+  if (range.upper !== undefined) {
+    const comparison = compareKeys(key, range.upper);
+    if (comparison > 0 || (comparison === 0 && range.upperOpen)) return false;
+  }
+  return true;
+}
+
+/**
+ * Normalizes the `query` argument of cursors and counts: a range
+ * (`KeyRange` or `IDBKeyRange`), an exact key or nothing.
+ */
+export function toKeyRange(query: unknown): KeyRange | undefined {
+  if (query === undefined || query === null) return undefined;
+  if (typeof query === 'object' && !Array.isArray(query) && !(query instanceof Date)
+    && ('lower' in query || 'upper' in query)) {
+    return query as KeyRange;
+  }
+  return { lower: query, upper: query };
+}
+
+/**
+ * Converts a `KeyRange` into a native `IDBKeyRange`
+ */
+export function toIDBKeyRange(range?: KeyRange | null): IDBKeyRange | undefined {
+  if (!range) return undefined;
+  const { lower, upper, lowerOpen = false, upperOpen = false } = range;
+
+  if (lower !== undefined && upper !== undefined) {
+    if (compareKeys(lower, upper) === 0 && !lowerOpen && !upperOpen) {
+      return IDBKeyRange.only(lower);
+    }
+    return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+  }
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower, lowerOpen);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper, upperOpen);
+  return undefined;
+}
+
+/**
+ * Bounds that hold every key of the same type as `key`, so that an open range
+ * (`$gt: 5`) does not include keys of other types.
+ */
+export function getKeyTypeBounds(key: unknown): { lower: unknown; upper: unknown; upperOpen: boolean } | undefined {
+  if (typeof key === 'number') return { lower: -Infinity, upper: Infinity, upperOpen: false };
+  if (key instanceof Date) return { lower: MIN_DATE, upper: MAX_DATE, upperOpen: false };
+  // Binary keys sort between strings and arrays, so `[]` bounds every string
+  if (typeof key === 'string') return { lower: '', upper: [], upperOpen: true };
+  return undefined;
+}
+
+/**
+ * Value at an IndexedDB keyPath (a dotted path or an array of paths)
+ */
+export function getKeyPathValue(value: any, keyPath: string | string[]): any {
+  if (Array.isArray(keyPath)) {
+    const parts = keyPath.map(path => getKeyPathValue(value, path));
+    return parts.some(part => part === undefined) ? undefined : parts;
+  }
+
+  let current = value;
+  for (const segment of keyPath.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Copy of `value` with `key` at its keyPath, creating the missing intermediate objects.
+ * With a compound keyPath, `key` is an array with one value per path.
+ */
+export function withKeyPathValue<T>(value: T, keyPath: string | string[], key: any): T {
+  if (Array.isArray(keyPath)) {
+    return keyPath.reduce((result, path, index) => withKeyPathValue(result, path, key[index]), value);
+  }
+
+  const [segment, ...rest] = keyPath.split('.') as [string, ...string[]];
+  const target = { ...value } as Record<string, any>;
+  target[segment] = rest.length === 0 ? key : withKeyPathValue(target[segment] ?? {}, rest.join('.'), key);
+  return target as T;
+}
+
+/**
+ * Encodes a key as a stable string to use in a `Map`/`Set`
+ */
+export function encodeKey(key: unknown): string {
+  if (typeof key === 'number') return `n:${key}`;
+  if (typeof key === 'string') return `s:${key}`;
+  if (key instanceof Date) return `d:${key.getTime()}`;
+  if (Array.isArray(key)) return `a:[${key.map(encodeKey).join(',')}]`;
+  return `x:${String(key)}`;
+}
+
+/**
+ * Prepares the `query` argument for the native API: plain `KeyRange`s become
+ * `IDBKeyRange`s and the rest (keys, `IDBKeyRange`, undefined) is left as is.
+ */
+export function toIDBQuery(query: any): any {
+  if (query === null || typeof query !== 'object' || Array.isArray(query) || query instanceof Date) {
+    return query;
+  }
+  if (typeof IDBKeyRange !== 'undefined' && query instanceof IDBKeyRange) {
+    return query;
+  }
+  return 'lower' in query || 'upper' in query ? toIDBKeyRange(query) : query;
+}
+
+/**
+ * Compares two cursor positions: by key first, then by primary key
+ */
+export function compareCursorPositions(a: CursorPosition, b: CursorPosition): number {
+  return compareKeys(a.key, b.key) || compareKeys(a.primaryKey, b.primaryKey);
+}
+
+/**
+ * Whether `position` comes strictly after `after` in the cursor direction
+ */
+export function isPastPosition(
+  position: CursorPosition,
+  after: CursorPosition,
+  direction: CursorOptions['direction'] = 'next'
+): boolean {
+  const comparison = compareCursorPositions(position, after);
+  return direction.startsWith('prev') ? comparison < 0 : comparison > 0;
+}
+
+/**
+ * Moves a native `IDBCursor` towards `after` by jumping straight to its key (and to its
+ * primary key on index cursors) instead of stepping through every record.
+ * Only call it while the current position has not passed `after` yet.
+ */
+export function continueToPosition(cursor: IDBCursor, after: CursorPosition): void {
+  if (compareKeys(cursor.key, after.key) !== 0) {
+    cursor.continue(after.key);
+    return;
+  }
+
+  const isIndexCursor = typeof IDBIndex !== 'undefined' && cursor.source instanceof IDBIndex;
+  const onPosition = compareKeys(cursor.primaryKey, after.primaryKey) === 0;
+  const isUnique = cursor.direction.endsWith('unique');
+
+  if (isIndexCursor && !onPosition && !isUnique && typeof cursor.continuePrimaryKey === 'function') {
+    cursor.continuePrimaryKey(after.key, after.primaryKey);
+    return;
+  }
+  cursor.continue();
+}
@@ -219,7 +219,7 @@ describe('Multi-Store Operations Integration', () => {
       expect(activeUsers.total).toBe(2);
 
       // Buscar por email (parcial)
-      const emailSearch = await usersStore.search({ email: 'test.com' });
+      const emailSearch = await usersStore.search({ email: { $regex: 'test\\.com$' } });
       expect(emailSearch.items).toHaveLength(3);
 
       // Buscar con ordenamiento
@@ -253,7 +253,16 @@ describe('Multi-Store Operations Integration', () => {
         orderDirection: 'asc'
       });
       expect(offsetSearch.items).toHaveLength(2);
-      expect(offsetSearch.page).toBe(2);
+      expect(offsetSearch.page).toBe(1);
+
+      const secondPage = await postsStore.search({}, {
+        offset: 2,
+        limit: 2,
+        orderBy: 'publishedAt',
+        orderDirection: 'asc'
+      });
+      expect(secondPage.items).toHaveLength(1);
+      expect(secondPage.page).toBe(2);
     });
 
     it('debería filtrar datos por criterios específicos', async () => {
@@ -263,14 +272,15 @@ describe('Multi-Store Operations Integration', () => {
       // Filtrar posts por categoría
       const techPosts = await postsStore.filter({ category: 'tech' });
       expect(techPosts).toHaveLength(2);
+      const jsGuide = techPosts.find(post => post.title === 'JavaScript Guide')!;
 
       // Filtrar comentarios por post
-      const postComments = await commentsStore.filter({ postId: techPosts[0].id });
+      const postComments = await commentsStore.filter({ postId: jsGuide.id });
       expect(postComments).toHaveLength(2);
 
       // Filtrar por múltiples criterios
       const activeUserComments = await commentsStore.filter({
-        userId: techPosts[0].userId as number // Alice's comments
+        userId: jsGuide.userId as number // Alice's comments
       });
       expect(activeUserComments).toHaveLength(1);
     });
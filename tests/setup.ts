@@ -159,7 +159,9 @@ class MockIDBCursor {
     }, 0);
   }
 
-  continuePrimaryKey() {}
+  continuePrimaryKey() {
+    this.continue();
+  }
   advance() {}
 }
 
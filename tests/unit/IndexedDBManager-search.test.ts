@@ -87,7 +87,8 @@ describe('IndexedDBManager > Búsqueda y filtrado', () => {
   it('debería buscar elementos por texto', async () => {
     const results = await manager.search('apple');
     expect(results).toHaveLength(1);
-    expect(results[0].name).toBe('Apple');
+    expect(results[0].item.name).toBe('Apple');
+    expect(results[0].matches).toEqual([{ field: 'name', value: 'Apple', ranges: [[0, 5]] }]);
   });
 
   it('debería filtrar elementos por criterios', async () => {
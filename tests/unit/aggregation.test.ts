@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { GroupAccumulator, parsePipeline, projectDocument } from '../../src/core/query/Aggregation.js';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+import type { StoreProxy } from '../../src/core/IndexedDBManager.js';
+
+const orders = [
+  { id: 1, customer: 'ana', status: 'paid', total: 120, items: 3, tags: ['web', 'promo'], address: { city: 'Lima' } },
+  { id: 2, customer: 'bruno', status: 'pending', total: 80, items: 1, tags: ['app'], address: { city: 'Quito' } },
+  { id: 3, customer: 'ana', status: 'paid', total: 45, items: 2, tags: ['web'], address: { city: 'Lima' } },
+  { id: 4, customer: 'carla', status: 'paid', total: 300, items: 5, tags: [], address: { city: 'Cusco' } },
+  { id: 5, customer: 'bruno', status: 'cancelled', total: 60, items: 1, tags: ['app', 'promo'], address: { city: 'Quito' } },
+  { id: 6, customer: 'ana', status: 'pending', total: 15, items: 1, tags: ['web'], address: { city: 'Lima' } }
+];
+
+describe('Core > Aggregation', () => {
+  describe('parsePipeline()', () => {
+    it('debería rechazar etapas inválidas', () => {
+      expect(() => parsePipeline([{ $unwind: '$tags' } as any])).toThrow('Unsupported aggregation stage');
+      expect(() => parsePipeline([{ $match: {}, $limit: 1 } as any])).toThrow('exactly one operator');
+      expect(() => parsePipeline([{ $limit: -1 }])).toThrow('$limit');
+      expect(() => parsePipeline([{ $group: { total: { $sum: '$total' } } } as any])).toThrow('_id');
+      expect(() => parsePipeline([{ $group: { _id: null, total: { $median: '$total' } } } as any])).toThrow('Invalid accumulator');
+    });
+  });
+
+  describe('GroupAccumulator', () => {
+    it('debería calcular todos los acumuladores', () => {
+      const group = new GroupAccumulator({
+        _id: '$customer',
+        sum: { $sum: '$total' },
+        count: { $count: {} },
+        ones: { $sum: 1 },
+        avg: { $avg: '$total' },
+        min: { $min: '$total' },
+        max: { $max: '$total' },
+        first: { $first: '$id' },
+        last: { $last: '$id' },
+        ids: { $push: '$id' },
+        statuses: { $addToSet: '$status' }
+      });
+      orders.forEach(order => group.add(order));
+
+      expect(group.result()[0]).toEqual({
+        _id: 'ana',
+        sum: 180,
+        count: 3,
+        ones: 3,
+        avg: 60,
+        min: 15,
+        max: 120,
+        first: 1,
+        last: 6,
+        ids: [1, 3, 6],
+        statuses: ['paid', 'pending']
+      });
+    });
+
+    it('debería agrupar por claves compuestas y por null', () => {
+      const byCity = new GroupAccumulator({ _id: { city: '$address.city', status: '$status' }, n: { $count: {} } });
+      orders.forEach(order => byCity.add(order));
+      expect(byCity.result().find(doc => (doc._id as any).city === 'Lima' && (doc._id as any).status === 'paid')?.n).toBe(2);
+
+      const all = new GroupAccumulator({ _id: null, avg: { $avg: '$missing' }, max: { $max: '$missing' } });
+      orders.forEach(order => all.add(order));
+      expect(all.result()).toEqual([{ _id: null, avg: null, max: null }]);
+    });
+  });
+
+  describe('projectDocument()', () => {
+    it('debería incluir, renombrar y calcular campos', () => {
+      expect(projectDocument(orders[0]!, { customer: 1, city: '$address.city', 'meta.total': '$total' }))
+        .toEqual({ customer: 'ana', city: 'Lima', meta: { total: 120 } });
+    });
+
+    it('debería excluir campos sin modificar el original', () => {
+      const projected = projectDocument(orders[0]!, { tags: 0, 'address.city': 0 });
+      expect(projected.tags).toBeUndefined();
+      expect(projected.address).toEqual({});
+      expect(orders[0]!.address.city).toBe('Lima');
+    });
+
+    it('debería rechazar mezclar inclusión y exclusión', () => {
+      expect(() => projectDocument(orders[0]!, { customer: 1, tags: 0 })).toThrow('cannot mix');
+    });
+  });
+
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(`aggregate() y distinct() con ${adapterName}`, () => {
+      let manager: IndexedDBManager;
+      let adapter: StorageAdapter;
+      let store: StoreProxy<any>;
+      let getAllCalls: number;
+
+      beforeEach(async () => {
+        const schema: DatabaseSchema = {
+          name: `AggregationDB_${Date.now()}_${Math.random()}`,
+          version: 1,
+          stores: [{
+            name: 'orders',
+            keyPath: 'id',
+            indexes: [
+              { name: 'status', keyPath: 'status', unique: false },
+              { name: 'total', keyPath: 'total', unique: false },
+              { name: 'tags', keyPath: 'tags', unique: false, multiEntry: true }
+            ]
+          }]
+        };
+        adapter = createAdapter();
+        manager = await IndexedDBManager.initializeWithSchema(schema, { adapter });
+        store = manager.store('orders');
+        await store.addMany(orders);
+
+        getAllCalls = 0;
+        const getAll = adapter.getAll.bind(adapter);
+        adapter.getAll = (...args: Parameters<StorageAdapter['getAll']>) => {
+          getAllCalls++;
+          return getAll(...args);
+        };
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería agrupar, ordenar, limitar y proyectar', async () => {
+        const result = await store.aggregate([
+          { $match: { status: 'paid' } },
+          { $group: { _id: '$customer', revenue: { $sum: '$total' }, orders: { $count: {} } } },
+          { $sort: { revenue: -1 } },
+          { $limit: 2 },
+          { $project: { customer: '$_id', revenue: 1 } }
+        ]);
+
+        expect(result).toEqual([
+          { customer: 'carla', revenue: 300 },
+          { customer: 'ana', revenue: 165 }
+        ]);
+        expect(getAllCalls).toBe(0);
+      });
+
+      it('debería aplicar $match después de $group', async () => {
+        const result = await store.aggregate([
+          { $group: { _id: '$status', count: { $count: {} } } },
+          { $match: { count: { $gte: 2 } } },
+          { $sort: { _id: 1 } }
+        ]);
+        expect(result).toEqual([{ _id: 'paid', count: 3 }, { _id: 'pending', count: 2 }]);
+      });
+
+      it('debería resolver $sort y $limit con el índice sin leer toda la tienda', async () => {
+        let visited = 0;
+        const iterate = adapter.iterate.bind(adapter);
+        adapter.iterate = (storeInfo, callback, options) => iterate(storeInfo, (value, position) => {
+          visited++;
+          return callback(value, position);
+        }, options);
+
+        const result = await store.aggregate([
+          { $match: { total: { $gte: 50 } } },
+          { $sort: { total: -1 } },
+          { $limit: 2 },
+          { $project: { id: 1, total: 1 } }
+        ]);
+
+        expect(result).toEqual([{ id: 4, total: 300 }, { id: 1, total: 120 }]);
+        expect(visited).toBe(2);
+        expect(getAllCalls).toBe(0);
+      });
+
+      it('debería combinar varias etapas $match iniciales', async () => {
+        const result = await store.aggregate([
+          { $match: { customer: 'ana' } },
+          { $match: { total: { $lt: 100 } } },
+          { $sort: [{ field: 'id', direction: 'desc' }] }
+        ]);
+        expect(result.map(order => order.id)).toEqual([6, 3]);
+      });
+
+      it('debería devolver valores distintos', async () => {
+        expect(await store.distinct('status')).toEqual(['cancelled', 'paid', 'pending']);
+        expect(await store.distinct('customer', { status: 'paid' })).toEqual(['ana', 'carla']);
+        expect(await store.distinct('address.city')).toEqual(['Cusco', 'Lima', 'Quito']);
+        expect(await store.distinct('tags')).toEqual(['app', 'promo', 'web']);
+        expect(getAllCalls).toBe(0);
+      });
+
+      it('debería ignorar el índice de distinct cuando no contiene todos los registros', async () => {
+        await store.add({ id: 7, customer: 'diego', total: 10, items: 1, tags: [], address: {} });
+        await store.add({ id: 8, customer: 'elena', status: null, total: 10, items: 1, tags: [], address: {} });
+        expect(await store.distinct('status')).toEqual(['cancelled', 'paid', 'pending', null]);
+      });
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { BatchOperations } from '../../src/core/database/BatchOperations.js';
+import { QuotaExceededError } from '../../src/core/errors.js';
 import type { DatabaseItem, EmitEvents } from '../../src/types/index.js';
 import type { StorageAdapter } from '../../src/adapters/types.js';
 
@@ -27,7 +28,14 @@ const createMockAdapter = () => {
       const storeData = data.get(storeName) || [];
       data.set(storeName, storeData.filter((i: DatabaseItem) => i.id !== id));
       return true;
-    }
+    },
+    beginTransaction: async (db: any, storeNames: string[], mode: string) => ({
+      db,
+      storeNames,
+      mode,
+      commit: async () => {},
+      abort: async () => {}
+    })
   } as unknown as StorageAdapter;
 };
 
@@ -221,5 +229,21 @@ describe('Core > BatchOperations', () => {
 
       expect(result).toBe(true);
     });
+
+    it('debería devolver false o lanzar el error tipado según throwOnError', async () => {
+      const quotaError = Object.assign(new Error('Quota exceeded'), { name: 'QuotaExceededError' });
+      batchOpsBrowser.updateContext({
+        executeTransaction: async () => {
+          throw quotaError;
+        }
+      });
+      expect(await batchOpsBrowser.addManyToStore('testStore', [{ id: 1 }])).toBe(false);
+
+      batchOpsBrowser.updateContext({ throwOnError: true });
+      const error = await batchOpsBrowser.deleteManyFromStore('testStore', [1]).catch(error => error);
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error.code).toBe('QUOTA_EXCEEDED');
+      expect(error.cause).toBe(quotaError);
+    });
   });
 });
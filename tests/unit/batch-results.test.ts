@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { Emitter } from '../../src/core/Emitter.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import { ConflictError, ValidationError } from '../../src/core/errors.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const createSchema = (): DatabaseSchema => ({
+  name: `BatchResultsDB_${Date.now()}_${Math.random()}`,
+  version: 1,
+  stores: [
+    { name: 'products', keyPath: 'id' },
+    { name: 'docs', keyPath: 'id', versioned: true }
+  ]
+});
+
+describe('Core > Batch results', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let manager: IndexedDBManager;
+      let adapter: StorageAdapter;
+      let events: string[];
+
+      const failPutOf = (id: number) => {
+        const put = adapter.put.bind(adapter);
+        adapter.put = async (store, value, key) => {
+          if (value.id === id) throw new Error('disco lleno');
+          return put(store, value, key);
+        };
+      };
+
+      beforeEach(async () => {
+        adapter = createAdapter();
+        manager = await IndexedDBManager.initializeWithSchema(createSchema(), { adapter });
+        await manager.store('products').add({ id: 1, name: 'Mesa' });
+
+        const emitter = new Emitter();
+        manager.setEmitterInstance(emitter);
+        events = [];
+        (['add', 'update', 'delete'] as const).forEach(event => {
+          emitter.on(event, data => events.push(`${event}:${data.data && typeof data.data === 'object' ? data.data.id : data.data}`));
+        });
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería informar de cada elemento escrito', async () => {
+        const result = await manager.store('products').addManyWithResults([
+          { id: 1, name: 'Mesa roja' },
+          { id: 2, name: 'Silla' },
+          { name: 'Lámpara' }
+        ]);
+
+        expect(result.failed).toEqual([]);
+        expect(result.succeeded.map(entry => entry.index)).toEqual([0, 1, 2]);
+        expect(result.succeeded.slice(0, 2).map(entry => entry.id)).toEqual([1, 2]);
+        expect(result).toMatchObject({ created: 2, updated: 1 });
+        expect(await manager.store('products').count()).toBe(3);
+      });
+
+      it('debería no escribir nada en modo atomic si falla un elemento', async () => {
+        failPutOf(3);
+        const items = [{ id: 2, name: 'Silla' }, { id: 3, name: 'Sofá' }, { id: 4, name: 'Cama' }];
+
+        const result = await manager.store('products').addManyWithResults(items);
+
+        expect(result.succeeded).toEqual([]);
+        expect(result.failed).toHaveLength(1);
+        expect(result.failed[0]).toMatchObject({ index: 1, item: items[1] });
+        expect((result.failed[0]!.error as Error).message).toBe('disco lleno');
+        expect(result).toMatchObject({ created: 0, updated: 0 });
+        expect((await manager.store('products').getAll()).map(product => product.id)).toEqual([1]);
+        expect(events).toEqual([]);
+      });
+
+      it('debería escribir el resto en modo bestEffort', async () => {
+        failPutOf(3);
+
+        const result = await manager.store('products').addManyWithResults(
+          [{ id: 2, name: 'Silla' }, { id: 3, name: 'Sofá' }, { id: 1, name: 'Mesa roja' }],
+          { mode: 'bestEffort' }
+        );
+
+        expect(result.succeeded).toEqual([{ index: 0, id: 2 }, { index: 2, id: 1 }]);
+        expect(result.failed.map(entry => entry.index)).toEqual([1]);
+        expect(result).toMatchObject({ created: 1, updated: 1 });
+        expect((await manager.store('products').getAll()).map(product => product.id).sort()).toEqual([1, 2]);
+        expect((await manager.store('products').get(1))?.name).toBe('Mesa roja');
+        expect(events).toEqual(['add:2', 'update:1']);
+      });
+
+      it('debería reportar conflictos de revisión por elemento', async () => {
+        const docs = manager.store('docs');
+        await docs.addMany([{ id: 1, title: 'A' }, { id: 2, title: 'B' }]);
+        await docs.update({ id: 2, title: 'B2' });
+        const items = [{ id: 1, title: 'A!' }, { id: 2, title: 'B!' }];
+
+        const atomic = await docs.updateManyWithResults(items, { ifMatch: [1, 1] });
+        expect(atomic.succeeded).toEqual([]);
+        expect(atomic.failed[0]!.error).toBeInstanceOf(ConflictError);
+        expect((await docs.get(1))?.title).toBe('A');
+
+        const bestEffort = await docs.updateManyWithResults(items, { ifMatch: [1, 1], mode: 'bestEffort' });
+        expect(bestEffort.succeeded).toEqual([{ index: 0, id: 1 }]);
+        expect(bestEffort.failed).toMatchObject([{ index: 1, item: items[1] }]);
+        expect(bestEffort.updated).toBe(1);
+        expect(await docs.getMany([1, 2])).toEqual([
+          { id: 1, title: 'A!', _rev: 2 },
+          { id: 2, title: 'B2', _rev: 2 }
+        ]);
+      });
+
+      it('debería eliminar los IDs válidos e informar de los inválidos', async () => {
+        await manager.store('products').add({ id: 2, name: 'Silla' });
+
+        const result = await manager.store('products').deleteManyWithResults([1, null as any, 2], { mode: 'bestEffort' });
+
+        expect(result.succeeded).toEqual([{ index: 0, id: 1 }, { index: 2, id: 2 }]);
+        expect(result.failed[0]).toMatchObject({ index: 1, item: null });
+        expect(result.failed[0]!.error).toBeInstanceOf(ValidationError);
+        expect(await manager.store('products').count()).toBe(0);
+        expect(events).toEqual(['add:2', 'delete:1', 'delete:2']);
+      });
+
+      it('debería conservar dentro de una transacción solo los elementos correctos', async () => {
+        failPutOf(3);
+
+        await manager.transaction(['products'], 'readwrite', async tx => {
+          const result = await tx.store('products').addManyWithResults(
+            [{ id: 2, name: 'Silla' }, { id: 3, name: 'Sofá' }],
+            { mode: 'bestEffort' }
+          );
+          expect(result.failed.map(entry => entry.index)).toEqual([1]);
+        });
+
+        expect((await manager.store('products').getAll()).map(product => product.id).sort()).toEqual([1, 2]);
+      });
+    });
+  });
+});
@@ -545,6 +545,19 @@ describe('BrowserAdapter with Mock IndexedDB', () => {
         expect(collected).toHaveLength(2);
       });
       
+      it('should iterate after a keyset position', async () => {
+        await adapter.put({ db, storeName: 'users' }, createUserData('1'));
+        await adapter.put({ db, storeName: 'users' }, createUserData('2'));
+        await adapter.put({ db, storeName: 'users' }, createUserData('3'));
+        
+        const collected: any[] = [];
+        await adapter.iterate({ db, storeName: 'users' }, (value: any) => {
+          collected.push(value.id);
+        }, { after: { key: '1', primaryKey: '1' } });
+        
+        expect(collected).toEqual(['2', '3']);
+      });
+      
       it('should iterate with index', async () => {
         adapter.createIndex(db, 'users', 'name', 'name');
         
@@ -769,6 +782,35 @@ describe('BrowserAdapter with Mock IndexedDB', () => {
     });
   });
   
+  describe('beginTransaction', () => {
+    let db: any;
+    
+    beforeEach(async () => {
+      db = await adapter.openDatabase('TestDB', 1);
+      adapter.createObjectStore(db, 'users', { keyPath: 'id' });
+      adapter.createObjectStore(db, 'products', { keyPath: 'id' });
+    });
+    
+    it('should route operations on its stores through one transaction', async () => {
+      const transaction = await adapter.beginTransaction(db, ['users', 'products'], 'readwrite');
+      const opened: string[][] = [];
+      const original = db.transaction.bind(db);
+      db.transaction = (names: string[], mode: IDBTransactionMode) => {
+        opened.push(names);
+        return original(names, mode);
+      };
+      
+      await adapter.put({ db: transaction.db, storeName: 'users' }, createUserData('1'));
+      await adapter.put({ db: transaction.db, storeName: 'products' }, createProductData('1'));
+      expect(opened).toHaveLength(0);
+      await transaction.commit();
+      db.transaction = original;
+      
+      expect((await adapter.get({ db, storeName: 'users' }, '1')).name).toBe('User 1');
+      expect((await adapter.get({ db, storeName: 'products' }, '1')).name).toBe('Product 1');
+    });
+  });
+  
   describe('Large Dataset Performance', () => {
     let db: any;
     
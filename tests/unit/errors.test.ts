@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import { getAllDataFromDatabase } from '../../src/utils/database.js';
+import {
+  DatabaseError,
+  StoreNotFoundError,
+  NotFoundError,
+  ConstraintError,
+  ValidationError,
+  VersionError,
+  QuotaExceededError,
+  TransactionAbortedError,
+  toDatabaseError
+} from '../../src/core/errors.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const createSchema = (): DatabaseSchema => ({
+  name: `ErrorsDB_${Date.now()}_${Math.random()}`,
+  version: 1,
+  stores: [{ name: 'users', keyPath: 'id' }]
+});
+
+describe('Core > Errors', () => {
+  describe('toDatabaseError()', () => {
+    it('debería traducir los DOMException de IndexedDB conservando la causa', () => {
+      const cases: Array<[string, new (...args: any[]) => DatabaseError, string]> = [
+        ['ConstraintError', ConstraintError, 'CONSTRAINT'],
+        ['QuotaExceededError', QuotaExceededError, 'QUOTA_EXCEEDED'],
+        ['VersionError', VersionError, 'VERSION'],
+        ['AbortError', TransactionAbortedError, 'TRANSACTION_ABORTED'],
+        ['NotFoundError', StoreNotFoundError, 'STORE_NOT_FOUND']
+      ];
+
+      cases.forEach(([name, ErrorClass, code]) => {
+        const native = Object.assign(new Error(`native ${name}`), { name });
+        const error = toDatabaseError(native, 'users') as DatabaseError;
+        expect(error).toBeInstanceOf(ErrorClass);
+        expect(error).toBeInstanceOf(DatabaseError);
+        expect(error.code).toBe(code);
+        expect(error.cause).toBe(native);
+      });
+    });
+
+    it('debería traducir ENOSPC y dejar intactos los errores desconocidos', () => {
+      const diskFull = Object.assign(new Error('no space left on device'), { code: 'ENOSPC' });
+      expect(toDatabaseError(diskFull)).toBeInstanceOf(QuotaExceededError);
+
+      const unknown = new Error('otro fallo');
+      expect(toDatabaseError(unknown)).toBe(unknown);
+      const typed = new ValidationError('dato inválido');
+      expect(toDatabaseError(typed)).toBe(typed);
+    });
+  });
+
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let adapter: StorageAdapter;
+      let manager: IndexedDBManager;
+      let strict: IndexedDBManager;
+
+      beforeEach(async () => {
+        adapter = createAdapter();
+        manager = await IndexedDBManager.initializeWithSchema(createSchema(), { adapter });
+        strict = await IndexedDBManager.initializeWithSchema(createSchema(), { adapter, throwOnError: true });
+      });
+
+      afterEach(() => {
+        manager.close();
+        strict.close();
+      });
+
+      it('debería lanzar StoreNotFoundError para stores desconocidos', async () => {
+        expect(() => manager.store('missing')).toThrow(StoreNotFoundError);
+        const error = await manager.transaction(['missing'], 'readonly', () => null).catch(error => error);
+        expect(error).toBeInstanceOf(StoreNotFoundError);
+        expect(error).toMatchObject({ code: 'STORE_NOT_FOUND', storeName: 'missing' });
+      });
+
+      it('debería lanzar NotFoundError al actualizar un registro inexistente', async () => {
+        const error = await manager.update({ id: 9, name: 'Nadie' }).catch(error => error);
+        expect(error).toBeInstanceOf(NotFoundError);
+        expect(error).toMatchObject({ code: 'NOT_FOUND', storeName: 'users', id: 9 });
+      });
+
+      it('debería devolver centinelas por defecto y lanzar con throwOnError', async () => {
+        expect(await manager.updateDataByIdInStore('users', 9, { name: 'Nadie' })).toBeNull();
+        await expect(strict.updateDataByIdInStore('users', 9, { name: 'Nadie' })).rejects.toThrow(NotFoundError);
+
+        expect(await manager.store('users').delete(null as any)).toBe(false);
+        await expect(strict.store('users').delete(null as any)).rejects.toThrow(ValidationError);
+      });
+
+      it('debería traducir los fallos de escritura de un lote', async () => {
+        const put = adapter.put.bind(adapter);
+        adapter.put = async (store, value, key) => {
+          if (value.id === 2) throw Object.assign(new Error('no space left on device'), { code: 'ENOSPC' });
+          return put(store, value, key);
+        };
+
+        expect(await manager.store('users').addMany([{ id: 1 }, { id: 2 }])).toBe(false);
+        const error = await strict.store('users').addMany([{ id: 1 }, { id: 2 }]).catch(error => error);
+        expect(error).toBeInstanceOf(QuotaExceededError);
+        expect(error.cause.code).toBe('ENOSPC');
+        expect(await strict.store('users').count()).toBe(0);
+      });
+    });
+  });
+
+  it('debería lanzar ConstraintError al añadir una clave repetida en NodeAdapter', async () => {
+    const adapter = new NodeAdapter('./test-data', { inMemory: true });
+    const db = await adapter.openDatabase(`ErrorsDB_${Date.now()}_${Math.random()}`, 1);
+    adapter.createObjectStore(db, 'users', { keyPath: 'id' });
+    await adapter.add({ db, storeName: 'users' }, { id: 1 });
+
+    await expect(adapter.add({ db, storeName: 'users' }, { id: 1 })).rejects.toThrow(ConstraintError);
+    await expect(adapter.put({ db, storeName: 'missing' }, { id: 1 })).rejects.toThrow(StoreNotFoundError);
+  });
+
+  it('debería lanzar desde getAllDataFromDatabase solo con throwOnError', async () => {
+    const invalid = { name: '', version: 1, store: 'users' };
+    expect(await getAllDataFromDatabase(invalid)).toEqual([]);
+    await expect(getAllDataFromDatabase(invalid, undefined, { throwOnError: true })).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import { ValidationError } from '../../src/core/errors.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const createSchema = (): DatabaseSchema => {
+  let sequence = 0;
+  return {
+    name: `FieldsDB_${Date.now()}_${Math.random()}`,
+    version: 1,
+    stores: [
+      {
+        name: 'users',
+        keyPath: 'id',
+        fields: {
+          role: { default: 'member' },
+          tags: { default: [] },
+          code: { default: () => `U${++sequence}` },
+          email: { transform: (value: string) => value.trim().toLowerCase() }
+        },
+        computed: {
+          fullName: user => `${user.firstName} ${user.lastName}`
+        },
+        validation: {
+          requiredFields: ['email'],
+          optionalFields: [],
+          validators: { email: (value: string) => value === value.toLowerCase() || 'must be lowercase' }
+        }
+      },
+      { name: 'notes', keyPath: 'id' }
+    ]
+  };
+};
+
+describe('Core > Fields', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let manager: IndexedDBManager;
+
+      beforeEach(async () => {
+        manager = await IndexedDBManager.initializeWithSchema(createSchema(), { adapter: createAdapter() });
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería aplicar valores por defecto, transformaciones y campos calculados al crear', async () => {
+        const user = await manager.store('users').add({
+          id: 1,
+          email: '  Ana@Example.COM ',
+          firstName: 'Ana',
+          lastName: 'García',
+          fullName: 'ignorado'
+        });
+
+        const expected = {
+          id: 1,
+          email: 'ana@example.com',
+          firstName: 'Ana',
+          lastName: 'García',
+          role: 'member',
+          tags: [],
+          code: 'U1',
+          fullName: 'Ana García'
+        };
+        expect(user).toEqual(expected);
+        expect(await manager.store('users').get(1)).toEqual(expected);
+      });
+
+      it('debería conservar los valores recibidos y llamar a la función por defecto en cada registro', async () => {
+        await manager.store('users').add({ id: 1, email: 'ana@example.com', role: 'admin', code: null });
+        await manager.store('users').add({ id: 2, email: 'luis@example.com' });
+        await manager.store('users').add({ id: 3, email: 'eva@example.com' });
+
+        const users = await manager.store('users').getAll();
+        expect(users.map(user => [user.role, user.code])).toEqual([['admin', null], ['member', 'U1'], ['member', 'U2']]);
+
+        (users[1]!.tags as string[]).push('vip');
+        expect((await manager.store('users').get(3))?.tags).toEqual([]);
+      });
+
+      it('debería recalcular sobre el registro fusionado al actualizar', async () => {
+        await manager.store('users').add({ id: 1, email: 'ana@example.com', firstName: 'Ana', lastName: 'García' });
+
+        const updated = await manager.updateDataByIdInStore('users', 1, { lastName: 'López', email: 'ANA@EXAMPLE.COM' });
+        expect(updated).toMatchObject({ email: 'ana@example.com', fullName: 'Ana López', role: 'member', code: 'U1' });
+      });
+
+      it('debería aplicarse en las operaciones por lotes antes de validar', async () => {
+        const users = manager.store('users');
+        await users.addMany([
+          { id: 1, email: 'ANA@example.com', firstName: 'Ana', lastName: 'García' },
+          { id: 2, email: 'Luis@example.com', firstName: 'Luis', lastName: 'Pérez' }
+        ]);
+        expect((await users.getAll()).map(user => [user.email, user.role, user.fullName])).toEqual([
+          ['ana@example.com', 'member', 'Ana García'],
+          ['luis@example.com', 'member', 'Luis Pérez']
+        ]);
+
+        await users.updateMany([{ id: 2, email: 'LUIS@EXAMPLE.COM', firstName: 'Luis', lastName: 'Gómez' }]);
+        expect(await users.get(2)).toMatchObject({ email: 'luis@example.com', fullName: 'Luis Gómez', role: 'member' });
+        expect((await users.get(2))?.code).toBe('U3');
+      });
+
+      it('debería fallar el elemento cuya transformación lanza un error', async () => {
+        const result = await manager.store('users').addManyWithResults([
+          { id: 1, email: 'ana@example.com' },
+          { id: 2, email: 42 }
+        ], { mode: 'bestEffort' });
+
+        expect(result.succeeded).toEqual([{ index: 0, id: 1 }]);
+        expect(result.failed[0]!.error).toBeInstanceOf(TypeError);
+        await expect(manager.store('users').add({ id: 3 })).rejects.toThrow(ValidationError);
+      });
+
+      it('debería no modificar los registros de stores sin reglas', async () => {
+        expect(await manager.store('notes').add({ id: 1, text: ' Hola ' })).toEqual({ id: 1, text: ' Hola ' });
+      });
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { FullTextIndex } from '../../src/core/query/FullTextIndex.js';
+import { TextAnalyzer, editDistance } from '../../src/core/query/TextAnalysis.js';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+import type { StoreProxy } from '../../src/core/IndexedDBManager.js';
+
+const articles = [
+  { id: 1, title: 'Introducción a IndexedDB', body: 'Guía básica de almacenamiento en el navegador', tags: ['web', 'storage'] },
+  { id: 2, title: 'Búsqueda de texto completo', body: 'Índices invertidos y ranking BM25 para la búsqueda', tags: ['search'] },
+  { id: 3, title: 'Canción del viento', body: 'Una canción sobre el viento del norte', tags: ['music'] },
+  { id: 4, title: 'Almacenamiento offline', body: 'Estrategias de almacenamiento y sincronización offline', tags: ['web', 'offline'] }
+];
+
+describe('Core > Full-text', () => {
+  describe('TextAnalyzer', () => {
+    it('debería normalizar diacríticos, mayúsculas y stop words', () => {
+      const analyzer = new TextAnalyzer({ stopWords: ['de', 'la'] });
+      expect(analyzer.analyze('La Canción de ÁRBOLES, 2024!')).toEqual(['cancion', 'arboles', '2024']);
+    });
+
+    it('debería respetar las opciones del tokenizador', () => {
+      expect(new TextAnalyzer({ lowercase: false, foldDiacritics: false }).analyze('Año Nuevo')).toEqual(['Año', 'Nuevo']);
+      expect(new TextAnalyzer({ tokenizer: 'whitespace' }).analyze('e-mail web-app')).toEqual(['e-mail', 'web-app']);
+      expect(new TextAnalyzer({ tokenizer: /[,;]/ }).analyze('uno;dos,tres')).toEqual(['uno', 'dos', 'tres']);
+      expect(new TextAnalyzer({ tokenizer: text => text.split('|'), minTokenLength: 2 }).analyze('a|bb|ccc')).toEqual(['bb', 'ccc']);
+    });
+
+    it('debería devolver la posición de cada token en el texto original', () => {
+      expect(new TextAnalyzer().tokens('Ángel y José')).toEqual([
+        { term: 'angel', start: 0, end: 5 },
+        { term: 'y', start: 6, end: 7 },
+        { term: 'jose', start: 8, end: 12 }
+      ]);
+    });
+  });
+
+  describe('editDistance()', () => {
+    it('debería calcular la distancia de Levenshtein con límite', () => {
+      expect(editDistance('maria', 'maria')).toBe(0);
+      expect(editDistance('maria', 'mria')).toBe(1);
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+      expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+    });
+  });
+
+  describe('FullTextIndex', () => {
+    let index: FullTextIndex;
+
+    beforeEach(() => {
+      index = new FullTextIndex({ fields: ['title', 'body', 'tags'], stopWords: ['de', 'el', 'la', 'y', 'a'] }, 'id');
+      articles.forEach(article => index.add(article));
+    });
+
+    it('debería ordenar los resultados por relevancia', () => {
+      const results = index.search('almacenamiento');
+      expect(results.map(result => result.primaryKey)).toEqual([4, 1]);
+      expect(results[0]!.score).toBeGreaterThan(results[1]!.score);
+    });
+
+    it('debería ignorar diacríticos en la consulta', () => {
+      expect(index.search('cancion').map(result => result.primaryKey)).toEqual([3]);
+      expect(index.search('BUSQUEDA').map(result => result.primaryKey)).toEqual([2]);
+    });
+
+    it('debería soportar prefijos, operador and y filtrado por campos', () => {
+      expect(index.search('alma')).toEqual([]);
+      expect(index.search('alma', { prefix: true }).map(result => result.primaryKey)).toEqual([4, 1]);
+      expect(index.search('almacenamiento offline', { operator: 'and' }).map(result => result.primaryKey)).toEqual([4]);
+      expect(index.search('web', { fields: ['title', 'body'] })).toEqual([]);
+      expect(index.search('web').map(result => result.primaryKey)).toEqual([1, 4]);
+    });
+
+    it('debería actualizar y eliminar documentos', () => {
+      index.add({ ...articles[2], title: 'Poema del mar', body: 'Versos sobre el mar' });
+      expect(index.search('cancion')).toEqual([]);
+      expect(index.search('mar').map(result => result.primaryKey)).toEqual([3]);
+
+      index.remove(3);
+      expect(index.search('mar')).toEqual([]);
+      expect(index.size).toBe(3);
+
+      index.clear();
+      expect(index.search('web')).toEqual([]);
+    });
+
+    it('debería tolerar errores con fuzzy y aplicar pesos por campo', () => {
+      expect(index.search('almacenamineto')).toEqual([]);
+      expect(index.search('almacenamineto', { fuzzy: true }).map(result => result.primaryKey)).toEqual([4, 1]);
+      expect(index.search('vento', { fuzzy: { maxDistance: 0 } })).toEqual([]);
+
+      const exact = index.search('web almacenamiento');
+      const weighted = index.search('web almacenamiento', { weights: { tags: 10 } });
+      expect(weighted[0]!.score).toBeGreaterThan(exact[0]!.score);
+      expect(Array.from(weighted[0]!.terms).sort()).toEqual(['almacenamiento', 'web']);
+    });
+
+    it('debería exigir al menos un campo', () => {
+      expect(() => new FullTextIndex({ fields: [] }, 'id')).toThrow('at least one field');
+    });
+  });
+
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(`searchText() con ${adapterName}`, () => {
+      let manager: IndexedDBManager;
+      let store: StoreProxy<any>;
+
+      beforeEach(async () => {
+        const schema: DatabaseSchema = {
+          name: `FullTextDB_${Date.now()}_${Math.random()}`,
+          version: 1,
+          stores: [
+            { name: 'articles', keyPath: 'id', fullText: { fields: ['title', 'body'], stopWords: ['de', 'el', 'la', 'y'] } },
+            { name: 'plain', keyPath: 'id' }
+          ]
+        };
+        manager = await IndexedDBManager.initializeWithSchema(schema, { adapter: createAdapter() });
+        store = manager.store('articles');
+        await store.addMany(articles);
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería devolver resultados ordenados con puntuación', async () => {
+        const hits = await store.searchText('almacenamiento offline');
+        expect(hits.map(hit => hit.item.id)).toEqual([4, 1]);
+        expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+        expect((await store.searchText('almacenamiento', { limit: 1 })).length).toBe(1);
+      });
+
+      it('debería mantener el índice al escribir y eliminar', async () => {
+        expect((await store.searchText('viento')).map(hit => hit.item.id)).toEqual([3]);
+
+        await store.add({ id: 5, title: 'Viento solar', body: 'Partículas del sol' });
+        await manager.updateDataByIdInStore('articles', 3, { title: 'Canción', body: 'Sin letra' });
+        expect((await store.searchText('viento')).map(hit => hit.item.id)).toEqual([5]);
+
+        await store.updateMany([{ id: 5, title: 'Tormenta', body: 'Lluvia' }]);
+        await store.addMany([{ id: 6, title: 'Viento y lluvia', body: '' }]);
+        expect((await store.searchText('lluvia')).map(hit => hit.item.id).sort()).toEqual([5, 6]);
+
+        await store.delete(6);
+        await store.deleteMany([5]);
+        expect(await store.searchText('lluvia')).toEqual([]);
+
+        await store.clear();
+        expect(await store.searchText('almacenamiento')).toEqual([]);
+      });
+
+      it('debería usar el índice en manager.search del store por defecto', async () => {
+        const results = await manager.search('busqueda');
+        expect(results.map(hit => hit.item.id)).toEqual([2]);
+      });
+
+      it('debería devolver rangos para resaltar las coincidencias', async () => {
+        const [hit] = await store.searchText('cancion vieto', { fuzzy: true });
+        expect(hit!.item.id).toBe(3);
+        expect(hit!.matches).toEqual([
+          { field: 'title', value: 'Canción del viento', ranges: [[0, 7], [12, 18]] },
+          { field: 'body', value: 'Una canción sobre el viento del norte', ranges: [[4, 11], [21, 27]] }
+        ]);
+      });
+
+      it('debería recorrer el store cuando no hay índice de texto', async () => {
+        const plain = manager.store('plain');
+        await plain.addMany([
+          { id: 1, name: 'María González', description: 'Diseñadora' },
+          { id: 2, name: 'Mario Gómez', description: 'Trabaja con María' },
+          { id: 3, name: 'Pedro', description: 'Sin coincidencias' }
+        ]);
+
+        const exact = await plain.searchText('maría');
+        expect(exact.map(hit => hit.item.id)).toEqual([1, 2]);
+        expect(exact[0]!.matches).toEqual([{ field: 'name', value: 'María González', ranges: [[0, 5]] }]);
+
+        const fuzzy = await plain.searchText('mria gonzales', { fuzzy: true, operator: 'and' });
+        expect(fuzzy.map(hit => hit.item.id)).toEqual([1]);
+        expect(fuzzy[0]!.matches[0]!.ranges).toEqual([[0, 5], [6, 14]]);
+
+        const weighted = await plain.searchText('maria', { fuzzy: true, weights: { description: 5 } });
+        expect(weighted.map(hit => hit.item.id)).toEqual([2, 1]);
+      });
+
+      it('debería informar el store en los eventos', async () => {
+        const events: any[] = [];
+        const listener = (event: any) => events.push(event);
+        manager.on('add', listener);
+        await manager.store('plain').add({ id: 1, name: 'x' });
+        manager.off('add', listener);
+        expect(events[0].metadata.storeName).toBe('plain');
+      });
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import { ValidationError } from '../../src/core/errors.js';
+import { uuidv4, uuidv7, ulid, nanoid } from '../../src/core/database/Ids.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const createSchema = (name: string): DatabaseSchema => ({
+  name,
+  version: 1,
+  stores: [
+    { name: 'orders', keyPath: 'id', idStrategy: 'autoIncrement' },
+    { name: 'users', keyPath: 'id', idStrategy: 'uuidv4' },
+    { name: 'events', keyPath: 'id', idStrategy: 'ulid' },
+    { name: 'links', keyPath: 'id', idStrategy: 'nanoid' },
+    { name: 'logs', keyPath: 'id', idStrategy: 'uuidv7' },
+    { name: 'tags', keyPath: 'id', idStrategy: record => `tag-${record.label}` },
+    { name: 'notes', keyPath: 'id' }
+  ]
+});
+
+describe('Core > Ids', () => {
+  it('debería generar IDs con el formato de cada estrategia', () => {
+    expect(uuidv4()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(uuidv7(0x0123456789ab)).toMatch(/^01234567-89ab-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(ulid(1_469_918_176_385)).toMatch(/^01ARYZ6S41[0-9A-HJKMNP-TV-Z]{16}$/);
+    expect(nanoid()).toMatch(/^[\w-]{21}$/);
+    expect(nanoid(8)).toHaveLength(8);
+  });
+
+  it('debería ordenar los IDs basados en tiempo por fecha de creación', () => {
+    expect(uuidv7(1_000) < uuidv7(2_000)).toBe(true);
+    expect(ulid(1_000) < ulid(2_000)).toBe(true);
+  });
+
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let name: string;
+      let adapter: StorageAdapter;
+      let manager: IndexedDBManager;
+
+      beforeEach(async () => {
+        name = `IdStrategyDB_${Date.now()}_${Math.random()}`;
+        adapter = createAdapter();
+        manager = await IndexedDBManager.initializeWithSchema(createSchema(name), { adapter });
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería asignar el ID de la estrategia del store en inserciones sueltas y por lotes', async () => {
+        const user = await manager.store('users').add({ name: 'Ana' });
+        expect(user.id).toMatch(/^[0-9a-f-]{36}$/);
+
+        await manager.store('events').addMany([{ type: 'a' }, { type: 'b' }]);
+        const events = await manager.store('events').getAll();
+        expect(events.map(event => event.id)).toEqual([expect.stringMatching(/^[0-9A-Z]{26}$/), expect.stringMatching(/^[0-9A-Z]{26}$/)]);
+
+        expect((await manager.store('links').add({})).id).toHaveLength(21);
+        expect((await manager.store('logs').add({})).id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-7/);
+        expect((await manager.store('tags').add({ label: 'vip' })).id).toBe('tag-vip');
+        expect((await manager.store('users').add({ id: 'propio' })).id).toBe('propio');
+      });
+
+      it('debería numerar con un contador que no reutiliza IDs borrados', async () => {
+        const orders = manager.store('orders');
+        expect((await orders.add({ total: 10 })).id).toBe(1);
+        expect((await orders.add({ total: 20 })).id).toBe(2);
+
+        await orders.delete(2);
+        await orders.addMany([{ total: 30 }, { id: 50, total: 40 }, { total: 50 }]);
+        expect((await orders.getAll()).map(order => order.id)).toEqual([1, 3, 50, 4]);
+
+        manager.close();
+        manager = await IndexedDBManager.initializeWithSchema(createSchema(name), { adapter });
+        await manager.store('orders').delete(4);
+        expect((await manager.store('orders').add({ total: 60 })).id).toBe(5);
+      });
+
+      it('debería continuar después de los IDs numéricos que ya existen', async () => {
+        await manager.store('orders').add({ id: 7, total: 10 });
+        expect((await manager.store('orders').add({ total: 20 })).id).toBe(8);
+      });
+
+      it('debería repartir IDs distintos a inserciones concurrentes y dentro de transacciones', async () => {
+        const orders = manager.store('orders');
+        const created = await Promise.all([orders.add({}), orders.add({}), orders.addMany([{}, {}])]);
+        expect(created.slice(0, 2).map(order => (order as { id: number }).id).sort()).toEqual([1, 2]);
+
+        const id = await manager.transaction(['orders'], 'readwrite', async tx => (await tx.store('orders').add({})).id);
+        expect(id).toBe(5);
+        expect(await orders.count()).toBe(5);
+      });
+
+      it('debería numerar igual las inserciones sueltas y por lotes de un store sin estrategia', async () => {
+        const notes = manager.store('notes');
+        expect((await notes.add({ text: 'a' })).id).toBe(1);
+        await notes.add({ id: 'draft', text: 'b' });
+        await notes.add({ id: 4.5, text: 'c' });
+
+        const result = await notes.addManyWithResults([{ text: 'd' }, { id: 9, text: 'e' }, { text: 'f' }]);
+        expect(result.succeeded.map(entry => entry.id)).toEqual([5, 9, 10]);
+        expect((await notes.add({ text: 'g' })).id).toBe(11);
+
+        const concurrent = await Promise.all([notes.add({}), notes.add({})]);
+        expect(concurrent.map(note => note.id).sort()).toEqual([12, 13]);
+        expect(await notes.count()).toBe(9);
+      });
+
+      it('debería rechazar un generador propio que devuelve un ID inválido', async () => {
+        await expect(manager.store('tags').add({ label: '' })).resolves.toMatchObject({ id: 'tag-' });
+        const schema = createSchema(`${name}_invalid`);
+        schema.stores.push({ name: 'broken', keyPath: 'id', idStrategy: () => '' });
+        const broken = await IndexedDBManager.initializeWithSchema(schema, { adapter: createAdapter() });
+        await expect(broken.store('broken').add({})).rejects.toThrow(ValidationError);
+        broken.close();
+      });
+    });
+  });
+});
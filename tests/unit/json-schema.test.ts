@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'bun:test';
+import { validateJSONSchema } from '../../src/core/database/JSONSchema.js';
+import type { JSONSchema } from '../../src/types/index.js';
+
+const problems = (schema: JSONSchema, value: unknown) =>
+  validateJSONSchema(schema, value).map(issue => `${issue.path.join('.') || '$'} ${issue.message}`);
+
+describe('Core > JSONSchema', () => {
+  it('debería comprobar tipos, enum y const', () => {
+    expect(problems({ type: 'string' }, 1)).toEqual(['$ must be a string']);
+    expect(problems({ type: 'integer' }, 1.5)).toEqual(['$ must be an integer']);
+    expect(problems({ type: ['number', 'null'] }, null)).toEqual([]);
+    expect(problems({ type: 'object' }, [])).toEqual(['$ must be an object']);
+    expect(problems({ enum: ['a', 'b'] }, 'c')).toEqual(['$ must be one of "a", "b"']);
+    expect(problems({ const: { x: 1 } }, { x: 1 })).toEqual([]);
+    expect(problems(false, 1)).toEqual(['$ is not allowed']);
+  });
+
+  it('debería comprobar cadenas y números', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      properties: {
+        code: { type: 'string', minLength: 2, maxLength: 4, pattern: '^[A-Z]+$' },
+        price: { type: 'number', exclusiveMinimum: 0, maximum: 100, multipleOf: 0.01 }
+      }
+    };
+
+    expect(problems(schema, { code: 'AB', price: 19.99 })).toEqual([]);
+    expect(problems(schema, { code: 'abcde', price: 0 })).toEqual([
+      'code must have at most 4 characters',
+      'code must match pattern ^[A-Z]+$',
+      'price must be > 0'
+    ]);
+    expect(problems(schema, { price: 1.005 })).toEqual(['price must be a multiple of 0.01']);
+  });
+
+  it('debería comprobar propiedades requeridas, adicionales y dependientes', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      required: ['id', 'name'],
+      properties: { id: { type: 'integer' }, name: { type: 'string' }, card: { type: 'string' } },
+      patternProperties: { '^x-': { type: 'string' } },
+      additionalProperties: false,
+      dependentRequired: { card: ['billing'] }
+    };
+
+    expect(problems(schema, { id: 1, name: 'Ana', 'x-tag': 'vip' })).toEqual([]);
+    expect(problems(schema, { id: 1, card: '4242', 'x-tag': 1, extra: true })).toEqual([
+      'name is required',
+      'billing is required when card is present',
+      'x-tag must be a string',
+      'extra is not allowed'
+    ]);
+  });
+
+  it('debería comprobar arrays', () => {
+    const schema: JSONSchema = {
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'number' },
+      minItems: 2,
+      uniqueItems: true,
+      contains: { const: 0 }
+    };
+
+    expect(problems(schema, ['a', 0, 1])).toEqual([]);
+    expect(problems(schema, [1])).toEqual([
+      '$ must have at least 2 items',
+      '0 must be a string',
+      '$ must contain a matching item'
+    ]);
+    expect(problems(schema, ['a', 0, 0])).toEqual(['$ must not have duplicate items']);
+  });
+
+  it('debería combinar esquemas y resolver $ref locales', () => {
+    const schema: JSONSchema = {
+      $defs: { positive: { type: 'number', minimum: 1 } },
+      type: 'object',
+      properties: {
+        qty: { $ref: '#/$defs/positive' },
+        contact: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        kind: { not: { const: 'legacy' } }
+      },
+      if: { properties: { kind: { const: 'company' } }, required: ['kind'] },
+      then: { required: ['taxId'] },
+      else: { required: ['qty'] }
+    };
+
+    expect(problems(schema, { qty: 2, contact: 'ana@example.com' })).toEqual([]);
+    expect(problems(schema, { qty: 0, contact: true, kind: 'legacy' })).toEqual([
+      'qty must be >= 1',
+      'contact must match exactly one schema in oneOf',
+      'kind must not match the schema in not'
+    ]);
+    expect(problems(schema, { kind: 'company' })).toEqual(['taxId is required']);
+    expect(() => validateJSONSchema({ $ref: 'https://example.com/schema.json' }, 1)).toThrow('Cannot resolve $ref');
+  });
+});
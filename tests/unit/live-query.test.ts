@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { Emitter } from '../../src/core/Emitter.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+import type { StoreProxy } from '../../src/core/IndexedDBManager.js';
+
+const tasks = [
+  { id: 1, title: 'Diseño', priority: 3, done: false },
+  { id: 2, title: 'Backend', priority: 1, done: false },
+  { id: 3, title: 'Deploy', priority: 2, done: true }
+];
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('Core > Live queries', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let manager: IndexedDBManager;
+      let store: StoreProxy<any>;
+      let events: Emitter;
+      let searches: number;
+
+      beforeEach(async () => {
+        const schema: DatabaseSchema = {
+          name: `LiveQueryDB_${Date.now()}_${Math.random()}`,
+          version: 1,
+          stores: [
+            { name: 'tasks', keyPath: 'id', indexes: [{ name: 'priority', keyPath: 'priority', unique: false }] },
+            { name: 'notes', keyPath: 'id' }
+          ]
+        };
+        manager = await IndexedDBManager.initializeWithSchema(schema, { adapter: createAdapter() });
+        events = new Emitter();
+        manager.setEmitterInstance(events);
+        store = manager.store('tasks');
+        await store.addMany(tasks);
+
+        searches = 0;
+        const search = manager.searchDataInStore.bind(manager);
+        manager.searchDataInStore = ((...args: Parameters<typeof search>) => {
+          searches++;
+          return search(...args);
+        }) as typeof manager.searchDataInStore;
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería emitir el resultado actual al suscribirse', async () => {
+        const emissions: any[][] = [];
+        const subscription = manager.liveQuery('tasks', { done: false }, { orderBy: 'priority' })
+          .subscribe(items => emissions.push(items));
+
+        await settle();
+        expect(emissions.length).toBe(1);
+        expect(emissions[0]!.map(task => task.id)).toEqual([2, 1]);
+        subscription.unsubscribe();
+      });
+
+      it('debería reemitir cuando una mutación afecta al resultado', async () => {
+        const emissions: any[][] = [];
+        const subscription = store.liveQuery({ done: false }, { orderBy: 'priority' }).subscribe(items => emissions.push(items));
+        await settle();
+
+        await store.add({ id: 4, title: 'Tests', priority: 0, done: false });
+        await settle();
+        expect(emissions[1]!.map(task => task.id)).toEqual([4, 2, 1]);
+
+        await manager.updateDataByIdInStore('tasks', 2, { done: true });
+        await settle();
+        expect(emissions[2]!.map(task => task.id)).toEqual([4, 1]);
+
+        await store.delete(1);
+        await settle();
+        expect(emissions[3]!.map(task => task.id)).toEqual([4]);
+
+        await store.clear();
+        await settle();
+        expect(emissions[4]).toEqual([]);
+        expect(emissions.length).toBe(5);
+        subscription.unsubscribe();
+      });
+
+      it('no debería recalcular ante mutaciones que no afectan al resultado', async () => {
+        const emissions: any[][] = [];
+        const subscription = store.liveQuery({ done: false }, { orderBy: 'priority', limit: 2 }).subscribe(items => emissions.push(items));
+        await settle();
+        expect(searches).toBe(1);
+
+        await store.add({ id: 4, title: 'Hecho', priority: 0, done: true });
+        await store.add({ id: 5, title: 'Baja prioridad', priority: 9, done: false });
+        await manager.store('notes').add({ id: 1, text: 'otra colección' });
+        await store.delete(3);
+        await settle();
+
+        expect(searches).toBe(1);
+        expect(emissions.length).toBe(1);
+        subscription.unsubscribe();
+      });
+
+      it('debería agrupar las mutaciones de una operación por lotes en un solo recálculo', async () => {
+        const emissions: any[][] = [];
+        const subscription = store.liveQuery({ done: false }).subscribe(items => emissions.push(items));
+        await settle();
+
+        await store.addMany([
+          { id: 10, title: 'A', priority: 5, done: false },
+          { id: 11, title: 'B', priority: 6, done: false },
+          { id: 12, title: 'C', priority: 7, done: false }
+        ]);
+        await settle();
+
+        expect(searches).toBe(2);
+        expect(emissions.length).toBe(2);
+        expect(emissions[1]!.map(task => task.id).sort((a, b) => a - b)).toEqual([1, 2, 10, 11, 12]);
+        subscription.unsubscribe();
+      });
+
+      it('no debería emitir si el resultado recalculado no cambia', async () => {
+        const emissions: any[][] = [];
+        const subscription = store.liveQuery({ done: false }).subscribe(items => emissions.push(items));
+        await settle();
+
+        await store.update({ id: 1, title: 'Diseño', priority: 3, done: false });
+        await settle();
+
+        expect(searches).toBe(2);
+        expect(emissions.length).toBe(1);
+        subscription.unsubscribe();
+      });
+
+      it('debería aplicar select a cada emisión', async () => {
+        const emissions: any[][] = [];
+        const subscription = store.liveQuery({ done: false }, { orderBy: 'priority', select: ['title'] })
+          .subscribe(items => emissions.push(items));
+        await settle();
+
+        expect(emissions[0]).toEqual([{ id: 2, title: 'Backend' }, { id: 1, title: 'Diseño' }]);
+        subscription.unsubscribe();
+      });
+
+      it('debería compartir el resultado entre suscriptores y liberar los listeners', async () => {
+        const live = store.liveQuery({ done: true });
+        const first: any[][] = [];
+        const second: any[][] = [];
+
+        const a = live.subscribe(items => first.push(items));
+        expect(events.listenerCount('add')).toBe(1);
+        await settle();
+
+        const b = live.subscribe({ next: items => second.push(items) });
+        await settle();
+        expect(second[0]!.map(task => task.id)).toEqual([3]);
+        expect(searches).toBe(1);
+
+        a.unsubscribe();
+        expect(a.closed).toBe(true);
+        expect(events.listenerCount('add')).toBe(1);
+
+        b.unsubscribe();
+        expect(live.subscriberCount).toBe(0);
+        for (const event of ['add', 'update', 'save', 'delete', 'clear', 'import']) {
+          expect(events.listenerCount(event)).toBe(0);
+        }
+
+        await store.add({ id: 4, title: 'Nuevo', priority: 1, done: true });
+        await settle();
+        expect(first.length).toBe(1);
+        expect(second.length).toBe(1);
+      });
+
+      it('debería entregar los errores al observador', async () => {
+        const errors: unknown[] = [];
+        const subscription = store.liveQuery({ priority: { $in: 'no-array' } } as any)
+          .subscribe({ error: error => errors.push(error) });
+        await settle();
+
+        expect(errors.length).toBe(1);
+        expect((errors[0] as Error).message).toContain('$in expects an array');
+        subscription.unsubscribe();
+      });
+    });
+  });
+});
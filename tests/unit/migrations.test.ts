@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import { ValidationError, VersionError } from '../../src/core/errors.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const createSchema = (name: string, version: number, extra: Partial<DatabaseSchema> = {}): DatabaseSchema => ({
+  name,
+  version,
+  stores: [{ name: 'users', keyPath: 'id' }],
+  ...extra
+});
+
+describe('Core > Migrations', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let adapter: StorageAdapter;
+      let name: string;
+
+      const open = (version: number, extra: Partial<DatabaseSchema> = {}) =>
+        IndexedDBManager.initializeWithSchema(createSchema(name, version, extra), { adapter });
+
+      beforeEach(async () => {
+        adapter = createAdapter();
+        name = `MigrationsDB_${Date.now()}_${Math.random()}`;
+        const manager = await open(1);
+        await manager.store('users').addMany([
+          { id: 1, name: 'Ana', age: 30 },
+          { id: 2, name: 'Luis', age: 17 }
+        ]);
+        manager.close();
+      });
+
+      it('debería ejecutar en orden solo las migraciones posteriores a la versión guardada', async () => {
+        const calls: string[] = [];
+        const manager = await open(3, {
+          migrations: {
+            3: ctx => { calls.push(`3:${ctx.oldVersion}->${ctx.newVersion}`); },
+            1: () => { calls.push('1'); },
+            2: async ctx => {
+              await new Promise(resolve => setTimeout(resolve, 5));
+              calls.push(`2:${ctx.version}`);
+            }
+          }
+        });
+
+        expect(calls).toEqual(['2:2', '3:1->3']);
+        expect((await manager.openDatabase()).version).toBe(3);
+        manager.close();
+      });
+
+      it('debería no ejecutar migraciones al crear la base de datos', async () => {
+        name = `MigrationsNewDB_${Date.now()}_${Math.random()}`;
+        let ran = false;
+        const manager = await open(2, { migrations: { 2: () => { ran = true; } } });
+
+        expect(ran).toBe(false);
+        expect(await manager.store('users').count()).toBe(0);
+        manager.close();
+      });
+
+      it('debería no ejecutar las migraciones de un esquema anterior', async () => {
+        let runs = 0;
+        (await open(2, { migrations: { 3: () => { runs++; } } })).close();
+
+        (await open(3)).close();
+        expect(runs).toBe(0);
+      });
+
+      it('debería renombrar campos y transformar o eliminar registros', async () => {
+        const manager = await open(2, {
+          migrations: {
+            2: async ctx => {
+              await ctx.renameField('users', 'name', 'fullName');
+              await ctx.forEachRecord('users', user => {
+                if ((user.age as number) < 18) return null;
+                return { ...user, adult: true };
+              });
+            }
+          }
+        });
+
+        expect(await manager.store('users').getAll()).toEqual([{ id: 1, fullName: 'Ana', age: 30, adult: true }]);
+        manager.close();
+      });
+
+      it('debería crear y eliminar stores e índices', async () => {
+        const manager = await open(2, {
+          stores: [{ name: 'people', keyPath: 'id' }],
+          migrations: {
+            2: async ctx => {
+              await ctx.createStore('people', { keyPath: 'id', indexes: [{ name: 'age', keyPath: 'age', unique: false }] });
+              await ctx.forEachRecord('users', user => ctx.putRecord('people', user));
+              await ctx.deleteStore('users');
+              await ctx.createIndex('people', { name: 'name', keyPath: 'name', unique: false });
+              await ctx.deleteIndex('people', 'age');
+            }
+          }
+        });
+
+        const db = await manager.openDatabase();
+        expect(adapter.getObjectStoreNames(db)).toEqual(['people']);
+        expect(await manager.store('people').count()).toBe(2);
+        const byName = await adapter.getAllFromIndex({ db, storeName: 'people' }, 'name', 'Luis');
+        expect(byName.map(user => user.id)).toEqual([2]);
+        await expect(adapter.iterate({ db, storeName: 'people' }, () => {}, { indexName: 'age' })).rejects.toThrow('not found');
+        manager.close();
+      });
+
+      it('debería añadir los índices declarados a stores existentes', async () => {
+        const manager = await open(2, {
+          stores: [{ name: 'users', keyPath: 'id', indexes: [{ name: 'age', keyPath: 'age', unique: false }] }]
+        });
+
+        const db = await manager.openDatabase();
+        const adults = await adapter.getAllFromIndex({ db, storeName: 'users' }, 'age', 30);
+        expect(adults.map(user => user.id)).toEqual([1]);
+        manager.close();
+      });
+
+      it('debería conservar datos y versión si una migración falla', async () => {
+        await expect(open(2, {
+          migrations: {
+            2: async ctx => {
+              await ctx.renameField('users', 'name', 'fullName');
+              await ctx.deleteStore('users');
+              throw new Error('migración rota');
+            }
+          }
+        })).rejects.toThrow('migración rota');
+
+        const manager = await open(1);
+        expect(await manager.store('users').get(1)).toEqual({ id: 1, name: 'Ana', age: 30 });
+        manager.close();
+      });
+
+      it('debería lanzar VersionError al abrir con una versión menor', async () => {
+        const manager = await open(2);
+        manager.close();
+
+        await expect(open(1)).rejects.toThrow(VersionError);
+      });
+
+      describe('applySchema()', () => {
+        let manager: IndexedDBManager;
+
+        beforeEach(async () => {
+          manager = await open(1);
+        });
+
+        afterEach(() => {
+          manager.close();
+        });
+
+        it('debería subir la versión y crear los stores e índices nuevos', async () => {
+          const result = await manager.applySchema({
+            name,
+            stores: [
+              { name: 'users', keyPath: 'id', indexes: [{ name: 'age', keyPath: 'age', unique: false }] },
+              { name: 'posts', keyPath: 'id' }
+            ]
+          });
+
+          expect(result.version).toBe(2);
+          expect(result.changes.map(change => change.type)).toEqual(['addIndex', 'addStore']);
+          expect(manager.version).toBe(2);
+          await manager.store('posts').add({ id: 1, title: 'Hola' });
+          const db = await manager.openDatabase();
+          const adults = await adapter.getAllFromIndex({ db, storeName: 'users' }, 'age', 30);
+          expect(adults.map(user => user.id)).toEqual([1]);
+        });
+
+        it('debería ejecutar también la migración que el esquema declara para la nueva versión', async () => {
+          await manager.applySchema({
+            name,
+            stores: [{ name: 'users', keyPath: 'id', indexes: [{ name: 'adult', keyPath: 'adult', unique: false }] }],
+            migrations: {
+              2: async ctx => {
+                await ctx.forEachRecord('users', user => ({ ...user, adult: user.age >= 18 ? 'yes' : 'no' }));
+              }
+            }
+          });
+
+          const db = await manager.openDatabase();
+          const adults = await adapter.getAllFromIndex({ db, storeName: 'users' }, 'adult', 'yes');
+          expect(adults.map(user => user.id)).toEqual([1]);
+        });
+
+        it('debería no cambiar la versión si el esquema es el mismo', async () => {
+          expect(await manager.applySchema(createSchema(name, 1))).toEqual({ version: 1, changes: [] });
+        });
+
+        it('debería rechazar cambios destructivos sin allowDestructive', async () => {
+          const schema = { name, stores: [{ name: 'posts', keyPath: 'id' }] };
+
+          const error = await manager.applySchema(schema).catch(error => error);
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.message).toContain("removeStore 'users'");
+          expect(manager.version).toBe(1);
+          expect(await manager.store('users').count()).toBe(2);
+
+          await manager.applySchema(schema, { allowDestructive: true });
+          const db = await manager.openDatabase();
+          expect(adapter.getObjectStoreNames(db)).toEqual(['posts']);
+        });
+
+        it('debería recrear el store al cambiar el keyPath', async () => {
+          await manager.store('users').update({ id: 1, name: 'Ana', age: 30, email: 'ana@example.com' });
+          await manager.store('users').update({ id: 2, name: 'Luis', age: 17, email: 'luis@example.com' });
+
+          await manager.applySchema(
+            { name, stores: [{ name: 'users', keyPath: 'email' }] },
+            { allowDestructive: true }
+          );
+
+          expect(await manager.store('users').count()).toBe(2);
+          expect(await manager.store('users').get('ana@example.com')).toMatchObject({ id: 1, name: 'Ana' });
+        });
+
+        it('debería recrear el store al activar autoIncrement', async () => {
+          const error = await manager.applySchema({ name, stores: [{ name: 'users', keyPath: 'id', autoIncrement: true }] }).catch(error => error);
+          expect(error.message).toContain("changeKeyPath 'users' (id -> id autoIncrement)");
+
+          await manager.applySchema({ name, stores: [{ name: 'users', keyPath: 'id', autoIncrement: true }] }, { allowDestructive: true });
+
+          expect(await manager.store('users').count()).toBe(2);
+          expect(await manager.store('users').add({ name: 'Eva' })).toEqual({ id: 3, name: 'Eva' });
+        });
+
+        it('debería rechazar el cambio de keyPath sin tocar el store si un registro no tiene la nueva clave', async () => {
+          await manager.store('users').update({ id: 1, name: 'Ana', age: 30, email: 'ana@example.com' });
+          const before = await manager.store('users').getAll();
+
+          const error = await manager.applySchema(
+            { name, stores: [{ name: 'users', keyPath: 'email' }] },
+            { allowDestructive: true }
+          ).catch(error => error);
+
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.message).toContain('records 2 have no valid key');
+          expect(manager.version).toBe(1);
+          expect(await manager.store('users').getAll()).toEqual(before);
+        });
+      });
+    });
+  });
+
+  describe('NodeAdapter con persistencia', () => {
+    let dir: string;
+    const name = 'MigrationsFileDB';
+    const readFile = () => JSON.parse(fs.readFileSync(path.join(dir, `${name}.json`), 'utf-8'));
+
+    beforeEach(async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'idb-migrations-'));
+      const manager = await IndexedDBManager.initializeWithSchema(createSchema(name, 1), { adapter: new NodeAdapter(dir) });
+      await manager.store('users').add({ id: 1, name: 'Ana' });
+      manager.close();
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('debería guardar la versión y los datos migrados en el archivo', async () => {
+      const manager = await IndexedDBManager.initializeWithSchema(
+        createSchema(name, 2, { migrations: { 2: ctx => ctx.renameField('users', 'name', 'fullName') } }),
+        { adapter: new NodeAdapter(dir) }
+      );
+      manager.close();
+
+      expect(readFile()).toMatchObject({ version: 2, stores: { users: { data: { 1: { id: 1, fullName: 'Ana' } } } } });
+    });
+
+    it('debería no tocar el archivo si una migración falla', async () => {
+      const before = readFile();
+
+      await expect(IndexedDBManager.initializeWithSchema(
+        createSchema(name, 2, {
+          migrations: {
+            2: async ctx => {
+              await ctx.renameField('users', 'name', 'fullName');
+              throw new Error('migración rota');
+            }
+          }
+        }),
+        { adapter: new NodeAdapter(dir) }
+      )).rejects.toThrow('migración rota');
+
+      expect(readFile()).toEqual(before);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import type { DatabaseSchema, SearchOptions } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+import type { StoreProxy } from '../../src/core/IndexedDBManager.js';
+
+const scores = [
+  { id: 1, name: 'Ana', score: 50, team: 'red' },
+  { id: 2, name: 'Bruno', score: 70, team: 'blue' },
+  { id: 3, name: 'Carla', score: 50, team: 'red' },
+  { id: 4, name: 'Diego', score: 90, team: 'blue' },
+  { id: 5, name: 'Elena', score: 70, team: 'red' },
+  { id: 6, name: 'Fabio', score: 10, team: 'red' },
+  { id: 7, name: 'Gina', score: 50, team: 'blue' }
+];
+
+async function collectPages(store: StoreProxy<any>, query: any, options: SearchOptions): Promise<number[]> {
+  const ids: number[] = [];
+  let after: string | undefined;
+
+  do {
+    const page = await store.search(query, after ? { ...options, after } : options);
+    ids.push(...page.items.map(item => item.id));
+    after = page.nextCursor;
+  } while (after);
+
+  return ids;
+}
+
+describe('Core > Paginación por cursor', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let manager: IndexedDBManager;
+      let store: StoreProxy<any>;
+
+      beforeEach(async () => {
+        const schema: DatabaseSchema = {
+          name: `PaginationDB_${Date.now()}_${Math.random()}`,
+          version: 1,
+          stores: [{
+            name: 'scores',
+            keyPath: 'id',
+            indexes: [
+              { name: 'score', keyPath: 'score', unique: false },
+              { name: 'team', keyPath: 'team', unique: false }
+            ]
+          }]
+        };
+        manager = await IndexedDBManager.initializeWithSchema(schema, { adapter: createAdapter() });
+        store = manager.store('scores');
+        await store.addMany(scores);
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería recorrer todas las páginas en orden usando el índice', async () => {
+        const ids = await collectPages(store, {}, { orderBy: 'score', limit: 3 });
+        expect(ids).toEqual([6, 1, 3, 7, 2, 5, 4]);
+
+        const desc = await collectPages(store, { score: { $gte: 50 } }, { orderBy: 'score', orderDirection: 'desc', limit: 2 });
+        expect(desc).toEqual([4, 5, 2, 7, 3, 1]);
+      });
+
+      it('debería paginar en memoria cuando el índice no resuelve la consulta', async () => {
+        const ids = await collectPages(store, { team: 'red', name: { $ne: 'Ana' } }, { orderBy: 'score', limit: 2 });
+        expect(ids).toEqual([6, 3, 5]);
+
+        const explanation = await store.explain({ name: { $regex: 'a' } }, { orderBy: 'name', limit: 2 });
+        expect(explanation.sort).toBe('memory');
+      });
+
+      it('debería ordenar por clave primaria sin orderBy', async () => {
+        const ids = await collectPages(store, { score: { $lt: 80 } }, { limit: 4 });
+        expect(ids).toEqual([1, 2, 3, 5, 6, 7]);
+
+        const team = await collectPages(store, { team: 'blue' }, { limit: 2 });
+        expect(team).toEqual([2, 4, 7]);
+      });
+
+      it('debería devolver la página anterior con before', async () => {
+        const first = await store.search({}, { orderBy: 'score', limit: 3 });
+        expect(first.prevCursor).toBeUndefined();
+
+        const second = await store.search({}, { orderBy: 'score', limit: 3, after: first.nextCursor! });
+        expect(second.items.map(item => item.id)).toEqual([7, 2, 5]);
+        expect(second.prevCursor).toBeDefined();
+        expect(second.page).toBeUndefined();
+
+        const back = await store.search({}, { orderBy: 'score', limit: 3, before: second.prevCursor! });
+        expect(back.items.map(item => item.id)).toEqual([6, 1, 3]);
+        expect(back.prevCursor).toBeUndefined();
+        expect(back.nextCursor).toBeDefined();
+      });
+
+      it('no debería saltar ni duplicar registros si la tienda cambia entre páginas', async () => {
+        const first = await store.search({}, { orderBy: 'score', limit: 3 });
+        await store.add({ id: 8, name: 'Hugo', score: 5, team: 'red' });
+        await store.delete(1);
+
+        const second = await store.search({}, { orderBy: 'score', limit: 3, after: first.nextCursor! });
+        expect(second.items.map(item => item.id)).toEqual([7, 2, 5]);
+      });
+
+      it('debería calcular la página a partir del offset', async () => {
+        expect((await store.search({}, { limit: 3 })).page).toBe(1);
+        expect((await store.search({}, { limit: 3, offset: 2 })).page).toBe(1);
+        expect((await store.search({}, { limit: 3, offset: 3 })).page).toBe(2);
+        expect((await store.search({}, { limit: 3, offset: 6 })).page).toBe(3);
+      });
+
+      it('debería rechazar cursores inválidos', async () => {
+        const page = await store.search({}, { orderBy: 'score', limit: 2 });
+
+        await expect(store.search({}, { orderBy: 'name', after: page.nextCursor! })).rejects.toThrow('different orderBy');
+        await expect(store.search({}, { after: 'not-a-cursor' })).rejects.toThrow('Invalid pagination cursor');
+        await expect(store.search({}, { after: page.nextCursor!, before: page.nextCursor! })).rejects.toThrow('not both');
+      });
+    });
+  });
+});
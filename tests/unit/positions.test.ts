@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  countPositions,
+  insertPosition,
+  removePosition,
+  scanPositions,
+  type SortedPositions
+} from '../../src/adapters/positions.js';
+import { compareCursorPositions, isKeyInRange, isPastPosition, toKeyRange } from '../../src/utils/keys.js';
+import type { CursorOptions, CursorPosition } from '../../src/adapters/types.js';
+
+const entries: CursorPosition[] = [
+  { key: 'b', primaryKey: 3 },
+  { key: 5, primaryKey: 1 },
+  { key: 'a', primaryKey: 2 },
+  { key: 'b', primaryKey: 1 },
+  { key: new Date(10), primaryKey: 4 },
+  { key: 'a', primaryKey: 5 },
+  { key: ['x', 1], primaryKey: 6 }
+];
+
+const build = (): SortedPositions => {
+  const positions: SortedPositions = [];
+  entries.forEach(position => insertPosition(positions, position));
+  return positions;
+};
+
+// What a cursor visits, computed by sorting and filtering every position
+const bruteForce = (options: CursorOptions): CursorPosition[] => {
+  const direction = options.direction || 'next';
+  const range = toKeyRange(options.query);
+  let positions = [...entries].sort(compareCursorPositions).filter(position => isKeyInRange(position.key, range));
+  if (direction.endsWith('unique')) {
+    positions = positions.filter((position, i) => i === 0 || compareCursorPositions(
+      { key: position.key, primaryKey: 0 },
+      { key: positions[i - 1]!.key, primaryKey: 0 }
+    ) !== 0);
+  }
+  if (direction.startsWith('prev')) positions.reverse();
+  if (options.after) positions = positions.filter(position => isPastPosition(position, options.after!, direction));
+  const offset = options.offset || 0;
+  return positions.slice(offset, options.limit ? offset + options.limit : undefined);
+};
+
+describe('Adapters > SortedPositions', () => {
+  it('debería mantener el orden del cursor sin duplicar posiciones', () => {
+    const positions = build();
+    insertPosition(positions, { key: 'a', primaryKey: 2 });
+
+    expect(positions.map(position => position.primaryKey)).toEqual([1, 4, 2, 5, 1, 3, 6]);
+    removePosition(positions, { key: 'b', primaryKey: 1 });
+    removePosition(positions, { key: 'b', primaryKey: 9 });
+    expect(positions.map(position => position.primaryKey)).toEqual([1, 4, 2, 5, 3, 6]);
+  });
+
+  it('debería contar las posiciones de un rango', () => {
+    const positions = build();
+    expect(countPositions(positions)).toBe(7);
+    expect(countPositions(positions, 'b')).toBe(2);
+    expect(countPositions(positions, { lower: 'a', upper: [], upperOpen: true })).toBe(4);
+    expect(countPositions(positions, { lower: 'a', lowerOpen: true })).toBe(3);
+    expect(countPositions(positions, 'z')).toBe(0);
+  });
+
+  it('debería recorrer como un cursor en cada dirección', () => {
+    const positions = build();
+    const queries = [undefined, 'a', { lower: 'a', upper: 'b' }, { lower: 5, lowerOpen: true }, { upper: 'b', upperOpen: true }];
+    const directions: Array<CursorOptions['direction']> = ['next', 'nextunique', 'prev', 'prevunique'];
+    const afters = [undefined, { key: 'a', primaryKey: 2 }, { key: 'b', primaryKey: 3 }];
+
+    for (const query of queries) {
+      for (const direction of directions) {
+        for (const after of afters) {
+          for (const [offset, limit] of [[0, 0], [1, 2], [0, 1]]) {
+            const options: CursorOptions = { query, direction, offset: offset!, limit: limit! };
+            if (after) options.after = after;
+            expect(scanPositions(positions, options)).toEqual(bruteForce(options));
+          }
+        }
+      }
+    }
+  });
+
+  it('debería visitar la clave primaria menor de cada clave en las direcciones únicas', () => {
+    const positions = build();
+    expect(scanPositions(positions, { query: { lower: 'a', upper: 'b' }, direction: 'prevunique' })).toEqual([
+      { key: 'b', primaryKey: 1 },
+      { key: 'a', primaryKey: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import { ValidationError } from '../../src/core/errors.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const createSchema = (name: string): DatabaseSchema => ({
+  name,
+  version: 1,
+  stores: [
+    { name: 'products', keyPath: 'sku' },
+    { name: 'members', keyPath: ['tenantId', 'userId'], indexes: [{ name: 'role', keyPath: 'role' }] },
+    { name: 'tickets', keyPath: 'id', autoIncrement: true },
+    { name: 'entries', keyPath: 'meta.key', autoIncrement: true, validation: { requiredFields: [], optionalFields: [], uniqueFields: ['code'] } }
+  ]
+});
+
+describe('Core > PrimaryKeys', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let name: string;
+      let adapter: StorageAdapter;
+      let manager: IndexedDBManager;
+
+      beforeEach(async () => {
+        name = `PrimaryKeysDB_${Date.now()}_${Math.random()}`;
+        adapter = createAdapter();
+        manager = await IndexedDBManager.initializeWithSchema(createSchema(name), { adapter });
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería usar el keyPath propio del store sin añadir un campo id', async () => {
+        const products = manager.store('products');
+        expect(await products.add({ sku: 'A-1', price: 10 })).toEqual({ sku: 'A-1', price: 10 });
+        await products.addMany([{ sku: 'A-2', price: 20 }, { sku: 'A-1', price: 15 }]);
+
+        expect(await products.get('A-1')).toEqual({ sku: 'A-1', price: 15 });
+        expect(await products.update({ sku: 'A-2', price: 25 })).toEqual({ sku: 'A-2', price: 25 });
+        await products.updateMany([{ sku: 'A-2', price: 30 }]);
+        expect(await products.get('A-2')).toEqual({ sku: 'A-2', price: 30 });
+
+        expect(await products.delete('A-1')).toBe(true);
+        expect(await products.getAll()).toEqual([{ sku: 'A-2', price: 30 }]);
+      });
+
+      it('debería conservar las claves de texto numéricas sin convertirlas en números', async () => {
+        const products = manager.store('products');
+        await products.add({ sku: '1', price: 10 });
+        await products.add({ sku: 1, price: 20 });
+        await products.add({ sku: '007', price: 30 });
+
+        expect(await products.get('1')).toEqual({ sku: '1', price: 10 });
+        expect(await products.get(1)).toEqual({ sku: 1, price: 20 });
+        expect(await products.get(7)).toBeNull();
+        expect(await products.count()).toBe(3);
+      });
+
+      it('debería leer, actualizar y borrar con claves compuestas', async () => {
+        const members = manager.store('members');
+        await members.add({ tenantId: 'acme', userId: 1, role: 'admin' });
+        await members.addMany([
+          { tenantId: 'acme', userId: 2, role: 'member' },
+          { tenantId: 'globex', userId: 1, role: 'member' }
+        ]);
+
+        expect(await members.get(['acme', 1])).toEqual({ tenantId: 'acme', userId: 1, role: 'admin' });
+        expect(await members.getMany([['globex', 1], ['acme', 3]])).toEqual([{ tenantId: 'globex', userId: 1, role: 'member' }]);
+
+        await members.update({ tenantId: 'acme', userId: 2, role: 'admin' });
+        expect(await manager.updateDataByIdInStore('members', ['globex', '1'], { role: 'owner' })).toBeNull();
+        expect(await manager.updateDataByIdInStore('members', ['globex', 1], { role: 'owner' })).toEqual({
+          tenantId: 'globex',
+          userId: 1,
+          role: 'owner'
+        });
+        expect((await members.getAllFromIndex('role', 'admin')).map(member => member.userId)).toEqual([1, 2]);
+
+        expect(await members.delete(['acme', 1])).toBe(true);
+        const result = await members.deleteManyWithResults([['acme', 2]]);
+        expect(result.succeeded).toEqual([{ index: 0, id: ['acme', 2] }]);
+        expect(await members.count()).toBe(1);
+      });
+
+      it('debería rechazar registros sin todas las partes de la clave compuesta', async () => {
+        await expect(manager.store('members').add({ tenantId: 'acme' })).rejects.toThrow(ValidationError);
+
+        const result = await manager.store('members').addManyWithResults(
+          [{ tenantId: 'acme', userId: 1 }, { userId: 2 }],
+          { mode: 'bestEffort' }
+        );
+        expect(result.succeeded).toEqual([{ index: 0, id: ['acme', 1] }]);
+        expect(result.failed[0]!.error).toBeInstanceOf(ValidationError);
+      });
+
+      it('debería devolver la clave que genera un store autoIncrement sin reutilizar las borradas', async () => {
+        const tickets = manager.store('tickets');
+        expect(await tickets.add({ title: 'a' })).toEqual({ id: 1, title: 'a' });
+        expect(await tickets.add({ title: 'b' })).toEqual({ id: 2, title: 'b' });
+
+        await tickets.delete(2);
+        const result = await tickets.addManyWithResults([{ title: 'c' }, { id: 10, title: 'd' }, { title: 'e' }]);
+        expect(result.succeeded.map(entry => entry.id)).toEqual([3, 10, 11]);
+        expect((await tickets.getAll()).map(ticket => ticket.id)).toEqual([1, 3, 10, 11]);
+
+        await tickets.clear();
+        expect((await tickets.add({ title: 'f' })).id).toBe(12);
+      });
+
+      it('debería escribir la clave generada en un keyPath anidado y emitirla en los eventos', async () => {
+        const added: unknown[] = [];
+        manager.on('add', event => added.push(event.data));
+
+        const entry = await manager.store('entries').add({ code: 'x' });
+        expect(entry).toEqual({ code: 'x', meta: { key: 1 } });
+        expect(await manager.store('entries').get(1)).toEqual(entry);
+        expect(added).toEqual([entry]);
+
+        expect(await manager.store('entries').addMany([{ code: 'y' }, { code: 'y' }])).toBe(false);
+        expect(await manager.store('entries').count()).toBe(1);
+      });
+
+      it('debería rechazar un store autoIncrement con keyPath compuesto', async () => {
+        const schema = createSchema(`${name}_invalid`);
+        schema.stores.push({ name: 'broken', keyPath: ['a', 'b'], autoIncrement: true });
+        await expect(IndexedDBManager.initializeWithSchema(schema, { adapter: createAdapter() })).rejects.toThrow(ValidationError);
+      });
+    });
+  });
+
+  describe('NodeAdapter con persistencia', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'idb-keys-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('debería conservar el tipo de las claves al guardar y cargar el archivo', async () => {
+      const name = `PrimaryKeysFileDB_${Date.now()}`;
+      const writer = new NodeAdapter(dir);
+      const db = await writer.openDatabase(name, 1);
+      writer.createObjectStore(db, 'events', { keyPath: 'at' });
+      writer.createObjectStore(db, 'pairs', { keyPath: ['a', 'b'] });
+      const events = { db, storeName: 'events' };
+      await writer.put(events, { at: 1, label: 'número' });
+      await writer.put(events, { at: '1', label: 'texto' });
+      await writer.put(events, { at: new Date(5), label: 'fecha' });
+      await writer.put({ db, storeName: 'pairs' }, { a: 'x', b: 2 });
+      writer.close(db);
+
+      const reader = new NodeAdapter(dir);
+      const loaded = await reader.openDatabase(name, 1);
+      const stored = { db: loaded, storeName: 'events' };
+      expect(await reader.count(stored)).toBe(3);
+      expect(await reader.get(stored, 1)).toEqual({ at: 1, label: 'número' });
+      expect(await reader.get(stored, '1')).toEqual({ at: '1', label: 'texto' });
+      expect(await reader.get(stored, new Date(5))).toEqual({ at: new Date(5), label: 'fecha' });
+      expect(await reader.get({ db: loaded, storeName: 'pairs' }, ['x', 2])).toEqual({ a: 'x', b: 2 });
+      reader.close(loaded);
+    });
+  });
+});
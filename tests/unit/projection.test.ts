@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { compileProjection } from '../../src/core/query/Projection.js';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+import type { StoreProxy } from '../../src/core/IndexedDBManager.js';
+
+const users = [
+  { id: 1, name: 'Ana', lastName: 'Pérez', age: 31, password: 'x1', address: { city: 'Lima', zip: '15001' } },
+  { id: 2, name: 'Bruno', lastName: 'Díaz', age: 17, password: 'x2', address: { city: 'Quito', zip: '170150' } },
+  { id: 3, name: 'Carla', lastName: 'Ruiz', age: 45, password: 'x3', address: { city: 'Lima', zip: '15002' } },
+  { id: 4, name: 'Diego', lastName: 'Soto', age: 22, password: 'x4' }
+];
+
+describe('Core > Proyección', () => {
+  describe('compileProjection()', () => {
+    const user = users[0]!;
+
+    it('debería incluir rutas conservando la clave primaria', () => {
+      expect(compileProjection(['name', 'address.city'])(user)).toEqual({ id: 1, name: 'Ana', address: { city: 'Lima' } });
+      expect(compileProjection({ name: 1, id: 0 })(user)).toEqual({ name: 'Ana' });
+      expect(compileProjection(['name'], 'code')({ code: 'a', name: 'Ana' })).toEqual({ code: 'a', name: 'Ana' });
+    });
+
+    it('debería excluir rutas sin modificar el registro original', () => {
+      const projected = compileProjection({ password: 0, 'address.zip': 0 })(user);
+      expect(projected).toEqual({ id: 1, name: 'Ana', lastName: 'Pérez', age: 31, address: { city: 'Lima' } });
+      expect(user.password).toBe('x1');
+      expect(user.address).toEqual({ city: 'Lima', zip: '15001' });
+    });
+
+    it('debería calcular campos con funciones', () => {
+      const fullName = (item: any) => `${item.name} ${item.lastName}`;
+      expect(compileProjection({ fullName })(user)).toEqual({ id: 1, fullName: 'Ana Pérez' });
+      expect(compileProjection({ name: 1, 'meta.adult': (item: any) => item.age >= 18 })(user))
+        .toEqual({ id: 1, name: 'Ana', meta: { adult: true } });
+      expect(compileProjection({ password: 0, fullName })(user)).toMatchObject({ fullName: 'Ana Pérez', age: 31 });
+    });
+
+    it('debería rechazar proyecciones inválidas', () => {
+      expect(() => compileProjection({ name: 1, password: 0 })).toThrow('cannot mix');
+      expect(() => compileProjection({ name: 'yes' } as any)).toThrow("Invalid projection value for 'name'");
+    });
+  });
+
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(`select con ${adapterName}`, () => {
+      let manager: IndexedDBManager;
+      let store: StoreProxy<any>;
+
+      beforeEach(async () => {
+        const schema: DatabaseSchema = {
+          name: `ProjectionDB_${Date.now()}_${Math.random()}`,
+          version: 1,
+          stores: [{
+            name: 'users',
+            keyPath: 'id',
+            indexes: [{ name: 'age', keyPath: 'age', unique: false }]
+          }]
+        };
+        manager = await IndexedDBManager.initializeWithSchema(schema, { adapter: createAdapter() });
+        store = manager.store('users');
+        await store.addMany(users);
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería proyectar resultados leídos desde el índice', async () => {
+        const result = await store.search({ age: { $gte: 18 } }, { orderBy: 'age', limit: 2, select: ['name'] });
+        expect(result.items).toEqual([{ id: 4, name: 'Diego' }, { id: 1, name: 'Ana' }]);
+
+        const next = await store.search({ age: { $gte: 18 } }, { orderBy: 'age', limit: 2, select: ['name'], after: result.nextCursor });
+        expect(next.items).toEqual([{ id: 3, name: 'Carla' }]);
+      });
+
+      it('debería filtrar y ordenar por campos no seleccionados', async () => {
+        const result = await store.search(
+          { 'address.city': 'Lima' },
+          { orderBy: 'lastName', orderDirection: 'desc', select: { name: 1, city: (item: any) => item.address.city } }
+        );
+        expect(result.items).toEqual([{ id: 3, name: 'Carla', city: 'Lima' }, { id: 1, name: 'Ana', city: 'Lima' }]);
+      });
+
+      it('debería proyectar getAll sin alterar los registros guardados', async () => {
+        const items = await store.getAll({ select: { password: 0, address: 0 } });
+        expect(items).toHaveLength(4);
+        expect(items.every(item => !('password' in item) && !('address' in item))).toBe(true);
+
+        const stored = await store.get(2);
+        expect(stored.password).toBe('x2');
+        expect(stored.address.city).toBe('Quito');
+        expect((await store.getAll()).length).toBe(4);
+      });
+    });
+  });
+});
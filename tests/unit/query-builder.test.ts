@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+import type { StoreProxy } from '../../src/core/IndexedDBManager.js';
+
+const people = [
+  { id: 1, name: 'Ana', age: 31, status: 'active', tags: ['admin'], address: { city: 'Lima' } },
+  { id: 2, name: 'Bruno', age: 17, status: 'active', tags: [], address: { city: 'Quito' } },
+  { id: 3, name: 'Alberto', age: 45, status: 'inactive', tags: ['admin', 'dev'], address: { city: 'Lima' } },
+  { id: 4, name: 'Diego', age: 22, status: 'active', tags: ['dev'] },
+  { id: 5, name: 'Elena', age: 19, status: 'active', tags: ['dev'], address: { city: 'Bogotá' } }
+];
+
+describe('Core > Query builder', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let manager: IndexedDBManager;
+      let store: StoreProxy<any>;
+
+      beforeEach(async () => {
+        const schema: DatabaseSchema = {
+          name: `QueryBuilderDB_${Date.now()}_${Math.random()}`,
+          version: 1,
+          stores: [{
+            name: 'people',
+            keyPath: 'id',
+            indexes: [
+              { name: 'age', keyPath: 'age', unique: false },
+              { name: 'name', keyPath: 'name', unique: false }
+            ]
+          }]
+        };
+        manager = await IndexedDBManager.initializeWithSchema(schema, { adapter: createAdapter() });
+        store = manager.store('people');
+        await store.addMany(people);
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería compilar la cadena al mismo filtro que searchDataInStore', () => {
+        const query = store.where('age').gt(18).and('status').eq('active').and('age').lte(40);
+        expect(query.toQuery()).toEqual({ age: { $gt: 18, $lte: 40 }, status: { $eq: 'active' } });
+
+        const repeated = store.where('age').gt(18).and('age').gt(20);
+        expect(repeated.toQuery()).toEqual({ age: { $gt: 18 }, $and: [{ age: { $gt: 20 } }] });
+
+        expect(query.orderBy('name').orderBy('age', 'desc').limit(5).offset(2).toOptions()).toEqual({
+          orderBy: [{ field: 'name', direction: 'asc' }, { field: 'age', direction: 'desc' }],
+          limit: 5,
+          offset: 2
+        });
+      });
+
+      it('debería devolver los registros con toArray() y first()', async () => {
+        const adults = await store.where('age').gt(18).and('status').eq('active').orderBy('name').toArray();
+        expect(adults.map(person => person.id)).toEqual([1, 4, 5]);
+
+        const page = await store.where('age').gte(18).orderBy('age', 'desc').offset(1).limit(2).toArray();
+        expect(page.map(person => person.id)).toEqual([1, 4]);
+
+        expect((await store.where('name').startsWith('A').orderBy('name').first())?.name).toBe('Alberto');
+        expect(await store.where('age').gt(100).first()).toBeNull();
+      });
+
+      it('debería soportar in, between, exists, matches, rutas y arrays', async () => {
+        const ids = async (builder: any) => (await builder.toArray()).map((person: any) => person.id).sort();
+
+        expect(await ids(store.where('status').in(['inactive']))).toEqual([3]);
+        expect(await ids(store.where('age').between(19, 31))).toEqual([1, 4, 5]);
+        expect(await ids(store.where('address').exists(false))).toEqual([4]);
+        expect(await ids(store.where('name').matches(/^[ab]/i).and('age').ne(17))).toEqual([1, 3]);
+        expect(await ids(store.where('address.city').eq('Lima'))).toEqual([1, 3]);
+        expect(await ids(store.where('tags').eq('dev').and('tags').notIn(['admin']))).toEqual([4, 5]);
+      });
+
+      it('debería usar el índice para rangos del builder', async () => {
+        const builder = store.where('name').startsWith('A');
+        const explanation = await store.explain(builder.toQuery(), builder.toOptions());
+        expect(explanation.indexName).toBe('name');
+      });
+
+      it('debería contar respetando limit y offset', async () => {
+        expect(await store.where('status').eq('active').count()).toBe(4);
+        expect(await store.where('status').eq('active').limit(2).count()).toBe(2);
+        expect(await store.where('status').eq('active').offset(3).count()).toBe(1);
+        expect(await store.query().count()).toBe(5);
+      });
+
+      it('debería eliminar los registros que coinciden', async () => {
+        expect(await store.where('age').lt(20).delete()).toBe(2);
+        expect((await store.getAll()).map(person => person.id).sort()).toEqual([1, 3, 4]);
+
+        expect(await store.query().orderBy('age', 'desc').limit(1).delete()).toBe(1);
+        expect(await store.get(3)).toBeNull();
+        expect(await store.where('age').gt(100).delete()).toBe(0);
+      });
+
+      it('debería modificar con un objeto o una función', async () => {
+        expect(await store.where('status').eq('active').and('age').lt(20).modify({ status: 'minor' })).toBe(2);
+        expect((await store.where('status').eq('minor').toArray()).map(person => person.id).sort()).toEqual([2, 5]);
+
+        const original = await store.get(1);
+        expect(await store.where('tags').eq('admin').modify(person => {
+          person.tags.push('owner');
+          person.age += 1;
+        })).toBe(2);
+        expect((await store.get(1)).tags).toEqual(['admin', 'owner']);
+        expect((await store.get(3)).age).toBe(46);
+        expect(original.tags).toEqual(['admin']);
+
+        expect(await store.where('id').eq(4).modify(() => ({ name: 'Diego R.' }))).toBe(1);
+        expect((await store.get(4)).name).toBe('Diego R.');
+      });
+
+      it('no debería perder una escritura concurrente entre la búsqueda y la modificación', async () => {
+        const modified = store.where('id').eq(1).modify(person => {
+          person.age += 1;
+        });
+        const updated = store.update({ id: 1, status: 'archived' });
+
+        expect(await modified).toBe(1);
+        await updated;
+        expect(await store.get(1)).toMatchObject({ age: 32, status: 'archived' });
+      });
+
+      it('debería rechazar cambios de clave primaria y límites inválidos', async () => {
+        await expect(store.where('id').eq(1).modify({ id: 99 })).rejects.toThrow('cannot change the primary key');
+        expect(await store.get(1)).not.toBeNull();
+        expect(() => store.query().limit(0)).toThrow('positive integer');
+        expect(() => store.query().offset(-1)).toThrow('non-negative integer');
+      });
+
+      it('debería consultar el store por defecto desde el manager', async () => {
+        const results = await manager.where('age').gt(40).toArray();
+        expect(results.map(person => person.id)).toEqual([3]);
+      });
+
+      it('debería reutilizar una cadena parcial sin modificarla', async () => {
+        const base = store.where('status').eq('active');
+        const young = base.and('age').lt(20);
+        expect(await base.count()).toBe(4);
+        expect(await young.count()).toBe(2);
+      });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { matchesQuery, getValueByPath } from '../../src/core/query/QueryMatcher.js';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+
+const people = [
+  { id: 1, name: 'Ana', age: 17, status: 'active', tags: ['admin', 'dev'], address: { city: 'Lima', zip: '15001' } },
+  { id: 2, name: 'Bruno', age: 25, status: 'inactive', tags: ['dev'], address: { city: 'Quito' } },
+  { id: 3, name: 'Carla', age: 32, status: 'active', tags: [], address: { city: 'Lima' }, nickname: null },
+  { id: 4, name: 'Diego', age: 41, status: 'pending', tags: ['ops'] }
+];
+
+const ids = (query: any) => people.filter(p => matchesQuery(p, query)).map(p => p.id);
+
+describe('Core > QueryMatcher', () => {
+  describe('getValueByPath()', () => {
+    it('debería resolver rutas anidadas e índices de arrays', () => {
+      expect(getValueByPath(people[0], 'address.city')).toBe('Lima');
+      expect(getValueByPath(people[0], 'tags.1')).toBe('dev');
+      expect(getValueByPath(people[3], 'address.city')).toBeUndefined();
+    });
+
+    it('debería recorrer arrays de objetos', () => {
+      const order = { lines: [{ sku: 'A' }, { sku: 'B' }] };
+      expect(getValueByPath(order, 'lines.sku')).toEqual(['A', 'B']);
+    });
+  });
+
+  describe('operadores de comparación', () => {
+    it('debería soportar $gt, $gte, $lt y $lte', () => {
+      expect(ids({ age: { $gt: 25 } })).toEqual([3, 4]);
+      expect(ids({ age: { $gte: 25 } })).toEqual([2, 3, 4]);
+      expect(ids({ age: { $lt: 25 } })).toEqual([1]);
+      expect(ids({ age: { $gte: 18, $lte: 32 } })).toEqual([2, 3]);
+    });
+
+    it('no debería comparar valores de distinto tipo', () => {
+      expect(ids({ age: { $gt: '20' } })).toEqual([]);
+    });
+
+    it('no debería comparar fechas con números', () => {
+      const event = { at: new Date(10) };
+      expect(matchesQuery(event, { at: { $gt: 5 } })).toBe(false);
+      expect(matchesQuery({ at: 10 }, { at: { $gt: new Date(5) } })).toBe(false);
+      expect(matchesQuery(event, { at: { $gt: new Date(5), $lt: new Date(20) } })).toBe(true);
+    });
+
+    it('debería soportar $in, $nin y $ne', () => {
+      expect(ids({ status: { $in: ['pending', 'inactive'] } })).toEqual([2, 4]);
+      expect(ids({ status: { $nin: ['active'] } })).toEqual([2, 4]);
+      expect(ids({ status: { $ne: 'active' } })).toEqual([2, 4]);
+    });
+
+    it('debería soportar $exists', () => {
+      expect(ids({ address: { $exists: false } })).toEqual([4]);
+      expect(ids({ nickname: { $exists: true } })).toEqual([3]);
+    });
+
+    it('debería soportar $regex con string, flags y RegExp', () => {
+      expect(ids({ name: { $regex: '^a', $options: 'i' } })).toEqual([1]);
+      expect(ids({ name: { $regex: /o$/ } })).toEqual([2, 4]);
+      expect(ids({ name: /^C/ })).toEqual([3]);
+    });
+
+    it('debería negar condiciones de campo con $not', () => {
+      expect(ids({ age: { $not: { $gt: 30 } } })).toEqual([1, 2]);
+    });
+
+    it('debería lanzar error con operadores desconocidos', () => {
+      expect(() => matchesQuery(people[0], { age: { $between: [1, 2] } })).toThrow('Unsupported query operator');
+    });
+  });
+
+  describe('igualdad', () => {
+    it('debería ser exacta y sensible a mayúsculas', () => {
+      expect(ids({ status: 'active' })).toEqual([1, 3]);
+      expect(ids({ status: 'Active' })).toEqual([]);
+    });
+
+    it('debería comprobar pertenencia en campos array', () => {
+      expect(ids({ tags: 'dev' })).toEqual([1, 2]);
+      expect(ids({ tags: { $in: ['ops', 'admin'] } })).toEqual([1, 4]);
+    });
+
+    it('debería tratar null como nulo o inexistente', () => {
+      expect(ids({ nickname: null })).toEqual([1, 2, 3, 4]);
+    });
+
+    it('debería ignorar condiciones undefined', () => {
+      expect(ids({ status: undefined })).toEqual([1, 2, 3, 4]);
+    });
+
+    it('debería acceder a campos anidados con rutas de puntos', () => {
+      expect(ids({ 'address.city': 'Lima' })).toEqual([1, 3]);
+    });
+  });
+
+  describe('operadores lógicos', () => {
+    it('debería combinar filtros con $and, $or y $not', () => {
+      expect(ids({ $or: [{ age: { $lt: 18 } }, { status: 'pending' }] })).toEqual([1, 4]);
+      expect(ids({ $and: [{ status: 'active' }, { age: { $gte: 18 } }] })).toEqual([3]);
+      expect(ids({ $not: { status: 'active' } })).toEqual([2, 4]);
+      expect(ids({ 'address.city': 'Lima', $or: [{ age: 17 }, { age: 41 }] })).toEqual([1]);
+    });
+  });
+
+  describe('integración con IndexedDBManager', () => {
+    let manager: IndexedDBManager;
+
+    beforeEach(async () => {
+      manager = new IndexedDBManager(
+        { name: `QueryDB_${Date.now()}_${Math.random()}`, version: 1, store: 'people' },
+        { adapter: new MemoryAdapter() }
+      );
+      await manager.openDatabase();
+      await manager.addMany(people);
+    });
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    it('debería aplicar operadores en searchData y filter', async () => {
+      const adults = await manager.searchData({ age: { $gte: 18 } }, { orderBy: 'age', orderDirection: 'desc' });
+      expect(adults.items.map(p => p.id)).toEqual([4, 3, 2]);
+      expect(adults.total).toBe(3);
+
+      const fromLima = await manager.filter({ 'address.city': 'Lima', tags: 'admin' });
+      expect(fromLima.map(p => p.id)).toEqual([1]);
+    });
+
+    it('debería aplicar operadores a través de StoreProxy', async () => {
+      const store = manager.store('people');
+      const result = await store.search({ $or: [{ status: 'pending' }, { age: { $lt: 18 } }] });
+      expect(result.items.map(p => p.id).sort()).toEqual([1, 4]);
+
+      const filtered = await store.filter({ name: { $regex: 'a$' } });
+      expect(filtered.map(p => p.id)).toEqual([1, 3]);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { QueryPlanner } from '../../src/core/query/QueryPlanner.js';
+import { matchesQuery } from '../../src/core/query/QueryMatcher.js';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import type { DatabaseIndex, DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const indexes: DatabaseIndex[] = [
+  { name: 'email', keyPath: 'email', unique: true },
+  { name: 'age', keyPath: 'age', unique: false },
+  { name: 'status', keyPath: 'status', unique: false },
+  { name: 'tags', keyPath: 'tags', unique: false, multiEntry: true },
+  { name: 'status_age', keyPath: ['status', 'age'], unique: false }
+];
+
+const people = [
+  { id: 1, email: 'ana@test.com', name: 'Ana', age: 17, status: 'active', tags: ['admin', 'dev'] },
+  { id: 2, email: 'bruno@test.com', name: 'Bruno', age: 25, status: 'inactive', tags: ['dev'] },
+  { id: 3, email: 'carla@test.com', name: 'Carla', age: 32, status: 'active', tags: [] },
+  { id: 4, email: 'diego@test.com', name: 'Diego', age: 41, status: 'pending', tags: ['ops'] },
+  { id: 5, email: 'elena@test.com', name: 'Elena', age: 25, status: 'active', tags: ['dev', 'ops'] }
+];
+
+describe('Core > QueryPlanner', () => {
+  const planner = new QueryPlanner();
+
+  describe('plan()', () => {
+    it('debería preferir la igualdad sobre un índice único', () => {
+      const plan = planner.plan({ email: 'ana@test.com', age: { $gt: 10 } }, indexes);
+      expect(plan.strategy).toBe('index');
+      expect(plan.indexName).toBe('email');
+      expect(plan.range).toEqual({ lower: 'ana@test.com', upper: 'ana@test.com' });
+      expect(plan.residual).toEqual({ age: { $gt: 10 } });
+    });
+
+    it('debería usar índices compuestos cuando todas sus partes son igualdades', () => {
+      const plan = planner.plan({ status: 'active', age: 25 }, indexes);
+      expect(plan.indexName).toBe('status_age');
+      expect(plan.range).toEqual({ lower: ['active', 25], upper: ['active', 25] });
+      expect(plan.residual).toEqual({});
+    });
+
+    it('debería convertir operadores de rango en un rango acotado al tipo de la clave', () => {
+      const plan = planner.plan({ age: { $gt: 18 } }, indexes);
+      expect(plan.indexName).toBe('age');
+      expect(plan.range).toEqual({ lower: 18, upper: Infinity, lowerOpen: true, upperOpen: false });
+      expect(plan.residual).toEqual({});
+    });
+
+    it('debería conservar la condición completa cuando el rango no la expresa', () => {
+      const plan = planner.plan({ age: { $gte: 18, $ne: 25 } }, indexes);
+      expect(plan.indexName).toBe('age');
+      expect(plan.residual).toEqual({ age: { $gte: 18, $ne: 25 } });
+
+      const equality = planner.plan({ age: { $eq: 25, $gt: 30 } }, indexes);
+      expect(equality.range).toEqual({ lower: 25, upper: 25 });
+      expect(equality.residual).toEqual({ age: { $eq: 25, $gt: 30 } });
+    });
+
+    it('debería usar campos dentro de $and', () => {
+      const plan = planner.plan({ $and: [{ status: 'pending' }, { name: 'Diego' }] }, indexes);
+      expect(plan.indexName).toBe('status');
+      expect(plan.residual).toEqual({ $and: [{ name: 'Diego' }] });
+    });
+
+    it('debería recorrer la tienda completa sin campos indexados', () => {
+      expect(planner.plan({ name: 'Ana' }, indexes).strategy).toBe('scan');
+      expect(planner.plan({ $or: [{ status: 'active' }, { age: 41 }] }, indexes).strategy).toBe('scan');
+    });
+
+    it('debería usar un índice para satisfacer orderBy', () => {
+      const plan = planner.plan({ name: { $regex: 'a' } }, indexes, { orderBy: 'age', orderDirection: 'desc' });
+      expect(plan.indexName).toBe('age');
+      expect(plan.orderOnly).toBe(true);
+      expect(plan.direction).toBe('prev');
+    });
+
+    it('debería marcar los índices multiEntry', () => {
+      const plan = planner.plan({ tags: 'dev' }, indexes);
+      expect(plan.indexName).toBe('tags');
+      expect(plan.multiEntry).toBe(true);
+    });
+  });
+
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(`consultas indexadas con ${adapterName}`, () => {
+      let manager: IndexedDBManager;
+
+      beforeEach(async () => {
+        const schema: DatabaseSchema = {
+          name: `PlannerDB_${Date.now()}_${Math.random()}`,
+          version: 1,
+          stores: [
+            { name: 'people', keyPath: 'id', indexes },
+            {
+              name: 'labels',
+              keyPath: 'id',
+              indexes: [
+                { name: 'tags', keyPath: 'tags', unique: false },
+                { name: 'score', keyPath: 'score', unique: false },
+                { name: 'kind_tags', keyPath: ['kind', 'tags'], unique: false }
+              ]
+            }
+          ]
+        };
+        manager = await IndexedDBManager.initializeWithSchema(schema, { adapter: createAdapter() });
+        await manager.store('people').addMany(people);
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería devolver los mismos resultados que un recorrido completo', async () => {
+        const store = manager.store('people');
+        const queries = [
+          { status: 'active' },
+          { age: { $gte: 25, $lt: 41 } },
+          { age: { $gt: 18 }, status: { $ne: 'pending' } },
+          { status: 'active', age: 25 },
+          { tags: 'dev' },
+          { tags: { $in: ['ops'] }, age: { $lte: 41 } },
+          { tags: { $gt: 'admin', $lt: 'dev' } }
+        ];
+
+        for (const query of queries) {
+          const indexed = await store.filter(query);
+          const all = await store.getAll();
+          const expected = all.filter(person => matchesQuery(person, query));
+          expect(indexed.map(p => p.id).sort()).toEqual(expected.map(p => p.id).sort());
+        }
+      });
+
+      it('debería separar fechas y números igual con y sin índice', async () => {
+        const labels = manager.store('labels');
+        await labels.addMany([{ id: 1, score: 3 }, { id: 2, score: 10 }, { id: 3, score: new Date(10) }]);
+
+        for (const query of [{ score: { $gt: 5 } }, { score: { $gt: new Date(5) } }]) {
+          const indexed = await labels.filter(query);
+          const expected = (await labels.getAll()).filter(label => matchesQuery(label, query));
+          expect(indexed.map(label => label.id)).toEqual(expected.map(label => label.id));
+        }
+        expect((await labels.filter({ score: { $gt: 5 } })).map(label => label.id)).toEqual([2]);
+      });
+
+      it('no debería usar índices simples sobre campos con arrays', async () => {
+        const store = manager.store('labels');
+        await store.addMany([
+          { id: 1, kind: 'x', tags: ['a', 'b'], score: [3, 10] },
+          { id: 2, kind: 'x', tags: 'a', score: 7 },
+          { id: 3, kind: 'y', tags: 'c', score: 2 }
+        ]);
+        const queries = [
+          { tags: 'a' },
+          { score: { $gt: 5 } },
+          { kind: 'x', tags: 'a' }
+        ];
+
+        for (const query of queries) {
+          const indexed = await store.filter(query);
+          const expected = (await store.getAll()).filter(label => matchesQuery(label, query));
+          expect(indexed.map(label => label.id)).toEqual(expected.map(label => label.id));
+          expect(indexed.map(label => label.id)).toContain(1);
+          expect((await store.explain(query)).strategy).toBe('scan');
+        }
+      });
+
+      it('debería volver a comprobar el índice tras escribir un array en el campo', async () => {
+        const store = manager.store('labels');
+        await store.add({ id: 1, kind: 'x', tags: 'a', score: 7 });
+        expect((await store.explain({ tags: 'a' })).strategy).toBe('index');
+
+        await store.add({ id: 2, kind: 'x', tags: ['a', 'b'], score: 3 });
+        expect((await store.filter({ tags: 'a' })).map(label => label.id)).toEqual([1, 2]);
+        expect((await store.explain({ tags: 'a' })).strategy).toBe('scan');
+      });
+
+      it('debería paginar en el orden del índice', async () => {
+        const store = manager.store('people');
+        const result = await store.search({ age: { $gte: 20 } }, { orderBy: 'age', offset: 1, limit: 2 });
+        expect(result.total).toBe(4);
+        expect(result.items.map(p => p.age)).toEqual([25, 32]);
+
+        const desc = await store.search({}, { orderBy: 'age', orderDirection: 'desc', limit: 2 });
+        expect(desc.items.map(p => p.id)).toEqual([4, 3]);
+      });
+
+      it('no debería duplicar registros de índices multiEntry', async () => {
+        const result = await manager.store('people').search({ tags: { $in: ['dev', 'ops'] } });
+        expect(result.total).toBe(4);
+        expect(result.items.map(p => p.id).sort()).toEqual([1, 2, 4, 5]);
+      });
+
+      it('debería mantener los índices al actualizar y eliminar', async () => {
+        const store = manager.store('people');
+        await store.update({ id: 4, email: 'diego@test.com', name: 'Diego', age: 42, status: 'active', tags: [] });
+        await store.delete(1);
+
+        const active = await store.filter({ status: 'active' });
+        expect(active.map(p => p.id).sort()).toEqual([3, 4, 5]);
+        expect(await store.filter({ status: 'pending' })).toHaveLength(0);
+        expect(await store.filter({ tags: 'admin' })).toHaveLength(0);
+      });
+
+      describe('explain()', () => {
+        it('debería describir un recorrido por índice', async () => {
+          const explanation = await manager.store('people').explain(
+            { status: 'active', name: { $ne: 'Ana' } },
+            { orderBy: 'name' }
+          );
+
+          expect(explanation.storeName).toBe('people');
+          expect(explanation.strategy).toBe('index');
+          expect(explanation.indexName).toBe('status');
+          expect(explanation.range).toEqual({ lower: 'active', upper: 'active' });
+          expect(explanation.postFilter).toEqual({ name: { $ne: 'Ana' } });
+          expect(explanation.sort).toBe('memory');
+          expect(explanation.estimatedRecords).toBe(3);
+          expect(explanation.recordsExamined).toBe(3);
+          expect(explanation.totalMatches).toBe(2);
+          expect(explanation.recordsReturned).toBe(2);
+        });
+
+        it('debería aplicar solo el postFilter que reporta', async () => {
+          const query = { tags: 'dev', age: { $gt: 20 } };
+          const explanation = await manager.store('people').explain(query);
+
+          expect(explanation.indexName).toBe('tags');
+          expect(explanation.postFilter).toEqual({ age: { $gt: 20 } });
+          expect(explanation.totalMatches).toBe(2);
+          expect((await manager.store('people').filter(query)).map(p => p.id).sort()).toEqual([2, 5]);
+        });
+
+        it('debería leer solo la página cuando el índice resuelve la consulta', async () => {
+          const explanation = await manager.store('people').explain(
+            { age: { $gte: 20 } },
+            { orderBy: 'age', orderDirection: 'desc', limit: 2 }
+          );
+
+          expect(explanation.direction).toBe('prev');
+          expect(explanation.sort).toBe('index');
+          expect(explanation.estimatedRecords).toBe(4);
+          // The page plus one look-ahead entry to know whether there is a next page
+          expect(explanation.recordsExamined).toBe(3);
+          expect(explanation.totalMatches).toBe(4);
+        });
+
+        it('debería reportar un recorrido completo sin índice aplicable', async () => {
+          const explanation = await manager.store('people').explain({ name: { $regex: '^[AB]' } });
+
+          expect(explanation.strategy).toBe('scan');
+          expect(explanation.indexName).toBeUndefined();
+          expect(explanation.sort).toBe('none');
+          expect(explanation.estimatedRecords).toBe(5);
+          expect(explanation.recordsExamined).toBe(5);
+          expect(explanation.recordsReturned).toBe(2);
+        });
+      });
+    });
+  });
+});
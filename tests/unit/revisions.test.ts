@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import { ConflictError } from '../../src/core/errors.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const createSchema = (): DatabaseSchema => ({
+  name: `RevisionsDB_${Date.now()}_${Math.random()}`,
+  version: 1,
+  stores: [
+    { name: 'docs', keyPath: 'id', versioned: true },
+    { name: 'notes', keyPath: 'id', versioned: 'version' },
+    { name: 'plain', keyPath: 'id' }
+  ]
+});
+
+describe('Core > Revisions', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let manager: IndexedDBManager;
+
+      beforeEach(async () => {
+        manager = await IndexedDBManager.initializeWithSchema(createSchema(), { adapter: createAdapter() });
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería incrementar la revisión en cada escritura', async () => {
+        const docs = manager.store('docs');
+        expect(await docs.add({ id: 1, title: 'Borrador' })).toEqual({ id: 1, title: 'Borrador', _rev: 1 });
+        expect((await docs.add({ id: 1, title: 'Guardado' }))._rev).toBe(2);
+        expect((await docs.update({ id: 1, title: 'Editado' }))?._rev).toBe(3);
+
+        await docs.addMany([{ id: 1, title: 'Lote' }, { id: 2, title: 'Nuevo' }]);
+        expect((await docs.get(1))?._rev).toBe(4);
+        expect((await docs.get(2))?._rev).toBe(1);
+
+        await docs.updateMany([{ id: 1, title: 'Lote 2' }, { id: 2, title: 'Nuevo 2' }]);
+        expect((await docs.getMany([1, 2])).map(doc => doc._rev)).toEqual([5, 2]);
+      });
+
+      it('debería usar el nombre de campo configurado y no tocar stores sin versión', async () => {
+        expect(await manager.store('notes').add({ id: 1, text: 'a' })).toEqual({ id: 1, text: 'a', version: 1 });
+        expect(await manager.store('plain').add({ id: 1, text: 'a' })).toEqual({ id: 1, text: 'a' });
+      });
+
+      it('debería ignorar la revisión que envía el cliente', async () => {
+        const docs = manager.store('docs');
+        await docs.add({ id: 1, title: 'Borrador' });
+        expect((await docs.update({ id: 1, title: 'Editado', _rev: 40 }))?._rev).toBe(2);
+      });
+
+      it('debería actualizar con ifMatch si la revisión coincide', async () => {
+        await manager.store('docs').add({ id: 1, title: 'Borrador' });
+        const updated = await manager.updateDataByIdInStore('docs', 1, { title: 'Editado' }, { ifMatch: 1 });
+        expect(updated).toEqual({ id: 1, title: 'Editado', _rev: 2 });
+      });
+
+      it('debería lanzar ConflictError y conservar el registro si la revisión difiere', async () => {
+        const docs = manager.store('docs');
+        await docs.add({ id: 1, title: 'Borrador' });
+        await docs.update({ id: 1, title: 'Otra pestaña' });
+
+        const error = await docs.update({ id: 1, title: 'Editado' }, { ifMatch: 1 }).catch(error => error);
+        expect(error).toBeInstanceOf(ConflictError);
+        expect(error).toMatchObject({ storeName: 'docs', id: 1, expectedRevision: 1, actualRevision: 2 });
+        expect(await docs.get(1)).toEqual({ id: 1, title: 'Otra pestaña', _rev: 2 });
+      });
+
+      it('debería aceptar solo una de dos actualizaciones concurrentes con el mismo ifMatch', async () => {
+        await manager.store('docs').add({ id: 1, title: 'Borrador' });
+
+        const results = await Promise.allSettled([
+          manager.updateDataByIdInStore('docs', 1, { title: 'Primera' }, { ifMatch: 1 }),
+          manager.updateDataByIdInStore('docs', 1, { title: 'Segunda' }, { ifMatch: 1 })
+        ]);
+
+        expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+        expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+        expect(await manager.store('docs').get(1)).toEqual({ id: 1, title: 'Primera', _rev: 2 });
+      });
+
+      it('debería revertir todo el lote si una revisión esperada no coincide', async () => {
+        const docs = manager.store('docs');
+        await docs.addMany([{ id: 1, title: 'A' }, { id: 2, title: 'B' }, { id: 3, title: 'C' }]);
+        await docs.update({ id: 3, title: 'C2' });
+        const before = await docs.getAll();
+
+        await expect(docs.updateMany(
+          [{ id: 1, title: 'A!' }, { id: 2, title: 'B!' }, { id: 3, title: 'C!' }],
+          { ifMatch: [1, undefined, 1] }
+        )).rejects.toThrow(ConflictError);
+        expect(await docs.getAll()).toEqual(before);
+
+        await docs.updateMany([{ id: 1, title: 'A!' }, { id: 3, title: 'C!' }], { ifMatch: [1, 2] });
+        expect((await docs.getMany([1, 3])).map(doc => doc._rev)).toEqual([2, 3]);
+      });
+
+      it('debería rechazar ifMatch en stores sin versión', async () => {
+        await manager.store('plain').add({ id: 1, text: 'a' });
+        await expect(manager.store('plain').update({ id: 1, text: 'b' }, { ifMatch: 1 })).rejects.toThrow('versioned');
+      });
+
+      it('debería comprobar ifMatch dentro de una transacción', async () => {
+        await manager.store('docs').add({ id: 1, title: 'Borrador' });
+
+        await expect(manager.transaction(['docs'], 'readwrite', async tx => {
+          await tx.store('docs').update({ id: 1, title: 'Primero' }, { ifMatch: 1 });
+          await tx.store('docs').update({ id: 1, title: 'Segundo' }, { ifMatch: 1 });
+        })).rejects.toThrow(ConflictError);
+        expect(await manager.store('docs').get(1)).toEqual({ id: 1, title: 'Borrador', _rev: 1 });
+      });
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { defineSchema, store } from '../../src/core/schema/SchemaBuilder.js';
+import { StoreNotFoundError } from '../../src/core/errors.js';
+
+type User = { id: number; email: string; age: number; profile: { city: string } };
+type Note = { id: number; title: string };
+
+const createSchema = () => defineSchema({
+  name: `SchemaBuilderDB_${Date.now()}_${Math.random()}`,
+  version: 1,
+  stores: {
+    users: store<User, 'byEmail' | 'byCity'>({
+      keyPath: 'id',
+      indexes: [
+        { name: 'byEmail', keyPath: 'email', unique: true },
+        { name: 'byCity', keyPath: 'profile.city' }
+      ]
+    }),
+    notes: store<Note>()
+  }
+});
+
+describe('Core > SchemaBuilder', () => {
+  let manager: IndexedDBManager<any, any, any> | undefined;
+
+  afterEach(() => {
+    manager?.close();
+  });
+
+  it('debería crear un DatabaseSchema con los stores declarados por nombre', () => {
+    const schema = createSchema();
+
+    expect(schema.stores).toEqual([
+      {
+        name: 'users',
+        keyPath: 'id',
+        indexes: [
+          { name: 'byEmail', keyPath: 'email', unique: true },
+          { name: 'byCity', keyPath: 'profile.city', unique: false }
+        ]
+      },
+      { name: 'notes' }
+    ]);
+    expect(schema.version).toBe(1);
+  });
+
+  it('debería abrir la base de datos con los stores e índices del esquema', async () => {
+    const typed = await IndexedDBManager.initializeWithSchema(createSchema(), { adapter: new MemoryAdapter() });
+    manager = typed;
+
+    await typed.store('users').addMany([
+      { id: 1, email: 'ana@example.com', age: 30, profile: { city: 'Madrid' } },
+      { id: 2, email: 'luis@example.com', age: 17, profile: { city: 'Sevilla' } },
+      { id: 3, email: 'eva@example.com', age: 41, profile: { city: 'Madrid' } }
+    ]);
+    await typed.store('notes').add({ id: 1, title: 'Hola' });
+
+    const fromMadrid = await typed.store('users').getAllFromIndex('byCity', 'Madrid');
+    expect(fromMadrid.map(user => user.id)).toEqual([1, 3]);
+    expect(await typed.store('users').getAllFromIndex('byEmail', { lower: 'eva', upper: 'm' })).toHaveLength(2);
+    expect((await typed.store('notes').get(1))?.title).toBe('Hola');
+  });
+
+  it('debería rechazar stores e índices que el esquema no declara', async () => {
+    manager = await IndexedDBManager.initializeWithSchema(createSchema(), { adapter: new MemoryAdapter() });
+
+    expect(() => manager!.store('posts')).toThrow(StoreNotFoundError);
+    await expect(manager.store('notes').getAllFromIndex('byTitle')).rejects.toThrow('not found');
+  });
+});
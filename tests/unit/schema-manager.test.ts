@@ -236,4 +236,57 @@ describe('Core > SchemaManager', () => {
       expect(storeConfig?.indexes?.[0].name).toBe('email');
     });
   });
+
+  describe('diff()', () => {
+    const email = { name: 'email', keyPath: 'email', unique: false };
+
+    it('debería detectar stores añadidos y eliminados', () => {
+      const changes = SchemaManager.diff(
+        { stores: [{ name: 'users' }, { name: 'logs' }] },
+        { stores: [{ name: 'users' }, { name: 'posts' }] }
+      );
+
+      expect(changes).toEqual([
+        { type: 'addStore', store: 'posts', destructive: false },
+        { type: 'removeStore', store: 'logs', destructive: true }
+      ]);
+    });
+
+    it('debería detectar cambios de keyPath tomando "id" por defecto', () => {
+      expect(SchemaManager.diff({ stores: [{ name: 'users' }] }, { stores: [{ name: 'users', keyPath: 'id' }] })).toEqual([]);
+      expect(SchemaManager.diff({ stores: [{ name: 'users' }] }, { stores: [{ name: 'users', keyPath: 'uuid' }] })).toEqual([
+        { type: 'changeKeyPath', store: 'users', from: 'id', to: 'uuid', fromAutoIncrement: false, toAutoIncrement: false, destructive: true }
+      ]);
+    });
+
+    it('debería recrear el store si solo cambia autoIncrement', () => {
+      expect(SchemaManager.diff({ stores: [{ name: 'users' }] }, { stores: [{ name: 'users', autoIncrement: true }] })).toEqual([
+        { type: 'changeKeyPath', store: 'users', from: 'id', to: 'id', fromAutoIncrement: false, toAutoIncrement: true, destructive: true }
+      ]);
+    });
+
+    it('debería detectar índices añadidos, eliminados y cambios de unicidad', () => {
+      const age = { name: 'age', keyPath: 'age', unique: false };
+      const changes = SchemaManager.diff(
+        { stores: [{ name: 'users', indexes: [email, age] }] },
+        { stores: [{ name: 'users', indexes: [{ ...email, unique: true }, { name: 'city', keyPath: 'city', unique: false }] }] }
+      );
+
+      expect(changes).toEqual([
+        { type: 'removeIndex', store: 'users', index: age, destructive: false },
+        { type: 'changeUnique', store: 'users', index: { ...email, unique: true }, from: false, to: true, destructive: false },
+        { type: 'addIndex', store: 'users', index: { name: 'city', keyPath: 'city', unique: false }, destructive: false }
+      ]);
+    });
+
+    it('debería recrear un índice cuyo keyPath cambia', () => {
+      const moved = { ...email, keyPath: ['contact', 'email'] };
+      const changes = SchemaManager.diff(
+        { stores: [{ name: 'users', indexes: [email] }] },
+        { stores: [{ name: 'users', indexes: [moved] }] }
+      );
+
+      expect(changes.map(change => change.type)).toEqual(['removeIndex', 'addIndex']);
+    });
+  });
 });
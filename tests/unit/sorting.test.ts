@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { normalizeSort, createSortComparator, getSortValues } from '../../src/core/query/Sorting.js';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import type { DatabaseSchema, SortField } from '../../src/types/index.js';
+import type { StoreProxy } from '../../src/core/IndexedDBManager.js';
+
+const sortValues = (values: unknown[], orderBy: SortField | SortField[]) => {
+  const sort = normalizeSort({ orderBy });
+  const compare = createSortComparator(sort);
+  return values
+    .map(value => [value])
+    .sort((a, b) => compare(a, b))
+    .map(([value]) => value);
+};
+
+describe('Core > Sorting', () => {
+  describe('normalizeSort()', () => {
+    it('debería aceptar un nombre de campo con orderDirection', () => {
+      expect(normalizeSort({ orderBy: 'age', orderDirection: 'desc' })).toEqual([
+        { field: 'age', direction: 'desc', nulls: 'first' }
+      ]);
+    });
+
+    it('debería aplicar valores por defecto a cada campo', () => {
+      expect(normalizeSort({ orderBy: [{ field: 'team' }, { field: 'score', direction: 'desc', nulls: 'last' }] })).toEqual([
+        { field: 'team', direction: 'asc', nulls: 'last' },
+        { field: 'score', direction: 'desc', nulls: 'last' }
+      ]);
+      expect(normalizeSort({})).toEqual([]);
+    });
+
+    it('debería rechazar campos vacíos', () => {
+      expect(() => normalizeSort({ orderBy: [{ field: '' }] })).toThrow('field name');
+    });
+  });
+
+  describe('createSortComparator()', () => {
+    it('debería colocar null y undefined según nulls', () => {
+      expect(sortValues([3, null, 1, undefined], { field: 'v' })).toEqual([1, 3, null, undefined]);
+      expect(sortValues([3, null, 1], { field: 'v', nulls: 'first' })).toEqual([null, 1, 3]);
+      expect(sortValues([3, null, 1], { field: 'v', direction: 'desc', nulls: 'last' })).toEqual([3, 1, null]);
+    });
+
+    it('debería ordenar tipos mezclados de forma determinista', () => {
+      const date = new Date('2024-01-01');
+      expect(sortValues(['b', 2, date, true, 'a', 1], { field: 'v' })).toEqual([true, 1, 2, date, 'a', 'b']);
+    });
+
+    it('debería usar Intl.Collator cuando se indica collation', () => {
+      const names = ['Zoe', 'Ángel', 'ana', 'Bea'];
+      expect(sortValues(names, { field: 'v' })).toEqual(['Bea', 'Zoe', 'ana', 'Ángel']);
+      expect(sortValues(names, { field: 'v', collation: { locale: 'es', sensitivity: 'base' } }))
+        .toEqual(['ana', 'Ángel', 'Bea', 'Zoe']);
+    });
+
+    it('debería soportar collation numérica', () => {
+      const codes = ['item10', 'item2', 'item1'];
+      expect(sortValues(codes, { field: 'v' })).toEqual(['item1', 'item10', 'item2']);
+      expect(sortValues(codes, { field: 'v', collation: { numeric: true } })).toEqual(['item1', 'item2', 'item10']);
+    });
+
+    it('debería leer rutas con puntos', () => {
+      const sort = normalizeSort({ orderBy: [{ field: 'address.city' }] });
+      expect(getSortValues({ address: { city: 'Lima' } }, sort)).toEqual(['Lima']);
+    });
+  });
+
+  describe('searchData con orderBy múltiple', () => {
+    let manager: IndexedDBManager;
+    let store: StoreProxy<any>;
+
+    beforeEach(async () => {
+      const schema: DatabaseSchema = {
+        name: `SortingDB_${Date.now()}_${Math.random()}`,
+        version: 1,
+        stores: [{
+          name: 'players',
+          keyPath: 'id',
+          indexes: [{ name: 'team_score', keyPath: ['team', 'score'], unique: false }]
+        }]
+      };
+      manager = await IndexedDBManager.initializeWithSchema(schema, { adapter: new MemoryAdapter() });
+      store = manager.store('players');
+      await store.addMany([
+        { id: 1, name: 'Óscar', team: 'red', score: 50, profile: { city: 'Quito' } },
+        { id: 2, name: 'ana', team: 'blue', score: 70, profile: { city: 'Lima' } },
+        { id: 3, name: 'Bruno', team: 'red', score: 90, profile: {} },
+        { id: 4, name: 'Zoe', team: 'blue', score: 70, profile: { city: 'Cusco' } },
+        { id: 5, name: 'Ángel', team: 'red', score: 50, profile: { city: 'Lima' } }
+      ]);
+    });
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    it('debería ordenar por varios campos con direcciones distintas', async () => {
+      const result = await store.search({}, {
+        orderBy: [{ field: 'team' }, { field: 'score', direction: 'desc' }, { field: 'name' }]
+      });
+      // Sin collation los strings se comparan por code unit: 'Zoe' < 'ana' y 'Ángel' < 'Óscar'
+      expect(result.items.map(p => p.id)).toEqual([4, 2, 3, 5, 1]);
+    });
+
+    it('debería ordenar por rutas con puntos y nulls', async () => {
+      const result = await store.search({}, { orderBy: [{ field: 'profile.city', nulls: 'first' }, { field: 'id' }] });
+      expect(result.items.map(p => p.id)).toEqual([3, 4, 2, 5, 1]);
+    });
+
+    it('debería ordenar strings con collation', async () => {
+      const result = await store.search({}, { orderBy: { field: 'name', collation: { locale: 'es' } } });
+      expect(result.items.map(p => p.name)).toEqual(['ana', 'Ángel', 'Bruno', 'Óscar', 'Zoe']);
+    });
+
+    it('debería usar un índice compuesto cuando cubre el orden', async () => {
+      const orderBy: SortField[] = [{ field: 'team', direction: 'desc' }, { field: 'score', direction: 'desc' }];
+      const explanation = await store.explain({}, { orderBy });
+      expect(explanation.sort).toBe('index');
+      expect(explanation.indexName).toBe('team_score');
+
+      const result = await store.search({}, { orderBy });
+      expect(result.items.map(p => p.id)).toEqual([3, 5, 1, 4, 2]);
+
+      const collated = await store.explain({}, { orderBy: [{ field: 'team', collation: { locale: 'es' } }, { field: 'score' }] });
+      expect(collated.sort).toBe('memory');
+    });
+
+    it('debería paginar con cursores sobre orden múltiple', async () => {
+      const orderBy: SortField[] = [{ field: 'score', direction: 'desc' }, { field: 'name', collation: { locale: 'es' } }];
+      const first = await store.search({}, { orderBy, limit: 2 });
+      const second = await store.search({}, { orderBy, limit: 2, after: first.nextCursor! });
+      const third = await store.search({}, { orderBy, limit: 2, after: second.nextCursor! });
+
+      expect([...first.items, ...second.items, ...third.items].map(p => p.id)).toEqual([3, 2, 4, 5, 1]);
+      expect(third.nextCursor).toBeUndefined();
+
+      await expect(store.search({}, { orderBy: 'score', after: first.nextCursor! })).rejects.toThrow('different orderBy');
+    });
+  });
+});
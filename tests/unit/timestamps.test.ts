@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import type { DatabaseSchema, IndexedDBManagerOptions } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const createSchema = (): DatabaseSchema => ({
+  name: `TimestampsDB_${Date.now()}_${Math.random()}`,
+  version: 1,
+  stores: [
+    { name: 'users', keyPath: 'id', timestamps: true },
+    { name: 'events', keyPath: 'id', timestamps: { createdAt: 'created', updatedAt: false, format: 'iso' } },
+    { name: 'notes', keyPath: 'id' },
+    { name: 'logs', keyPath: 'id', timestamps: false }
+  ]
+});
+
+describe('Core > Timestamps', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let now: number;
+      let manager: IndexedDBManager;
+
+      const open = async (options: IndexedDBManagerOptions = {}) => {
+        manager = await IndexedDBManager.initializeWithSchema(createSchema(), {
+          adapter: createAdapter(),
+          ...options
+        });
+      };
+
+      beforeEach(async () => {
+        now = 1_000;
+        await open({ timestamps: { clock: () => now } });
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería fijar createdAt al crear y conservarlo en cada actualización', async () => {
+        const users = manager.store('users');
+        expect(await users.add({ id: 1, name: 'Ana' })).toEqual({ id: 1, name: 'Ana', createdAt: 1_000, updatedAt: 1_000 });
+
+        now = 2_000;
+        expect(await users.update({ id: 1, name: 'Ana María' })).toMatchObject({ createdAt: 1_000, updatedAt: 2_000 });
+
+        now = 3_000;
+        await users.add({ id: 1, name: 'Ana', createdAt: 5 });
+        expect(await users.get(1)).toEqual({ id: 1, name: 'Ana', createdAt: 1_000, updatedAt: 3_000 });
+      });
+
+      it('debería mantener las fechas en las operaciones por lotes', async () => {
+        const users = manager.store('users');
+        await users.add({ id: 1, name: 'Ana' });
+
+        now = 2_000;
+        await users.addMany([{ id: 1, name: 'Ana' }, { id: 2, name: 'Luis' }]);
+        expect((await users.getAll()).map(user => [user.createdAt, user.updatedAt])).toEqual([[1_000, 2_000], [2_000, 2_000]]);
+
+        now = 3_000;
+        await users.updateMany([{ id: 2, name: 'Luis Pérez' }]);
+        expect(await users.get(2)).toMatchObject({ createdAt: 2_000, updatedAt: 3_000 });
+
+        now = 4_000;
+        await manager.modifyWhereInStore('users', { id: 1 }, { name: 'Ana María' });
+        expect(await users.get(1)).toMatchObject({ createdAt: 1_000, updatedAt: 4_000 });
+      });
+
+      it('debería respetar los nombres, el formato y la desactivación de cada store', async () => {
+        const event = await manager.store('events').add({ id: 1 });
+        expect(event).toEqual({ id: 1, created: '1970-01-01T00:00:01.000Z' });
+
+        now = 2_000;
+        expect(await manager.store('events').update({ id: 1, kind: 'click' })).toEqual({
+          id: 1,
+          kind: 'click',
+          created: '1970-01-01T00:00:01.000Z'
+        });
+        expect(await manager.store('logs').add({ id: 1 })).toEqual({ id: 1 });
+      });
+
+      it('debería aplicar la opción del gestor a los stores que no declaran la suya', async () => {
+        expect(await manager.store('notes').add({ id: 1 })).toEqual({ id: 1, createdAt: 1_000, updatedAt: 1_000 });
+        manager.close();
+
+        await open();
+        expect(await manager.store('notes').add({ id: 1 })).toEqual({ id: 1 });
+        const user = await manager.store('users').add({ id: 1 });
+        expect(typeof user.createdAt).toBe('number');
+        expect(user.updatedAt).toBe(user.createdAt);
+      });
+    });
+  });
+});
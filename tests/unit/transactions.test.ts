@@ -0,0 +1,346 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { Emitter } from '../../src/core/Emitter.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import type { DatabaseSchema } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const createSchema = (prefix: string): DatabaseSchema => ({
+  name: `${prefix}_${Date.now()}_${Math.random()}`,
+  version: 1,
+  stores: [
+    { name: 'orders', keyPath: 'id' },
+    { name: 'items', keyPath: 'id', indexes: [{ name: 'orderId', keyPath: 'orderId', unique: false }] },
+    { name: 'logs', keyPath: 'id' }
+  ]
+});
+
+describe('Core > Transactions', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let manager: IndexedDBManager;
+      let adapter: StorageAdapter;
+
+      const failPutOf = (id: number) => {
+        const put = adapter.put.bind(adapter);
+        adapter.put = async (store, value, key) => {
+          if (value.id === id) throw new Error('disco lleno');
+          return put(store, value, key);
+        };
+      };
+
+      beforeEach(async () => {
+        adapter = createAdapter();
+        manager = await IndexedDBManager.initializeWithSchema(createSchema('TransactionsDB'), { adapter });
+        manager.setEmitterInstance(new Emitter());
+        await manager.store('orders').add({ id: 1, total: 10 });
+        await manager.store('items').add({ id: 1, orderId: 1, sku: 'A' });
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería confirmar las escrituras en todos los stores', async () => {
+        const result = await manager.transaction(['orders', 'items'], 'readwrite', async tx => {
+          const order = await tx.store('orders').add({ id: 2, total: 30 });
+          await tx.store('items').addMany([
+            { id: 2, orderId: order.id, sku: 'B' },
+            { id: 3, orderId: order.id, sku: 'C' }
+          ]);
+          return order.id;
+        });
+
+        expect(result).toBe(2);
+        expect(await manager.store('orders').count()).toBe(2);
+        expect((await manager.store('items').getAll()).map(item => item.sku).sort()).toEqual(['A', 'B', 'C']);
+      });
+
+      it('debería revertir todos los stores si el callback falla', async () => {
+        const attempt = manager.transaction(['orders', 'items'], 'readwrite', async tx => {
+          await tx.store('orders').add({ id: 2, total: 30 });
+          await tx.store('orders').update({ id: 1, total: 99 });
+          await tx.store('items').delete(1);
+          await tx.store('items').add({ id: 2, orderId: 2, sku: 'B' });
+          throw new Error('sin stock');
+        });
+
+        await expect(attempt).rejects.toThrow('sin stock');
+        expect(await manager.store('orders').getAll()).toEqual([{ id: 1, total: 10 }]);
+        expect(await manager.store('items').getAll()).toEqual([{ id: 1, orderId: 1, sku: 'A' }]);
+      });
+
+      it('debería restaurar un store vaciado con clear', async () => {
+        await expect(manager.transaction(['items'], 'readwrite', async tx => {
+          await tx.store('items').clear();
+          expect(await tx.store('items').count()).toBe(0);
+          throw new Error('cancelado');
+        })).rejects.toThrow('cancelado');
+
+        expect(await manager.store('items').get(1)).toEqual({ id: 1, orderId: 1, sku: 'A' });
+        expect(await manager.searchDataInStore('items', { orderId: 1 })).toMatchObject({ total: 1 });
+      });
+
+      it('debería emitir los eventos solo tras confirmar', async () => {
+        const events = new Emitter();
+        manager.setEmitterInstance(events);
+        const added: unknown[] = [];
+        events.on('add', data => added.push(data));
+
+        await manager.transaction(['orders'], 'readwrite', async tx => {
+          await tx.store('orders').add({ id: 2, total: 30 });
+          expect(added.length).toBe(0);
+        });
+        expect(added.length).toBe(1);
+
+        await manager.transaction(['orders'], 'readwrite', async tx => {
+          await tx.store('orders').add({ id: 3, total: 40 });
+          throw new Error('abortada');
+        }).catch(() => {});
+        expect(added.length).toBe(1);
+      });
+
+      it('debería rechazar stores fuera del alcance y escrituras en modo readonly', async () => {
+        await expect(manager.transaction(['orders'], 'readwrite', async tx => {
+          tx.store('logs');
+        })).rejects.toThrow("Store 'logs' is not part of this transaction");
+
+        await expect(manager.transaction(['orders'], 'readonly', async tx => {
+          expect(await tx.store('orders').get(1)).toEqual({ id: 1, total: 10 });
+          await tx.store('orders').add({ id: 2, total: 30 });
+        })).rejects.toThrow('readonly');
+
+        await expect(manager.transaction(['missing'], 'readonly', () => null)).rejects.toThrow("Store 'missing' not found");
+        expect(await manager.store('orders').count()).toBe(1);
+      });
+
+      it('debería ejecutar en orden las transacciones concurrentes', async () => {
+        const order: string[] = [];
+        const first = manager.transaction(['orders'], 'readwrite', async tx => {
+          order.push('first:start');
+          await new Promise(resolve => setTimeout(resolve, 5));
+          await tx.store('orders').add({ id: 2, total: 20 });
+          order.push('first:end');
+          throw new Error('falla');
+        });
+        const second = manager.transaction(['orders'], 'readwrite', async tx => {
+          order.push('second:start');
+          await tx.store('orders').add({ id: 3, total: 30 });
+        });
+
+        await expect(first).rejects.toThrow('falla');
+        await second;
+        expect(order).toEqual(['first:start', 'first:end', 'second:start']);
+        expect((await manager.store('orders').getAll()).map(order => order.id).sort()).toEqual([1, 3]);
+      });
+
+      it('no debería deshacer las escrituras hechas fuera de una transacción abortada', async () => {
+        let started!: () => void;
+        let release!: () => void;
+        const running = new Promise<void>(resolve => { started = resolve; });
+        const gate = new Promise<void>(resolve => { release = resolve; });
+
+        const attempt = manager.transaction(['orders'], 'readwrite', async tx => {
+          await tx.store('orders').add({ id: 2, total: 20 });
+          started();
+          await gate;
+          throw new Error('abortada');
+        });
+        await running;
+        // Saves and updates check and write in their own transaction, so they wait for this one
+        const add = manager.store('orders').add({ id: 3, total: 30 });
+        const update = manager.store('orders').update({ id: 1, total: 15 });
+        release();
+
+        await expect(attempt).rejects.toThrow('abortada');
+        expect(await add).toEqual({ id: 3, total: 30 });
+        await update;
+        expect(await manager.store('orders').getAll()).toEqual([{ id: 1, total: 15 }, { id: 3, total: 30 }]);
+      });
+
+      it('no debería resucitar un registro borrado fuera de una transacción abortada', async () => {
+        let started!: () => void;
+        let release!: () => void;
+        const running = new Promise<void>(resolve => { started = resolve; });
+        const gate = new Promise<void>(resolve => { release = resolve; });
+
+        const attempt = manager.transaction(['orders'], 'readwrite', async tx => {
+          await tx.store('orders').update({ id: 1, total: 99 });
+          started();
+          await gate;
+          throw new Error('abortada');
+        });
+        await running;
+        const removal = manager.store('orders').delete(1);
+        release();
+
+        await expect(attempt).rejects.toThrow('abortada');
+        await removal;
+        expect(await manager.store('orders').getAll()).toEqual([]);
+      });
+
+      it('debería unir a la transacción las llamadas del manager hechas desde ella', async () => {
+        const events = new Emitter();
+        manager.setEmitterInstance(events);
+        const emitted: string[] = [];
+        ['add', 'update', 'delete'].forEach(event => events.on(event, () => emitted.push(event)));
+
+        const attempt = manager.transaction(['orders', 'items'], 'readwrite', async () => {
+          await manager.store('orders').update({ id: 1, total: 15 });
+          await manager.store('orders').add({ id: 2, total: 20 });
+          await manager.store('items').addMany([{ id: 2, orderId: 2, sku: 'B' }]);
+          await manager.store('items').delete(1);
+          await manager.transaction(['orders'], 'readwrite', async tx => {
+            await tx.store('orders').add({ id: 3, total: 30 });
+          });
+          expect(emitted).toEqual([]);
+          throw new Error('abortada');
+        });
+
+        await expect(attempt).rejects.toThrow('abortada');
+        expect(emitted).toEqual([]);
+        expect(await manager.store('orders').getAll()).toEqual([{ id: 1, total: 10 }]);
+        expect(await manager.store('items').getAll()).toEqual([{ id: 1, orderId: 1, sku: 'A' }]);
+
+        await manager.transaction(['orders'], 'readwrite', async () => {
+          await manager.store('orders').update({ id: 1, total: 15 });
+          await manager.transaction(['orders'], 'readwrite', async tx => {
+            await tx.store('orders').add({ id: 2, total: 20 });
+          });
+        });
+        expect(emitted).toEqual(['update', 'add']);
+        expect(await manager.store('orders').getAll()).toEqual([{ id: 1, total: 15 }, { id: 2, total: 20 }]);
+      });
+
+      it('debería rechazar desde una transacción las llamadas que necesitan otros stores', async () => {
+        await expect(manager.transaction(['orders'], 'readwrite', async () => {
+          await manager.transaction(['orders', 'logs'], 'readwrite', async tx => {
+            await tx.store('logs').add({ id: 1 });
+          });
+        })).rejects.toThrow("Cannot use 'logs' inside the transaction over 'orders'");
+        expect(await manager.store('logs').count()).toBe(0);
+      });
+
+      it('no debería unir a una transacción ajena un lote hecho fuera de ella', async () => {
+        let started!: () => void;
+        let release!: () => void;
+        const running = new Promise<void>(resolve => { started = resolve; });
+        const gate = new Promise<void>(resolve => { release = resolve; });
+
+        const attempt = manager.transaction(['orders'], 'readwrite', async tx => {
+          await tx.store('orders').add({ id: 2, total: 20 });
+          started();
+          await gate;
+          throw new Error('abortada');
+        });
+        await running;
+        const batch = manager.store('orders').addMany([{ id: 3, total: 30 }, { id: 4, total: 40 }]);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        release();
+
+        await expect(attempt).rejects.toThrow('abortada');
+        expect(await batch).toBe(true);
+        expect((await manager.store('orders').getAll()).map(order => order.id)).toEqual([1, 3, 4]);
+      });
+
+      it('debería dejar el store intacto si un lote falla a mitad', async () => {
+        const items = manager.store('items');
+        await items.add({ id: 2, orderId: 1, sku: 'B' });
+        const before = await items.getAll();
+        failPutOf(4);
+
+        expect(await items.addMany([
+          { id: 1, orderId: 1, sku: 'A2' },
+          { id: 3, orderId: 1, sku: 'C' },
+          { id: 4, orderId: 1, sku: 'D' }
+        ])).toBe(false);
+        expect(await items.updateMany([
+          { id: 2, orderId: 9, sku: 'B2' },
+          { id: 4, orderId: 9, sku: 'D' }
+        ])).toBe(false);
+
+        expect(await items.getAll()).toEqual(before);
+        expect(await manager.searchDataInStore('items', { orderId: 9 })).toMatchObject({ total: 0 });
+      });
+
+      it('debería deshacer solo el lote fallido dentro de una transacción', async () => {
+        failPutOf(4);
+
+        await manager.transaction(['orders', 'items'], 'readwrite', async tx => {
+          await tx.store('orders').add({ id: 2, total: 20 });
+          await expect(tx.store('items').addMany([
+            { id: 3, orderId: 2, sku: 'C' },
+            { id: 4, orderId: 2, sku: 'D' }
+          ])).rejects.toThrow('disco lleno');
+          await tx.store('items').add({ id: 5, orderId: 2, sku: 'E' });
+        });
+
+        expect((await manager.store('orders').getAll()).map(order => order.id)).toEqual([1, 2]);
+        expect((await manager.store('items').getAll()).map(item => item.id)).toEqual([1, 5]);
+      });
+
+      it('no debería permitir usar el handle después de terminar', async () => {
+        let leaked: any;
+        await manager.transaction(['orders'], 'readwrite', tx => {
+          leaked = tx.store('orders');
+        });
+        await expect(leaked.add({ id: 5, total: 1 })).rejects.toThrow('already finished');
+      });
+    });
+  });
+
+  describe('NodeAdapter con persistencia', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'idb-tx-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('debería reescribir el archivo con los datos previos al revertir', async () => {
+      const schema = createSchema('TransactionsFileDB');
+      const manager = await IndexedDBManager.initializeWithSchema(schema, { adapter: new NodeAdapter(dir) });
+      await manager.store('orders').add({ id: 1, total: 10 });
+
+      await expect(manager.transaction(['orders', 'items'], 'readwrite', async tx => {
+        await tx.store('orders').add({ id: 2, total: 20 });
+        await tx.store('items').add({ id: 1, orderId: 2, sku: 'A' });
+        throw new Error('revertir');
+      })).rejects.toThrow('revertir');
+
+      const saved = JSON.parse(fs.readFileSync(path.join(dir, `${schema.name}.json`), 'utf-8'));
+      expect(Object.keys(saved.stores.orders.data)).toEqual(['1']);
+      expect(saved.stores.items.data).toEqual({});
+      manager.close();
+    });
+
+    it('debería escribir el archivo una sola vez al confirmar', async () => {
+      const schema = createSchema('TransactionsFileDB');
+      const manager = await IndexedDBManager.initializeWithSchema(schema, { adapter: new NodeAdapter(dir) });
+      const file = path.join(dir, `${schema.name}.json`);
+      const readOrders = () => Object.keys(JSON.parse(fs.readFileSync(file, 'utf-8')).stores.orders.data);
+      await manager.store('orders').add({ id: 1, total: 10 });
+
+      await manager.transaction(['orders'], 'readwrite', async tx => {
+        await tx.store('orders').add({ id: 2, total: 20 });
+        await tx.store('orders').addMany([{ id: 3, total: 30 }]);
+        expect(readOrders()).toEqual(['1']);
+      });
+
+      expect(readOrders()).toEqual(['1', '2', '3']);
+      manager.close();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { IndexedDBManager } from '../../src/core/IndexedDBManager.js';
+import { MemoryAdapter } from '../../src/adapters/memory.js';
+import { NodeAdapter } from '../../src/adapters/node.js';
+import { ValidationError } from '../../src/core/errors.js';
+import { importDataToDatabase } from '../../src/utils/database.js';
+import type { DatabaseSchema, JSONSchemaObject, StandardSchemaV1 } from '../../src/types/index.js';
+import type { StorageAdapter } from '../../src/adapters/types.js';
+
+const createSchema = (): DatabaseSchema => ({
+  name: `ValidationDB_${Date.now()}_${Math.random()}`,
+  version: 1,
+  stores: [
+    {
+      name: 'users',
+      keyPath: 'id',
+      validation: {
+        requiredFields: ['name', 'email'],
+        optionalFields: ['age'],
+        validators: {
+          email: (value: string) => value.includes('@') || 'must contain @',
+          age: (value: number) => value >= 0
+        },
+        uniqueFields: ['email']
+      }
+    },
+    { name: 'notes', keyPath: 'id' },
+    {
+      name: 'accounts',
+      keyPath: 'handle',
+      indexes: [{ name: 'email', keyPath: 'email', unique: false }],
+      validation: { requiredFields: ['email'], optionalFields: [], uniqueFields: ['email'] }
+    },
+    { name: 'products', keyPath: 'id', validation: productSchema },
+    { name: 'orders', keyPath: 'id', validation: orderSchema }
+  ]
+});
+
+const productSchema: JSONSchemaObject = {
+  type: 'object',
+  required: ['id', 'name', 'price'],
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string', minLength: 1 },
+    price: { type: 'number', minimum: 0 },
+    tags: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+// Standard Schema validator with an asynchronous check, like the ones libraries expose
+const orderSchema: StandardSchemaV1<unknown, { id: number; total: number }> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: async value => {
+      const order = value as { total?: unknown };
+      return typeof order.total === 'number'
+        ? { value: value as { id: number; total: number } }
+        : { issues: [{ message: 'Expected number', path: [{ key: 'total' }] }] };
+    }
+  }
+};
+
+describe('Core > Validation', () => {
+  const adapters: Array<[string, () => StorageAdapter]> = [
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['NodeAdapter', () => new NodeAdapter('./test-data', { inMemory: true })]
+  ];
+
+  adapters.forEach(([adapterName, createAdapter]) => {
+    describe(adapterName, () => {
+      let manager: IndexedDBManager;
+      let adapter: StorageAdapter;
+
+      beforeEach(async () => {
+        adapter = createAdapter();
+        manager = await IndexedDBManager.initializeWithSchema(createSchema(), { adapter });
+        await manager.store('users').add({ id: 1, name: 'Ana', email: 'ana@example.com' });
+      });
+
+      afterEach(() => {
+        manager.close();
+      });
+
+      it('debería listar los problemas de cada campo', async () => {
+        const error = await manager.store('users').add({ id: 2, email: 'luis', age: -1 }).catch(error => error);
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.fields).toEqual({
+          name: ['is required'],
+          email: ['must contain @'],
+          age: ['is invalid']
+        });
+        expect(error.message).toContain("store 'users'");
+        expect(await manager.store('users').count()).toBe(1);
+      });
+
+      it('debería validar el registro resultante al actualizar', async () => {
+        await expect(manager.updateDataByIdInStore('users', 1, { name: null })).rejects.toThrow(ValidationError);
+        expect((await manager.updateDataByIdInStore('users', 1, { age: 30 }))?.age).toBe(30);
+        expect(await manager.store('users').get(1)).toMatchObject({ name: 'Ana', age: 30 });
+      });
+
+      it('debería exigir valores únicos en todo el store', async () => {
+        const error = await manager.store('users').add({ id: 2, name: 'Ana B', email: 'ana@example.com' }).catch(error => error);
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.fields).toEqual({ email: ['must be unique'] });
+
+        await manager.store('users').add({ id: 1, name: 'Ana García', email: 'ana@example.com' });
+        expect(await manager.store('users').count()).toBe(1);
+      });
+
+      it('debería comprobar los campos únicos en su índice sin leer el store', async () => {
+        const accounts = manager.store('accounts');
+        await accounts.add({ handle: 'ana', email: 'ana@example.com' });
+        const getAll = adapter.getAll.bind(adapter);
+        let reads = 0;
+        adapter.getAll = async store => {
+          reads++;
+          return getAll(store);
+        };
+
+        await accounts.add({ handle: 'luis', email: 'luis@example.com' });
+        await accounts.add({ handle: 'ana', email: 'ana@example.com' });
+        const error = await accounts.add({ handle: 'eva', email: 'luis@example.com' }).catch(error => error);
+        await expect(manager.updateDataByIdInStore('accounts', 'ana', { email: 'luis@example.com' })).rejects.toThrow(ValidationError);
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.fields).toEqual({ email: ['must be unique'] });
+        expect(error.message).toContain("Invalid record eva for store 'accounts'");
+        expect(reads).toBe(0);
+      });
+
+      it('debería aceptar solo uno de dos registros concurrentes con el mismo valor único', async () => {
+        const results = await Promise.allSettled([
+          manager.store('users').add({ id: 2, name: 'Luis', email: 'luis@example.com' }),
+          manager.store('users').add({ id: 3, name: 'Luis B', email: 'luis@example.com' })
+        ]);
+
+        expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+        expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ValidationError);
+        expect(await manager.store('users').count()).toBe(2);
+      });
+
+      it('debería validar cada elemento de un lote, incluidos los repetidos dentro del lote', async () => {
+        const users = manager.store('users');
+        expect(await users.addMany([
+          { id: 2, name: 'Luis', email: 'luis@example.com' },
+          { id: 3, name: 'Luisa', email: 'luis@example.com' }
+        ])).toBe(false);
+        expect(await users.count()).toBe(1);
+
+        const result = await users.addManyWithResults([
+          { id: 2, name: 'Luis', email: 'luis@example.com' },
+          { id: 3, email: 'eva@example.com' }
+        ], { mode: 'bestEffort' });
+        expect(result.succeeded).toEqual([{ index: 0, id: 2 }]);
+        expect((result.failed[0]!.error as ValidationError).fields).toEqual({ name: ['is required'] });
+      });
+
+      it('debería validar updateMany contra los demás registros', async () => {
+        await manager.store('users').add({ id: 2, name: 'Luis', email: 'luis@example.com' });
+
+        expect(await manager.store('users').updateMany([
+          { id: 2, name: 'Luis', email: 'ana@example.com' }
+        ])).toBe(false);
+
+        await manager.store('users').updateMany([{ id: 1, name: 'Ana', email: 'ana2@example.com' }]);
+        expect((await manager.store('users').get(1))?.email).toBe('ana2@example.com');
+      });
+
+      it('debería no validar los stores sin esquema de validación', async () => {
+        expect(await manager.store('notes').add({ id: 1 })).toEqual({ id: 1 });
+      });
+
+      it('debería validar con JSON Schema y listar los problemas anidados', async () => {
+        const products = manager.store('products');
+        await products.add({ id: 1, name: 'Mesa', price: 120, tags: ['salón'] });
+
+        const error = await products.add({ id: 2, name: '', price: -1, tags: ['ok', 3] }).catch(error => error);
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.fields).toEqual({
+          name: ['must have at least 1 characters'],
+          price: ['must be >= 0'],
+          'tags.1': ['must be a string']
+        });
+
+        await expect(manager.updateDataByIdInStore('products', 1, { price: 'gratis' })).rejects.toThrow(ValidationError);
+        expect(await products.addMany([{ id: 3, name: 'Silla' }])).toBe(false);
+        expect(await products.count()).toBe(1);
+      });
+
+      it('debería validar con un validador Standard Schema asíncrono', async () => {
+        const orders = manager.store('orders');
+        await orders.add({ id: 1, total: 10 });
+
+        const error = await orders.add({ id: 2, total: '10' }).catch(error => error);
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.fields).toEqual({ total: ['Expected number'] });
+
+        const result = await orders.addManyWithResults([{ id: 3, total: 5 }, { id: 4 }], { mode: 'bestEffort' });
+        expect(result.succeeded).toEqual([{ index: 0, id: 3 }]);
+        expect(result.failed[0]!.error).toBeInstanceOf(ValidationError);
+      });
+    });
+  });
+
+  describe('importDataToDatabase', () => {
+    const config = { name: `ValidationImportDB_${Date.now()}`, version: 1, store: 'products' };
+    const items = [
+      { id: 1, name: 'Mesa', price: 120 },
+      { id: 2, name: 'Silla', price: -5 },
+      { id: 3, name: 'Lámpara', price: 30 }
+    ];
+
+    it('debería omitir los elementos que no cumplen el esquema', async () => {
+      const adapter = new NodeAdapter('./test-data', { inMemory: true });
+      expect(await importDataToDatabase(config, items, { schema: productSchema }, adapter)).toBe(true);
+
+      const db = await adapter.openDatabase(config.name, config.version);
+      expect((await adapter.getAll({ db, storeName: 'products' })).map(item => item.id)).toEqual([1, 3]);
+    });
+
+    it('debería lanzar ValidationError con throwOnError', async () => {
+      const error = await importDataToDatabase(config, items, { schema: orderSchema, throwOnError: true }, new NodeAdapter('./test-data', { inMemory: true }))
+        .catch(error => error);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.fields).toEqual({ total: ['Expected number'] });
+    });
+  });
+});